@@ -10,11 +10,20 @@ import YAML from 'yaml'
 
 import { CoordinationDatabase } from './database/connection.js'
 import { MessageManager } from './core/message-manager.js'
+import { ConversationManager } from './core/conversation-manager.js'
 import { ParticipantRegistry } from './core/participant-registry.js'
 import { IndexingEngine } from './core/indexing-engine.js'
 import { CompactionEngine } from './core/compaction-engine.js'
+import { ScheduleManager } from './core/schedule-manager.js'
+import { TaskManager } from './core/task-manager.js'
+import { GroupRegistry } from './core/group-registry.js'
+import { ContentCollector } from './core/content-collector.js'
+import { ChangeFeed } from './core/change-feed.js'
+import { AdrStore } from './core/adr-store.js'
+import { renderHandoffBrief } from './core/handoff-store.js'
 import { CoordinationMCPServer } from './mcp/server.js'
 import { validateInput } from './utils/validation.js'
+import { buildThreadTree } from './utils/thread-tree.js'
 import {
   discoverDatabases,
   suggestBestDatabase,
@@ -24,11 +33,18 @@ import { createMigrateCommand } from './cli/commands/migrate.js'
 import { DatabasePurger, PurgeLevel } from './database/purger.js'
 import {
   CoordinationConfig,
+  DEFAULT_ADR_DIRECTORY,
   ParticipantId,
   SendMessageInput,
   GetMessagesInput,
   SearchMessagesInput,
   CompactThreadInput,
+  ListThreadsInput,
+  SetThreadExpiryInput,
+  TriageMessageInput,
+  VoteChoice,
+  TaskState,
+  CreateScheduleInput,
   Priority,
 } from './types/index.js'
 
@@ -83,6 +99,9 @@ program
           priority_threshold: 'M',
           batch_notifications: true,
         },
+        escalation_rules: [],
+        expiry_policies: [],
+        adr_directory: DEFAULT_ADR_DIRECTORY,
       }
 
       await fs.writeFile(configPath, YAML.stringify(config), 'utf-8')
@@ -190,6 +209,9 @@ program
           priority_threshold: 'M',
           batch_notifications: true,
         },
+        escalation_rules: [],
+        expiry_policies: [],
+        adr_directory: DEFAULT_ADR_DIRECTORY,
       }
 
       await fs.writeFile(configPath, YAML.stringify(config), 'utf-8')
@@ -384,273 +406,1458 @@ program
 program
   .command('send')
   .description('Send a coordination message')
-  .option('--to <participants>', 'Target participants (comma-separated)')
+  .option(
+    '--to <participants>',
+    'Recipients (comma-separated): @participant, @all, cap:<capability> or group:<name>'
+  )
+  .option('--type <type>', 'Message type', 'sync')
+  .option('--priority <priority>', 'Priority level', 'M')
+  .option('--subject <subject>', 'Message subject')
+  .option('--content <content>', 'Message content')
+  .option('--at <datetime>', 'Schedule delivery for a later time (ISO 8601, e.g. 2025-01-31T09:00)')
+  .option('--depends-on <ids>', 'Message IDs this message waits on (comma-separated)')
+  .option('--route-to <capability>', 'Add one active participant with this capability')
+  .option('--routing <strategy>', 'How --route-to picks: least_loaded or round_robin')
+  .option('--reassign-after <minutes>', 'Re-route if the picked participant has not responded')
+  .option('--attach <files>', 'Files to attach (comma-separated paths, up to 10 MB each)')
+  .option(
+    '--proposal <quorum>',
+    'Send an arch or contract message as a proposal to vote on: all, majority or approvers'
+  )
+  .option(
+    '--approvers <participants>',
+    'Participants whose votes decide (comma-separated), for --proposal approvers'
+  )
+  .action(async options => {
+    try {
+      const config = await loadConfig()
+      const db = new CoordinationDatabase(config.data_directory)
+      const messageManager = new MessageManager(db, config.data_directory, config.expiry_policies)
+
+      const input: SendMessageInput = {
+        to: options.to
+          ? (options.to.split(',').map((p: string) => p.trim()) as ParticipantId[])
+          : [],
+        type: options.type,
+        priority: options.priority,
+        subject: options.subject,
+        content: options.content,
+        response_required: true,
+        send_at: options.at ? new Date(options.at) : undefined,
+        depends_on: options.dependsOn
+          ? options.dependsOn.split(',').map((id: string) => id.trim())
+          : undefined,
+        route_to: options.routeTo,
+        routing: options.routing,
+        reassign_after_minutes: options.reassignAfter ? Number(options.reassignAfter) : undefined,
+        attachments: options.attach
+          ? options.attach.split(',').map((file: string) => ({ path: file.trim() }))
+          : undefined,
+        proposal: options.proposal
+          ? {
+              quorum: options.proposal,
+              approvers: options.approvers
+                ? (options.approvers.split(',').map((p: string) => p.trim()) as ParticipantId[])
+                : undefined,
+            }
+          : undefined,
+      }
+
+      const message = await messageManager.createMessage(input, config.participant_id)
+
+      if (message.send_at) {
+        console.log(chalk.green(`⏰ Message scheduled for ${message.send_at.toLocaleString()}`))
+      } else {
+        console.log(chalk.green('✅ Message sent successfully!'))
+      }
+      console.log(`ID: ${message.id}`)
+      console.log(`Thread: ${message.thread_id}`)
+      if (message.routing) {
+        console.log(`Routed to: ${message.routing.assigned_to} (${message.routing.capability})`)
+      }
+      for (const attachment of message.attachments ?? []) {
+        console.log(`Attached: ${attachment.filename} [${attachment.id}]`)
+      }
+      if (message.proposal) {
+        console.log(
+          `Proposal: ${message.proposal.quorum} quorum of ${message.proposal.voters.join(', ')}`
+        )
+      }
+      if (message.blocked) {
+        console.log(chalk.yellow(`Blocked by: ${message.blocked_by?.join(', ')}`))
+      }
+
+      db.close()
+    } catch (error) {
+      console.error(chalk.red('Failed to send message:'), error)
+      process.exit(1)
+    }
+  })
+
+// List messages
+program
+  .command('list')
+  .description('List coordination messages')
+  .option('--status <status>', 'Filter by status')
+  .option('--type <type>', 'Filter by type')
+  .option('--priority <priority>', 'Filter by priority')
+  .option('--limit <limit>', 'Maximum number of messages', '20')
+  .option('--cursor <cursor>', 'Continue from the cursor printed by the previous page')
+  .option(
+    '--triage <kinds>',
+    'Only messages you marked (comma-separated: pinned, starred, snoozed, done)'
+  )
+  .action(async options => {
+    try {
+      const config = await loadConfig()
+      const db = new CoordinationDatabase(config.data_directory)
+      const messageManager = new MessageManager(db, config.data_directory, config.expiry_policies)
+
+      const input: GetMessagesInput = {
+        status: options.status ? [options.status] : undefined,
+        type: options.type ? [options.type] : undefined,
+        priority: options.priority ? [options.priority] : undefined,
+        limit: parseInt(options.limit),
+        cursor: options.cursor,
+        detail_level: 'summary',
+        triage: options.triage
+          ? options.triage.split(',').map((kind: string) => kind.trim())
+          : undefined,
+      }
+
+      const { messages, next_cursor } = await messageManager.getMessagesPage(
+        input,
+        config.participant_id
+      )
+
+      if (messages.length === 0) {
+        console.log(chalk.yellow('📭 No messages found'))
+        return
+      }
+
+      console.log(chalk.blue(`📨 Found ${messages.length} messages:`))
+      console.log()
+
+      for (const msg of messages) {
+        const statusIcon =
+          msg.status === 'pending'
+            ? '⏳'
+            : msg.status === 'read'
+              ? '👁️'
+              : msg.status === 'responded'
+                ? '💬'
+                : msg.status === 'resolved'
+                  ? '✅'
+                  : '📁'
+
+        const priorityColor =
+          msg.priority === 'CRITICAL'
+            ? chalk.red
+            : msg.priority === 'H'
+              ? chalk.magenta
+              : msg.priority === 'M'
+                ? chalk.yellow
+                : chalk.green
+
+        const marks = `${msg.triage?.pinned ? ' 📌' : ''}${msg.triage?.starred ? ' ⭐' : ''}`
+        console.log(
+          `${statusIcon} ${priorityColor(msg.priority)} ${chalk.bold(msg.id)} - ${msg.subject}${marks}`
+        )
+        console.log(`   ${chalk.gray(`From: ${msg.from} → To: ${msg.to.join(', ')}`)}`)
+        console.log(
+          `   ${chalk.gray(`Type: ${msg.type} | Created: ${msg.created_at.toLocaleDateString()}`)}`
+        )
+        console.log(`   ${msg.summary.substring(0, 100)}${msg.summary.length > 100 ? '...' : ''}`)
+        console.log()
+      }
+
+      if (next_cursor) {
+        console.log(chalk.gray(`More messages: rerun with --cursor ${next_cursor}`))
+      }
+
+      db.close()
+    } catch (error) {
+      console.error(chalk.red('Failed to list messages:'), error)
+      process.exit(1)
+    }
+  })
+
+// List scheduled messages
+program
+  .command('scheduled')
+  .description('List messages you scheduled that have not been sent yet')
+  .action(async () => {
+    try {
+      const config = await loadConfig()
+      const db = new CoordinationDatabase(config.data_directory)
+      const messageManager = new MessageManager(db, config.data_directory, config.expiry_policies)
+
+      const messages = await messageManager.listScheduledMessages(config.participant_id)
+
+      if (messages.length === 0) {
+        console.log(chalk.yellow('⏰ No scheduled messages'))
+        db.close()
+        return
+      }
+
+      console.log(chalk.blue(`⏰ ${messages.length} scheduled messages:`))
+      console.log()
+
+      for (const msg of messages) {
+        console.log(`${chalk.bold(msg.id)} - ${msg.subject}`)
+        console.log(
+          `   ${chalk.gray(`To: ${msg.to.join(', ')} | Send at: ${msg.send_at?.toLocaleString()}`)}`
+        )
+        console.log()
+      }
+
+      db.close()
+    } catch (error) {
+      console.error(chalk.red('Failed to list scheduled messages:'), error)
+      process.exit(1)
+    }
+  })
+
+// Show what changed since the last call
+program
+  .command('changes')
+  .description('Show what changed since you last checked')
+  .option('--since <seq>', 'Show changes after this sequence number instead of your saved one')
+  .option('--limit <limit>', 'Maximum number of changes', '100')
+  .action(async options => {
+    try {
+      const config = await loadConfig()
+      const db = new CoordinationDatabase(config.data_directory)
+      const changeFeed = new ChangeFeed(db)
+
+      const result = await changeFeed.getChanges(
+        {
+          since_seq: options.since !== undefined ? parseInt(options.since) : undefined,
+          limit: parseInt(options.limit),
+        },
+        config.participant_id
+      )
+      db.close()
+
+      if (result.changes.length === 0) {
+        console.log(chalk.yellow(`🔄 No changes (high-water mark ${result.high_water_mark})`))
+        return
+      }
+
+      console.log(chalk.blue(`🔄 ${result.changes.length} changes:`))
+      console.log()
+
+      for (const change of result.changes) {
+        const target = change.message_id ?? `thread ${change.thread_id}`
+        const status = change.status ? ` → ${change.status}` : ''
+        console.log(`${chalk.gray(`#${change.seq}`)} ${change.kind} ${chalk.bold(target)}${status}`)
+      }
+
+      console.log()
+      console.log(chalk.gray(`High-water mark: ${result.high_water_mark}`))
+      if (result.has_more) {
+        console.log(chalk.gray('More changes are waiting; run again to continue'))
+      }
+    } catch (error) {
+      console.error(chalk.red('Failed to get changes:'), error)
+      process.exit(1)
+    }
+  })
+
+// Read a message
+program
+  .command('read <id>')
+  .description('Show a message in full and mark it as read')
+  .action(async id => {
+    try {
+      const config = await loadConfig()
+      const db = new CoordinationDatabase(config.data_directory)
+      const messageManager = new MessageManager(db, config.data_directory, config.expiry_policies)
+
+      const msg = await messageManager.getMessageById(id, config.participant_id, 'full')
+      if (!msg) {
+        console.error(chalk.red(`Message not found: ${id}`))
+        db.close()
+        process.exit(1)
+      }
+
+      if (msg.to.includes(config.participant_id)) {
+        await messageManager.markRead({ message_ids: [msg.id] }, config.participant_id)
+      }
+
+      console.log(chalk.blue(`📨 ${msg.subject}`))
+      console.log(`ID: ${msg.id}`)
+      console.log(`Thread: ${msg.thread_id}`)
+      console.log(`From: ${msg.from} → To: ${msg.to.join(', ')}`)
+      console.log(`Type: ${msg.type} | Priority: ${msg.priority} | Status: ${msg.status}`)
+      console.log(`Created: ${msg.created_at.toLocaleString()}`)
+
+      if (msg.recipients) {
+        console.log()
+        console.log(chalk.blue('Read receipts:'))
+        for (const recipient of msg.recipients) {
+          const readAt = recipient.read_at
+            ? chalk.green(`read ${recipient.read_at.toLocaleString()}`)
+            : chalk.yellow('unread')
+          console.log(`   ${recipient.participant}: ${readAt} (${recipient.status})`)
+        }
+      }
+
+      if (msg.attachments) {
+        console.log()
+        console.log(chalk.blue('Attachments:'))
+        for (const attachment of msg.attachments) {
+          console.log(
+            `   📎 ${attachment.filename} (${attachment.mime_type}, ${attachment.size} bytes) [${attachment.id}]`
+          )
+        }
+      }
+
+      console.log()
+      if (msg.handoff) {
+        console.log(renderHandoffBrief(msg))
+        console.log()
+        console.log(
+          msg.handoff.accepted_by
+            ? `Accepted by ${msg.handoff.accepted_by}`
+            : `Take it over with: ccp handoff accept ${msg.id}`
+        )
+      } else {
+        console.log(msg.content ?? msg.summary)
+      }
+
+      db.close()
+    } catch (error) {
+      console.error(chalk.red('Failed to read message:'), error)
+      process.exit(1)
+    }
+  })
+
+// Attachment commands
+const attachment = program.command('attachment').description('Work with message attachments')
+
+// Save an attachment
+attachment
+  .command('get <id>')
+  .description('Save a file attached to a message')
+  .option('--output <path>', 'Where to save it (defaults to its file name)')
+  .action(async (id, options) => {
+    try {
+      const config = await loadConfig()
+      const db = new CoordinationDatabase(config.data_directory)
+      const messageManager = new MessageManager(db, config.data_directory, config.expiry_policies)
+
+      const { attachment, content } = await messageManager.getAttachment(
+        { attachment_id: id },
+        config.participant_id
+      )
+
+      const outputPath = options.output ?? attachment.filename
+      await fs.writeFile(outputPath, content)
+
+      console.log(chalk.green(`✅ Saved ${attachment.filename} to ${outputPath}`))
+      console.log(`Type: ${attachment.mime_type} | Size: ${attachment.size} bytes`)
+      console.log(`sha256: ${attachment.sha256}`)
+
+      db.close()
+    } catch (error) {
+      console.error(chalk.red('Failed to get attachment:'), error)
+      process.exit(1)
+    }
+  })
+
+// Content store commands
+const content = program.command('content').description('Check and maintain stored message content')
+
+// Verify stored content
+content
+  .command('verify')
+  .description('Check that the content of every message and revision is present and intact')
+  .action(async () => {
+    try {
+      const config = await loadConfig()
+      const db = new CoordinationDatabase(config.data_directory)
+      const messageManager = new MessageManager(db, config.data_directory, config.expiry_policies)
+
+      const problems = await messageManager.verifyContent()
+      db.close()
+
+      if (problems.length === 0) {
+        console.log(chalk.green('✅ All stored content is intact'))
+        return
+      }
+
+      console.log(chalk.red(`❌ ${problems.length} content problem(s):`))
+      for (const problem of problems) {
+        const revision = problem.revision !== undefined ? ` (revision ${problem.revision})` : ''
+        console.log(`   ${problem.message_id}${revision}: ${problem.error}`)
+      }
+      process.exit(1)
+    } catch (error) {
+      console.error(chalk.red('Failed to verify content:'), error)
+      process.exit(1)
+    }
+  })
+
+// Migrate per-message content files into the store
+content
+  .command('migrate')
+  .description('Move content from per-message files into the content-addressed store')
+  .action(async () => {
+    try {
+      const config = await loadConfig()
+      const db = new CoordinationDatabase(config.data_directory)
+      const messageManager = new MessageManager(db, config.data_directory, config.expiry_policies)
+
+      const migrated = await messageManager.migrateLegacyContent()
+      console.log(chalk.green(`✅ Moved ${migrated} content file(s) into the content store`))
+      console.log(
+        chalk.gray('Old files under messages/ are left in place; check with `ccp content verify`')
+      )
+
+      db.close()
+    } catch (error) {
+      console.error(chalk.red('Failed to migrate content:'), error)
+      process.exit(1)
+    }
+  })
+
+// Cancel a message
+program
+  .command('cancel <id>')
+  .description('Cancel a message you sent that nobody has responded to yet')
+  .requiredOption('--reason <reason>', 'Why the message is no longer needed')
+  .action(async (id, options) => {
+    try {
+      const config = await loadConfig()
+      const db = new CoordinationDatabase(config.data_directory)
+      const messageManager = new MessageManager(db, config.data_directory, config.expiry_policies)
+
+      const message = await messageManager.cancelMessage(
+        { message_id: id, reason: options.reason },
+        config.participant_id
+      )
+
+      console.log(chalk.green(`🚫 Message ${message.id} cancelled`))
+      console.log(`Notified: ${message.to.join(', ')}`)
+
+      db.close()
+    } catch (error) {
+      console.error(chalk.red('Failed to cancel message:'), error)
+      process.exit(1)
+    }
+  })
+
+// Snooze a message in your own inbox
+program
+  .command('snooze <id>')
+  .description('Hide a message from your inbox until later, without affecting anyone else')
+  .option('--until <datetime>', 'When it comes back (ISO 8601, e.g. 2025-01-31T09:00)')
+  .option('--hours <hours>', 'Bring it back after this many hours')
+  .option('--wake', 'Bring it back now')
+  .action(async (id, options) => {
+    try {
+      const config = await loadConfig()
+      const db = new CoordinationDatabase(config.data_directory)
+      const messageManager = new MessageManager(db, config.data_directory, config.expiry_policies)
+
+      let until: Date | null = null
+      if (options.until) {
+        until = new Date(options.until)
+      } else if (options.hours) {
+        until = new Date(Date.now() + Number(options.hours) * 60 * 60 * 1000)
+      } else if (!options.wake) {
+        throw new Error('Use --until, --hours or --wake')
+      }
+
+      const triage = await messageManager.snoozeMessage(
+        { message_id: id, until },
+        config.participant_id
+      )
+
+      if (triage.snoozed_until) {
+        console.log(chalk.green(`💤 Snoozed ${id} until ${triage.snoozed_until.toLocaleString()}`))
+      } else {
+        console.log(chalk.green(`⏰ ${id} is back in your inbox`))
+      }
+
+      db.close()
+    } catch (error) {
+      console.error(chalk.red('Failed to snooze message:'), error)
+      process.exit(1)
+    }
+  })
+
+// Pin, star or mark a message done for yourself
+program
+  .command('triage <id>')
+  .description('Pin, star or mark a message done for yourself, without changing its status')
+  .option('--pin', 'Pin it')
+  .option('--unpin', 'Unpin it')
+  .option('--star', 'Star it')
+  .option('--unstar', 'Unstar it')
+  .option('--done', 'Mark it done for you: it leaves your inbox')
+  .option('--undone', 'Bring a message you marked done back')
+  .action(async (id, options) => {
+    try {
+      const input: TriageMessageInput = { message_id: id }
+      if (options.pin || options.unpin) {
+        input.pinned = Boolean(options.pin)
+      }
+      if (options.star || options.unstar) {
+        input.starred = Boolean(options.star)
+      }
+      if (options.done || options.undone) {
+        input.done = Boolean(options.done)
+      }
+
+      const config = await loadConfig()
+      const db = new CoordinationDatabase(config.data_directory)
+      const messageManager = new MessageManager(db, config.data_directory, config.expiry_policies)
+
+      const triage = await messageManager.triageMessage(input, config.participant_id)
+
+      console.log(chalk.green(`🗂️ Triage updated for ${id}`))
+      console.log(`Pinned: ${triage.pinned ? 'yes' : 'no'}`)
+      console.log(`Starred: ${triage.starred ? 'yes' : 'no'}`)
+      console.log(`Done: ${triage.done_at ? 'yes' : 'no'}`)
+
+      db.close()
+    } catch (error) {
+      console.error(chalk.red('Failed to triage message:'), error)
+      process.exit(1)
+    }
+  })
+
+// Vote on a proposal
+program
+  .command('vote <id>')
+  .description('Vote on an arch or contract proposal; the vote is posted to its thread')
+  .option('--approve', 'Approve it')
+  .option('--reject', 'Reject it')
+  .option('--abstain', 'Abstain')
+  .option('--rationale <text>', 'Why you vote this way')
+  .action(async (id, options) => {
+    try {
+      const choices = (['approve', 'reject', 'abstain'] as VoteChoice[]).filter(
+        choice => options[choice]
+      )
+      if (choices.length !== 1) {
+        throw new Error('Use exactly one of --approve, --reject or --abstain')
+      }
+
+      const config = await loadConfig()
+      const db = new CoordinationDatabase(config.data_directory)
+      const messageManager = new MessageManager(db, config.data_directory, config.expiry_policies)
+
+      const proposal = await messageManager.vote(
+        { message_id: id, vote: choices[0], rationale: options.rationale },
+        config.participant_id
+      )
+
+      console.log(chalk.green(`🗳️ Voted ${choices[0]} on ${id}`))
+      for (const vote of proposal.votes) {
+        console.log(`   ${vote.participant}: ${vote.vote} - ${vote.rationale}`)
+      }
+      if (proposal.decision) {
+        console.log(chalk.blue(`Decision: ${proposal.decision}`))
+      } else {
+        const waiting = proposal.voters.filter(
+          voter => !proposal.votes.some(vote => vote.participant === voter)
+        )
+        console.log(`Waiting on: ${waiting.join(', ')} (${proposal.quorum} quorum)`)
+      }
+
+      db.close()
+    } catch (error) {
+      console.error(chalk.red('Failed to vote:'), error)
+      process.exit(1)
+    }
+  })
+
+const handoff = program.command('handoff').description('Hand work over between sessions')
+
+// Repeatable options collect into a list
+const collect = (value: string, previous: string[]) => [...previous, value]
+
+// Send handoff
+handoff
+  .command('send')
+  .description('Hand your work over to another session with its state in structured fields')
+  .requiredOption('--to <participants>', 'Who picks the work up (comma-separated)')
+  .requiredOption('--goal <goal>', 'What the work is for and where it stands')
+  .option('--branch <branch>', 'Branch the work is on')
+  .option('--file <path>', 'File you changed or were reading (repeatable)', collect, [])
+  .option('--command <command>', 'Command that matters for carrying on (repeatable)', collect, [])
+  .option('--question <question>', 'Open question (repeatable)', collect, [])
+  .option('--next <step>', 'Next step, in order (repeatable)', collect, [])
+  .option('--notes <notes>', 'Anything the other options do not cover')
+  .option('--priority <priority>', 'Priority level', 'H')
+  .action(async options => {
+    try {
+      const config = await loadConfig()
+      const db = new CoordinationDatabase(config.data_directory)
+      const messageManager = new MessageManager(db, config.data_directory, config.expiry_policies)
+
+      const message = await messageManager.sendHandoff(
+        {
+          to: options.to.split(',').map((p: string) => p.trim()) as ParticipantId[],
+          goal: options.goal,
+          branch: options.branch,
+          files_touched: options.file,
+          commands_run: options.command,
+          open_questions: options.question,
+          next_steps: options.next,
+          notes: options.notes,
+          priority: options.priority,
+        },
+        config.participant_id
+      )
+
+      console.log(chalk.green('🤝 Handoff sent!'))
+      console.log(`ID: ${message.id}`)
+      console.log(`To: ${message.to.join(', ')}`)
+
+      db.close()
+    } catch (error) {
+      console.error(chalk.red('Failed to send handoff:'), error)
+      process.exit(1)
+    }
+  })
+
+// Accept handoff
+handoff
+  .command('accept <id>')
+  .description('Take over the work of a handoff sent to you and print its brief')
+  .action(async id => {
+    try {
+      const config = await loadConfig()
+      const db = new CoordinationDatabase(config.data_directory)
+      const messageManager = new MessageManager(db, config.data_directory, config.expiry_policies)
+
+      const message = await messageManager.acceptHandoff({ message_id: id }, config.participant_id)
+
+      console.log(chalk.green(`🤝 Accepted ${id}`))
+      console.log()
+      console.log(renderHandoffBrief(message))
+
+      db.close()
+    } catch (error) {
+      console.error(chalk.red('Failed to accept handoff:'), error)
+      process.exit(1)
+    }
+  })
+
+// Task board
+program
+  .command('tasks')
+  .description('Show the task board, one column per state')
+  .option('--mine', 'Only tasks assigned to you')
+  .option('--assignee <participant>', 'Only tasks assigned to this participant')
+  .option('--thread <id>', 'Only tasks in this thread')
+  .option('--overdue', 'Only open tasks past their due date')
+  .option('--limit <number>', 'Maximum number of tasks', '50')
+  .action(async options => {
+    try {
+      const config = await loadConfig()
+      const db = new CoordinationDatabase(config.data_directory)
+      const messageManager = new MessageManager(db, config.data_directory, config.expiry_policies)
+      const taskManager = new TaskManager(db, messageManager)
+
+      const tasks = await taskManager.listTasks(
+        {
+          assignee: options.mine ? config.participant_id : options.assignee,
+          thread_id: options.thread,
+          overdue_only: options.overdue,
+          limit: parseInt(options.limit),
+        },
+        config.participant_id
+      )
+
+      if (tasks.length === 0) {
+        console.log(chalk.yellow('📋 No tasks'))
+        db.close()
+        return
+      }
+
+      for (const state of TaskState.options) {
+        const column = tasks.filter(task => task.state === state)
+        console.log(chalk.blue.bold(`${state.toUpperCase()} (${column.length})`))
+        for (const task of column) {
+          const due = task.due_at ? ` | Due: ${task.due_at.toLocaleString()}` : ''
+          console.log(`  ${chalk.bold(task.message_id)} ${task.title}`)
+          console.log(
+            `     ${chalk.gray(`${task.assignee}${due}`)}` +
+              (task.overdue ? chalk.red(' overdue') : '')
+          )
+          if (task.note) {
+            console.log(`     ${chalk.gray(task.note)}`)
+          }
+        }
+        console.log()
+      }
+
+      db.close()
+    } catch (error) {
+      console.error(chalk.red('Failed to show tasks:'), error)
+      process.exit(1)
+    }
+  })
+
+const task = program.command('task').description('Track q and sync messages as tasks')
+
+// Create task
+task
+  .command('add <id>')
+  .description('Turn a q or sync message into a task')
+  .option('--assignee <participant>', 'Who owns it (defaults to you)')
+  .option('--due <datetime>', 'When it is due (ISO 8601, e.g. 2025-01-31T17:00)')
+  .option('--title <title>', 'Title on the board (defaults to the subject)')
+  .action(async (id, options) => {
+    try {
+      const config = await loadConfig()
+      const db = new CoordinationDatabase(config.data_directory)
+      const messageManager = new MessageManager(db, config.data_directory, config.expiry_policies)
+      const taskManager = new TaskManager(db, messageManager)
+
+      const created = await taskManager.createTask(
+        {
+          message_id: id,
+          assignee: options.assignee,
+          due_at: options.due ? new Date(options.due) : undefined,
+          title: options.title,
+        },
+        config.participant_id
+      )
+
+      console.log(chalk.green(`📋 Task created for ${created.assignee}: ${created.title}`))
+
+      db.close()
+    } catch (error) {
+      console.error(chalk.red('Failed to create task:'), error)
+      process.exit(1)
+    }
+  })
+
+// Update task
+task
+  .command('update <id>')
+  .description('Move a task along, reassign it or change its due date; done resolves its message')
+  .option('--state <state>', 'todo, in_progress, blocked or done')
+  .option('--assignee <participant>', 'New owner')
+  .option('--due <datetime>', 'New due date (ISO 8601)')
+  .option('--no-due', 'Clear the due date')
+  .option('--note <text>', 'Short status note')
+  .action(async (id, options) => {
+    try {
+      const config = await loadConfig()
+      const db = new CoordinationDatabase(config.data_directory)
+      const messageManager = new MessageManager(db, config.data_directory, config.expiry_policies)
+      const taskManager = new TaskManager(db, messageManager)
+
+      // --no-due sets due to false; without either option it stays undefined
+      let dueAt: Date | null | undefined
+      if (options.due === false) {
+        dueAt = null
+      } else if (typeof options.due === 'string') {
+        dueAt = new Date(options.due)
+      }
+
+      const updated = await taskManager.updateTask(
+        {
+          message_id: id,
+          state: options.state,
+          assignee: options.assignee,
+          due_at: dueAt,
+          note: options.note,
+        },
+        config.participant_id
+      )
+
+      console.log(chalk.green(`📋 ${id} is ${updated.state}, assigned to ${updated.assignee}`))
+      if (updated.state === 'done') {
+        console.log('   Its message is resolved')
+      }
+
+      db.close()
+    } catch (error) {
+      console.error(chalk.red('Failed to update task:'), error)
+      process.exit(1)
+    }
+  })
+
+// Show system status
+program
+  .command('status')
+  .description('Show coordination system status')
+  .action(async () => {
+    try {
+      const config = await loadConfig()
+      const db = new CoordinationDatabase(config.data_directory)
+      const participantRegistry = new ParticipantRegistry(db, config.data_directory)
+      const indexingEngine = new IndexingEngine(db)
+
+      console.log(chalk.blue('📊 Coordination System Status'))
+      console.log()
+
+      // Database info
+      const dbInfo = db.getInfo()
+      console.log(chalk.green('Database:'))
+      console.log(`  Path: ${dbInfo.path}`)
+      console.log(`  Size: ${Math.round(dbInfo.size / 1024)} KB`)
+      console.log(`  Permissions: ${dbInfo.permissions}`)
+      console.log()
+
+      // Participant info
+      const participants = await participantRegistry.getParticipants()
+      console.log(chalk.green('Participants:'))
+      for (const p of participants) {
+        const statusIcon = p.status === 'active' ? '🟢' : p.status === 'inactive' ? '🔴' : '🟡'
+        console.log(`  ${statusIcon} ${p.id} (${p.capabilities.join(', ')})`)
+      }
+      console.log()
+
+      // Message stats
+      const stats = await indexingEngine.getMessageStats(config.participant_id, 7)
+      console.log(chalk.green('Messages (Last 7 days):'))
+      console.log(`  Total: ${stats.total_messages}`)
+      console.log(`  Sent: ${stats.messages_sent}`)
+      console.log(`  Received: ${stats.messages_received}`)
+      console.log(`  Response Rate: ${Math.round(stats.response_rate * 100)}%`)
+      console.log()
+
+      db.close()
+    } catch (error) {
+      console.error(chalk.red('Failed to get status:'), error)
+      process.exit(1)
+    }
+  })
+
+// Compact thread
+program
+  .command('compact')
+  .description('Compact a conversation thread')
+  .option('--thread-id <id>', 'Thread ID to compact')
+  .option('--strategy <strategy>', 'Compaction strategy', 'summarize')
+  .action(async options => {
+    if (!options.threadId) {
+      console.error(chalk.red('❌ Thread ID is required'))
+      process.exit(1)
+    }
+
+    try {
+      const config = await loadConfig()
+      const db = new CoordinationDatabase(config.data_directory)
+      const compactionEngine = new CompactionEngine(db, config.data_directory)
+
+      const spinner = ora('Compacting thread...').start()
+
+      const input: CompactThreadInput = {
+        thread_id: options.threadId,
+        strategy: options.strategy,
+        preserve_decisions: true,
+        preserve_critical: true,
+      }
+
+      const result = await compactionEngine.compactThread(input, config.participant_id)
+
+      spinner.succeed(chalk.green('✅ Thread compacted successfully!'))
+
+      console.log(`Original messages: ${result.original_count}`)
+      console.log(`Compacted messages: ${result.compacted_count}`)
+      console.log(`Space saved: ${Math.round(result.space_saved_bytes / 1024)} KB`)
+
+      db.close()
+    } catch (error) {
+      console.error(chalk.red('Failed to compact thread:'), error)
+      process.exit(1)
+    }
+  })
+
+// Search messages
+program
+  .command('search')
+  .description('Search coordination messages')
+  .argument('<query>', 'Search query')
+  .option('--limit <limit>', 'Maximum results', '10')
+  .option('--cursor <cursor>', 'Continue from the cursor printed by the previous page')
+  .action(async (query, options) => {
+    try {
+      const config = await loadConfig()
+      const db = new CoordinationDatabase(config.data_directory)
+      const indexingEngine = new IndexingEngine(db)
+
+      const input: SearchMessagesInput = {
+        query,
+        semantic: true,
+        limit: parseInt(options.limit),
+        cursor: options.cursor,
+      }
+
+      const { results, next_cursor } = await indexingEngine.searchMessagesPage(
+        input,
+        config.participant_id
+      )
+
+      if (results.length === 0) {
+        console.log(chalk.yellow(`🔍 No results found for: "${query}"`))
+        return
+      }
+
+      console.log(chalk.blue(`🔍 Found ${results.length} results for: "${query}"`))
+      console.log()
+
+      for (const result of results) {
+        const relevance = Math.round(result.relevance_score * 100)
+        console.log(`${chalk.bold(result.message.id)} (${relevance}% match)`)
+        console.log(`${result.message.subject}`)
+        console.log(
+          chalk.gray(
+            `From: ${result.message.from} | ${result.message.created_at.toLocaleDateString()}`
+          )
+        )
+        console.log(`${result.match_context || result.message.summary.substring(0, 150)}...`)
+        console.log()
+      }
+
+      if (next_cursor) {
+        console.log(chalk.gray(`More results: rerun with --cursor ${next_cursor}`))
+      }
+
+      db.close()
+    } catch (error) {
+      console.error(chalk.red('Failed to search:'), error)
+      process.exit(1)
+    }
+  })
+
+async function loadConfig(): Promise<CoordinationConfig> {
+  const configPaths = [
+    process.env.CCP_CONFIG,
+    '.coordination/config.yaml',
+    path.join(process.cwd(), '.coordination', 'config.yaml'),
+  ].filter(Boolean) as string[]
+
+  for (const configPath of configPaths) {
+    try {
+      if (
+        await fs
+          .access(configPath)
+          .then(() => true)
+          .catch(() => false)
+      ) {
+        const configContent = await fs.readFile(configPath, 'utf-8')
+        const rawConfig = YAML.parse(configContent)
+        return validateInput(CoordinationConfig, rawConfig, 'configuration file')
+      }
+    } catch (error) {
+      // Continue to next path
+    }
+  }
+
+  throw new Error('No configuration file found. Run "ccp init" first.')
+}
+
+// Forward a message
+program
+  .command('forward <id>')
+  .description('Forward a message into a new thread for other participants')
+  .requiredOption('--to <participants>', 'Participants to forward to (comma-separated)')
+  .option('--note <note>', 'Note shown above the forwarded content')
+  .action(async (id, options) => {
+    try {
+      const config = await loadConfig()
+      const db = new CoordinationDatabase(config.data_directory)
+      const messageManager = new MessageManager(db, config.data_directory, config.expiry_policies)
+
+      const message = await messageManager.forwardMessage(
+        {
+          message_id: id,
+          to: options.to.split(',').map((p: string) => p.trim()) as ParticipantId[],
+          note: options.note,
+        },
+        config.participant_id
+      )
+
+      console.log(chalk.green(`↪️ Message ${id} forwarded`))
+      console.log(`ID: ${message.id}`)
+      console.log(`Thread: ${message.thread_id}`)
+      console.log(`To: ${message.to.join(', ')}`)
+
+      db.close()
+    } catch (error) {
+      console.error(chalk.red('Failed to forward message:'), error)
+      process.exit(1)
+    }
+  })
+
+// Thread commands
+const thread = program.command('thread').description('Inspect conversation threads')
+
+// List threads
+thread
+  .command('list')
+  .description('List conversation threads you participate in')
+  .option('--status <status>', 'Filter by status (active, resolved, archived)')
+  .option('--limit <limit>', 'Maximum number of threads', '20')
+  .action(async options => {
+    try {
+      const config = await loadConfig()
+      const db = new CoordinationDatabase(config.data_directory)
+      const conversationManager = new ConversationManager(db)
+
+      const input: ListThreadsInput = {
+        status: options.status ? [options.status] : undefined,
+        limit: parseInt(options.limit),
+      }
+
+      const threads = await conversationManager.listThreads(input, config.participant_id)
+
+      if (threads.length === 0) {
+        console.log(chalk.yellow('📭 No threads found'))
+        db.close()
+        return
+      }
+
+      console.log(chalk.blue(`🧵 Found ${threads.length} threads:`))
+      console.log()
+
+      for (const t of threads) {
+        const statusIcon = t.status === 'active' ? '🟢' : t.status === 'resolved' ? '✅' : '📁'
+        console.log(`${statusIcon} ${chalk.bold(t.thread_id)} - ${t.topic}`)
+        console.log(`   ${chalk.gray(`Participants: ${t.participants.join(', ')}`)}`)
+        console.log(
+          `   ${chalk.gray(`Messages: ${t.message_count} | Last activity: ${t.last_activity.toLocaleString()}`)}`
+        )
+        console.log()
+      }
+
+      db.close()
+    } catch (error) {
+      console.error(chalk.red('Failed to list threads:'), error)
+      process.exit(1)
+    }
+  })
+
+// Show thread
+thread
+  .command('show <id>')
+  .description('Show a thread and its messages (accepts a thread or message ID)')
+  .action(async id => {
+    try {
+      const config = await loadConfig()
+      const db = new CoordinationDatabase(config.data_directory)
+      const messageManager = new MessageManager(db, config.data_directory, config.expiry_policies)
+
+      const { conversation, messages, forwards } = await messageManager.getThread(
+        { thread_id: id, detail_level: 'summary' },
+        config.participant_id
+      )
+
+      console.log(chalk.blue(`🧵 ${conversation.topic}`))
+      console.log(`Thread: ${conversation.thread_id}`)
+      console.log(`Status: ${conversation.status}`)
+      if (conversation.decision) {
+        console.log(`Decision: ${conversation.decision}`)
+      }
+      console.log(`Participants: ${conversation.participants.join(', ')}`)
+      console.log(`Messages: ${conversation.message_count}`)
+      if (conversation.resolution_summary) {
+        console.log(`Resolution: ${conversation.resolution_summary}`)
+      }
+      console.log()
+
+      // Replies are nested under the message they answer
+      for (const { message: msg, depth } of buildThreadTree(messages)) {
+        const indent = '    '.repeat(depth)
+        const marker = depth > 0 ? chalk.gray('↳ ') : ''
+        console.log(`${indent}${marker}${chalk.bold(msg.id)} [${msg.status}] ${msg.subject}`)
+        console.log(
+          `${indent}   ${chalk.gray(`${msg.from} → ${msg.to.join(', ')} | ${msg.created_at.toLocaleString()}`)}`
+        )
+        console.log(
+          `${indent}   ${msg.summary.substring(0, 100)}${msg.summary.length > 100 ? '...' : ''}`
+        )
+        console.log()
+      }
+
+      if (forwards.length > 0) {
+        console.log(chalk.blue('↪️ Forwarded:'))
+        for (const f of forwards) {
+          console.log(
+            `   ${f.original_id} → ${chalk.bold(f.message_id)} by ${f.forwarded_by} to ${f.to.join(', ')}`
+          )
+        }
+      }
+
+      db.close()
+    } catch (error) {
+      console.error(chalk.red('Failed to show thread:'), error)
+      process.exit(1)
+    }
+  })
+
+// Override thread expiry
+thread
+  .command('expiry <id>')
+  .description(
+    'Override the configured expiry policies for a thread (accepts a thread or message ID)'
+  )
+  .option('--hours <hours>', 'Expire its messages this many hours after they were sent')
+  .option('--never', 'Never expire its messages')
+  .option('--keep-alive', 'Do not archive expired messages while the thread is active')
+  .option('--no-keep-alive', 'Archive expired messages even while the thread is active')
+  .option('--clear', 'Remove the override')
+  .action(async (id, options) => {
+    try {
+      if (options.hours !== undefined && options.never) {
+        throw new Error('Use either --hours or --never')
+      }
+      const input: SetThreadExpiryInput = {
+        thread_id: id,
+        expires_in_hours: options.hours !== undefined ? Number(options.hours) : undefined,
+        keep_alive_while_active: options.keepAlive,
+      }
+      if (options.never) {
+        input.expires_in_hours = null
+      }
+      if (
+        !options.clear &&
+        input.expires_in_hours === undefined &&
+        input.keep_alive_while_active === undefined
+      ) {
+        throw new Error(
+          'Nothing to set: use --hours, --never, --keep-alive, --no-keep-alive or --clear'
+        )
+      }
+
+      const config = await loadConfig()
+      const db = new CoordinationDatabase(config.data_directory)
+      const messageManager = new MessageManager(db, config.data_directory, config.expiry_policies)
+
+      const conversation = await messageManager.setThreadExpiry(
+        options.clear ? { thread_id: id } : input,
+        config.participant_id
+      )
+      const policy = conversation.expiry_policy
+
+      if (!policy) {
+        console.log(chalk.green(`✅ Expiry override cleared for ${conversation.thread_id}`))
+      } else {
+        console.log(chalk.green(`✅ Expiry override set for ${conversation.thread_id}`))
+        if (policy.expires_in_hours !== undefined) {
+          console.log(
+            `Expires: ${policy.expires_in_hours === null ? 'never' : `${policy.expires_in_hours}h after sending`}`
+          )
+        }
+        if (policy.keep_alive_while_active !== undefined) {
+          console.log(`Keep alive while active: ${policy.keep_alive_while_active ? 'yes' : 'no'}`)
+        }
+      }
+
+      db.close()
+    } catch (error) {
+      console.error(chalk.red('Failed to set thread expiry:'), error)
+      process.exit(1)
+    }
+  })
+
+// Architecture decision record commands
+const adr = program
+  .command('adr')
+  .description('Architecture decision records written from closed arch threads')
+
+// List decision records
+adr
+  .command('list')
+  .description('List the decision records in the ADR directory')
+  .action(async () => {
+    try {
+      const config = await loadConfig()
+      const records = await new AdrStore(config.adr_directory).listRecords()
+
+      if (records.length === 0) {
+        console.log(chalk.yellow(`📭 No decision records in ${config.adr_directory}`))
+        return
+      }
+
+      console.log(chalk.blue(`📜 ${records.length} decision records in ${config.adr_directory}:`))
+      console.log()
+
+      for (const record of records) {
+        console.log(`${chalk.bold(`${record.number}.`)} ${record.title} [${record.status}]`)
+        console.log(
+          chalk.gray(
+            `   ${record.path}` +
+              (record.date ? ` | ${record.date.toLocaleDateString()}` : '') +
+              (record.thread_id ? ` | ${record.thread_id}` : '')
+          )
+        )
+      }
+    } catch (error) {
+      console.error(chalk.red('Failed to list decision records:'), error)
+      process.exit(1)
+    }
+  })
+
+// Export a closed arch thread
+adr
+  .command('export <thread>')
+  .description('Write a closed arch thread as a decision record, or update its record')
+  .action(async threadId => {
+    try {
+      const config = await loadConfig()
+      const db = new CoordinationDatabase(config.data_directory)
+      const messageManager = new MessageManager(
+        db,
+        config.data_directory,
+        config.expiry_policies,
+        config.adr_directory
+      )
+
+      const record = await messageManager.exportDecisionRecord(threadId, config.participant_id)
+
+      console.log(chalk.green(`📜 Wrote ADR ${record.number}: ${record.title}`))
+      console.log(`File: ${record.path}`)
+
+      db.close()
+    } catch (error) {
+      console.error(chalk.red('Failed to export decision record:'), error)
+      process.exit(1)
+    }
+  })
+
+// Schedule commands
+const schedule = program.command('schedule').description('Manage recurring scheduled messages')
+
+// Add schedule
+schedule
+  .command('add')
+  .description('Send a message from a template on a cron expression')
+  .requiredOption('--cron <expression>', 'Cron expression in local time (e.g. "0 9 * * 1")')
+  .requiredOption('--to <participants>', 'Target participants (comma-separated)')
+  .requiredOption('--subject <subject>', 'Message subject')
+  .requiredOption('--content <content>', 'Message content')
   .option('--type <type>', 'Message type', 'sync')
   .option('--priority <priority>', 'Priority level', 'M')
-  .option('--subject <subject>', 'Message subject')
-  .option('--content <content>', 'Message content')
   .action(async options => {
     try {
       const config = await loadConfig()
       const db = new CoordinationDatabase(config.data_directory)
-      const messageManager = new MessageManager(db, config.data_directory)
+      const messageManager = new MessageManager(db, config.data_directory, config.expiry_policies)
+      const scheduleManager = new ScheduleManager(db, messageManager)
 
-      const input: SendMessageInput = {
+      const input: CreateScheduleInput = {
+        cron: options.cron,
         to: options.to.split(',').map((p: string) => p.trim()) as ParticipantId[],
         type: options.type,
         priority: options.priority,
         subject: options.subject,
         content: options.content,
         response_required: true,
-        expires_in_hours: 168,
       }
 
-      const message = await messageManager.createMessage(input, config.participant_id)
+      const created = await scheduleManager.createSchedule(input, config.participant_id)
 
-      console.log(chalk.green('✅ Message sent successfully!'))
-      console.log(`ID: ${message.id}`)
-      console.log(`Thread: ${message.thread_id}`)
+      console.log(chalk.green('✅ Schedule created!'))
+      console.log(`ID: ${created.id}`)
+      console.log(`Next run: ${created.next_run_at.toLocaleString()}`)
 
       db.close()
     } catch (error) {
-      console.error(chalk.red('Failed to send message:'), error)
+      console.error(chalk.red('Failed to create schedule:'), error)
       process.exit(1)
     }
   })
 
-// List messages
-program
+// List schedules
+schedule
   .command('list')
-  .description('List coordination messages')
-  .option('--status <status>', 'Filter by status')
-  .option('--type <type>', 'Filter by type')
-  .option('--priority <priority>', 'Filter by priority')
-  .option('--limit <limit>', 'Maximum number of messages', '20')
-  .action(async options => {
+  .description('List your recurring schedules')
+  .action(async () => {
     try {
       const config = await loadConfig()
       const db = new CoordinationDatabase(config.data_directory)
-      const messageManager = new MessageManager(db, config.data_directory)
-
-      const input: GetMessagesInput = {
-        status: options.status ? [options.status] : undefined,
-        type: options.type ? [options.type] : undefined,
-        priority: options.priority ? [options.priority] : undefined,
-        limit: parseInt(options.limit),
-        detail_level: 'summary',
-      }
+      const messageManager = new MessageManager(db, config.data_directory, config.expiry_policies)
+      const scheduleManager = new ScheduleManager(db, messageManager)
 
-      const messages = await messageManager.getMessages(input, config.participant_id)
+      const schedules = await scheduleManager.listSchedules(config.participant_id)
 
-      if (messages.length === 0) {
-        console.log(chalk.yellow('📭 No messages found'))
+      if (schedules.length === 0) {
+        console.log(chalk.yellow('🔁 No schedules'))
+        db.close()
         return
       }
 
-      console.log(chalk.blue(`📨 Found ${messages.length} messages:`))
+      console.log(chalk.blue(`🔁 ${schedules.length} schedules:`))
       console.log()
 
-      for (const msg of messages) {
-        const statusIcon =
-          msg.status === 'pending'
-            ? '⏳'
-            : msg.status === 'read'
-              ? '👁️'
-              : msg.status === 'responded'
-                ? '💬'
-                : msg.status === 'resolved'
-                  ? '✅'
-                  : '📁'
-
-        const priorityColor =
-          msg.priority === 'CRITICAL'
-            ? chalk.red
-            : msg.priority === 'H'
-              ? chalk.magenta
-              : msg.priority === 'M'
-                ? chalk.yellow
-                : chalk.green
-
-        console.log(
-          `${statusIcon} ${priorityColor(msg.priority)} ${chalk.bold(msg.id)} - ${msg.subject}`
-        )
-        console.log(`   ${chalk.gray(`From: ${msg.from} → To: ${msg.to.join(', ')}`)}`)
+      for (const s of schedules) {
+        console.log(`${chalk.bold(s.id)} [${s.cron}] ${s.template.subject}`)
         console.log(
-          `   ${chalk.gray(`Type: ${msg.type} | Created: ${msg.created_at.toLocaleDateString()}`)}`
+          `   ${chalk.gray(`To: ${s.template.to.join(', ')} | Next run: ${s.next_run_at.toLocaleString()}`)}`
         )
-        console.log(`   ${msg.summary.substring(0, 100)}${msg.summary.length > 100 ? '...' : ''}`)
+        if (s.last_run_at) {
+          console.log(`   ${chalk.gray(`Last run: ${s.last_run_at.toLocaleString()}`)}`)
+        }
         console.log()
       }
 
       db.close()
     } catch (error) {
-      console.error(chalk.red('Failed to list messages:'), error)
+      console.error(chalk.red('Failed to list schedules:'), error)
       process.exit(1)
     }
   })
 
-// Show system status
-program
-  .command('status')
-  .description('Show coordination system status')
-  .action(async () => {
+// Remove schedule
+schedule
+  .command('remove <id>')
+  .description('Remove a schedule (messages already sent are kept)')
+  .action(async id => {
     try {
       const config = await loadConfig()
       const db = new CoordinationDatabase(config.data_directory)
-      const participantRegistry = new ParticipantRegistry(db, config.data_directory)
-      const indexingEngine = new IndexingEngine(db)
-
-      console.log(chalk.blue('📊 Coordination System Status'))
-      console.log()
-
-      // Database info
-      const dbInfo = db.getInfo()
-      console.log(chalk.green('Database:'))
-      console.log(`  Path: ${dbInfo.path}`)
-      console.log(`  Size: ${Math.round(dbInfo.size / 1024)} KB`)
-      console.log(`  Permissions: ${dbInfo.permissions}`)
-      console.log()
+      const messageManager = new MessageManager(db, config.data_directory, config.expiry_policies)
+      const scheduleManager = new ScheduleManager(db, messageManager)
 
-      // Participant info
-      const participants = await participantRegistry.getParticipants()
-      console.log(chalk.green('Participants:'))
-      for (const p of participants) {
-        const statusIcon = p.status === 'active' ? '🟢' : p.status === 'inactive' ? '🔴' : '🟡'
-        console.log(`  ${statusIcon} ${p.id} (${p.capabilities.join(', ')})`)
-      }
-      console.log()
+      await scheduleManager.removeSchedule(id, config.participant_id)
 
-      // Message stats
-      const stats = await indexingEngine.getMessageStats(config.participant_id, 7)
-      console.log(chalk.green('Messages (Last 7 days):'))
-      console.log(`  Total: ${stats.total_messages}`)
-      console.log(`  Sent: ${stats.messages_sent}`)
-      console.log(`  Received: ${stats.messages_received}`)
-      console.log(`  Response Rate: ${Math.round(stats.response_rate * 100)}%`)
-      console.log()
+      console.log(chalk.green(`✅ Schedule ${id} removed`))
 
       db.close()
     } catch (error) {
-      console.error(chalk.red('Failed to get status:'), error)
+      console.error(chalk.red('Failed to remove schedule:'), error)
       process.exit(1)
     }
   })
 
-// Compact thread
-program
-  .command('compact')
-  .description('Compact a conversation thread')
-  .option('--thread-id <id>', 'Thread ID to compact')
-  .option('--strategy <strategy>', 'Compaction strategy', 'summarize')
-  .action(async options => {
-    if (!options.threadId) {
-      console.error(chalk.red('❌ Thread ID is required'))
-      process.exit(1)
-    }
-
+// Run due schedules
+schedule
+  .command('run')
+  .description('Send messages for schedules that are due (the MCP server does this every minute)')
+  .action(async () => {
     try {
       const config = await loadConfig()
       const db = new CoordinationDatabase(config.data_directory)
-      const compactionEngine = new CompactionEngine(db, config.data_directory)
+      const messageManager = new MessageManager(db, config.data_directory, config.expiry_policies)
+      const scheduleManager = new ScheduleManager(db, messageManager)
 
-      const spinner = ora('Compacting thread...').start()
+      const sent = await scheduleManager.runDueSchedules()
 
-      const input: CompactThreadInput = {
-        thread_id: options.threadId,
-        strategy: options.strategy,
-        preserve_decisions: true,
-        preserve_critical: true,
+      console.log(chalk.green(`✅ Sent ${sent.length} scheduled messages`))
+      for (const msg of sent) {
+        console.log(`   ${msg.id} - ${msg.subject}`)
       }
 
-      const result = await compactionEngine.compactThread(input, config.participant_id)
+      db.close()
+    } catch (error) {
+      console.error(chalk.red('Failed to run schedules:'), error)
+      process.exit(1)
+    }
+  })
 
-      spinner.succeed(chalk.green('✅ Thread compacted successfully!'))
+// Group commands
+const group = program
+  .command('group')
+  .description('Manage named recipient groups (addressed as group:<name>)')
+
+// Add group
+group
+  .command('add <name>')
+  .description('Create a named group of participants')
+  .requiredOption('--members <participants>', 'Members of the group (comma-separated)')
+  .option('--description <description>', 'What the group is for')
+  .action(async (name, options) => {
+    try {
+      const config = await loadConfig()
+      const db = new CoordinationDatabase(config.data_directory)
+      const groupRegistry = new GroupRegistry(
+        db,
+        new ParticipantRegistry(db, config.data_directory)
+      )
 
-      console.log(`Original messages: ${result.original_count}`)
-      console.log(`Compacted messages: ${result.compacted_count}`)
-      console.log(`Space saved: ${Math.round(result.space_saved_bytes / 1024)} KB`)
+      const created = await groupRegistry.createGroup(
+        {
+          name,
+          members: options.members.split(',').map((p: string) => p.trim()) as ParticipantId[],
+          description: options.description,
+        },
+        config.participant_id
+      )
+
+      console.log(chalk.green(`✅ Group ${created.name} created!`))
+      console.log(`Members: ${created.members.join(', ')}`)
+      console.log(`Address it as: group:${created.name}`)
 
       db.close()
     } catch (error) {
-      console.error(chalk.red('Failed to compact thread:'), error)
+      console.error(chalk.red('Failed to create group:'), error)
       process.exit(1)
     }
   })
 
-// Search messages
-program
-  .command('search')
-  .description('Search coordination messages')
-  .argument('<query>', 'Search query')
-  .option('--limit <limit>', 'Maximum results', '10')
-  .action(async (query, options) => {
+// List groups
+group
+  .command('list')
+  .description('List all groups')
+  .action(async () => {
     try {
       const config = await loadConfig()
       const db = new CoordinationDatabase(config.data_directory)
-      const indexingEngine = new IndexingEngine(db)
-
-      const input: SearchMessagesInput = {
-        query,
-        semantic: true,
-        limit: parseInt(options.limit),
-      }
+      const groupRegistry = new GroupRegistry(
+        db,
+        new ParticipantRegistry(db, config.data_directory)
+      )
 
-      const results = await indexingEngine.searchMessages(input, config.participant_id)
+      const groups = await groupRegistry.listGroups()
 
-      if (results.length === 0) {
-        console.log(chalk.yellow(`🔍 No results found for: "${query}"`))
+      if (groups.length === 0) {
+        console.log(chalk.yellow('👥 No groups'))
+        db.close()
         return
       }
 
-      console.log(chalk.blue(`🔍 Found ${results.length} results for: "${query}"`))
+      console.log(chalk.blue(`👥 ${groups.length} groups:`))
       console.log()
 
-      for (const result of results) {
-        const relevance = Math.round(result.relevance_score * 100)
-        console.log(`${chalk.bold(result.message.id)} (${relevance}% match)`)
-        console.log(`${result.message.subject}`)
-        console.log(
-          chalk.gray(
-            `From: ${result.message.from} | ${result.message.created_at.toLocaleDateString()}`
-          )
-        )
-        console.log(`${result.match_context || result.message.summary.substring(0, 150)}...`)
+      for (const g of groups) {
+        console.log(`${chalk.bold(`group:${g.name}`)}${g.description ? ` - ${g.description}` : ''}`)
+        console.log(`   Members: ${g.members.join(', ')}`)
+        console.log(`   ${chalk.gray(`Created by ${g.created_by}`)}`)
         console.log()
       }
 
       db.close()
     } catch (error) {
-      console.error(chalk.red('Failed to search:'), error)
+      console.error(chalk.red('Failed to list groups:'), error)
       process.exit(1)
     }
   })
 
-async function loadConfig(): Promise<CoordinationConfig> {
-  const configPaths = [
-    process.env.CCP_CONFIG,
-    '.coordination/config.yaml',
-    path.join(process.cwd(), '.coordination', 'config.yaml'),
-  ].filter(Boolean) as string[]
-
-  for (const configPath of configPaths) {
+// Remove group
+group
+  .command('remove <name>')
+  .description('Remove a group (messages already sent to it are unaffected)')
+  .action(async name => {
     try {
-      if (
-        await fs
-          .access(configPath)
-          .then(() => true)
-          .catch(() => false)
-      ) {
-        const configContent = await fs.readFile(configPath, 'utf-8')
-        const rawConfig = YAML.parse(configContent)
-        return validateInput(CoordinationConfig, rawConfig, 'configuration file')
-      }
+      const config = await loadConfig()
+      const db = new CoordinationDatabase(config.data_directory)
+      const groupRegistry = new GroupRegistry(
+        db,
+        new ParticipantRegistry(db, config.data_directory)
+      )
+
+      await groupRegistry.removeGroup(name, config.participant_id)
+
+      console.log(chalk.green(`✅ Group ${name} removed`))
+
+      db.close()
     } catch (error) {
-      // Continue to next path
+      console.error(chalk.red('Failed to remove group:'), error)
+      process.exit(1)
     }
-  }
-
-  throw new Error('No configuration file found. Run "ccp init" first.')
-}
+  })
 
 // Participant management commands
 const participant = program.command('participant').description('Manage participants')
@@ -790,6 +1997,60 @@ participant
     }
   })
 
+// Garbage-collect content files
+program
+  .command('gc')
+  .description('Repair moved content references and remove content files no message uses')
+  .option('--dry-run', 'Show what would be repaired and removed without changing anything')
+  .option('--quarantine', 'Move orphaned files under quarantine/ instead of deleting them')
+  .action(async options => {
+    try {
+      const config = await loadConfig()
+      const db = new CoordinationDatabase(config.data_directory)
+      const collector = new ContentCollector(db, config.data_directory)
+
+      const result = await collector.collect({
+        dryRun: options.dryRun,
+        quarantine: options.quarantine,
+      })
+      db.close()
+
+      const prefix = result.dry_run ? 'Would repair' : 'Repaired'
+      console.log(chalk.blue(`🔧 ${prefix} ${result.repaired.length} moved reference(s)`))
+      for (const repair of result.repaired) {
+        const revision = repair.revision !== undefined ? ` (revision ${repair.revision})` : ''
+        console.log(chalk.gray(`   ${repair.message_id}${revision}: ${repair.from} → ${repair.to}`))
+      }
+
+      let verb = result.quarantine_dir ? 'Quarantined' : 'Deleted'
+      if (result.dry_run) {
+        verb = result.quarantine_dir ? 'Would quarantine' : 'Would delete'
+      }
+      console.log(chalk.blue(`🗑️  ${verb} ${result.orphans.length} orphaned file(s)`))
+      for (const orphan of result.orphans) {
+        console.log(chalk.gray(`   ${orphan.path} (${orphan.size} bytes)`))
+      }
+      if (result.quarantine_dir && !result.dry_run && result.orphans.length > 0) {
+        console.log(
+          chalk.gray(`   Moved to ${path.join(config.data_directory, result.quarantine_dir)}`)
+        )
+      }
+
+      const reclaimed = `${Math.round(result.reclaimed_bytes / 1024)} KB`
+      console.log(chalk.green(`✅ ${result.dry_run ? 'Would reclaim' : 'Reclaimed'} ${reclaimed}`))
+
+      if (result.missing.length > 0) {
+        console.log(chalk.yellow(`⚠️  ${result.missing.length} referenced file(s) not found:`))
+        for (const missing of result.missing) {
+          console.log(chalk.yellow(`   ${missing}`))
+        }
+      }
+    } catch (error) {
+      console.error(chalk.red('Failed to collect content files:'), error)
+      process.exit(1)
+    }
+  })
+
 // Purge database command
 program
   .command('purge')
@@ -935,6 +2196,9 @@ program
       }
       
       console.log(`  Duration: ${result.duration}ms`)
+      if (result.deletedMessages > 0) {
+        console.log(chalk.gray('Run `ccp gc` to remove the content files of deleted messages'))
+      }
 
       db.close()
     } catch (error) {
@@ -0,0 +1,192 @@
+import fs from 'fs/promises'
+import path from 'path'
+
+import {
+  CoordinationMessage,
+  DecisionRecord,
+  ResolutionStatus,
+  ThreadDetails,
+} from '../types/index.js'
+
+// Numbered like adr-tools: 0001-use-postgres.md
+const RECORD_FILE = /^(\d{4})-.+\.md$/
+
+// Links a record back to the thread it was written from, so exporting again updates it
+const THREAD_MARKER = /<!-- ccp-thread: (\S+) -->/
+
+// Record status for each way a thread can be closed, unless its proposal was rejected
+const RECORD_STATUSES: Record<ResolutionStatus, string> = {
+  complete: 'Accepted',
+  partial: 'Partially accepted',
+  requires_followup: 'Accepted, follow-up required',
+  blocked: 'Blocked',
+}
+
+/**
+ * File name part of a record title: lowercase words joined by dashes
+ */
+export function slugify(title: string): string {
+  const slug = title
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .substring(0, 60)
+    .replace(/-+$/, '')
+  return slug || 'decision'
+}
+
+/**
+ * Markdown for the decision a closed arch thread reached: the root message is the context,
+ * the thread's final summary the decision
+ */
+export function renderDecisionRecord(
+  number: number,
+  thread: ThreadDetails,
+  root: CoordinationMessage
+): string {
+  const { conversation, messages } = thread
+  const date = root.resolved_at ?? conversation.last_activity
+  const status =
+    conversation.decision === 'rejected'
+      ? 'Rejected'
+      : RECORD_STATUSES[root.resolution_status ?? 'complete']
+
+  const consequences = [
+    `- Closed as \`${root.resolution_status ?? 'complete'}\`` +
+      (root.resolved_by ? ` by ${root.resolved_by}` : '') +
+      '.',
+  ]
+  for (const message of messages) {
+    if (message.proposal?.decision) {
+      consequences.push(
+        `- Proposal \`${message.id}\` was ${message.proposal.decision} under the ${message.proposal.quorum} quorum.`
+      )
+      for (const vote of message.proposal.votes) {
+        consequences.push(`  - ${vote.participant} voted ${vote.vote}: ${vote.rationale}`)
+      }
+    }
+  }
+  for (const message of messages) {
+    if (
+      message.resolution_status === 'requires_followup' ||
+      message.resolution_status === 'blocked'
+    ) {
+      consequences.push(
+        `- Needs follow-up (${message.resolution_status}): \`${message.id}\` ${message.subject}`
+      )
+    }
+  }
+
+  return [
+    `# ${number}. ${conversation.topic}`,
+    '',
+    `Date: ${date.toISOString().substring(0, 10)}`,
+    '',
+    '## Status',
+    '',
+    status,
+    '',
+    '## Context',
+    '',
+    root.content ?? root.summary,
+    '',
+    `Raised by ${root.from} in \`${root.id}\`.`,
+    '',
+    '## Decision',
+    '',
+    conversation.resolution_summary ?? '',
+    '',
+    '## Consequences',
+    '',
+    ...consequences,
+    '',
+    '## Participants',
+    '',
+    ...conversation.participants.map(participant => `- ${participant}`),
+    '',
+    '## Messages',
+    '',
+    ...messages.map(
+      message =>
+        `- \`${message.id}\` ${message.from} → ${message.to.join(', ')}, ` +
+        `${message.created_at.toISOString().substring(0, 10)}: ${message.subject}`
+    ),
+    '',
+    `<!-- ccp-thread: ${conversation.thread_id} -->`,
+    '',
+  ].join('\n')
+}
+
+/**
+ * Architecture decision records, kept as markdown files in a directory of the project
+ * (docs/adr by default) so decisions live next to the code rather than only in the database
+ */
+export class AdrStore {
+  private directory: string
+
+  constructor(directory: string) {
+    this.directory = directory
+  }
+
+  /**
+   * Every record in the directory, by number. Records written by hand are listed too.
+   */
+  async listRecords(): Promise<DecisionRecord[]> {
+    const files = await fs.readdir(this.directory).catch(() => [] as string[])
+
+    const records: DecisionRecord[] = []
+    for (const file of files.filter(name => RECORD_FILE.test(name)).sort()) {
+      const filePath = path.join(this.directory, file)
+      const markdown = await fs.readFile(filePath, 'utf-8')
+      records.push(this.parseRecord(filePath, markdown))
+    }
+
+    return records
+  }
+
+  /**
+   * The record written from a thread, if any
+   */
+  async findByThread(threadId: string): Promise<DecisionRecord | null> {
+    return (await this.listRecords()).find(record => record.thread_id === threadId) ?? null
+  }
+
+  /**
+   * Write the record for a closed thread under the next number, or over the thread's
+   * existing record so exporting again keeps its number
+   */
+  async writeRecord(thread: ThreadDetails, root: CoordinationMessage): Promise<DecisionRecord> {
+    const records = await this.listRecords()
+    const existing = records.find(record => record.thread_id === thread.conversation.thread_id)
+
+    const number = existing?.number ?? Math.max(0, ...records.map(record => record.number)) + 1
+    const filePath =
+      existing?.path ??
+      path.join(
+        this.directory,
+        `${String(number).padStart(4, '0')}-${slugify(thread.conversation.topic)}.md`
+      )
+
+    const markdown = renderDecisionRecord(number, thread, root)
+    await fs.mkdir(this.directory, { recursive: true })
+    await fs.writeFile(filePath, markdown, 'utf-8')
+
+    return this.parseRecord(filePath, markdown)
+  }
+
+  private parseRecord(filePath: string, markdown: string): DecisionRecord {
+    const number = parseInt(path.basename(filePath).substring(0, 4), 10)
+    const title = markdown.match(/^# (?:\d+\. )?(.+)$/m)?.[1] ?? path.basename(filePath, '.md')
+    const date = markdown.match(/^Date: (\S+)$/m)?.[1]
+    const status = markdown.match(/^## Status\s*\n+(.+)$/m)?.[1]
+
+    return {
+      number,
+      title,
+      status: status?.trim() ?? 'Unknown',
+      date: date ? new Date(date) : undefined,
+      thread_id: markdown.match(THREAD_MARKER)?.[1],
+      path: filePath,
+    }
+  }
+}
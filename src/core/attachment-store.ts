@@ -0,0 +1,298 @@
+import { createHash } from 'crypto'
+import { customAlphabet } from 'nanoid'
+import fs from 'fs/promises'
+import path from 'path'
+import type { Statement } from 'better-sqlite3'
+
+import { CoordinationDatabase } from '../database/connection.js'
+import { PathSanitizer } from '../security/infrastructure/validation/PathSanitizer.js'
+import {
+  Attachment,
+  AttachmentInput,
+  AttachmentRow,
+  ContentIntegrityError,
+  ValidationError,
+} from '../types/index.js'
+
+// Per attachment; a message can carry up to 10 (see SendMessageInput)
+export const MAX_ATTACHMENT_BYTES = 10 * 1024 * 1024
+
+const MIME_TYPES: Record<string, string> = {
+  '.txt': 'text/plain',
+  '.log': 'text/plain',
+  '.md': 'text/markdown',
+  '.csv': 'text/csv',
+  '.json': 'application/json',
+  '.yaml': 'application/yaml',
+  '.yml': 'application/yaml',
+  '.xml': 'application/xml',
+  '.patch': 'text/x-diff',
+  '.diff': 'text/x-diff',
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp',
+  '.svg': 'image/svg+xml',
+  '.pdf': 'application/pdf',
+  '.zip': 'application/zip',
+  '.gz': 'application/gzip',
+}
+
+/**
+ * An attachment read and checked, ready to be stored once its message exists
+ */
+export interface PreparedAttachment {
+  filename: string
+  mime_type: string
+  data: Buffer
+}
+
+/**
+ * MIME type from a file name's extension, application/octet-stream when unknown
+ */
+export function guessMimeType(filename: string): string {
+  return MIME_TYPES[path.extname(filename).toLowerCase()] ?? 'application/octet-stream'
+}
+
+/**
+ * Whether an attachment can be shown as text rather than base64
+ */
+export function isTextMimeType(mimeType: string): boolean {
+  return (
+    mimeType.startsWith('text/') ||
+    ['application/json', 'application/yaml', 'application/xml', 'image/svg+xml'].includes(mimeType)
+  )
+}
+
+/**
+ * Resolve an attachment path sent by an MCP client, which may only attach files from inside
+ * the project root. The CLI reads any local path its user gives.
+ */
+export async function resolveAttachmentPath(filePath: string, root: string): Promise<string> {
+  const within = (target: string, base: string) => {
+    try {
+      PathSanitizer.validatePathBoundaries(target, base)
+      return true
+    } catch {
+      return false
+    }
+  }
+  const outside = new ValidationError(`Attachment path is outside the project: ${filePath}`)
+
+  const resolved = path.resolve(root, filePath)
+  if (path.isAbsolute(filePath) || !within(resolved, root)) {
+    throw outside
+  }
+
+  // Symlinks must not lead out of the project either; missing files are reported when read
+  let real: string
+  try {
+    real = await fs.realpath(resolved)
+  } catch {
+    return resolved
+  }
+  if (!within(real, await fs.realpath(root))) {
+    throw outside
+  }
+  return real
+}
+
+export class AttachmentStore {
+  private db: CoordinationDatabase
+  private dataDir: string
+
+  // Prepared statements
+  private insertAttachment: Statement
+  private selectAttachment: Statement
+  private selectMessageAttachments: Statement
+
+  constructor(db: CoordinationDatabase, dataDir: string) {
+    this.db = db
+    this.dataDir = dataDir
+    this.prepareStatements()
+  }
+
+  private prepareStatements(): void {
+    this.insertAttachment = this.db.prepare(`
+      INSERT INTO attachments (id, message_id, filename, mime_type, size, sha256, created_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+    `)
+
+    this.selectAttachment = this.db.prepare('SELECT * FROM attachments WHERE id = ?')
+
+    this.selectMessageAttachments = this.db.prepare(
+      'SELECT * FROM attachments WHERE message_id = ? ORDER BY created_at ASC, rowid ASC'
+    )
+  }
+
+  /**
+   * Read and validate attachment inputs before anything is written, so a bad attachment
+   * fails the whole send
+   */
+  async prepareAttachments(inputs: AttachmentInput[]): Promise<PreparedAttachment[]> {
+    const prepared: PreparedAttachment[] = []
+
+    for (const input of inputs) {
+      let data: Buffer
+      let filename = input.filename
+      if (input.path) {
+        try {
+          data = await fs.readFile(input.path)
+        } catch {
+          throw new ValidationError(`Cannot read attachment: ${input.path}`)
+        }
+        filename ??= path.basename(input.path)
+      } else if (input.content !== undefined && filename) {
+        data = Buffer.from(input.content, 'base64')
+      } else {
+        throw new ValidationError('Attachment needs either a path or a filename and base64 content')
+      }
+
+      if (data.length > MAX_ATTACHMENT_BYTES) {
+        throw new ValidationError(`Attachment too large: ${filename}`, {
+          size: data.length,
+          max_size: MAX_ATTACHMENT_BYTES,
+        })
+      }
+
+      prepared.push({
+        filename: path.basename(filename),
+        mime_type: input.mime_type ?? guessMimeType(filename),
+        data,
+      })
+    }
+
+    return prepared
+  }
+
+  /**
+   * Store prepared attachments for a message. Identical content is kept only once.
+   */
+  async storeAttachments(
+    messageId: string,
+    attachments: PreparedAttachment[],
+    createdAt: Date
+  ): Promise<Attachment[]> {
+    const stored: Attachment[] = []
+
+    for (const attachment of attachments) {
+      const sha256 = createHash('sha256').update(attachment.data).digest('hex')
+      await this.writeBlob(sha256, attachment.data)
+
+      stored.push(
+        this.insertRow({
+          message_id: messageId,
+          filename: attachment.filename,
+          mime_type: attachment.mime_type,
+          size: attachment.data.length,
+          sha256,
+          created_at: createdAt,
+        })
+      )
+    }
+
+    return stored
+  }
+
+  /**
+   * Attach another message's attachments to a message without copying their content
+   */
+  async copyAttachments(
+    fromMessageId: string,
+    toMessageId: string,
+    createdAt: Date
+  ): Promise<Attachment[]> {
+    return (await this.listAttachments(fromMessageId)).map(attachment =>
+      this.insertRow({ ...attachment, message_id: toMessageId, created_at: createdAt })
+    )
+  }
+
+  /**
+   * List the attachments of a message in the order they were added
+   */
+  async listAttachments(messageId: string): Promise<Attachment[]> {
+    const rows = this.selectMessageAttachments.all(messageId) as AttachmentRow[]
+    return rows.map(row => this.rowToAttachment(row))
+  }
+
+  /**
+   * Get an attachment's metadata
+   */
+  async getAttachment(attachmentId: string): Promise<Attachment | null> {
+    const row = this.selectAttachment.get(attachmentId) as AttachmentRow | undefined
+    return row ? this.rowToAttachment(row) : null
+  }
+
+  /**
+   * Read an attachment's content, checking it still matches its sha256
+   */
+  async readAttachment(attachment: Attachment): Promise<Buffer> {
+    let data: Buffer
+    try {
+      data = await fs.readFile(this.blobPath(attachment.sha256))
+    } catch {
+      throw new ContentIntegrityError(`Attachment content missing: ${attachment.id}`)
+    }
+
+    if (createHash('sha256').update(data).digest('hex') !== attachment.sha256) {
+      throw new ContentIntegrityError(`Attachment content is corrupted: ${attachment.id}`, {
+        sha256: attachment.sha256,
+      })
+    }
+
+    return data
+  }
+
+  private insertRow(attachment: Omit<Attachment, 'id'>): Attachment {
+    const id = this.generateAttachmentId()
+    this.insertAttachment.run(
+      id,
+      attachment.message_id,
+      attachment.filename,
+      attachment.mime_type,
+      attachment.size,
+      attachment.sha256,
+      attachment.created_at.toISOString()
+    )
+    return { ...attachment, id }
+  }
+
+  private async writeBlob(sha256: string, data: Buffer): Promise<void> {
+    const blobPath = this.blobPath(sha256)
+    try {
+      await fs.access(blobPath)
+      return
+    } catch {
+      // Not stored yet
+    }
+
+    // Write then rename, so a blob is never seen half-written
+    await fs.mkdir(path.dirname(blobPath), { recursive: true })
+    const tempPath = `${blobPath}.${process.pid}.tmp`
+    await fs.writeFile(tempPath, data)
+    await fs.rename(tempPath, blobPath)
+  }
+
+  private blobPath(sha256: string): string {
+    return path.join(this.dataDir, 'attachments', sha256.substring(0, 2), sha256)
+  }
+
+  private rowToAttachment(row: AttachmentRow): Attachment {
+    return {
+      id: row.id,
+      message_id: row.message_id,
+      filename: row.filename,
+      mime_type: row.mime_type,
+      size: row.size,
+      sha256: row.sha256,
+      created_at: new Date(row.created_at),
+    }
+  }
+
+  private generateAttachmentId(): string {
+    const timestamp = Date.now().toString(36)
+    const nanoidAlphanumeric = customAlphabet('ABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789', 4)
+    return `ATT-${timestamp}-${nanoidAlphanumeric()}`
+  }
+}
@@ -0,0 +1,73 @@
+import type { Statement } from 'better-sqlite3'
+
+import { CoordinationDatabase } from '../database/connection.js'
+import { ParticipantRegistry } from './participant-registry.js'
+import { Participant, ParticipantId, RoutingStrategy } from '../types/index.js'
+
+export class CapabilityRouter {
+  private db: CoordinationDatabase
+  private participants: ParticipantRegistry
+
+  // Prepared statements
+  private countOpenRequests: Statement
+  private selectLastRouted: Statement
+
+  constructor(db: CoordinationDatabase, participants: ParticipantRegistry) {
+    this.db = db
+    this.participants = participants
+    this.prepareStatements()
+  }
+
+  private prepareStatements(): void {
+    // Load is the number of open messages still waiting on the participant's response
+    this.countOpenRequests = this.db.prepare(`
+      SELECT COUNT(*) AS count FROM message_recipients r
+      JOIN messages m ON m.id = r.message_id
+      WHERE r.participant_id = ? AND r.status IN ('delivered', 'read')
+        AND m.response_required = 1
+        AND m.status NOT IN ('resolved', 'archived', 'cancelled')
+    `)
+
+    this.selectLastRouted = this.db.prepare(`
+      SELECT routed_to FROM messages
+      WHERE route_to = ? AND routed_to IS NOT NULL
+      ORDER BY routed_at DESC, rowid DESC
+      LIMIT 1
+    `)
+  }
+
+  /**
+   * Pick one active participant with the capability, or null if there is none besides the
+   * excluded ones. least_loaded prefers the fewest open response_required messages, then
+   * the most recently seen; round_robin takes turns in participant ID order.
+   */
+  async pickParticipant(
+    capability: string,
+    strategy: RoutingStrategy,
+    exclude: ParticipantId[] = []
+  ): Promise<ParticipantId | null> {
+    const candidates = (await this.participants.getParticipantsByCapability(capability))
+      .filter(p => !exclude.includes(p.id))
+      .sort((a, b) => a.id.localeCompare(b.id))
+
+    if (candidates.length === 0) {
+      return null
+    }
+
+    if (strategy === 'round_robin') {
+      const last = this.selectLastRouted.get(capability) as { routed_to: string } | undefined
+      const next = last ? candidates.find(p => p.id.localeCompare(last.routed_to) > 0) : undefined
+      return (next ?? candidates[0]).id
+    }
+
+    const lastSeen = (p: Participant) => p.last_seen?.getTime() ?? 0
+    const ranked = candidates
+      .map(p => ({
+        participant: p,
+        load: (this.countOpenRequests.get(p.id) as { count: number }).count,
+      }))
+      .sort((a, b) => a.load - b.load || lastSeen(b.participant) - lastSeen(a.participant))
+
+    return ranked[0].participant.id
+  }
+}
@@ -0,0 +1,105 @@
+import type { Statement } from 'better-sqlite3'
+
+import { CoordinationDatabase } from '../database/connection.js'
+import { ConversationManager } from './conversation-manager.js'
+import { validateInput } from '../utils/validation.js'
+import {
+  Change,
+  ChangeKind,
+  ChangeRow,
+  ChangeSet,
+  GetChangesInput,
+  ParticipantId,
+} from '../types/index.js'
+
+/**
+ * Reads the change log the database triggers write on every message and thread mutation, so
+ * that polling participants only process what changed since their last call
+ */
+export class ChangeFeed {
+  private db: CoordinationDatabase
+  private conversations: ConversationManager
+
+  // Prepared statements
+  private selectLatestSeq: Statement
+  private selectChanges: Statement
+  private selectCursor: Statement
+  private upsertCursor: Statement
+
+  constructor(db: CoordinationDatabase) {
+    this.db = db
+    this.conversations = new ConversationManager(db)
+    this.prepareStatements()
+  }
+
+  private prepareStatements(): void {
+    this.selectLatestSeq = this.db.prepare('SELECT MAX(seq) AS seq FROM changes')
+
+    this.selectChanges = this.db.prepare(`
+      SELECT * FROM changes
+      WHERE seq > $since AND seq <= $latest
+        AND EXISTS (SELECT 1 FROM json_each(changes.participants) WHERE value = $participant)
+      ORDER BY seq ASC
+      LIMIT $limit
+    `)
+
+    this.selectCursor = this.db.prepare(
+      'SELECT last_seq FROM change_cursors WHERE participant_id = ?'
+    )
+
+    this.upsertCursor = this.db.prepare(`
+      INSERT INTO change_cursors (participant_id, last_seq, updated_at) VALUES (?, ?, ?)
+      ON CONFLICT(participant_id) DO UPDATE SET
+        last_seq = excluded.last_seq, updated_at = excluded.updated_at
+    `)
+  }
+
+  /**
+   * Changes visible to the participant after since_seq, oldest first. Without since_seq this
+   * continues from the high-water mark of the participant's previous call, which is saved
+   * every time.
+   */
+  async getChanges(input: GetChangesInput, participant: ParticipantId): Promise<ChangeSet> {
+    const validated = validateInput(GetChangesInput, input, 'get changes')
+    this.conversations.releaseDueMessages()
+
+    const since = validated.since_seq ?? (await this.getLastSeq(participant))
+    // Changes the participant can't see still move the mark, up to the latest one read here
+    const latest = (this.selectLatestSeq.get() as { seq: number | null }).seq ?? 0
+
+    const rows = this.selectChanges.all({
+      participant,
+      since,
+      latest,
+      // One extra row tells whether there are more
+      limit: validated.limit + 1,
+    }) as ChangeRow[]
+
+    const hasMore = rows.length > validated.limit
+    const changes = rows.slice(0, validated.limit).map(row => this.rowToChange(row))
+    const highWaterMark = hasMore ? changes[changes.length - 1].seq : Math.max(latest, since)
+
+    this.upsertCursor.run(participant, highWaterMark, new Date().toISOString())
+
+    return { changes, high_water_mark: highWaterMark, has_more: hasMore }
+  }
+
+  /**
+   * The high-water mark the participant last fetched, 0 if they never have
+   */
+  async getLastSeq(participant: ParticipantId): Promise<number> {
+    const row = this.selectCursor.get(participant) as { last_seq: number } | undefined
+    return row?.last_seq ?? 0
+  }
+
+  private rowToChange(row: ChangeRow): Change {
+    return {
+      seq: row.seq,
+      kind: row.kind as ChangeKind,
+      message_id: row.message_id ?? undefined,
+      thread_id: row.thread_id,
+      status: row.status ?? undefined,
+      created_at: new Date(row.created_at),
+    }
+  }
+}
@@ -1,9 +1,10 @@
 import fs from 'fs/promises'
 import path from 'path'
-import { format } from 'date-fns'
 import type { Statement } from 'better-sqlite3'
 
 import { CoordinationDatabase } from '../database/connection.js'
+import { ContentStore } from './content-store.js'
+import { ConversationManager } from './conversation-manager.js'
 import { validateInput } from '../utils/validation.js'
 import {
   CompactThreadInput,
@@ -15,17 +16,20 @@ import {
 export class CompactionEngine {
   private db: CoordinationDatabase
   private dataDir: string
+  private conversations: ConversationManager
+  private content: ContentStore
 
   // Prepared statements
   private selectThreadMessages: Statement
   private updateMessageStatus: Statement
   private insertCompactedMessage: Statement
   private selectConversation: Statement
-  private updateConversation: Statement
 
   constructor(db: CoordinationDatabase, dataDir: string) {
     this.db = db
     this.dataDir = dataDir
+    this.conversations = new ConversationManager(db)
+    this.content = new ContentStore(dataDir)
     this.prepareStatements()
   }
 
@@ -51,12 +55,6 @@ export class CompactionEngine {
     this.selectConversation = this.db.prepare(`
       SELECT * FROM conversations WHERE thread_id = ?
     `)
-
-    this.updateConversation = this.db.prepare(`
-      UPDATE conversations SET 
-        status = ?, resolution_summary = ?, last_activity = ?
-      WHERE thread_id = ?
-    `)
   }
 
   /**
@@ -89,7 +87,8 @@ export class CompactionEngine {
       toParticipants.forEach((id: string) => participantIds.add(id))
     }
 
-    if (!participantIds.has(requestingParticipant)) {
+    // System-initiated compaction (see autoCompactThreads) is not tied to a participant
+    if (requestingParticipant !== '@system' && !participantIds.has(requestingParticipant)) {
       throw new ValidationError('Access denied: not authorized to compact this thread')
     }
 
@@ -114,6 +113,11 @@ export class CompactionEngine {
         throw new ValidationError(`Unknown compaction strategy: ${validated.strategy}`)
     }
 
+    // Keep the thread's conversation row in step with the compacted messages
+    if (validated.strategy !== 'archive') {
+      this.conversations.syncThread(validated.thread_id)
+    }
+
     const finalSizeBytes = await this.calculateThreadSize(validated.thread_id)
 
     return {
@@ -188,14 +192,13 @@ export class CompactionEngine {
       // Rough token estimation: ~4 characters per token
       let messageTokens = Math.ceil((msg.subject.length + msg.summary.length) / 4)
 
-      // Add content file size if exists
+      // Add stored content size if exists
       if (msg.content_ref) {
         try {
-          const contentPath = path.join(this.dataDir, msg.content_ref)
-          const content = await fs.readFile(contentPath, 'utf-8')
+          const content = await this.content.get(msg.content_ref)
           messageTokens += Math.ceil(content.length / 4)
         } catch {
-          // File might not exist, use summary length
+          // Content missing or corrupted, use summary length
         }
       }
 
@@ -248,7 +251,7 @@ export class CompactionEngine {
       status: 'archived',
       subject: `Summary: ${firstMessage.subject}`,
       summary,
-      content_ref: await this.storeCompactedContent(firstMessage.thread_id, 'summary', summary),
+      content_ref: await this.content.put(summary),
       created_at: new Date(firstMessage.created_at),
       updated_at: new Date(),
       expires_at: null,
@@ -275,12 +278,8 @@ export class CompactionEngine {
     // Remove duplicate information and merge related messages
     const consolidatedMessages = this.consolidateMessages(messages, options)
 
-    // Archive original messages and insert consolidated ones
-    for (const msg of consolidatedMessages) {
-      await this.archiveContentFiles([msg])
-    }
-
-    // Insert consolidated messages
+    // Archive original messages and insert consolidated ones. Their content stays in the
+    // content store, where archived messages can still read it.
     const now = new Date().toISOString()
     this.db.transaction(() => {
       // Archive originals
@@ -325,10 +324,7 @@ export class CompactionEngine {
   ): Promise<CompactionResult> {
     const now = new Date().toISOString()
 
-    // Move content files to archive
-    await this.archiveContentFiles(messages)
-
-    // Update message status
+    // Update message status; content stays in the content store
     this.db.transaction(() => {
       for (const msg of messages) {
         this.updateMessageStatus.run(now, msg.id)
@@ -336,11 +332,10 @@ export class CompactionEngine {
     })
 
     // Update conversation status
-    this.updateConversation.run(
+    this.conversations.syncThread(
+      messages[0].thread_id,
       'archived',
-      'Thread archived due to age/resolution',
-      now,
-      messages[0].thread_id
+      'Thread archived due to age/resolution'
     )
 
     return {
@@ -491,23 +486,6 @@ export class CompactionEngine {
       .map(([tag]) => tag)
   }
 
-  private async storeCompactedContent(
-    threadId: string,
-    type: string,
-    content: string
-  ): Promise<string> {
-    const archiveDir = path.join(this.dataDir, 'messages', 'archive', format(new Date(), 'yyyy/MM'))
-
-    await fs.mkdir(archiveDir, { recursive: true })
-
-    const fileName = `${threadId}-${type}-${Date.now()}.md`
-    const filePath = path.join(archiveDir, fileName)
-
-    await fs.writeFile(filePath, content, 'utf-8')
-
-    return path.relative(this.dataDir, filePath)
-  }
-
   private async replaceWithCompacted(
     originalMessages: any[],
     compactedMessage: any
@@ -543,27 +521,6 @@ export class CompactionEngine {
     })
   }
 
-  private async archiveContentFiles(messages: any[]): Promise<void> {
-    const archiveDate = format(new Date(), 'yyyy/MM')
-    const archiveDir = path.join(this.dataDir, 'messages', 'archive', archiveDate)
-
-    await fs.mkdir(archiveDir, { recursive: true })
-
-    for (const msg of messages) {
-      if (msg.content_ref) {
-        try {
-          const sourcePath = path.join(this.dataDir, msg.content_ref)
-          const archivePath = path.join(archiveDir, path.basename(msg.content_ref))
-
-          await fs.rename(sourcePath, archivePath)
-        } catch (error) {
-          // eslint-disable-next-line no-console
-          console.warn(`Failed to archive content file for message ${msg.id}:`, error)
-        }
-      }
-    }
-  }
-
   private async calculateThreadSize(threadId: string): Promise<number> {
     const messages = this.selectThreadMessages.all(threadId) as any[]
     let totalSize = 0
@@ -0,0 +1,199 @@
+import fs from 'fs/promises'
+import path from 'path'
+import type { Statement } from 'better-sqlite3'
+
+import { CoordinationDatabase } from '../database/connection.js'
+import { ContentStore } from './content-store.js'
+import { ContentRefRow } from '../types/index.js'
+
+// Directories holding files that rows point at; everything else in the data directory is left alone
+const COLLECTED_DIRS = ['messages', 'content', 'attachments']
+
+// Content is written before the row that refers to it, so recent files are never collected
+const GRACE_PERIOD_MS = 60 * 60 * 1000
+
+export interface GarbageCollectionOptions {
+  dryRun?: boolean
+  // Move orphans under quarantine/<timestamp>/ instead of deleting them
+  quarantine?: boolean
+  now?: Date
+}
+
+export interface RepairedContentRef {
+  message_id: string
+  revision?: number
+  from: string
+  to: string
+}
+
+export interface OrphanedFile {
+  path: string
+  size: number
+}
+
+export interface GarbageCollectionResult {
+  repaired: RepairedContentRef[]
+  orphans: OrphanedFile[]
+  // Referenced files that could not be found anywhere
+  missing: string[]
+  reclaimed_bytes: number
+  quarantine_dir?: string
+  dry_run: boolean
+}
+
+/**
+ * Reconciles the files under the data directory with the rows that refer to them: repairs
+ * refs to files that were moved, and removes files no message, revision or attachment uses
+ */
+export class ContentCollector {
+  private db: CoordinationDatabase
+  private dataDir: string
+  private content: ContentStore
+
+  // Prepared statements
+  private selectContentRefs: Statement
+  private selectAttachmentHashes: Statement
+  private updateMessageContentRef: Statement
+  private updateRevisionContentRef: Statement
+
+  constructor(db: CoordinationDatabase, dataDir: string) {
+    this.db = db
+    this.dataDir = dataDir
+    this.content = new ContentStore(dataDir)
+    this.prepareStatements()
+  }
+
+  private prepareStatements(): void {
+    this.selectContentRefs = this.db.prepare(`
+      SELECT id AS message_id, NULL AS revision, content_ref FROM messages
+      WHERE content_ref IS NOT NULL
+      UNION ALL
+      SELECT message_id, revision, content_ref FROM message_revisions
+      ORDER BY message_id, revision
+    `)
+
+    this.selectAttachmentHashes = this.db.prepare('SELECT DISTINCT sha256 FROM attachments')
+
+    this.updateMessageContentRef = this.db.prepare(
+      'UPDATE messages SET content_ref = ? WHERE id = ?'
+    )
+
+    this.updateRevisionContentRef = this.db.prepare(
+      'UPDATE message_revisions SET content_ref = ? WHERE message_id = ? AND revision = ?'
+    )
+  }
+
+  /**
+   * Repair moved refs and collect orphaned files. With dryRun nothing is changed and the
+   * result shows what would be.
+   */
+  async collect(options: GarbageCollectionOptions = {}): Promise<GarbageCollectionResult> {
+    const dryRun = options.dryRun ?? false
+    const now = options.now ?? new Date()
+
+    const referenced = new Set<string>()
+    const repaired: RepairedContentRef[] = []
+    const missing: string[] = []
+
+    for (const row of this.selectContentRefs.all() as ContentRefRow[]) {
+      const location = await this.content.locate(row.content_ref)
+      if (!location) {
+        missing.push(row.content_ref)
+        continue
+      }
+
+      referenced.add(path.normalize(location))
+      if (location === row.content_ref) {
+        continue
+      }
+
+      repaired.push({
+        message_id: row.message_id,
+        revision: row.revision ?? undefined,
+        from: row.content_ref,
+        to: location,
+      })
+      if (!dryRun) {
+        if (row.revision === null) {
+          this.updateMessageContentRef.run(location, row.message_id)
+        } else {
+          this.updateRevisionContentRef.run(location, row.message_id, row.revision)
+        }
+      }
+    }
+
+    for (const { sha256 } of this.selectAttachmentHashes.all() as { sha256: string }[]) {
+      const blobPath = path.join('attachments', sha256.substring(0, 2), sha256)
+      referenced.add(blobPath)
+      try {
+        await fs.access(path.join(this.dataDir, blobPath))
+      } catch {
+        missing.push(blobPath)
+      }
+    }
+
+    const orphans: OrphanedFile[] = []
+    for (const dir of COLLECTED_DIRS) {
+      for (const file of await this.listFiles(dir)) {
+        if (referenced.has(file)) {
+          continue
+        }
+
+        const stats = await fs.stat(path.join(this.dataDir, file))
+        if (now.getTime() - stats.mtime.getTime() < GRACE_PERIOD_MS) {
+          continue
+        }
+        orphans.push({ path: file, size: stats.size })
+      }
+    }
+
+    const quarantineDir = options.quarantine
+      ? path.join('quarantine', now.toISOString().replace(/[:.]/g, '-'))
+      : undefined
+
+    if (!dryRun) {
+      for (const orphan of orphans) {
+        const orphanPath = path.join(this.dataDir, orphan.path)
+        if (quarantineDir) {
+          const target = path.join(this.dataDir, quarantineDir, orphan.path)
+          await fs.mkdir(path.dirname(target), { recursive: true })
+          await fs.rename(orphanPath, target)
+        } else {
+          await fs.unlink(orphanPath)
+        }
+      }
+    }
+
+    return {
+      repaired,
+      orphans,
+      missing,
+      reclaimed_bytes: orphans.reduce((total, orphan) => total + orphan.size, 0),
+      quarantine_dir: quarantineDir,
+      dry_run: dryRun,
+    }
+  }
+
+  /**
+   * Files under a directory, as paths relative to the data directory
+   */
+  private async listFiles(dir: string): Promise<string[]> {
+    let entries
+    try {
+      entries = await fs.readdir(path.join(this.dataDir, dir), { withFileTypes: true })
+    } catch {
+      return []
+    }
+
+    const files: string[] = []
+    for (const entry of entries) {
+      const entryPath = path.join(dir, entry.name)
+      if (entry.isDirectory()) {
+        files.push(...(await this.listFiles(entryPath)))
+      } else if (entry.isFile()) {
+        files.push(entryPath)
+      }
+    }
+    return files.sort()
+  }
+}
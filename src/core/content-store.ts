@@ -0,0 +1,117 @@
+import { createHash } from 'crypto'
+import fs from 'fs/promises'
+import path from 'path'
+
+import { ContentIntegrityError } from '../types/index.js'
+
+const BLOB_DIR = 'content'
+
+/**
+ * Message content kept once per sha256 under content/<first 2 hex chars>/<sha256>.
+ * A content ref is the blob's path relative to the data directory, so blobs are shared
+ * between identical messages and revisions, and never move once written.
+ */
+export class ContentStore {
+  private dataDir: string
+
+  constructor(dataDir: string) {
+    this.dataDir = dataDir
+  }
+
+  /**
+   * Store content and return its content ref
+   */
+  async put(content: string): Promise<string> {
+    const sha256 = hashContent(content)
+    const contentRef = path.join(BLOB_DIR, sha256.substring(0, 2), sha256)
+    const blobPath = path.join(this.dataDir, contentRef)
+
+    // A blob already there is reused only if it is intact; a corrupted one is written again
+    const existing = await fs.readFile(blobPath, 'utf-8').catch(() => null)
+    if (existing !== null && hashContent(existing) === sha256) {
+      return contentRef
+    }
+
+    // Write then rename, so a blob is never seen half-written
+    await fs.mkdir(path.dirname(blobPath), { recursive: true })
+    const tempPath = `${blobPath}.${process.pid}.tmp`
+    await fs.writeFile(tempPath, content, 'utf-8')
+    await fs.rename(tempPath, blobPath)
+
+    return contentRef
+  }
+
+  /**
+   * Read content by ref. Blobs are checked against their hash; refs to per-message files
+   * written before the store existed are read as is, from the archive if they were moved there.
+   * Throws ContentIntegrityError when the content is missing or corrupted.
+   */
+  async get(contentRef: string): Promise<string> {
+    const location = await this.locate(contentRef)
+
+    let content: string
+    try {
+      content = await fs.readFile(path.join(this.dataDir, location ?? contentRef), 'utf-8')
+    } catch {
+      throw new ContentIntegrityError(`Content missing: ${contentRef}`, { content_ref: contentRef })
+    }
+
+    if (this.isBlobRef(contentRef) && hashContent(content) !== path.basename(contentRef)) {
+      throw new ContentIntegrityError(`Content is corrupted: ${contentRef}`, {
+        content_ref: contentRef,
+      })
+    }
+
+    return content
+  }
+
+  /**
+   * Where the content for a ref actually is, relative to the data directory, or null if it
+   * can't be found
+   */
+  async locate(contentRef: string): Promise<string | null> {
+    if (await this.exists(contentRef)) {
+      return contentRef
+    }
+    if (this.isBlobRef(contentRef)) {
+      return null
+    }
+
+    // Archiving used to move files to messages/archive/<yyyy>/<MM>/ without updating the ref
+    const archiveDir = path.join('messages', 'archive')
+    const years = await fs.readdir(path.join(this.dataDir, archiveDir)).catch(() => [] as string[])
+    for (const year of years.sort()) {
+      const months = await fs
+        .readdir(path.join(this.dataDir, archiveDir, year))
+        .catch(() => [] as string[])
+      for (const month of months.sort()) {
+        const archived = path.join(archiveDir, year, month, path.basename(contentRef))
+        if (await this.exists(archived)) {
+          return archived
+        }
+      }
+    }
+
+    return null
+  }
+
+  /**
+   * Whether a content ref points into the store rather than at a per-message file
+   */
+  isBlobRef(contentRef: string): boolean {
+    return /^content[/\\][0-9a-f]{2}[/\\][0-9a-f]{64}$/.test(contentRef)
+  }
+
+  private async exists(relativePath: string): Promise<boolean> {
+    try {
+      await fs.access(path.join(this.dataDir, relativePath))
+      return true
+    } catch {
+      return false
+    }
+  }
+}
+
+function hashContent(content: string): string {
+  return createHash('sha256').update(content, 'utf-8').digest('hex')
+}
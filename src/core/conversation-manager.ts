@@ -0,0 +1,195 @@
+import type { Statement } from 'better-sqlite3'
+
+import { CoordinationDatabase } from '../database/connection.js'
+import { validateInput } from '../utils/validation.js'
+import {
+  Conversation,
+  ConversationRow,
+  ListThreadsInput,
+  ParticipantId,
+  ProposalDecision,
+  ThreadExpiryPolicy,
+} from '../types/index.js'
+
+type ConversationStatus = Conversation['status']
+
+export class ConversationManager {
+  private db: CoordinationDatabase
+
+  // Prepared statements
+  private upsertConversation: Statement
+  private updateExpiryPolicyStmt: Statement
+  private updateDecisionStmt: Statement
+  private selectConversation: Statement
+  private selectConversations: Statement
+  private releaseDueStmt: Statement
+
+  constructor(db: CoordinationDatabase) {
+    this.db = db
+    this.prepareStatements()
+  }
+
+  private prepareStatements(): void {
+    // Aggregates the thread's delivered messages into its conversation row. Participants are
+    // the union of every sender and recipient; the topic and tags come from the root message.
+    // Scheduled messages only count once their send_at has passed.
+    this.upsertConversation = this.db.prepare(`
+      INSERT INTO conversations (
+        thread_id, participants, topic, tags, created_at, last_activity, status, message_count
+      )
+      SELECT
+        $thread_id,
+        (
+          SELECT json_group_array(participant) FROM (
+            SELECT from_participant AS participant FROM messages
+            WHERE thread_id = $thread_id AND (send_at IS NULL OR send_at <= $now)
+            UNION
+            SELECT recipient.value FROM messages, json_each(messages.to_participants) recipient
+            WHERE messages.thread_id = $thread_id
+              AND (messages.send_at IS NULL OR messages.send_at <= $now)
+          )
+        ),
+        (SELECT subject FROM messages WHERE thread_id = $thread_id ORDER BY created_at ASC, rowid ASC LIMIT 1),
+        (SELECT tags FROM messages WHERE thread_id = $thread_id ORDER BY created_at ASC, rowid ASC LIMIT 1),
+        MIN(created_at),
+        MAX(updated_at),
+        COALESCE($status, 'active'),
+        COUNT(*)
+      FROM messages
+      WHERE thread_id = $thread_id AND (send_at IS NULL OR send_at <= $now)
+      GROUP BY thread_id
+      ON CONFLICT(thread_id) DO UPDATE SET
+        participants = excluded.participants,
+        last_activity = excluded.last_activity,
+        message_count = excluded.message_count,
+        status = COALESCE($status, conversations.status),
+        resolution_summary = COALESCE($resolution_summary, conversations.resolution_summary)
+    `)
+
+    this.updateExpiryPolicyStmt = this.db.prepare(
+      'UPDATE conversations SET expiry_policy = ? WHERE thread_id = ?'
+    )
+
+    this.updateDecisionStmt = this.db.prepare(
+      'UPDATE conversations SET decision = ? WHERE thread_id = ?'
+    )
+
+    this.selectConversation = this.db.prepare('SELECT * FROM conversations WHERE thread_id = ?')
+
+    this.selectConversations = this.db.prepare(`
+      SELECT * FROM conversations
+      WHERE participants LIKE '%"' || $participant || '"%'
+        AND ($status IS NULL OR status IN (SELECT value FROM json_each($status)))
+        AND ($since IS NULL OR last_activity >= $since)
+      ORDER BY last_activity DESC
+      LIMIT $limit
+    `)
+
+    this.releaseDueStmt = this.db.prepare(`
+      UPDATE messages SET send_at = NULL
+      WHERE send_at IS NOT NULL AND send_at <= ?
+      RETURNING thread_id
+    `)
+  }
+
+  /**
+   * Deliver scheduled messages whose send_at has passed: clear the schedule and bring
+   * their threads up to date. Returns the number of messages released.
+   */
+  releaseDueMessages(): number {
+    const released = this.releaseDueStmt.all(new Date().toISOString()) as Array<{
+      thread_id: string
+    }>
+
+    for (const threadId of new Set(released.map(row => row.thread_id))) {
+      // Delivery is new activity for the thread
+      this.syncThread(threadId, 'active')
+    }
+
+    return released.length
+  }
+
+  /**
+   * Recompute a thread's conversation row from its messages, creating it if needed.
+   * Pass a status to move the thread (e.g. back to 'active' on new activity).
+   */
+  syncThread(
+    threadId: string,
+    status?: ConversationStatus,
+    resolutionSummary?: string
+  ): Conversation | null {
+    this.upsertConversation.run({
+      now: new Date().toISOString(),
+      thread_id: threadId,
+      status: status ?? null,
+      resolution_summary: resolutionSummary ?? null,
+    })
+
+    return this.getConversation(threadId)
+  }
+
+  /**
+   * Set or, with null, clear a thread's override of the expiry policies
+   */
+  setExpiryPolicy(threadId: string, policy: ThreadExpiryPolicy | null): void {
+    this.updateExpiryPolicyStmt.run(policy ? JSON.stringify(policy) : null, threadId)
+  }
+
+  /**
+   * Record the decision of a proposal in the thread, replacing any earlier one
+   */
+  setDecision(threadId: string, decision: ProposalDecision): void {
+    this.updateDecisionStmt.run(decision, threadId)
+  }
+
+  /**
+   * Get a conversation row by thread ID (no access check)
+   */
+  getConversation(threadId: string): Conversation | null {
+    const row = this.selectConversation.get(threadId) as ConversationRow | undefined
+    return row ? this.rowToConversation(row) : null
+  }
+
+  /**
+   * List threads the requesting participant takes part in, most recently active first
+   */
+  async listThreads(
+    input: ListThreadsInput,
+    requestingParticipant: ParticipantId
+  ): Promise<Conversation[]> {
+    const validated = validateInput(ListThreadsInput, input, 'list threads')
+    this.releaseDueMessages()
+
+    const rows = this.selectConversations.all({
+      participant: validated.participant || requestingParticipant,
+      status: validated.status ? JSON.stringify(validated.status) : null,
+      since: validated.since_hours
+        ? new Date(Date.now() - validated.since_hours * 60 * 60 * 1000).toISOString()
+        : null,
+      limit: validated.limit ?? 20,
+    }) as ConversationRow[]
+
+    const conversations = rows.map(row => this.rowToConversation(row))
+
+    // Filtering on another participant never widens access beyond the requester's threads
+    return conversations.filter(conversation =>
+      conversation.participants.includes(requestingParticipant)
+    )
+  }
+
+  private rowToConversation(row: ConversationRow): Conversation {
+    return {
+      thread_id: row.thread_id,
+      participants: JSON.parse(row.participants),
+      topic: row.topic,
+      tags: JSON.parse(row.tags),
+      created_at: new Date(row.created_at),
+      last_activity: new Date(row.last_activity),
+      status: row.status,
+      resolution_summary: row.resolution_summary ?? undefined,
+      message_count: row.message_count,
+      expiry_policy: row.expiry_policy ? JSON.parse(row.expiry_policy) : undefined,
+      decision: row.decision ?? undefined,
+    }
+  }
+}
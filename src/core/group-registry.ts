@@ -0,0 +1,171 @@
+import type { Statement } from 'better-sqlite3'
+
+import { CoordinationDatabase } from '../database/connection.js'
+import { ParticipantRegistry } from './participant-registry.js'
+import { validateInput } from '../utils/validation.js'
+import {
+  CreateGroupInput,
+  ParticipantGroup,
+  ParticipantGroupRow,
+  ParticipantId,
+  RecipientExpression,
+  ValidationError,
+} from '../types/index.js'
+
+export class GroupRegistry {
+  private db: CoordinationDatabase
+  private participants: ParticipantRegistry
+
+  // Prepared statements
+  private insertGroup: Statement
+  private selectGroup: Statement
+  private selectAllGroups: Statement
+  private deleteGroup: Statement
+
+  constructor(db: CoordinationDatabase, participants: ParticipantRegistry) {
+    this.db = db
+    this.participants = participants
+    this.prepareStatements()
+  }
+
+  private prepareStatements(): void {
+    this.insertGroup = this.db.prepare(`
+      INSERT INTO participant_groups (name, members, description, created_by, created_at, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?)
+    `)
+
+    this.selectGroup = this.db.prepare('SELECT * FROM participant_groups WHERE name = ?')
+
+    this.selectAllGroups = this.db.prepare('SELECT * FROM participant_groups ORDER BY name')
+
+    this.deleteGroup = this.db.prepare('DELETE FROM participant_groups WHERE name = ?')
+  }
+
+  /**
+   * Create a named group of registered participants
+   */
+  async createGroup(input: CreateGroupInput, createdBy: ParticipantId): Promise<ParticipantGroup> {
+    const validated = validateInput(CreateGroupInput, input, 'create group')
+
+    if (this.selectGroup.get(validated.name)) {
+      throw new ValidationError(`Group already exists: ${validated.name}`)
+    }
+
+    const members = [...new Set(validated.members)]
+    for (const member of members) {
+      if (!(await this.participants.getParticipant(member))) {
+        throw new ValidationError(`Participant not found: ${member}`)
+      }
+    }
+
+    const now = new Date()
+    this.insertGroup.run(
+      validated.name,
+      JSON.stringify(members),
+      validated.description ?? null,
+      createdBy,
+      now.toISOString(),
+      now.toISOString()
+    )
+
+    return {
+      name: validated.name,
+      members,
+      description: validated.description,
+      created_by: createdBy,
+      created_at: now,
+      updated_at: now,
+    }
+  }
+
+  /**
+   * Get a group by name
+   */
+  async getGroup(name: string): Promise<ParticipantGroup | null> {
+    const row = this.selectGroup.get(name) as ParticipantGroupRow | undefined
+    return row ? this.rowToGroup(row) : null
+  }
+
+  /**
+   * List all groups
+   */
+  async listGroups(): Promise<ParticipantGroup[]> {
+    const rows = this.selectAllGroups.all() as ParticipantGroupRow[]
+    return rows.map(row => this.rowToGroup(row))
+  }
+
+  /**
+   * Remove a group (its creator or an admin). Messages already sent to it keep their recipients.
+   */
+  async removeGroup(name: string, requestingParticipant: ParticipantId): Promise<void> {
+    const row = this.selectGroup.get(name) as ParticipantGroupRow | undefined
+    if (!row) {
+      throw new ValidationError(`Group not found: ${name}`)
+    }
+
+    if (
+      row.created_by !== requestingParticipant &&
+      !(await this.participants.isAdmin(requestingParticipant))
+    ) {
+      throw new ValidationError('Access denied: only the creator or an admin can remove this group')
+    }
+
+    this.deleteGroup.run(name)
+  }
+
+  /**
+   * Expand recipient expressions into participant IDs, in order of first appearance.
+   * @all and cap:<capability> cover active participants and group:<name> its members that
+   * are not inactive; the sender is left out of all three. Plain participant IDs are kept as is.
+   */
+  async expandRecipients(
+    recipients: RecipientExpression[],
+    sender: ParticipantId
+  ): Promise<ParticipantId[]> {
+    const expanded = new Set<ParticipantId>()
+
+    for (const recipient of recipients) {
+      let members: ParticipantId[]
+      if (recipient === '@all') {
+        members = (await this.participants.getParticipants('active')).map(p => p.id)
+      } else if (recipient.startsWith('cap:')) {
+        const capability = recipient.substring(4)
+        members = (await this.participants.getParticipantsByCapability(capability)).map(p => p.id)
+      } else if (recipient.startsWith('group:')) {
+        const group = await this.getGroup(recipient.substring(6))
+        if (!group) {
+          throw new ValidationError(`Group not found: ${recipient.substring(6)}`)
+        }
+        members = []
+        for (const member of group.members) {
+          const participant = await this.participants.getParticipant(member)
+          if (participant && participant.status !== 'inactive') {
+            members.push(member)
+          }
+        }
+      } else {
+        expanded.add(recipient)
+        continue
+      }
+
+      for (const member of members) {
+        if (member !== sender) {
+          expanded.add(member)
+        }
+      }
+    }
+
+    return [...expanded]
+  }
+
+  private rowToGroup(row: ParticipantGroupRow): ParticipantGroup {
+    return {
+      name: row.name,
+      members: JSON.parse(row.members),
+      description: row.description ?? undefined,
+      created_by: row.created_by as ParticipantId,
+      created_at: new Date(row.created_at),
+      updated_at: new Date(row.updated_at),
+    }
+  }
+}
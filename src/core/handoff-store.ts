@@ -0,0 +1,116 @@
+import type { Statement } from 'better-sqlite3'
+
+import { CoordinationDatabase } from '../database/connection.js'
+import {
+  CoordinationMessage,
+  Handoff,
+  HandoffDetails,
+  HandoffRow,
+  ParticipantId,
+  ValidationError,
+} from '../types/index.js'
+
+/**
+ * What the session picking up a handoff needs to carry on, in as few lines as possible
+ */
+export function renderHandoffBrief(message: CoordinationMessage): string {
+  const handoff = message.handoff
+  if (!handoff) {
+    throw new ValidationError(`Message is not a handoff: ${message.id}`)
+  }
+  const section = (title: string, items: string[], format: (item: string) => string) =>
+    items.length > 0 ? ['', `${title}:`, ...items.map(format)] : []
+
+  const notes = message.content && message.content !== handoff.goal ? message.content : undefined
+
+  return [
+    `Handoff ${message.id} from ${message.from}, ${message.created_at.toISOString()}`,
+    `Goal: ${handoff.goal}`,
+    ...(handoff.branch ? [`Branch: ${handoff.branch}`] : []),
+    `Thread: ${message.thread_id}`,
+    ...section('Next steps', handoff.next_steps, step => `- ${step}`),
+    ...section('Open questions', handoff.open_questions, question => `- ${question}`),
+    ...section('Files touched', handoff.files_touched, file => `- ${file}`),
+    ...section('Commands run', handoff.commands_run, command => `$ ${command}`),
+    ...(notes ? ['', 'Notes:', notes] : []),
+  ].join('\n')
+}
+
+/**
+ * The structured state of handoff messages, stored next to the messages themselves
+ */
+export class HandoffStore {
+  private db: CoordinationDatabase
+
+  // Prepared statements
+  private insertHandoff: Statement
+  private selectHandoff: Statement
+  private setAccepted: Statement
+
+  constructor(db: CoordinationDatabase) {
+    this.db = db
+    this.prepareStatements()
+  }
+
+  private prepareStatements(): void {
+    this.insertHandoff = this.db.prepare(`
+      INSERT INTO handoffs (
+        message_id, goal, branch, files_touched, commands_run, open_questions, next_steps
+      ) VALUES (?, ?, ?, ?, ?, ?, ?)
+    `)
+
+    this.selectHandoff = this.db.prepare('SELECT * FROM handoffs WHERE message_id = ?')
+
+    // One session picks the work up
+    this.setAccepted = this.db.prepare(`
+      UPDATE handoffs SET accepted_by = ?, accepted_at = ?
+      WHERE message_id = ? AND accepted_by IS NULL
+    `)
+  }
+
+  /**
+   * Store the details of a handoff message that was just created
+   */
+  createHandoff(messageId: string, details: HandoffDetails): Handoff {
+    this.insertHandoff.run(
+      messageId,
+      details.goal,
+      details.branch ?? null,
+      JSON.stringify(details.files_touched),
+      JSON.stringify(details.commands_run),
+      JSON.stringify(details.open_questions),
+      JSON.stringify(details.next_steps)
+    )
+
+    return { message_id: messageId, ...details }
+  }
+
+  /**
+   * Get a handoff, or null when the message is not one
+   */
+  getHandoff(messageId: string): Handoff | null {
+    const row = this.selectHandoff.get(messageId) as HandoffRow | undefined
+    return row ? this.rowToHandoff(row) : null
+  }
+
+  /**
+   * Record who picked the work up. Returns false when someone already did.
+   */
+  acceptHandoff(messageId: string, participant: ParticipantId, acceptedAt: Date): boolean {
+    return this.setAccepted.run(participant, acceptedAt.toISOString(), messageId).changes > 0
+  }
+
+  private rowToHandoff(row: HandoffRow): Handoff {
+    return {
+      message_id: row.message_id,
+      goal: row.goal,
+      branch: row.branch ?? undefined,
+      files_touched: JSON.parse(row.files_touched),
+      commands_run: JSON.parse(row.commands_run),
+      open_questions: JSON.parse(row.open_questions),
+      next_steps: JSON.parse(row.next_steps),
+      accepted_by: (row.accepted_by as ParticipantId | null) ?? undefined,
+      accepted_at: row.accepted_at ? new Date(row.accepted_at) : undefined,
+    }
+  }
+}
@@ -1,10 +1,18 @@
 import { CoordinationDatabase } from '../database/connection.js'
 import { validateInput } from '../utils/validation.js'
+import {
+  afterCursorSql,
+  cursorAfter,
+  cursorParams,
+  decodeCursor,
+  priorityRankSql,
+} from '../utils/pagination.js'
 import type { Statement } from 'better-sqlite3'
 import {
   CoordinationMessage,
   SearchMessagesInput,
   SearchResult,
+  SearchPage,
   ParticipantId,
   DatabaseError,
 } from '../types/index.js'
@@ -15,6 +23,8 @@ export class IndexingEngine {
   // Prepared statements for search
   private searchMessagesFTS: Statement
   private searchMessagesByTags: Statement
+  private searchMessagesByKeyword: Statement
+  private searchRelatedMessages: Statement
   private searchMessagesByDateRange: Statement
   private updateMessageTags: Statement
 
@@ -33,6 +43,20 @@ export class IndexingEngine {
       AND ($participant IS NULL OR m.from_participant = $participant OR m.to_participants LIKE '%"' || $participant || '"%')
       AND ($dateFrom IS NULL OR m.created_at >= $dateFrom)
       AND ($dateTo IS NULL OR m.created_at <= $dateTo)
+      AND (m.send_at IS NULL OR m.send_at <= $now OR m.from_participant = $participant)
+      AND ${afterCursorSql('m.priority', 'm.created_at', 'm.id')}
+      ORDER BY ${priorityRankSql('m.priority')}, m.created_at DESC, m.id DESC
+      LIMIT $limit
+    `)
+
+    // Related messages are ranked by relevance alone and never paged
+    this.searchRelatedMessages = this.db.prepare(`
+      SELECT m.*, fts.rank
+      FROM messages_fts fts
+      JOIN messages m ON m.id = fts.id
+      WHERE messages_fts MATCH $query
+      AND (m.from_participant = $participant OR m.to_participants LIKE '%"' || $participant || '"%')
+      AND (m.send_at IS NULL OR m.send_at <= $now OR m.from_participant = $participant)
       ORDER BY fts.rank, m.created_at DESC
       LIMIT $limit
     `)
@@ -47,14 +71,22 @@ export class IndexingEngine {
       ))
       AND ($dateFrom IS NULL OR created_at >= $dateFrom)
       AND ($dateTo IS NULL OR created_at <= $dateTo)
-      ORDER BY 
-        CASE priority 
-          WHEN 'CRITICAL' THEN 1
-          WHEN 'H' THEN 2 
-          WHEN 'M' THEN 3
-          WHEN 'L' THEN 4
-        END,
-        created_at DESC
+      AND (send_at IS NULL OR send_at <= $now OR from_participant = $participant)
+      AND ${afterCursorSql('priority', 'created_at', 'id')}
+      ORDER BY ${priorityRankSql('priority')}, created_at DESC, id DESC
+      LIMIT $limit
+    `)
+
+    // Simple keyword search in subject/summary
+    this.searchMessagesByKeyword = this.db.prepare(`
+      SELECT * FROM messages
+      WHERE (from_participant = $participant OR to_participants LIKE '%"' || $participant || '"%')
+      AND (subject LIKE '%' || $keyword || '%' OR summary LIKE '%' || $keyword || '%')
+      AND ($dateFrom IS NULL OR created_at >= $dateFrom)
+      AND ($dateTo IS NULL OR created_at <= $dateTo)
+      AND (send_at IS NULL OR send_at <= $now OR from_participant = $participant)
+      AND ${afterCursorSql('priority', 'created_at', 'id')}
+      ORDER BY ${priorityRankSql('priority')}, created_at DESC, id DESC
       LIMIT $limit
     `)
 
@@ -65,71 +97,70 @@ export class IndexingEngine {
   }
 
   /**
-   * Search messages using full-text search and filters
+   * Search messages using full-text search and filters, first page only
    */
   async searchMessages(
     input: SearchMessagesInput,
     requestingParticipant: ParticipantId
   ): Promise<SearchResult[]> {
+    return (await this.searchMessagesPage(input, requestingParticipant)).results
+  }
+
+  /**
+   * Search messages a page at a time. Results are ordered by priority, then newest first, so
+   * that next_cursor stays valid while messages are added.
+   */
+  async searchMessagesPage(
+    input: SearchMessagesInput,
+    requestingParticipant: ParticipantId
+  ): Promise<SearchPage> {
     const validated = validateInput(SearchMessagesInput, input, 'search messages')
+    const after = validated.cursor ? decodeCursor(validated.cursor) : undefined
 
     try {
       let results: any[] = []
+      const params = {
+        participant: requestingParticipant,
+        now: new Date().toISOString(),
+        dateFrom: validated.date_range?.from?.toISOString() || null,
+        dateTo: validated.date_range?.to?.toISOString() || null,
+        ...cursorParams(after),
+        // One extra row tells whether there is a next page
+        limit: validated.limit + 1,
+      }
 
       if (validated.semantic && validated.query.trim()) {
         // Full-text search
         results = this.searchMessagesFTS.all({
+          ...params,
           query: this.prepareFTSQuery(validated.query),
-          participant: requestingParticipant,
-          dateFrom: validated.date_range?.from?.toISOString() || null,
-          dateTo: validated.date_range?.to?.toISOString() || null,
-          limit: validated.limit,
         })
       } else if (validated.tags && validated.tags.length > 0) {
         // Tag-based search
         results = this.searchMessagesByTags.all({
-          participant: requestingParticipant,
+          ...params,
           tags: JSON.stringify(validated.tags),
-          dateFrom: validated.date_range?.from?.toISOString() || null,
-          dateTo: validated.date_range?.to?.toISOString() || null,
-          limit: validated.limit,
         })
       } else {
-        // Simple keyword search in subject/summary
         const keywordQuery = validated.query.trim()
         if (keywordQuery) {
-          results = this.db
-            .prepare(
-              `
-            SELECT * FROM messages
-            WHERE (from_participant = ? OR to_participants LIKE '%"' || ? || '"%')
-            AND (subject LIKE '%' || ? || '%' OR summary LIKE '%' || ? || '%')
-            AND (? IS NULL OR created_at >= ?)
-            AND (? IS NULL OR created_at <= ?)
-            ORDER BY created_at DESC
-            LIMIT ?
-          `
-            )
-            .all(
-              requestingParticipant,
-              requestingParticipant,
-              keywordQuery,
-              keywordQuery,
-              validated.date_range?.from?.toISOString() || null,
-              validated.date_range?.from?.toISOString() || null,
-              validated.date_range?.to?.toISOString() || null,
-              validated.date_range?.to?.toISOString() || null,
-              validated.limit
-            )
+          results = this.searchMessagesByKeyword.all({ ...params, keyword: keywordQuery })
         }
       }
 
+      const pageRows = results.slice(0, validated.limit)
+      const nextCursor =
+        results.length > validated.limit ? cursorAfter(pageRows[pageRows.length - 1]) : undefined
+
       // Convert to search results with relevance scores
-      return results.map((row, index) => ({
-        message: this.rowToMessage(row),
-        relevance_score: row.rank ? this.normalizeRank(row.rank) : 1.0 - index * 0.1,
-        match_context: this.extractMatchContext(row, validated.query) || '',
-      }))
+      return {
+        results: pageRows.map((row, index) => ({
+          message: this.rowToMessage(row),
+          relevance_score: row.rank ? this.normalizeRank(row.rank) : 1.0 - index * 0.1,
+          match_context: this.extractMatchContext(row, validated.query) || '',
+        })),
+        next_cursor: nextCursor,
+      }
     } catch (error: any) {
       throw new DatabaseError(`Search failed: ${error.message}`, {
         query: validated.query,
@@ -354,11 +385,10 @@ export class IndexingEngine {
       }
 
       const query = keywords.join(' OR ')
-      const results = this.searchMessagesFTS.all({
+      const results = this.searchRelatedMessages.all({
         query: query,
         participant: requestingParticipant,
-        dateFrom: null, // No date filter
-        dateTo: null, // No date filter
+        now: new Date().toISOString(),
         limit: limit + 1, // +1 to exclude the original message
       })
 
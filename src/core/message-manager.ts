@@ -1,28 +1,108 @@
 import { customAlphabet } from 'nanoid'
-import { format, addHours } from 'date-fns'
-import fs from 'fs/promises'
-import path from 'path'
+import { addHours, addMinutes } from 'date-fns'
 import type { Statement } from 'better-sqlite3'
 
 import { CoordinationDatabase } from '../database/connection.js'
-import { validateInput, validateMessageId, validateNoCycles } from '../utils/validation.js'
+import { AdrStore } from './adr-store.js'
+import { AttachmentStore } from './attachment-store.js'
+import { CapabilityRouter } from './capability-router.js'
+import { ContentStore } from './content-store.js'
+import { ConversationManager } from './conversation-manager.js'
+import { GroupRegistry } from './group-registry.js'
+import { HandoffStore } from './handoff-store.js'
+import { ParticipantRegistry } from './participant-registry.js'
+import { ProposalStore } from './proposal-store.js'
+import {
+  isGroupRecipient,
+  validateInput,
+  validateMessageId,
+  validateNoCycles,
+} from '../utils/validation.js'
+import {
+  afterCursorSql,
+  cursorAfter,
+  cursorParams,
+  decodeCursor,
+  priorityRankSql,
+} from '../utils/pagination.js'
 import {
   CoordinationMessage,
   MessageRow,
   SendMessageInput,
   GetMessagesInput,
   RespondMessageInput,
+  MarkReadInput,
+  SnoozeMessageInput,
+  TriageMessageInput,
+  VoteInput,
+  Proposal,
+  HandoffInput,
+  AcceptHandoffInput,
+  MessageTriage,
+  MessageTriageRow,
+  CancelMessageInput,
+  EditMessageInput,
+  GetRevisionsInput,
+  GetDependencyGraphInput,
+  ForwardMessageInput,
+  MessageForward,
+  ContentProblem,
+  ContentIntegrityError,
+  Conversation,
+  DecisionRecord,
+  DEFAULT_EXPIRY_HOURS,
+  Escalation,
+  EscalationRule,
+  ExpiryPolicy,
+  ContentRefRow,
+  MessageRouting,
+  Attachment,
+  GetAttachmentInput,
+  DependencyGraph,
+  DependencyNode,
+  MessageRevision,
+  MessageRevisionRow,
+  MessageRecipient,
+  MessageRecipientRow,
   CloseThreadInput,
+  SetThreadExpiryInput,
+  ThreadExpiryPolicy,
+  GetThreadInput,
+  ThreadDetails,
   MessageFilters,
   PaginationOptions,
+  MessagePage,
   MessageType,
+  MessageStatus,
+  Priority,
   ParticipantId,
+  RecipientStatus,
   ValidationError,
+  VoteChoice,
 } from '../types/index.js'
 
+// Statuses after which a message no longer blocks the messages that depend on it
+const SETTLED_STATUSES: MessageStatus[] = ['resolved', 'archived', 'cancelled']
+
+// Escalation and proposal decision notices are logged in the thread under this sender
+const SYSTEM_PARTICIPANT = '@system' as ParticipantId
+
+// Identifies a rule by what it matches, so an edited action doesn't fire it again
+function escalationRuleKey(rule: EscalationRule): string {
+  return JSON.stringify([rule.priority ?? '*', rule.type ?? '*', rule.after_hours])
+}
+
 export class MessageManager {
   private db: CoordinationDatabase
-  private dataDir: string
+  private conversations: ConversationManager
+  private groups: GroupRegistry
+  private router: CapabilityRouter
+  private attachments: AttachmentStore
+  private content: ContentStore
+  private proposals: ProposalStore
+  private handoffs: HandoffStore
+  private adrs?: AdrStore
+  private expiryPolicies: ExpiryPolicy[]
 
   // Prepared statements for performance
   private insertMessage: Statement
@@ -31,10 +111,56 @@ export class MessageManager {
   private selectMessageById: Statement
   private deleteMessage: Statement
   private selectMessageDependencies: Statement
-
-  constructor(db: CoordinationDatabase, dataDir: string) {
+  private selectThreadMessages: Statement
+  private insertRecipient: Statement
+  private updateRecipientStatus: Statement
+  private resolveRecipients: Statement
+  private countPendingRecipients: Statement
+  private selectRecipients: Statement
+  private markMessageRead: Statement
+  private cancelMessageStmt: Statement
+  private countAnsweredRecipients: Statement
+  private updateMessageContent: Statement
+  private selectScheduled: Statement
+  private insertRevision: Statement
+  private selectRevisions: Statement
+  private selectBlockers: Statement
+  private selectDependents: Statement
+  private selectContentRefs: Statement
+  private updateMessageContentRef: Statement
+  private updateRevisionContentRef: Statement
+  private setForwardedFrom: Statement
+  private selectThreadForwards: Statement
+  private setRouting: Statement
+  private selectRoutedAwaitingResponse: Statement
+  private reassignRouting: Statement
+  private deleteRecipient: Statement
+  private selectAwaitingEscalation: Statement
+  private selectAppliedEscalations: Statement
+  private insertEscalation: Statement
+  private escalateMessage: Statement
+  private selectOpenThreadMessages: Statement
+  private updateExpiresAt: Statement
+  private selectTriage: Statement
+  private upsertTriage: Statement
+
+  constructor(
+    db: CoordinationDatabase,
+    dataDir: string,
+    expiryPolicies: ExpiryPolicy[] = [],
+    adrDirectory?: string // Closed arch threads are written there as decision records
+  ) {
     this.db = db
-    this.dataDir = dataDir
+    this.expiryPolicies = expiryPolicies
+    this.adrs = adrDirectory ? new AdrStore(adrDirectory) : undefined
+    this.conversations = new ConversationManager(db)
+    const participants = new ParticipantRegistry(db, dataDir)
+    this.groups = new GroupRegistry(db, participants)
+    this.router = new CapabilityRouter(db, participants)
+    this.attachments = new AttachmentStore(db, dataDir)
+    this.content = new ContentStore(dataDir)
+    this.proposals = new ProposalStore(db)
+    this.handoffs = new HandoffStore(db)
     this.prepareStatements()
   }
 
@@ -43,8 +169,9 @@ export class MessageManager {
       INSERT INTO messages (
         id, thread_id, from_participant, to_participants, type, priority, status,
         subject, summary, content_ref, created_at, updated_at, expires_at,
-        response_required, dependencies, tags, semantic_vector, suggested_approach
-      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        response_required, dependencies, tags, semantic_vector, suggested_approach, send_at,
+        in_reply_to, addressed_to
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
     `)
 
     this.updateMessage = this.db.prepare(`
@@ -53,25 +180,37 @@ export class MessageManager {
       WHERE id = ?
     `)
 
+    // The requester's own delivery state is joined in from message_recipients
     this.selectMessages = this.db.prepare(`
-      SELECT * FROM messages 
+      SELECT m.*, r.status AS recipient_status,
+        t.snoozed_until, t.pinned, t.starred, t.done_at
+      FROM messages m
+      LEFT JOIN message_recipients r ON r.message_id = m.id AND r.participant_id = $requester
+      LEFT JOIN message_triage t ON t.message_id = m.id AND t.participant_id = $requester
       WHERE 1=1
-        AND ($participant IS NULL OR from_participant = $participant OR to_participants LIKE '%' || $participant || '%')
-        AND ($status IS NULL OR status IN (SELECT value FROM json_each($status)))
-        AND ($type IS NULL OR type IN (SELECT value FROM json_each($type)))
-        AND ($priority IS NULL OR priority IN (SELECT value FROM json_each($priority)))
-        AND ($since IS NULL OR created_at >= $since)
-        AND ($thread_id IS NULL OR thread_id = $thread_id)
-        AND ($active_only = 0 OR status NOT IN ('resolved', 'archived', 'cancelled'))
-      ORDER BY 
-        CASE priority 
-          WHEN 'CRITICAL' THEN 1
-          WHEN 'H' THEN 2 
-          WHEN 'M' THEN 3
-          WHEN 'L' THEN 4
-        END,
-        created_at DESC
-      LIMIT $limit OFFSET $offset
+        AND ($participant IS NULL OR m.from_participant = $participant OR m.to_participants LIKE '%' || $participant || '%')
+        AND ($status IS NULL OR m.status IN (SELECT value FROM json_each($status)))
+        AND ($recipient_status IS NULL OR r.status IN (SELECT value FROM json_each($recipient_status)))
+        AND ($type IS NULL OR m.type IN (SELECT value FROM json_each($type)))
+        AND ($priority IS NULL OR m.priority IN (SELECT value FROM json_each($priority)))
+        AND ($since IS NULL OR m.created_at >= $since)
+        AND ($thread_id IS NULL OR m.thread_id = $thread_id)
+        AND ($active_only = 0 OR m.status NOT IN ('resolved', 'archived', 'cancelled'))
+        AND (m.send_at IS NULL OR m.send_at <= $now OR m.from_participant = $requester)
+        AND ($triage IS NULL
+          OR ('pinned' IN (SELECT value FROM json_each($triage)) AND t.pinned = 1)
+          OR ('starred' IN (SELECT value FROM json_each($triage)) AND t.starred = 1)
+          OR ('snoozed' IN (SELECT value FROM json_each($triage)) AND t.snoozed_until > $now)
+          OR ('done' IN (SELECT value FROM json_each($triage)) AND t.done_at IS NOT NULL))
+        -- The requester's snoozed and done messages drop out of their active listings,
+        -- unless asked for
+        AND ($active_only = 0 OR t.snoozed_until IS NULL OR t.snoozed_until <= $now
+          OR 'snoozed' IN (SELECT value FROM json_each($triage)))
+        AND ($active_only = 0 OR t.done_at IS NULL
+          OR 'done' IN (SELECT value FROM json_each($triage)))
+        AND ${afterCursorSql('m.priority', 'm.created_at', 'm.id')}
+      ORDER BY ${priorityRankSql('m.priority')}, m.created_at DESC, m.id DESC
+      LIMIT $limit
     `)
 
     this.selectMessageById = this.db.prepare('SELECT * FROM messages WHERE id = ?')
@@ -81,6 +220,198 @@ export class MessageManager {
     this.selectMessageDependencies = this.db.prepare(
       'SELECT dependencies FROM messages WHERE id = ?'
     )
+
+    this.selectThreadMessages = this.db.prepare(
+      'SELECT * FROM messages WHERE thread_id = ? ORDER BY created_at ASC, rowid ASC'
+    )
+
+    this.insertRecipient = this.db.prepare(`
+      INSERT OR IGNORE INTO message_recipients (message_id, participant_id, status, delivered_at)
+      VALUES (?, ?, 'delivered', ?)
+    `)
+
+    // Recipient states only move forward (delivered → read → responded → resolved),
+    // and a later state implies the earlier ones (a response implies a read)
+    this.updateRecipientStatus = this.db.prepare(`
+      UPDATE message_recipients SET
+        status = $status,
+        read_at = COALESCE(read_at, $now),
+        responded_at = CASE WHEN $status = 'responded' THEN $now ELSE responded_at END,
+        resolved_at = CASE WHEN $status = 'resolved' THEN $now ELSE resolved_at END
+      WHERE message_id = $message_id AND participant_id = $participant
+        AND CASE status WHEN 'delivered' THEN 0 WHEN 'read' THEN 1 WHEN 'responded' THEN 2 ELSE 3 END
+          < CASE $status WHEN 'delivered' THEN 0 WHEN 'read' THEN 1 WHEN 'responded' THEN 2 ELSE 3 END
+    `)
+
+    this.resolveRecipients = this.db.prepare(`
+      UPDATE message_recipients SET status = 'resolved', resolved_at = ?
+      WHERE message_id = ? AND status != 'resolved'
+    `)
+
+    this.countPendingRecipients = this.db.prepare(`
+      SELECT COUNT(*) AS count FROM message_recipients
+      WHERE message_id = ? AND status IN ('delivered', 'read')
+    `)
+
+    this.selectRecipients = this.db.prepare(
+      'SELECT * FROM message_recipients WHERE message_id = ? ORDER BY participant_id'
+    )
+
+    // A pending message becomes read once none of its recipients is still unread
+    this.markMessageRead = this.db.prepare(`
+      UPDATE messages SET status = 'read'
+      WHERE id = $message_id AND status = 'pending'
+        AND NOT EXISTS (
+          SELECT 1 FROM message_recipients WHERE message_id = $message_id AND status = 'delivered'
+        )
+    `)
+
+    this.cancelMessageStmt = this.db.prepare(`
+      UPDATE messages SET
+        status = 'cancelled', updated_at = ?, cancelled_at = ?, cancellation_reason = ?
+      WHERE id = ?
+    `)
+
+    this.updateMessageContent = this.db.prepare(`
+      UPDATE messages SET
+        subject = ?, summary = ?, content_ref = ?, priority = ?, tags = ?,
+        revision = ?, edited_at = ?, updated_at = ?
+      WHERE id = ?
+    `)
+
+    this.selectScheduled = this.db.prepare(`
+      SELECT * FROM messages
+      WHERE from_participant = ? AND send_at > ? AND status != 'cancelled'
+      ORDER BY send_at ASC
+    `)
+
+    this.insertRevision = this.db.prepare(`
+      INSERT INTO message_revisions (
+        message_id, revision, subject, content_ref, priority, tags, edited_by, edited_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `)
+
+    this.selectRevisions = this.db.prepare(
+      'SELECT * FROM message_revisions WHERE message_id = ? ORDER BY revision ASC'
+    )
+
+    this.countAnsweredRecipients = this.db.prepare(`
+      SELECT COUNT(*) AS count FROM message_recipients
+      WHERE message_id = ? AND status IN ('responded', 'resolved')
+    `)
+
+    // A dependency blocks until it is resolved, archived or cancelled
+    this.selectBlockers = this.db.prepare(`
+      SELECT dep.id FROM messages m, json_each(m.dependencies) d
+      JOIN messages dep ON dep.id = d.value
+      WHERE m.id = ? AND dep.status NOT IN ('resolved', 'archived', 'cancelled')
+    `)
+
+    this.setForwardedFrom = this.db.prepare('UPDATE messages SET forwarded_from = ? WHERE id = ?')
+
+    this.selectThreadForwards = this.db.prepare(`
+      SELECT copy.* FROM messages copy
+      JOIN messages original ON original.id = copy.forwarded_from
+      WHERE original.thread_id = ?
+      ORDER BY copy.created_at ASC, copy.rowid ASC
+    `)
+
+    this.setRouting = this.db.prepare(`
+      UPDATE messages SET
+        route_to = ?, routing_strategy = ?, routed_to = ?, routed_at = ?, routed_added = ?,
+        reassign_after_minutes = ?, routing_history = '[]'
+      WHERE id = ?
+    `)
+
+    // Routed messages whose assignee hasn't responded yet; the deadline is checked by the caller
+    this.selectRoutedAwaitingResponse = this.db.prepare(`
+      SELECT m.* FROM messages m
+      JOIN message_recipients r ON r.message_id = m.id AND r.participant_id = m.routed_to
+      WHERE m.reassign_after_minutes IS NOT NULL
+        AND m.status NOT IN ('resolved', 'archived', 'cancelled')
+        AND r.status IN ('delivered', 'read')
+      ORDER BY m.routed_at ASC
+    `)
+
+    // Compare-and-swap on the current assignment, so only one process re-routes a message
+    this.reassignRouting = this.db.prepare(`
+      UPDATE messages SET
+        to_participants = $to, routed_to = $assignee, routed_at = $now, routed_added = $added,
+        routing_history = $history, updated_at = $now,
+        status = CASE status WHEN 'read' THEN 'pending' ELSE status END
+      WHERE id = $id AND routed_to = $previous AND routed_at = $routed_at
+    `)
+
+    this.deleteRecipient = this.db.prepare(
+      'DELETE FROM message_recipients WHERE message_id = ? AND participant_id = ?'
+    )
+
+    // Delivered messages nobody has answered yet, with when they were last escalated
+    this.selectAwaitingEscalation = this.db.prepare(`
+      SELECT m.*,
+        (SELECT MAX(e.escalated_at) FROM message_escalations e WHERE e.message_id = m.id)
+          AS last_escalated_at
+      FROM messages m
+      WHERE m.response_required = 1 AND m.status IN ('pending', 'read') AND m.send_at IS NULL
+      ORDER BY m.created_at ASC
+    `)
+
+    this.selectAppliedEscalations = this.db.prepare(
+      'SELECT rule FROM message_escalations WHERE message_id = ?'
+    )
+
+    // Claims a rule for a message, so only one process applies it
+    this.insertEscalation = this.db.prepare(
+      'INSERT OR IGNORE INTO message_escalations (message_id, rule, escalated_at) VALUES (?, ?, ?)'
+    )
+
+    this.escalateMessage = this.db.prepare(
+      'UPDATE messages SET priority = ?, to_participants = ?, updated_at = ? WHERE id = ?'
+    )
+
+    this.selectOpenThreadMessages = this.db.prepare(`
+      SELECT id, created_at FROM messages
+      WHERE thread_id = ? AND status NOT IN ('resolved', 'archived', 'cancelled')
+    `)
+
+    this.updateExpiresAt = this.db.prepare('UPDATE messages SET expires_at = ? WHERE id = ?')
+
+    this.selectTriage = this.db.prepare(
+      'SELECT * FROM message_triage WHERE message_id = ? AND participant_id = ?'
+    )
+
+    this.upsertTriage = this.db.prepare(`
+      INSERT INTO message_triage (
+        message_id, participant_id, snoozed_until, pinned, starred, done_at, updated_at
+      ) VALUES (
+        $message_id, $participant, $snoozed_until, $pinned, $starred, $done_at, $updated_at
+      )
+      ON CONFLICT(message_id, participant_id) DO UPDATE SET
+        snoozed_until = excluded.snoozed_until, pinned = excluded.pinned,
+        starred = excluded.starred, done_at = excluded.done_at, updated_at = excluded.updated_at
+    `)
+
+    this.selectContentRefs = this.db.prepare(`
+      SELECT id AS message_id, NULL AS revision, content_ref FROM messages
+      WHERE content_ref IS NOT NULL
+      UNION ALL
+      SELECT message_id, revision, content_ref FROM message_revisions
+      ORDER BY message_id, revision
+    `)
+
+    this.updateMessageContentRef = this.db.prepare(
+      'UPDATE messages SET content_ref = ? WHERE id = ?'
+    )
+
+    this.updateRevisionContentRef = this.db.prepare(
+      'UPDATE message_revisions SET content_ref = ? WHERE message_id = ? AND revision = ?'
+    )
+
+    this.selectDependents = this.db.prepare(`
+      SELECT m.* FROM messages m, json_each(m.dependencies) d
+      WHERE d.value = ?
+      ORDER BY m.created_at ASC, m.rowid ASC
+    `)
   }
 
   /**
@@ -94,17 +425,111 @@ export class MessageManager {
 
     const messageId = this.generateMessageId(validated.type)
     const threadId = this.generateThreadId(messageId)
-    const now = new Date()
-    const expiresAt = validated.expires_in_hours
-      ? addHours(now, validated.expires_in_hours)
-      : undefined
 
-    // Validate dependencies don't create cycles
-    if (validated.tags?.some(tag => tag.startsWith('depends:'))) {
-      const dependencies = validated.tags
-        .filter(tag => tag.startsWith('depends:'))
-        .map(tag => tag.substring(8))
+    // Group expressions are expanded now, so later membership changes don't alter who received it
+    const recipients = await this.groups.expandRecipients(validated.to, fromParticipant)
+
+    // A scheduled message is dated from when it will be delivered
+    if (validated.send_at && validated.send_at.getTime() <= Date.now()) {
+      throw new ValidationError('send_at must be in the future', {
+        send_at: validated.send_at.toISOString(),
+      })
+    }
+    const now = validated.send_at ?? new Date()
+
+    // route_to adds one participant with the capability, picked by the routing strategy.
+    // Someone not already addressed is preferred.
+    let routing: MessageRouting | undefined
+    if (validated.route_to) {
+      const strategy = validated.routing ?? 'least_loaded'
+      const assignee =
+        (await this.router.pickParticipant(validated.route_to, strategy, [
+          fromParticipant,
+          ...recipients,
+        ])) ?? (await this.router.pickParticipant(validated.route_to, strategy, [fromParticipant]))
+      if (!assignee) {
+        throw new ValidationError(`No active participant with capability: ${validated.route_to}`)
+      }
+      const added = !recipients.includes(assignee)
+      if (added) {
+        recipients.push(assignee)
+      }
+      routing = {
+        capability: validated.route_to,
+        strategy,
+        assigned_to: assignee,
+        assigned_at: now,
+        assigned_added: added,
+        reassign_after_minutes: validated.reassign_after_minutes,
+        previous: [],
+      }
+    } else if (validated.reassign_after_minutes) {
+      throw new ValidationError('reassign_after_minutes requires route_to')
+    }
+
+    // Approvers have to get the proposal to vote on it
+    let voters: ParticipantId[] = []
+    if (validated.proposal) {
+      if (validated.type !== 'arch' && validated.type !== 'contract') {
+        throw new ValidationError('Only arch and contract messages can be sent as proposals', {
+          type: validated.type,
+        })
+      }
+      for (const approver of validated.proposal.approvers ?? []) {
+        if (!recipients.includes(approver)) {
+          recipients.push(approver)
+        }
+      }
+      voters =
+        validated.proposal.quorum === 'approvers'
+          ? [...new Set(validated.proposal.approvers)]
+          : recipients.filter(participant => participant !== fromParticipant)
+      if (voters.length === 0) {
+        throw new ValidationError('A proposal needs at least one voter besides its sender')
+      }
+    }
+
+    // The state a handoff carries goes in its own fields
+    if (validated.type === 'handoff' && !validated.handoff) {
+      throw new ValidationError('Handoff messages need handoff details, at least a goal')
+    }
+    if (validated.handoff && validated.type !== 'handoff') {
+      throw new ValidationError('Only handoff messages can carry handoff details', {
+        type: validated.type,
+      })
+    }
+
+    if (recipients.length === 0) {
+      throw new ValidationError('Recipients expand to no participants', { to: validated.to })
+    }
+    const expiresAt =
+      validated.expires_in_hours !== undefined
+        ? addHours(now, validated.expires_in_hours)
+        : this.expiryFor(validated, threadId, now)
+
+    // depends_on, plus the older depends:<id> tag convention
+    const dependencies = [
+      ...new Set([
+        ...(validated.depends_on ?? []),
+        ...(validated.tags ?? [])
+          .filter(tag => tag.startsWith('depends:'))
+          .map(tag => tag.substring(8)),
+      ]),
+    ]
+
+    const blockedBy: string[] = []
+    if (dependencies.length > 0) {
+      for (const dependency of dependencies) {
+        const row = this.selectMessageById.get(dependency) as MessageRow | undefined
+        if (!row) {
+          throw new ValidationError(`Dependency not found: ${dependency}`)
+        }
+        if (!SETTLED_STATUSES.includes(row.status)) {
+          blockedBy.push(dependency)
+        }
+      }
 
+      // Validate dependencies don't create cycles
       validateNoCycles(messageId, dependencies, (id: string) => {
         const result = this.selectMessageDependencies.get(id) as
           | { dependencies: string }
@@ -113,17 +538,20 @@ export class MessageManager {
       })
     }
 
+    const attachments = await this.attachments.prepareAttachments(validated.attachments ?? [])
+
     // Store detailed content in file if large
     let contentRef: string | undefined
     if (validated.content.length > 1000) {
-      contentRef = await this.storeMessageContent(threadId, messageId, validated.content)
+      contentRef = await this.content.put(validated.content)
     }
 
     const message: CoordinationMessage = {
       id: messageId,
       thread_id: threadId,
       from: fromParticipant,
-      to: validated.to,
+      to: recipients,
+      addressed_to: validated.to.some(isGroupRecipient) ? validated.to : undefined,
       type: validated.type,
       priority: validated.priority,
       status: 'pending',
@@ -137,11 +565,16 @@ export class MessageManager {
       updated_at: now,
       expires_at: expiresAt,
       response_required: validated.response_required,
-      dependencies:
-        validated.tags?.filter(tag => tag.startsWith('depends:')).map(tag => tag.substring(8)) ??
-        [],
+      dependencies,
       tags: validated.tags?.filter(tag => !tag.startsWith('depends:')) ?? [],
       suggested_approach: validated.suggested_approach,
+      send_at: validated.send_at,
+      routing,
+    }
+
+    if (dependencies.length > 0) {
+      message.blocked = blockedBy.length > 0
+      message.blocked_by = blockedBy
     }
 
     // Insert into database - NO transaction wrapper since individual operations are atomic
@@ -163,8 +596,45 @@ export class MessageManager {
       JSON.stringify(message.dependencies),
       JSON.stringify(message.tags),
       null, // semantic_vector will be added later by indexing system
-      message.suggested_approach ? JSON.stringify(message.suggested_approach) : null
+      message.suggested_approach ? JSON.stringify(message.suggested_approach) : null,
+      message.send_at?.toISOString() ?? null,
+      null, // in_reply_to, set by respondToMessage
+      message.addressed_to ? JSON.stringify(message.addressed_to) : null
     )
+    if (routing) {
+      this.setRouting.run(
+        routing.capability,
+        routing.strategy,
+        routing.assigned_to,
+        routing.assigned_at.toISOString(),
+        routing.assigned_added ? 1 : 0,
+        routing.reassign_after_minutes ?? null,
+        message.id
+      )
+    }
+    this.insertRecipients(message)
+
+    if (validated.proposal) {
+      message.proposal = this.proposals.createProposal(
+        message.id,
+        message.thread_id,
+        validated.proposal.quorum,
+        voters,
+        message.created_at
+      )
+    }
+
+    if (validated.handoff) {
+      message.handoff = this.handoffs.createHandoff(message.id, validated.handoff)
+    }
+
+    if (attachments.length > 0) {
+      message.attachments = await this.attachments.storeAttachments(
+        message.id,
+        attachments,
+        message.created_at
+      )
+    }
 
     // Update or create conversation thread
     this.updateConversationThread(message)
@@ -173,13 +643,44 @@ export class MessageManager {
   }
 
   /**
-   * Get messages with filtering and pagination
+   * Get an attachment with its content, if the requester can see the message it belongs to
+   */
+  async getAttachment(
+    input: GetAttachmentInput,
+    requestingParticipant: ParticipantId
+  ): Promise<{ attachment: Attachment; content: Buffer }> {
+    const validated = validateInput(GetAttachmentInput, input, 'get attachment')
+
+    const attachment = await this.attachments.getAttachment(validated.attachment_id)
+    const message = attachment
+      ? await this.getMessageById(attachment.message_id, requestingParticipant, 'index')
+      : null
+    if (!attachment || !message) {
+      throw new ValidationError(`Attachment not found: ${validated.attachment_id}`)
+    }
+
+    return { attachment, content: await this.attachments.readAttachment(attachment) }
+  }
+
+  /**
+   * Get messages with filtering, first page only
    */
   async getMessages(
     input: GetMessagesInput,
     requestingParticipant: ParticipantId
   ): Promise<CoordinationMessage[]> {
+    return (await this.getMessagesPage(input, requestingParticipant)).messages
+  }
+
+  /**
+   * Get a page of messages with filtering. Pass next_cursor back as cursor for the next page.
+   */
+  async getMessagesPage(
+    input: GetMessagesInput,
+    requestingParticipant: ParticipantId
+  ): Promise<MessagePage> {
     const validated = validateInput(GetMessagesInput, input, 'get messages')
+    this.conversations.releaseDueMessages()
 
     // Build filters ensuring participant can only see authorized messages
     const filters: MessageFilters = {
@@ -187,6 +688,7 @@ export class MessageManager {
       status: validated.status,
       type: validated.type,
       priority: validated.priority,
+      recipient_status: validated.recipient_status,
       since: validated.since_hours
         ? new Date(Date.now() - validated.since_hours * 60 * 60 * 1000)
         : undefined,
@@ -195,27 +697,40 @@ export class MessageManager {
 
     const pagination: PaginationOptions = {
       limit: validated.limit,
-      offset: 0,
+      after: validated.cursor ? decodeCursor(validated.cursor) : undefined,
     }
 
     const rows = this.selectMessages.all({
+      now: new Date().toISOString(),
+      requester: requestingParticipant,
       participant: filters.participant,
       status: filters.status ? JSON.stringify(filters.status) : null,
+      recipient_status: filters.recipient_status ? JSON.stringify(filters.recipient_status) : null,
       type: filters.type ? JSON.stringify(filters.type) : null,
       priority: filters.priority ? JSON.stringify(filters.priority) : null,
       since: filters.since?.toISOString() || null,
       thread_id: filters.thread_id || null,
       active_only: validated.active_only !== false ? 1 : 0,
-      limit: pagination.limit,
-      offset: pagination.offset,
+      triage: validated.triage ? JSON.stringify(validated.triage) : null,
+      ...cursorParams(pagination.after),
+      // One extra row tells whether there is a next page
+      limit: pagination.limit + 1,
     }) as MessageRow[]
 
+    const pageRows = rows.slice(0, pagination.limit)
+    const nextCursor =
+      rows.length > pagination.limit ? cursorAfter(pageRows[pageRows.length - 1]) : undefined
+
     // Convert database rows to domain objects
     const messages = await Promise.all(
-      rows.map(row => this.rowToMessage(row, validated.detail_level))
+      pageRows.map(row => this.rowToMessage(row, validated.detail_level, true))
     )
 
-    return messages
+    if (validated.detail_level === 'full') {
+      this.attachReadReceipts(messages, requestingParticipant)
+    }
+
+    return { messages, next_cursor: nextCursor }
   }
 
   /**
@@ -242,7 +757,111 @@ export class MessageManager {
       throw new ValidationError('Access denied: not authorized to view this message')
     }
 
-    return this.rowToMessage(row, detailLevel)
+    // Scheduled messages don't exist for recipients until they are delivered
+    if (
+      row.send_at &&
+      new Date(row.send_at) > new Date() &&
+      row.from_participant !== requestingParticipant
+    ) {
+      return null
+    }
+
+    const message = await this.rowToMessage(row, detailLevel)
+    if (detailLevel === 'full') {
+      this.attachReadReceipts([message], requestingParticipant)
+    }
+
+    return message
+  }
+
+  /**
+   * Mark messages as read by a recipient. Returns the number of messages that were
+   * unread; messages already read, responded to or resolved are left unchanged.
+   */
+  async markRead(input: MarkReadInput, readingParticipant: ParticipantId): Promise<number> {
+    const validated = validateInput(MarkReadInput, input, 'mark read')
+    const now = new Date()
+    let markedCount = 0
+
+    for (const messageId of new Set(validated.message_ids)) {
+      const message = await this.getMessageById(messageId, readingParticipant, 'index')
+      if (!message) {
+        throw new ValidationError(`Message not found: ${messageId}`)
+      }
+
+      if (!message.to.includes(readingParticipant)) {
+        throw new ValidationError('Access denied: only recipients can mark a message as read')
+      }
+
+      if (this.setRecipientStatus(messageId, readingParticipant, 'read', now)) {
+        this.markMessageRead.run({ message_id: messageId })
+        markedCount++
+      }
+    }
+
+    return markedCount
+  }
+
+  /**
+   * Snooze a message in the requester's inbox until a later time, or wake it now with null.
+   * Only the requester's own view changes.
+   */
+  async snoozeMessage(
+    input: SnoozeMessageInput,
+    requestingParticipant: ParticipantId
+  ): Promise<MessageTriage> {
+    const validated = validateInput(SnoozeMessageInput, input, 'snooze message')
+    if (validated.until && validated.until.getTime() <= Date.now()) {
+      throw new ValidationError('Snooze time must be in the future', {
+        until: validated.until.toISOString(),
+      })
+    }
+
+    return this.saveTriage(validated.message_id, requestingParticipant, {
+      snoozed_until: validated.until ?? undefined,
+    })
+  }
+
+  /**
+   * Pin, star or mark a message done in the requester's inbox. Marking it done hides it from
+   * their active listings without resolving it for the sender or other recipients.
+   */
+  async triageMessage(
+    input: TriageMessageInput,
+    requestingParticipant: ParticipantId
+  ): Promise<MessageTriage> {
+    const validated = validateInput(TriageMessageInput, input, 'triage message')
+    const changes: Partial<MessageTriage> = {}
+    if (validated.pinned !== undefined) {
+      changes.pinned = validated.pinned
+    }
+    if (validated.starred !== undefined) {
+      changes.starred = validated.starred
+    }
+    if (validated.done !== undefined) {
+      changes.done_at = validated.done ? new Date() : undefined
+    }
+
+    return this.saveTriage(validated.message_id, requestingParticipant, changes)
+  }
+
+  /**
+   * Get the per-recipient delivery state of a message (sender only)
+   */
+  async getReadReceipts(
+    messageId: string,
+    requestingParticipant: ParticipantId
+  ): Promise<MessageRecipient[]> {
+    const message = await this.getMessageById(messageId, requestingParticipant, 'index')
+    if (!message) {
+      throw new ValidationError(`Message not found: ${messageId}`)
+    }
+
+    if (message.from !== requestingParticipant) {
+      throw new ValidationError('Access denied: only the sender can view read receipts')
+    }
+
+    return this.loadRecipients(messageId)
   }
 
   /**
@@ -254,43 +873,70 @@ export class MessageManager {
   ): Promise<CoordinationMessage> {
     const validated = validateInput(RespondMessageInput, input, 'respond to message')
 
-    // Get original message
-    const originalMessage = await this.getMessageById(
-      validated.message_id,
-      respondingParticipant,
-      'full'
-    )
-
-    if (!originalMessage) {
+    // Get original message. Loaded directly rather than through getMessageById, which only
+    // lets its sender and recipients see it; access is checked against the thread below.
+    validateMessageId(validated.message_id)
+    const originalRow = this.selectMessageById.get(validated.message_id) as MessageRow | undefined
+    const undelivered =
+      originalRow?.send_at &&
+      new Date(originalRow.send_at) > new Date() &&
+      originalRow.from_participant !== respondingParticipant
+    if (!originalRow || undelivered) {
       throw new ValidationError(`Message not found: ${validated.message_id}`)
     }
+    const originalMessage = await this.rowToMessage(originalRow, 'index')
 
-    // Check if participant is authorized to respond
-    if (!originalMessage.to.includes(respondingParticipant)) {
+    // Recipients can respond, and so can anyone else already in the thread (e.g. cc'd on a reply)
+    const threadParticipants =
+      this.conversations.getConversation(originalMessage.thread_id)?.participants ?? []
+    if (
+      !originalMessage.to.includes(respondingParticipant) &&
+      originalMessage.from !== respondingParticipant &&
+      !threadParticipants.includes(respondingParticipant)
+    ) {
       throw new ValidationError('Access denied: not authorized to respond to this message')
     }
 
+    // Reply to the sender by default; reply_all addresses everyone in the thread instead,
+    // and `to` replaces the recipients outright. cc adds to whichever was chosen.
+    const baseRecipients =
+      validated.to ??
+      (validated.reply_all
+        ? [originalMessage.from, ...originalMessage.to, ...threadParticipants]
+        : [originalMessage.from])
+    const recipients = [...new Set([...baseRecipients, ...(validated.cc ?? [])])].filter(
+      participant => participant !== respondingParticipant
+    )
+    if (recipients.length === 0) {
+      throw new ValidationError('Response has no recipients besides the responder', {
+        message_id: validated.message_id,
+      })
+    }
+
     // Create response message - but we need to use the same thread ID!
     // We'll need to create the message manually to preserve the thread ID
     const responseMessageId = this.generateMessageId(originalMessage.type)
     const now = new Date()
-    const expiresAt = addHours(now, 168) // 1 week default
+    const expiresAt = this.expiryFor(originalMessage, originalMessage.thread_id, now)
     
     // Store content if large
     let contentRef: string | undefined
     if (validated.content.length > 1000) {
-      contentRef = await this.storeMessageContent(originalMessage.thread_id, responseMessageId, validated.content)
+      contentRef = await this.content.put(validated.content)
     }
 
     const responseMessage: CoordinationMessage = {
       id: responseMessageId,
       thread_id: originalMessage.thread_id, // USE ORIGINAL THREAD ID!
       from: respondingParticipant,
-      to: [originalMessage.from],
+      to: recipients,
       type: originalMessage.type,
       priority: originalMessage.priority,
       status: 'pending',
-      subject: `Re: ${originalMessage.subject}`,
+      // Replies to replies keep a single "Re: " prefix
+      subject: originalMessage.subject.startsWith('Re: ')
+        ? originalMessage.subject
+        : `Re: ${originalMessage.subject}`,
       summary: validated.content.length > 500
         ? validated.content.substring(0, 500) + '...'
         : validated.content,
@@ -299,6 +945,7 @@ export class MessageManager {
       updated_at: now,
       expires_at: expiresAt,
       response_required: false,
+      in_reply_to: validated.message_id,
       dependencies: [],
       tags: [`response_to:${validated.message_id}`],
       content: validated.content.length <= 1000 ? validated.content : undefined,
@@ -323,12 +970,22 @@ export class MessageManager {
       JSON.stringify(responseMessage.dependencies),
       JSON.stringify(responseMessage.tags),
       null, // semantic_vector will be added later by indexing system
-      null  // suggested_approach
+      null, // suggested_approach
+      null, // send_at
+      responseMessage.in_reply_to,
+      null // addressed_to
     )
+    this.insertRecipients(responseMessage)
+
+    // Record the response against this recipient only; the message as a whole is
+    // responded once no recipient is still waiting to answer it
+    this.setRecipientStatus(validated.message_id, respondingParticipant, 'responded', now)
+    const { count: pendingRecipients } = this.countPendingRecipients.get(validated.message_id) as {
+      count: number
+    }
 
-    // Update original message status
     this.updateMessage.run(
-      'responded',
+      pendingRecipients === 0 ? 'responded' : originalMessage.status,
       now.toISOString(),
       validated.resolution_status,
       validated.resolution_status ? now.toISOString() : null,
@@ -336,9 +993,146 @@ export class MessageManager {
       validated.message_id
     )
 
+    this.updateConversationThread(responseMessage)
+
     return responseMessage
   }
 
+  /**
+   * Vote on a proposal. The vote is posted to the whole thread as a response, so every vote and
+   * change of mind stays on record; once the quorum is met the proposal and its thread are
+   * decided and the decision is announced in the thread.
+   */
+  async vote(input: VoteInput, votingParticipant: ParticipantId): Promise<Proposal> {
+    const validated = validateInput(VoteInput, input, 'vote')
+
+    const message = await this.getMessageById(validated.message_id, votingParticipant, 'index')
+    if (!message) {
+      throw new ValidationError(`Message not found: ${validated.message_id}`)
+    }
+    const proposal = message.proposal
+    if (!proposal) {
+      throw new ValidationError(`Message is not a proposal: ${validated.message_id}`)
+    }
+    if (proposal.decision) {
+      throw new ValidationError(`Proposal already ${proposal.decision}: ${validated.message_id}`)
+    }
+    if (message.status === 'cancelled') {
+      throw new ValidationError(`Proposal was withdrawn: ${validated.message_id}`)
+    }
+    if (!message.to.includes(votingParticipant)) {
+      throw new ValidationError('Access denied: only recipients can vote on a proposal')
+    }
+
+    const response = await this.respondToMessage(
+      {
+        message_id: message.id,
+        content: `Vote: ${validated.vote}\n\n${validated.rationale}`,
+        reply_all: true,
+      },
+      votingParticipant
+    )
+
+    const decided = this.proposals.castVote(
+      message.id,
+      votingParticipant,
+      validated.vote,
+      validated.rationale,
+      response.id,
+      response.created_at
+    )
+
+    if (decided.decision) {
+      const row = this.selectMessageById.get(message.id) as MessageRow
+      const tally = VoteChoice.options
+        .map(choice => `${decided.votes.filter(vote => vote.vote === choice).length} ${choice}`)
+        .join(', ')
+      const threadParticipants =
+        this.conversations.getConversation(message.thread_id)?.participants ?? []
+      this.insertSystemNotice(
+        row,
+        [message.from, ...message.to, ...threadParticipants],
+        message.priority,
+        `Proposal ${decided.decision}: ${message.subject}`,
+        `${message.id} was ${decided.decision} under the ${decided.quorum} quorum (${tally}).`,
+        ['proposal-decision', `decides:${message.id}`],
+        response.created_at
+      )
+      this.conversations.setDecision(message.thread_id, decided.decision)
+      this.conversations.syncThread(message.thread_id)
+    }
+
+    return decided
+  }
+
+  /**
+   * Hand work over to another session. The structured state goes with the message; the notes,
+   * when given, are its content.
+   */
+  async sendHandoff(
+    input: HandoffInput,
+    fromParticipant: ParticipantId
+  ): Promise<CoordinationMessage> {
+    const validated = validateInput(HandoffInput, input, 'handoff')
+    const { to, priority, notes, ...details } = validated
+
+    return this.createMessage(
+      {
+        to,
+        type: 'handoff',
+        priority,
+        subject: `Handoff: ${details.goal}`.substring(0, 200),
+        content: notes ?? details.goal,
+        response_required: true,
+        handoff: details,
+      },
+      fromParticipant
+    )
+  }
+
+  /**
+   * Pick up a handoff. The first recipient to accept it takes the work over and the message is
+   * resolved; accepting it again returns it again, e.g. after another context reset.
+   */
+  async acceptHandoff(
+    input: AcceptHandoffInput,
+    acceptingParticipant: ParticipantId
+  ): Promise<CoordinationMessage> {
+    const validated = validateInput(AcceptHandoffInput, input, 'accept handoff')
+
+    const message = await this.getMessageById(validated.message_id, acceptingParticipant, 'full')
+    if (!message) {
+      throw new ValidationError(`Message not found: ${validated.message_id}`)
+    }
+    const handoff = message.handoff
+    if (!handoff) {
+      throw new ValidationError(`Message is not a handoff: ${validated.message_id}`)
+    }
+    if (message.status === 'cancelled') {
+      throw new ValidationError(`Handoff was withdrawn: ${validated.message_id}`)
+    }
+    if (!message.to.includes(acceptingParticipant)) {
+      throw new ValidationError('Access denied: only recipients can accept a handoff')
+    }
+    if (handoff.accepted_by && handoff.accepted_by !== acceptingParticipant) {
+      throw new ValidationError(`Handoff already accepted by ${handoff.accepted_by}`)
+    }
+
+    if (!handoff.accepted_by) {
+      if (!this.handoffs.acceptHandoff(message.id, acceptingParticipant, new Date())) {
+        const accepted = this.handoffs.getHandoff(message.id)
+        throw new ValidationError(`Handoff already accepted by ${accepted?.accepted_by}`)
+      }
+      await this.resolveMessage(message.id, acceptingParticipant, 'complete')
+    }
+
+    const accepted = await this.getMessageById(message.id, acceptingParticipant, 'full')
+    if (!accepted) {
+      throw new ValidationError(`Message not found: ${message.id}`)
+    }
+    return accepted
+  }
+
   /**
    * Mark message as resolved
    */
@@ -368,27 +1162,459 @@ export class MessageManager {
       resolvingParticipant,
       messageId
     )
+    this.resolveRecipients.run(now.toISOString(), messageId)
+
+    this.conversations.syncThread(message.thread_id)
+
+    await this.notifyUnblockedDependents([messageId], resolvingParticipant)
   }
 
   /**
-   * Archive expired messages
+   * Cancel a message nobody has responded to yet and notify its recipients
    */
-  async archiveExpiredMessages(): Promise<number> {
-    const now = new Date()
-
-    // Find expired messages
-    const expiredMessages = this.db
-      .prepare(
-        `
-      SELECT id, content_ref FROM messages 
-      WHERE expires_at IS NOT NULL 
-      AND expires_at < ? 
-      AND status NOT IN ('resolved', 'archived')
-    `
-      )
-      .all(now.toISOString()) as Array<{ id: string; content_ref?: string }>
+  async cancelMessage(
+    input: CancelMessageInput,
+    cancellingParticipant: ParticipantId
+  ): Promise<CoordinationMessage> {
+    const validated = validateInput(CancelMessageInput, input, 'cancel message')
 
-    if (expiredMessages.length === 0) {
+    const message = await this.getMessageById(validated.message_id, cancellingParticipant, 'index')
+    if (!message) {
+      throw new ValidationError(`Message not found: ${validated.message_id}`)
+    }
+
+    if (message.from !== cancellingParticipant) {
+      throw new ValidationError('Access denied: only the sender can cancel this message')
+    }
+
+    if (message.status === 'cancelled') {
+      throw new ValidationError(`Message already cancelled: ${message.id}`)
+    }
+
+    const { count: answeredRecipients } = this.countAnsweredRecipients.get(message.id) as {
+      count: number
+    }
+    if (!['pending', 'read'].includes(message.status) || answeredRecipients > 0) {
+      throw new ValidationError('Cannot cancel a message that has already been responded to', {
+        status: message.status,
+        answered_recipients: answeredRecipients,
+      })
+    }
+
+    const now = new Date()
+    this.cancelMessageStmt.run(now.toISOString(), now.toISOString(), validated.reason, message.id)
+    this.conversations.syncThread(message.thread_id)
+
+    // Let the recipients know they can drop the request, unless they never received it
+    const delivered = !message.send_at || message.send_at <= now
+    if (delivered) {
+      await this.createMessage(
+        {
+          to: message.to,
+          type: 'update',
+          priority: message.priority,
+          subject: `Cancelled: ${message.subject}`.substring(0, 200),
+          content: `Message ${message.id} was cancelled by ${cancellingParticipant}.\n\nReason: ${validated.reason}`,
+          response_required: false,
+          tags: ['message-cancelled', `cancels:${message.id}`],
+        },
+        cancellingParticipant
+      )
+    }
+
+    return {
+      ...message,
+      status: 'cancelled',
+      updated_at: now,
+      cancelled_at: now,
+      cancellation_reason: validated.reason,
+    }
+  }
+
+  /**
+   * Edit the subject, content, priority or tags of an unresolved message (sender only).
+   * Every version is kept in message_revisions with its content in a versioned file.
+   */
+  async editMessage(
+    input: EditMessageInput,
+    editingParticipant: ParticipantId
+  ): Promise<CoordinationMessage> {
+    const validated = validateInput(EditMessageInput, input, 'edit message')
+
+    const message = await this.getMessageById(validated.message_id, editingParticipant, 'full')
+    if (!message) {
+      throw new ValidationError(`Message not found: ${validated.message_id}`)
+    }
+
+    if (message.from !== editingParticipant) {
+      throw new ValidationError('Access denied: only the sender can edit this message')
+    }
+
+    if (['resolved', 'archived', 'cancelled'].includes(message.status)) {
+      throw new ValidationError(`Cannot edit a ${message.status} message: ${message.id}`)
+    }
+
+    const currentRevision = message.revision ?? 1
+    const currentContent = message.content ?? message.summary
+
+    // The first edit also records the original version
+    if (this.selectRevisions.all(message.id).length === 0) {
+      const originalRef = await this.content.put(currentContent)
+      this.insertRevision.run(
+        message.id,
+        currentRevision,
+        message.subject,
+        originalRef,
+        message.priority,
+        JSON.stringify(message.tags),
+        message.from,
+        (message.edited_at ?? message.created_at).toISOString()
+      )
+    }
+
+    const now = new Date()
+    const revision = currentRevision + 1
+    const subject = validated.subject ?? message.subject
+    const content = validated.content ?? currentContent
+    const priority = validated.priority ?? message.priority
+    const tags = validated.tags?.filter(tag => !tag.startsWith('depends:')) ?? message.tags
+
+    const revisionRef = await this.content.put(content)
+    this.insertRevision.run(
+      message.id,
+      revision,
+      subject,
+      revisionRef,
+      priority,
+      JSON.stringify(tags),
+      editingParticipant,
+      now.toISOString()
+    )
+
+    // Large content is read from the content store, as for new messages
+    this.updateMessageContent.run(
+      subject,
+      content.length > 500 ? content.substring(0, 500) + '...' : content,
+      content.length > 1000 ? revisionRef : null,
+      priority,
+      JSON.stringify(tags),
+      revision,
+      now.toISOString(),
+      now.toISOString(),
+      message.id
+    )
+
+    this.conversations.syncThread(message.thread_id)
+
+    const edited = await this.getMessageById(message.id, editingParticipant, 'full')
+    if (!edited) {
+      throw new ValidationError(`Message not found: ${message.id}`)
+    }
+    return edited
+  }
+
+  /**
+   * Get every version of a message, oldest first. A message that was never edited
+   * has a single revision.
+   */
+  async getRevisions(
+    input: GetRevisionsInput,
+    requestingParticipant: ParticipantId
+  ): Promise<MessageRevision[]> {
+    const validated = validateInput(GetRevisionsInput, input, 'get revisions')
+
+    const message = await this.getMessageById(validated.message_id, requestingParticipant, 'full')
+    if (!message) {
+      throw new ValidationError(`Message not found: ${validated.message_id}`)
+    }
+
+    const rows = this.selectRevisions.all(message.id) as MessageRevisionRow[]
+    if (rows.length === 0) {
+      return [
+        {
+          message_id: message.id,
+          revision: message.revision ?? 1,
+          subject: message.subject,
+          content: message.content ?? message.summary,
+          priority: message.priority,
+          tags: message.tags,
+          edited_by: message.from,
+          edited_at: message.created_at,
+        },
+      ]
+    }
+
+    return Promise.all(
+      rows.map(async row => ({
+        message_id: row.message_id,
+        revision: row.revision,
+        subject: row.subject,
+        content: await this.content.get(row.content_ref),
+        priority: row.priority,
+        tags: JSON.parse(row.tags),
+        edited_by: row.edited_by as ParticipantId,
+        edited_at: new Date(row.edited_at),
+      }))
+    )
+  }
+
+  /**
+   * Get the chain of messages a message waits on (upstream) and that wait on it (downstream)
+   */
+  async getDependencyGraph(
+    input: GetDependencyGraphInput,
+    requestingParticipant: ParticipantId
+  ): Promise<DependencyGraph> {
+    const validated = validateInput(GetDependencyGraphInput, input, 'get dependency graph')
+
+    const message = await this.getMessageById(validated.message_id, requestingParticipant, 'index')
+    if (!message) {
+      throw new ValidationError(`Message not found: ${validated.message_id}`)
+    }
+
+    // Scheduled messages stay hidden from everyone but their sender
+    const now = new Date().toISOString()
+    const isVisible = (row: MessageRow) =>
+      !row.send_at || row.send_at <= now || row.from_participant === requestingParticipant
+
+    const root = this.selectMessageById.get(message.id) as MessageRow
+
+    const upstream = this.walkDependencies(root, validated.max_depth, isVisible, row =>
+      (JSON.parse(row.dependencies) as string[])
+        .map(id => this.selectMessageById.get(id) as MessageRow | undefined)
+        .filter((dep): dep is MessageRow => dep !== undefined)
+    )
+    const downstream = this.walkDependencies(
+      root,
+      validated.max_depth,
+      isVisible,
+      row => this.selectDependents.all(row.id) as MessageRow[]
+    )
+
+    return { message: this.toDependencyNode(root, 0), upstream, downstream }
+  }
+
+  /**
+   * List messages the participant has scheduled that are still waiting to be sent
+   */
+  async listScheduledMessages(sendingParticipant: ParticipantId): Promise<CoordinationMessage[]> {
+    const rows = this.selectScheduled.all(
+      sendingParticipant,
+      new Date().toISOString()
+    ) as MessageRow[]
+
+    return Promise.all(rows.map(row => this.rowToMessage(row, 'summary')))
+  }
+
+  /**
+   * Re-route messages whose assignee hasn't responded within reassign_after_minutes to another
+   * participant with the capability, skipping everyone it was already assigned to. A message
+   * stays with its assignee while nobody else is available. Returns the re-routed messages.
+   */
+  async reassignOverdueMessages(now: Date = new Date()): Promise<CoordinationMessage[]> {
+    const rows = this.selectRoutedAwaitingResponse.all() as MessageRow[]
+    const reassigned: CoordinationMessage[] = []
+
+    for (const row of rows) {
+      if (!row.route_to || !row.routing_strategy || !row.routed_to || !row.routed_at) {
+        continue
+      }
+      if (addMinutes(new Date(row.routed_at), row.reassign_after_minutes ?? 0) > now) {
+        continue
+      }
+
+      const previous: ParticipantId[] = [
+        ...JSON.parse(row.routing_history ?? '[]'),
+        row.routed_to as ParticipantId,
+      ]
+      const assignee = await this.router.pickParticipant(row.route_to, row.routing_strategy, [
+        row.from_participant as ParticipantId,
+        ...previous,
+      ])
+      if (!assignee) {
+        continue
+      }
+
+      // Only an assignee routing added is taken off; one the sender addressed keeps the message
+      const removePrevious = row.routed_added !== 0
+      const to = (JSON.parse(row.to_participants) as ParticipantId[]).filter(
+        participant => !removePrevious || participant !== row.routed_to
+      )
+      const added = !to.includes(assignee)
+      if (added) {
+        to.push(assignee)
+      }
+
+      const claimed = this.reassignRouting.run({
+        id: row.id,
+        to: JSON.stringify(to),
+        assignee,
+        added: added ? 1 : 0,
+        now: now.toISOString(),
+        history: JSON.stringify(previous),
+        previous: row.routed_to,
+        routed_at: row.routed_at,
+      })
+      if (claimed.changes === 0) {
+        continue
+      }
+
+      if (removePrevious) {
+        this.deleteRecipient.run(row.id, row.routed_to)
+      }
+      if (added) {
+        this.insertRecipient.run(row.id, assignee, now.toISOString())
+      }
+      this.conversations.syncThread(row.thread_id)
+
+      const updated = this.selectMessageById.get(row.id) as MessageRow
+      reassigned.push(await this.rowToMessage(updated, 'summary'))
+    }
+
+    return reassigned
+  }
+
+  /**
+   * Read back the stored content of every message and revision, checking blobs against their
+   * hash. Returns what is missing or corrupted.
+   */
+  async verifyContent(): Promise<ContentProblem[]> {
+    const problems: ContentProblem[] = []
+
+    for (const row of this.selectContentRefs.all() as ContentRefRow[]) {
+      try {
+        await this.content.get(row.content_ref)
+      } catch (error) {
+        problems.push({
+          message_id: row.message_id,
+          revision: row.revision ?? undefined,
+          content_ref: row.content_ref,
+          error: error instanceof Error ? error.message : String(error),
+        })
+      }
+    }
+
+    return problems
+  }
+
+  /**
+   * Move content from per-message files, as written before the content store, into the store.
+   * The old files are left in place. Content that can't be read is skipped and shows up in
+   * verifyContent. Returns the number of refs moved.
+   */
+  async migrateLegacyContent(): Promise<number> {
+    let migrated = 0
+
+    for (const row of this.selectContentRefs.all() as ContentRefRow[]) {
+      if (this.content.isBlobRef(row.content_ref)) {
+        continue
+      }
+
+      let content: string
+      try {
+        content = await this.content.get(row.content_ref)
+      } catch {
+        continue
+      }
+
+      const contentRef = await this.content.put(content)
+      if (row.revision === null) {
+        this.updateMessageContentRef.run(contentRef, row.message_id)
+      } else {
+        this.updateRevisionContentRef.run(contentRef, row.message_id, row.revision)
+      }
+      migrated++
+    }
+
+    return migrated
+  }
+
+  /**
+   * Apply escalation rules to messages still waiting for a response: raise their priority
+   * and/or add recipients, and log a system message in the thread. At most one rule fires
+   * per message per pass, so chained rules (H bumped to CRITICAL, then CRITICAL escalated to
+   * admins) each wait their own after_hours. Returns the escalations made.
+   */
+  async escalateOverdueMessages(
+    rules: EscalationRule[],
+    now: Date = new Date()
+  ): Promise<Escalation[]> {
+    if (rules.length === 0) {
+      return []
+    }
+
+    const rows = this.selectAwaitingEscalation.all() as Array<
+      MessageRow & { last_escalated_at: string | null }
+    >
+    const escalations: Escalation[] = []
+
+    for (const row of rows) {
+      const applied = new Set(
+        (this.selectAppliedEscalations.all(row.id) as Array<{ rule: string }>).map(e => e.rule)
+      )
+      const waitingSince = new Date(row.last_escalated_at ?? row.created_at)
+
+      for (const rule of rules) {
+        const key = escalationRuleKey(rule)
+        if (
+          applied.has(key) ||
+          (rule.priority && rule.priority !== row.priority) ||
+          (rule.type && rule.type !== row.type) ||
+          addHours(waitingSince, rule.after_hours) > now
+        ) {
+          continue
+        }
+
+        const escalation = await this.applyEscalation(row, rule, key, now)
+        if (escalation) {
+          escalations.push(escalation)
+          break
+        }
+      }
+    }
+
+    return escalations
+  }
+
+  /**
+   * Archive expired messages
+   */
+  async archiveExpiredMessages(): Promise<number> {
+    const now = new Date()
+
+    // Find expired messages
+    const candidates = this.db
+      .prepare(
+        `
+      SELECT m.id, m.thread_id, m.type, m.priority, m.content_ref,
+        c.status AS thread_status, c.expiry_policy
+      FROM messages m LEFT JOIN conversations c ON c.thread_id = m.thread_id
+      WHERE m.expires_at IS NOT NULL 
+      AND m.expires_at < ? 
+      AND m.status NOT IN ('resolved', 'archived')
+    `
+      )
+      .all(now.toISOString()) as Array<{
+      id: string
+      thread_id: string
+      type: MessageType
+      priority: Priority
+      content_ref?: string
+      thread_status: string | null
+      expiry_policy: string | null
+    }>
+
+    // Keep-alive policies hold expired messages back until their thread is resolved
+    const expiredMessages = candidates.filter(
+      message =>
+        message.thread_status !== 'active' ||
+        !this.expiryPolicyFor(
+          message,
+          message.expiry_policy ? JSON.parse(message.expiry_policy) : undefined
+        ).keep_alive_while_active
+    )
+
+    if (expiredMessages.length === 0) {
       return 0
     }
 
@@ -397,64 +1623,419 @@ export class MessageManager {
       UPDATE messages SET status = 'archived', updated_at = ? WHERE id = ?
     `)
 
+    // Content stays where it is: blobs are shared and content refs must keep resolving
     for (const message of expiredMessages) {
       archiveMessage.run(now.toISOString(), message.id)
+    }
 
-      // Move content file to archive if it exists
-      if (message.content_ref) {
-        this.archiveContentFile(message.content_ref).catch(error => {
-          // eslint-disable-next-line no-console
-          console.warn(`Failed to archive content file ${message.content_ref}:`, error)
-        })
-      }
+    for (const threadId of new Set(expiredMessages.map(message => message.thread_id))) {
+      this.conversations.syncThread(threadId)
     }
 
     return expiredMessages.length
   }
 
-  private generateMessageId(type: MessageType): string {
-    const typePrefix = type.toUpperCase()
-    const timestamp = Date.now().toString(36)
-    const nanoidAlphanumeric = customAlphabet('ABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789', 3)
-    const random = nanoidAlphanumeric()
-    return `${typePrefix}-${timestamp}-${random}`
+  /**
+   * Override the expiry policies for a thread. A new expires_in_hours re-dates the thread's
+   * open messages from when they were sent; clearing the override leaves their dates as they are.
+   */
+  async setThreadExpiry(
+    input: SetThreadExpiryInput,
+    requestingParticipant: ParticipantId
+  ): Promise<Conversation> {
+    const validated = validateInput(SetThreadExpiryInput, input, 'set thread expiry')
+    const threadId = await this.resolveThreadId(validated.thread_id, requestingParticipant)
+
+    const conversation =
+      this.conversations.getConversation(threadId) ?? this.conversations.syncThread(threadId)
+    if (!conversation) {
+      throw new ValidationError(`Thread not found: ${validated.thread_id}`)
+    }
+    if (!conversation.participants.includes(requestingParticipant)) {
+      throw new ValidationError('Access denied: not a participant in this thread')
+    }
+
+    const policy: ThreadExpiryPolicy = {
+      expires_in_hours: validated.expires_in_hours,
+      keep_alive_while_active: validated.keep_alive_while_active,
+    }
+    const cleared =
+      policy.expires_in_hours === undefined && policy.keep_alive_while_active === undefined
+    this.conversations.setExpiryPolicy(threadId, cleared ? null : policy)
+
+    if (policy.expires_in_hours !== undefined) {
+      const hours = policy.expires_in_hours
+      const open = this.selectOpenThreadMessages.all(threadId) as Array<{
+        id: string
+        created_at: string
+      }>
+      for (const message of open) {
+        this.updateExpiresAt.run(
+          hours === null ? null : addHours(new Date(message.created_at), hours).toISOString(),
+          message.id
+        )
+      }
+    }
+
+    return this.conversations.getConversation(threadId) ?? conversation
   }
 
-  private generateThreadId(messageId: string): string {
-    return `${messageId}-thread`
+  /**
+   * The expiry policy that applies to a message: the thread's override, then the first
+   * configured policy matching its type and priority, then the default
+   */
+  private expiryPolicyFor(
+    message: Pick<CoordinationMessage, 'type' | 'priority'>,
+    threadPolicy?: ThreadExpiryPolicy
+  ): { expires_in_hours: number | null; keep_alive_while_active: boolean } {
+    const policy = this.expiryPolicies.find(
+      candidate =>
+        (!candidate.type || candidate.type === message.type) &&
+        (!candidate.priority || candidate.priority === message.priority)
+    )
+
+    return {
+      expires_in_hours:
+        threadPolicy?.expires_in_hours !== undefined
+          ? threadPolicy.expires_in_hours
+          : policy
+            ? policy.expires_in_hours
+            : DEFAULT_EXPIRY_HOURS,
+      keep_alive_while_active:
+        threadPolicy?.keep_alive_while_active ?? policy?.keep_alive_while_active ?? false,
+    }
   }
 
-  private async storeMessageContent(
+  /**
+   * When a message created now in a thread expires, undefined if it never does
+   */
+  private expiryFor(
+    message: Pick<CoordinationMessage, 'type' | 'priority'>,
     threadId: string,
-    messageId: string,
-    content: string
-  ): Promise<string> {
-    const contentDir = path.join(this.dataDir, 'messages', 'active', threadId)
-    await fs.mkdir(contentDir, { recursive: true })
+    now: Date
+  ): Date | undefined {
+    const hours = this.expiryPolicyFor(
+      message,
+      this.conversations.getConversation(threadId)?.expiry_policy
+    ).expires_in_hours
+    return hours === null ? undefined : addHours(now, hours)
+  }
+
+  /**
+   * Breadth-first walk over dependency edges, nearest messages first
+   */
+  private walkDependencies(
+    root: MessageRow,
+    maxDepth: number,
+    isVisible: (row: MessageRow) => boolean,
+    next: (row: MessageRow) => MessageRow[]
+  ): DependencyNode[] {
+    const nodes: DependencyNode[] = []
+    const seen = new Set([root.id])
+    let frontier = [root]
+
+    for (let depth = 1; depth <= maxDepth && frontier.length > 0; depth++) {
+      const nextFrontier: MessageRow[] = []
+      for (const row of frontier) {
+        for (const related of next(row)) {
+          if (seen.has(related.id) || !isVisible(related)) {
+            continue
+          }
+          seen.add(related.id)
+          nodes.push(this.toDependencyNode(related, depth))
+          nextFrontier.push(related)
+        }
+      }
+      frontier = nextFrontier
+    }
+
+    return nodes
+  }
+
+  private toDependencyNode(row: MessageRow, depth: number): DependencyNode {
+    return {
+      id: row.id,
+      subject: row.subject,
+      from: row.from_participant as ParticipantId,
+      status: row.status,
+      depth,
+      depends_on: JSON.parse(row.dependencies),
+      blocked: this.selectBlockers.all(row.id).length > 0,
+    }
+  }
+
+  /**
+   * Tell the participants of messages that were waiting on the resolved ones that they
+   * can go ahead, once none of their other dependencies is still open
+   */
+  private async notifyUnblockedDependents(
+    resolvedIds: string[],
+    resolvingParticipant: ParticipantId
+  ): Promise<void> {
+    const now = new Date().toISOString()
+    const notified = new Set<string>()
+
+    for (const resolvedId of resolvedIds) {
+      for (const dependent of this.selectDependents.all(resolvedId) as MessageRow[]) {
+        const waiting =
+          !SETTLED_STATUSES.includes(dependent.status) &&
+          !(dependent.send_at && dependent.send_at > now)
+        if (
+          !waiting ||
+          notified.has(dependent.id) ||
+          this.selectBlockers.all(dependent.id).length > 0
+        ) {
+          continue
+        }
+        notified.add(dependent.id)
 
-    const contentPath = path.join(contentDir, `${messageId}.md`)
-    await fs.writeFile(contentPath, content, 'utf-8')
+        const to = [
+          ...new Set([dependent.from_participant, ...JSON.parse(dependent.to_participants)]),
+        ].filter(participant => participant !== resolvingParticipant) as ParticipantId[]
+        if (to.length === 0) {
+          continue
+        }
 
-    return path.relative(this.dataDir, contentPath)
+        await this.createMessage(
+          {
+            to,
+            type: 'update',
+            priority: dependent.priority,
+            subject: `Unblocked: ${dependent.subject}`.substring(0, 200),
+            content: `Message ${dependent.id} is no longer blocked: ${resolvedId} was resolved by ${resolvingParticipant} and it has no other open dependencies.`,
+            response_required: false,
+            tags: ['message-unblocked', `unblocks:${dependent.id}`],
+          },
+          resolvingParticipant
+        )
+      }
+    }
   }
 
-  private async archiveContentFile(contentRef: string): Promise<void> {
-    const sourcePath = path.join(this.dataDir, contentRef)
-    const archivePath = path.join(
-      this.dataDir,
-      'messages',
-      'archive',
-      format(new Date(), 'yyyy/MM'),
-      path.basename(contentRef)
+  /**
+   * Apply one escalation rule to a message. Returns null when the rule has nothing to do,
+   * e.g. nobody has the capability yet, or another process applied it first.
+   */
+  private async applyEscalation(
+    row: MessageRow,
+    rule: EscalationRule,
+    ruleKey: string,
+    now: Date
+  ): Promise<Escalation | null> {
+    const sender = row.from_participant as ParticipantId
+    const to = JSON.parse(row.to_participants) as ParticipantId[]
+    const added = rule.escalate_to
+      ? (await this.groups.expandRecipients(rule.escalate_to, sender)).filter(
+          participant => participant !== sender && !to.includes(participant)
+        )
+      : []
+    const bumpedTo = rule.bump_to && rule.bump_to !== row.priority ? rule.bump_to : undefined
+    if (added.length === 0 && !bumpedTo) {
+      return null
+    }
+
+    if (this.insertEscalation.run(row.id, ruleKey, now.toISOString()).changes === 0) {
+      return null
+    }
+
+    const priority = bumpedTo ?? (row.priority as Priority)
+    this.escalateMessage.run(priority, JSON.stringify([...to, ...added]), now.toISOString(), row.id)
+    for (const participant of added) {
+      this.insertRecipient.run(row.id, participant, now.toISOString())
+    }
+
+    const actions = [
+      ...(bumpedTo ? [`priority raised from ${row.priority} to ${bumpedTo}`] : []),
+      ...(added.length > 0 ? [`escalated to ${added.join(', ')}`] : []),
+    ]
+    const notice = this.insertSystemNotice(
+      row,
+      [sender, ...to, ...added],
+      priority,
+      `Escalated: ${row.subject}`,
+      `${row.id} has had no response for ${rule.after_hours}h: ${actions.join(' and ')}.`,
+      ['escalation', `escalates:${row.id}`],
+      now
     )
+    this.conversations.syncThread(row.thread_id)
+
+    return {
+      message_id: row.id,
+      rule,
+      bumped_from: bumpedTo ? (row.priority as Priority) : undefined,
+      bumped_to: bumpedTo,
+      added_recipients: added,
+      notice_id: notice.id,
+      escalated_at: now,
+    }
+  }
+
+  /**
+   * Log a system message in a message's thread, in reply to it
+   */
+  private insertSystemNotice(
+    row: MessageRow,
+    recipients: ParticipantId[],
+    priority: Priority,
+    subject: string,
+    content: string,
+    tags: string[],
+    now: Date
+  ): CoordinationMessage {
+    const notice: CoordinationMessage = {
+      id: this.generateMessageId('update'),
+      thread_id: row.thread_id,
+      from: SYSTEM_PARTICIPANT,
+      to: [...new Set(recipients)],
+      type: 'update',
+      priority,
+      status: 'pending',
+      subject: subject.substring(0, 200),
+      summary: content,
+      created_at: now,
+      updated_at: now,
+      expires_at: this.expiryFor({ type: 'update', priority }, row.thread_id, now),
+      response_required: false,
+      in_reply_to: row.id,
+      dependencies: [],
+      tags,
+      content,
+    }
+
+    this.insertMessage.run(
+      notice.id,
+      notice.thread_id,
+      notice.from,
+      JSON.stringify(notice.to),
+      notice.type,
+      notice.priority,
+      notice.status,
+      notice.subject,
+      notice.summary,
+      null, // content_ref
+      notice.created_at.toISOString(),
+      notice.updated_at.toISOString(),
+      notice.expires_at?.toISOString() ?? null,
+      0,
+      JSON.stringify(notice.dependencies),
+      JSON.stringify(notice.tags),
+      null, // semantic_vector
+      null, // suggested_approach
+      null, // send_at
+      notice.in_reply_to,
+      null // addressed_to
+    )
+    this.insertRecipients(notice)
+
+    return notice
+  }
+
+  /**
+   * Merge changes into a participant's triage of a message they can see
+   */
+  private async saveTriage(
+    messageId: string,
+    participant: ParticipantId,
+    changes: Partial<MessageTriage>
+  ): Promise<MessageTriage> {
+    const message = await this.getMessageById(messageId, participant, 'index')
+    if (!message) {
+      throw new ValidationError(`Message not found: ${messageId}`)
+    }
+
+    const row = this.selectTriage.get(messageId, participant) as MessageTriageRow | undefined
+    const triage: MessageTriage = {
+      ...(row ? this.toTriage(row) : { pinned: false, starred: false }),
+      ...changes,
+    }
+
+    this.upsertTriage.run({
+      message_id: messageId,
+      participant,
+      snoozed_until: triage.snoozed_until?.toISOString() ?? null,
+      pinned: triage.pinned ? 1 : 0,
+      starred: triage.starred ? 1 : 0,
+      done_at: triage.done_at?.toISOString() ?? null,
+      updated_at: new Date().toISOString(),
+    })
+
+    return triage
+  }
+
+  private toTriage(
+    row: Pick<MessageTriageRow, 'snoozed_until' | 'pinned' | 'starred' | 'done_at'>
+  ): MessageTriage {
+    return {
+      snoozed_until: row.snoozed_until ? new Date(row.snoozed_until) : undefined,
+      pinned: row.pinned === 1,
+      starred: row.starred === 1,
+      done_at: row.done_at ? new Date(row.done_at) : undefined,
+    }
+  }
+
+  private insertRecipients(message: CoordinationMessage): void {
+    for (const recipient of new Set(message.to)) {
+      this.insertRecipient.run(message.id, recipient, message.created_at.toISOString())
+    }
+  }
+
+  /**
+   * Move a recipient to a later delivery state. Returns false if they were already there.
+   */
+  private setRecipientStatus(
+    messageId: string,
+    participant: ParticipantId,
+    status: RecipientStatus,
+    at: Date
+  ): boolean {
+    const result = this.updateRecipientStatus.run({
+      message_id: messageId,
+      participant,
+      status,
+      now: at.toISOString(),
+    })
+    return result.changes > 0
+  }
+
+  private loadRecipients(messageId: string): MessageRecipient[] {
+    const rows = this.selectRecipients.all(messageId) as MessageRecipientRow[]
+    return rows.map(row => ({
+      participant: row.participant_id as ParticipantId,
+      status: row.status,
+      delivered_at: new Date(row.delivered_at),
+      read_at: row.read_at ? new Date(row.read_at) : undefined,
+      responded_at: row.responded_at ? new Date(row.responded_at) : undefined,
+      resolved_at: row.resolved_at ? new Date(row.resolved_at) : undefined,
+    }))
+  }
+
+  private attachReadReceipts(
+    messages: CoordinationMessage[],
+    requestingParticipant: ParticipantId
+  ): void {
+    for (const message of messages) {
+      if (message.from === requestingParticipant) {
+        message.recipients = this.loadRecipients(message.id)
+      }
+    }
+  }
+
+  private generateMessageId(type: MessageType): string {
+    const typePrefix = type.toUpperCase()
+    const timestamp = Date.now().toString(36)
+    const nanoidAlphanumeric = customAlphabet('ABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789', 3)
+    const random = nanoidAlphanumeric()
+    return `${typePrefix}-${timestamp}-${random}`
+  }
 
-    await fs.mkdir(path.dirname(archivePath), { recursive: true })
-    await fs.rename(sourcePath, archivePath)
+  private generateThreadId(messageId: string): string {
+    return `${messageId}-thread`
   }
 
   private async rowToMessage(
     row: MessageRow,
-    detailLevel: 'index' | 'summary' | 'full'
+    detailLevel: 'index' | 'summary' | 'full',
+    recordContentErrors = false // Lists keep loading and note the error on the broken message
   ): Promise<CoordinationMessage> {
     const message: CoordinationMessage = {
       id: row.id,
@@ -470,6 +2051,22 @@ export class MessageManager {
       created_at: new Date(row.created_at),
       updated_at: new Date(row.updated_at),
       expires_at: row.expires_at ? new Date(row.expires_at) : undefined,
+      send_at: row.send_at ? new Date(row.send_at) : undefined,
+      in_reply_to: row.in_reply_to ?? undefined,
+      forwarded_from: row.forwarded_from ?? undefined,
+      addressed_to: row.addressed_to ? JSON.parse(row.addressed_to) : undefined,
+      routing:
+        row.route_to && row.routing_strategy && row.routed_to && row.routed_at
+          ? {
+              capability: row.route_to,
+              strategy: row.routing_strategy,
+              assigned_to: row.routed_to as ParticipantId,
+              assigned_at: new Date(row.routed_at),
+              assigned_added: row.routed_added !== 0,
+              reassign_after_minutes: row.reassign_after_minutes ?? undefined,
+              previous: JSON.parse(row.routing_history ?? '[]'),
+            }
+          : undefined,
       response_required: row.response_required === 1,
       dependencies: JSON.parse(row.dependencies),
       tags: JSON.parse(row.tags),
@@ -478,34 +2075,228 @@ export class MessageManager {
       resolution_status: row.resolution_status,
       resolved_at: row.resolved_at ? new Date(row.resolved_at) : undefined,
       resolved_by: row.resolved_by as ParticipantId | undefined,
+      cancelled_at: row.cancelled_at ? new Date(row.cancelled_at) : undefined,
+      cancellation_reason: row.cancellation_reason ?? undefined,
+      revision: row.revision,
+      edited_at: row.edited_at ? new Date(row.edited_at) : undefined,
+      recipient_status: row.recipient_status ?? undefined,
+      proposal:
+        row.type === 'arch' || row.type === 'contract'
+          ? (this.proposals.getProposal(row.id) ?? undefined)
+          : undefined,
+      handoff: row.type === 'handoff' ? (this.handoffs.getHandoff(row.id) ?? undefined) : undefined,
+      triage:
+        row.pinned !== undefined && row.pinned !== null
+          ? this.toTriage(row as MessageRow & MessageTriageRow)
+          : undefined,
+    }
+
+    if (message.dependencies.length > 0) {
+      const blockedBy = (this.selectBlockers.all(row.id) as { id: string }[]).map(dep => dep.id)
+      message.blocked = blockedBy.length > 0
+      message.blocked_by = blockedBy
     }
 
-    // Load full content if requested and available
+    const attachments = await this.attachments.listAttachments(row.id)
+    if (attachments.length > 0) {
+      message.attachments = attachments
+    }
+
+    // Load full content if requested. Missing or corrupted content is an error rather than
+    // quietly replaced by the truncated summary; without content_ref the summary IS the content.
     if (detailLevel === 'full') {
-      if (message.content_ref) {
-        try {
-          const contentPath = path.join(this.dataDir, message.content_ref)
-          const fullContent = await fs.readFile(contentPath, 'utf-8')
-          message.content = fullContent  // Put full content in the content field, not summary
-        } catch (_error) {
-          // eslint-disable-next-line no-console
-          console.warn(`Failed to load content for message ${message.id}:`, _error)
-          // If we can't load from file, use the summary as content
-          message.content = message.summary
+      try {
+        message.content = message.content_ref
+          ? await this.content.get(message.content_ref)
+          : message.summary
+      } catch (error) {
+        if (!recordContentErrors || !(error instanceof ContentIntegrityError)) {
+          throw error
         }
-      } else {
-        // If no content_ref, the summary IS the full content (short messages)
-        message.content = message.summary
+        message.content_error = error.message
       }
     }
 
     return message
   }
 
-  private updateConversationThread(_message: CoordinationMessage): void {
-    // This would update the conversations table
-    // Implementation depends on conversation manager
-    // For now, just ensure the basic data is consistent
+  private updateConversationThread(message: CoordinationMessage): void {
+    // New activity always (re)opens the thread
+    this.conversations.syncThread(message.thread_id, 'active')
+  }
+
+  /**
+   * Get a thread's conversation overview together with its messages in chronological order
+   */
+  async getThread(
+    input: GetThreadInput,
+    requestingParticipant: ParticipantId
+  ): Promise<ThreadDetails> {
+    const validated = validateInput(GetThreadInput, input, 'get thread')
+    this.conversations.releaseDueMessages()
+    const threadId = await this.resolveThreadId(validated.thread_id, requestingParticipant)
+
+    const conversation =
+      this.conversations.getConversation(threadId) ?? this.conversations.syncThread(threadId)
+    if (!conversation) {
+      throw new ValidationError(`Thread not found: ${validated.thread_id}`)
+    }
+
+    if (!conversation.participants.includes(requestingParticipant)) {
+      throw new ValidationError('Access denied: not authorized to view this thread')
+    }
+
+    // Only the sender sees their scheduled messages before delivery
+    const now = new Date()
+    const rows = (this.selectThreadMessages.all(threadId) as MessageRow[]).filter(
+      row =>
+        !row.send_at ||
+        new Date(row.send_at) <= now ||
+        row.from_participant === requestingParticipant
+    )
+    const messages = await Promise.all(
+      rows.map(row => this.rowToMessage(row, validated.detail_level ?? 'summary', true))
+    )
+
+    const forwards = (this.selectThreadForwards.all(threadId) as MessageRow[]).map(
+      (row): MessageForward => ({
+        original_id: row.forwarded_from as string,
+        message_id: row.id,
+        thread_id: row.thread_id,
+        forwarded_by: row.from_participant as ParticipantId,
+        to: JSON.parse(row.to_participants),
+        forwarded_at: new Date(row.created_at),
+      })
+    )
+
+    return { conversation, messages, forwards }
+  }
+
+  /**
+   * Copy a message into a new thread for other participants. The copy carries the full
+   * content and suggested approach, and links back to the original through forwarded_from.
+   */
+  async forwardMessage(
+    input: ForwardMessageInput,
+    forwardingParticipant: ParticipantId
+  ): Promise<CoordinationMessage> {
+    const validated = validateInput(ForwardMessageInput, input, 'forward message')
+
+    const original = await this.getMessageById(validated.message_id, forwardingParticipant, 'full')
+    if (!original) {
+      throw new ValidationError(`Message not found: ${validated.message_id}`)
+    }
+
+    if (original.status === 'cancelled') {
+      throw new ValidationError(`Cannot forward a cancelled message: ${original.id}`)
+    }
+
+    const content = original.content ?? original.summary
+    const forwarded = await this.createMessage(
+      {
+        to: validated.to,
+        type: original.type,
+        priority: original.priority,
+        subject: (original.subject.startsWith('Fwd: ')
+          ? original.subject
+          : `Fwd: ${original.subject}`
+        ).substring(0, 200),
+        content: validated.note ? `${validated.note}\n\n---\n\n${content}` : content,
+        response_required: original.response_required,
+        tags: original.tags,
+        suggested_approach: original.suggested_approach,
+      },
+      forwardingParticipant
+    )
+    this.setForwardedFrom.run(original.id, forwarded.id)
+
+    // Attachments travel with the forward; their content is shared, not copied
+    const attachments = await this.attachments.copyAttachments(
+      original.id,
+      forwarded.id,
+      forwarded.created_at
+    )
+
+    return {
+      ...forwarded,
+      forwarded_from: original.id,
+      attachments: attachments.length > 0 ? attachments : undefined,
+    }
+  }
+
+  /**
+   * Resolve a thread ID, accepting a message ID (or a thread ID missing its suffix) instead
+   */
+  private async resolveThreadId(
+    threadIdOrMessageId: string,
+    requestingParticipant: ParticipantId
+  ): Promise<string> {
+    if (threadIdOrMessageId.endsWith('-thread')) {
+      return threadIdOrMessageId
+    }
+
+    // User provided a message ID - try to find the actual thread ID
+    const messageById = await this.getMessageById(
+      threadIdOrMessageId,
+      requestingParticipant,
+      'index'
+    )
+
+    if (messageById) {
+      // Found the message - use its thread ID
+      return messageById.thread_id
+    }
+
+    // Maybe they meant to add -thread suffix?
+    const possibleThreadId = `${threadIdOrMessageId}-thread`
+    const testMessages = await this.getMessages(
+      {
+        thread_id: possibleThreadId,
+        limit: 1,
+        active_only: false,
+      },
+      requestingParticipant
+    )
+
+    if (testMessages.length > 0) {
+      return possibleThreadId
+    }
+
+    throw new ValidationError(
+      `Unable to find thread for: ${threadIdOrMessageId}\n` +
+        'Please provide either:\n' +
+        '1. A valid message ID (we\'ll find the thread)\n' +
+        '2. A thread ID (format: INITIAL-MESSAGE-ID-thread)'
+    )
+  }
+
+  /**
+   * Write a closed arch thread as an architecture decision record, or update the record
+   * written when it was closed. Needs the ADR directory passed to the constructor.
+   */
+  async exportDecisionRecord(
+    threadId: string,
+    requestingParticipant: ParticipantId
+  ): Promise<DecisionRecord> {
+    if (!this.adrs) {
+      throw new ValidationError('No ADR directory configured')
+    }
+
+    const thread = await this.getThread(
+      { thread_id: threadId, detail_level: 'full' },
+      requestingParticipant
+    )
+    const root = thread.messages.find(message => !message.in_reply_to)
+    if (root?.type !== 'arch') {
+      throw new ValidationError(`Only arch threads have decision records: ${threadId}`)
+    }
+    if (thread.conversation.status === 'active' || !thread.conversation.resolution_summary) {
+      throw new ValidationError(
+        `Thread has no decision yet: close it with a final summary first (${threadId})`
+      )
+    }
+
+    return this.adrs.writeRecord(thread, root)
   }
 
   /**
@@ -514,42 +2305,8 @@ export class MessageManager {
   async closeThread(input: CloseThreadInput, closingParticipant: ParticipantId): Promise<number> {
     const validated = validateInput(CloseThreadInput, input, 'close_thread')
 
-    // Check if user provided a message ID instead of thread ID
-    let actualThreadId = validated.thread_id
-    
-    if (!validated.thread_id.endsWith('-thread')) {
-      // User provided a message ID - try to find the actual thread ID
-      const messageById = await this.getMessageById(validated.thread_id, closingParticipant, 'index')
-      
-      if (messageById) {
-        // Found the message - use its thread ID
-        actualThreadId = messageById.thread_id
-        // Auto-converted message ID to thread ID
-      } else {
-        // Maybe they meant to add -thread suffix?
-        const possibleThreadId = `${validated.thread_id}-thread`
-        const testMessages = await this.getMessages(
-          {
-            thread_id: possibleThreadId,
-            limit: 1,
-            active_only: false,
-          },
-          closingParticipant
-        )
-        
-        if (testMessages.length > 0) {
-          actualThreadId = possibleThreadId
-          // Auto-corrected to thread ID
-        } else {
-          throw new ValidationError(
-            `Unable to find thread for: ${validated.thread_id}\n` +
-            `Please provide either:\n` +
-            `1. A valid message ID (we'll find the thread)\n` +
-            `2. A thread ID (format: INITIAL-MESSAGE-ID-thread)`
-          )
-        }
-      }
-    }
+    // Accept a message ID instead of a thread ID
+    const actualThreadId = await this.resolveThreadId(validated.thread_id, closingParticipant)
 
     // Get all messages in the thread
     const messages = await this.getMessages(
@@ -574,10 +2331,20 @@ export class MessageManager {
       throw new ValidationError('Access denied: not authorized to close this thread')
     }
 
+    // A proposal is only done once its voters have decided it
+    const undecided = this.proposals.getUndecidedProposals(actualThreadId)
+    if (validated.resolution_status === 'complete' && undecided.length > 0) {
+      throw new ValidationError(
+        `Proposal ${undecided[0].message_id} has no decision yet; wait for the vote or close the thread as partial, requires_followup or blocked`,
+        { undecided: undecided.map(proposal => proposal.message_id) }
+      )
+    }
+
     const now = new Date()
     let closedCount = 0
 
     // Close all pending/read/responded messages in the thread
+    const closedIds: string[] = []
     for (const message of messages) {
       if (['pending', 'read', 'responded'].includes(message.status)) {
         this.updateMessage.run(
@@ -588,10 +2355,16 @@ export class MessageManager {
           closingParticipant,
           message.id
         )
+        this.resolveRecipients.run(now.toISOString(), message.id)
+        closedIds.push(message.id)
         closedCount++
       }
     }
 
+    this.conversations.syncThread(actualThreadId, 'resolved', validated.final_summary)
+
+    await this.notifyUnblockedDependents(closedIds, closingParticipant)
+
     // If a final summary was provided, add it as a final message
     if (validated.final_summary) {
       await this.createMessage(
@@ -607,6 +2380,21 @@ export class MessageManager {
       )
     }
 
+    // The final summary of an arch thread is its decision, worth a record next to the code.
+    // The thread is closed either way; a record that can't be written can be exported later.
+    const root = messages.find(message => !message.in_reply_to)
+    if (validated.final_summary && this.adrs && root?.type === 'arch') {
+      try {
+        await this.exportDecisionRecord(actualThreadId, closingParticipant)
+      } catch (error) {
+        // eslint-disable-next-line no-console
+        console.warn(
+          `Failed to write the decision record for thread ${actualThreadId}; retry with \`ccp adr export ${actualThreadId}\`:`,
+          error
+        )
+      }
+    }
+
     return closedCount
   }
 }
@@ -1,5 +1,5 @@
 import { CoordinationDatabase } from '../database/connection.js'
-import { validateInput, validateParticipantId } from '../utils/validation.js'
+import { isGroupRecipient, validateInput, validateParticipantId } from '../utils/validation.js'
 import type { Statement } from 'better-sqlite3'
 import {
   Participant,
@@ -275,8 +275,12 @@ export class ParticipantRegistry {
       return false
     }
 
-    // Check if all target participants exist and are active
+    // Check if all target participants exist and are active. Group expressions only
+    // expand to reachable participants, so they need no check.
     for (const targetId of toParticipants) {
+      if (isGroupRecipient(targetId)) {
+        continue
+      }
       const target = await this.getParticipant(targetId)
       if (!target || target.status === 'inactive') {
         return false
@@ -0,0 +1,204 @@
+import type { Statement } from 'better-sqlite3'
+
+import { CoordinationDatabase } from '../database/connection.js'
+import {
+  ParticipantId,
+  Proposal,
+  ProposalDecision,
+  ProposalRow,
+  ProposalVote,
+  ProposalVoteRow,
+  Quorum,
+  ValidationError,
+  VoteChoice,
+} from '../types/index.js'
+
+/**
+ * The decision the votes reach under the quorum, or undefined while it is still open.
+ * Votes of participants who are not voters are recorded but don't count.
+ */
+export function decideProposal(
+  quorum: Quorum,
+  voters: ParticipantId[],
+  votes: Pick<ProposalVote, 'participant' | 'vote'>[]
+): ProposalDecision | undefined {
+  const counted = votes.filter(vote => voters.includes(vote.participant))
+  const approvals = counted.filter(vote => vote.vote === 'approve').length
+  const waiting = voters.length - counted.length
+
+  if (quorum === 'majority') {
+    // Abstaining counts against, so a majority out of reach is a rejection
+    if (approvals * 2 > voters.length) {
+      return 'accepted'
+    }
+    return (approvals + waiting) * 2 <= voters.length ? 'rejected' : undefined
+  }
+
+  // all and approvers: one rejection decides, otherwise everyone has to vote
+  if (counted.some(vote => vote.vote === 'reject')) {
+    return 'rejected'
+  }
+  if (waiting > 0) {
+    return undefined
+  }
+  return approvals > 0 ? 'accepted' : 'rejected'
+}
+
+/**
+ * Proposals and their votes, stored next to the messages they were sent as
+ */
+export class ProposalStore {
+  private db: CoordinationDatabase
+
+  // Prepared statements
+  private insertProposal: Statement
+  private selectProposal: Statement
+  private selectOpenThreadProposals: Statement
+  private upsertVote: Statement
+  private selectVotes: Statement
+  private setDecision: Statement
+
+  constructor(db: CoordinationDatabase) {
+    this.db = db
+    this.prepareStatements()
+  }
+
+  private prepareStatements(): void {
+    this.insertProposal = this.db.prepare(`
+      INSERT INTO proposals (message_id, thread_id, quorum, voters, created_at)
+      VALUES (?, ?, ?, ?, ?)
+    `)
+
+    this.selectProposal = this.db.prepare('SELECT * FROM proposals WHERE message_id = ?')
+
+    // Cancelled proposals are withdrawn and never need a decision
+    this.selectOpenThreadProposals = this.db.prepare(`
+      SELECT p.* FROM proposals p
+      JOIN messages m ON m.id = p.message_id
+      WHERE p.thread_id = ? AND p.decision IS NULL AND m.status != 'cancelled'
+      ORDER BY p.created_at ASC
+    `)
+
+    this.upsertVote = this.db.prepare(`
+      INSERT INTO proposal_votes (message_id, participant_id, vote, rationale, response_id, voted_at)
+      VALUES ($message_id, $participant_id, $vote, $rationale, $response_id, $voted_at)
+      ON CONFLICT(message_id, participant_id) DO UPDATE SET
+        vote = excluded.vote, rationale = excluded.rationale,
+        response_id = excluded.response_id, voted_at = excluded.voted_at
+    `)
+
+    this.selectVotes = this.db.prepare(
+      'SELECT * FROM proposal_votes WHERE message_id = ? ORDER BY voted_at ASC, participant_id ASC'
+    )
+
+    // Only the first decision sticks
+    this.setDecision = this.db.prepare(`
+      UPDATE proposals SET decision = ?, decided_at = ?
+      WHERE message_id = ? AND decision IS NULL
+    `)
+  }
+
+  /**
+   * Open voting on a message that was just created
+   */
+  createProposal(
+    messageId: string,
+    threadId: string,
+    quorum: Quorum,
+    voters: ParticipantId[],
+    createdAt: Date
+  ): Proposal {
+    this.insertProposal.run(
+      messageId,
+      threadId,
+      quorum,
+      JSON.stringify(voters),
+      createdAt.toISOString()
+    )
+
+    return {
+      message_id: messageId,
+      thread_id: threadId,
+      quorum,
+      voters,
+      votes: [],
+      created_at: createdAt,
+    }
+  }
+
+  /**
+   * Get a proposal with its votes, or null when the message is not a proposal
+   */
+  getProposal(messageId: string): Proposal | null {
+    const row = this.selectProposal.get(messageId) as ProposalRow | undefined
+    return row ? this.rowToProposal(row) : null
+  }
+
+  /**
+   * Proposals in a thread still waiting for a decision
+   */
+  getUndecidedProposals(threadId: string): Proposal[] {
+    const rows = this.selectOpenThreadProposals.all(threadId) as ProposalRow[]
+    return rows.map(row => this.rowToProposal(row))
+  }
+
+  /**
+   * Record a participant's vote, replacing their earlier one, and decide the proposal if the
+   * quorum is now met. Returns the proposal as it stands after the vote.
+   */
+  castVote(
+    messageId: string,
+    participant: ParticipantId,
+    vote: VoteChoice,
+    rationale: string,
+    responseId: string,
+    votedAt: Date
+  ): Proposal {
+    this.upsertVote.run({
+      message_id: messageId,
+      participant_id: participant,
+      vote,
+      rationale,
+      response_id: responseId,
+      voted_at: votedAt.toISOString(),
+    })
+
+    const proposal = this.requireProposal(messageId)
+    const decision = decideProposal(proposal.quorum, proposal.voters, proposal.votes)
+    if (decision) {
+      this.setDecision.run(decision, votedAt.toISOString(), messageId)
+      return this.requireProposal(messageId)
+    }
+
+    return proposal
+  }
+
+  private requireProposal(messageId: string): Proposal {
+    const proposal = this.getProposal(messageId)
+    if (!proposal) {
+      throw new ValidationError(`Message is not a proposal: ${messageId}`)
+    }
+    return proposal
+  }
+
+  private rowToProposal(row: ProposalRow): Proposal {
+    const votes = (this.selectVotes.all(row.message_id) as ProposalVoteRow[]).map(vote => ({
+      participant: vote.participant_id as ParticipantId,
+      vote: vote.vote,
+      rationale: vote.rationale,
+      response_id: vote.response_id,
+      voted_at: new Date(vote.voted_at),
+    }))
+
+    return {
+      message_id: row.message_id,
+      thread_id: row.thread_id,
+      quorum: row.quorum,
+      voters: JSON.parse(row.voters),
+      votes,
+      decision: row.decision ?? undefined,
+      decided_at: row.decided_at ? new Date(row.decided_at) : undefined,
+      created_at: new Date(row.created_at),
+    }
+  }
+}
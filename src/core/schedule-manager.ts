@@ -0,0 +1,174 @@
+import { customAlphabet } from 'nanoid'
+import type { Statement } from 'better-sqlite3'
+
+import { CoordinationDatabase } from '../database/connection.js'
+import { MessageManager } from './message-manager.js'
+import { nextCronOccurrence } from '../utils/cron.js'
+import { validateInput } from '../utils/validation.js'
+import {
+  CoordinationMessage,
+  CreateScheduleInput,
+  ParticipantId,
+  Schedule,
+  ScheduleRow,
+  ScheduleTemplate,
+  ValidationError,
+} from '../types/index.js'
+
+export class ScheduleManager {
+  private db: CoordinationDatabase
+  private messageManager: MessageManager
+
+  // Prepared statements
+  private insertSchedule: Statement
+  private selectSchedule: Statement
+  private selectOwnerSchedules: Statement
+  private selectDueSchedules: Statement
+  private claimRun: Statement
+  private deleteSchedule: Statement
+
+  constructor(db: CoordinationDatabase, messageManager: MessageManager) {
+    this.db = db
+    this.messageManager = messageManager
+    this.prepareStatements()
+  }
+
+  private prepareStatements(): void {
+    this.insertSchedule = this.db.prepare(`
+      INSERT INTO schedules (id, owner, cron, template, created_at, next_run_at)
+      VALUES (?, ?, ?, ?, ?, ?)
+    `)
+
+    this.selectSchedule = this.db.prepare('SELECT * FROM schedules WHERE id = ?')
+
+    this.selectOwnerSchedules = this.db.prepare(
+      'SELECT * FROM schedules WHERE owner = ? ORDER BY next_run_at ASC'
+    )
+
+    this.selectDueSchedules = this.db.prepare(
+      'SELECT * FROM schedules WHERE next_run_at <= ? ORDER BY next_run_at ASC'
+    )
+
+    // Compare-and-swap on next_run_at: only one process can claim a given occurrence
+    this.claimRun = this.db.prepare(`
+      UPDATE schedules SET last_run_at = ?, next_run_at = ?
+      WHERE id = ? AND next_run_at = ?
+    `)
+
+    this.deleteSchedule = this.db.prepare('DELETE FROM schedules WHERE id = ?')
+  }
+
+  /**
+   * Create a schedule that sends a message built from the template on every cron occurrence
+   */
+  async createSchedule(input: CreateScheduleInput, owner: ParticipantId): Promise<Schedule> {
+    const validated = validateInput(CreateScheduleInput, input, 'create schedule')
+    const { cron, ...template } = validated
+
+    const now = new Date()
+    const nextRunAt = nextCronOccurrence(cron, now)
+    const id = this.generateScheduleId()
+
+    this.insertSchedule.run(
+      id,
+      owner,
+      cron,
+      JSON.stringify(template),
+      now.toISOString(),
+      nextRunAt.toISOString()
+    )
+
+    return {
+      id,
+      owner,
+      cron,
+      template,
+      created_at: now,
+      next_run_at: nextRunAt,
+    }
+  }
+
+  /**
+   * List the schedules owned by a participant, soonest first
+   */
+  async listSchedules(owner: ParticipantId): Promise<Schedule[]> {
+    const rows = this.selectOwnerSchedules.all(owner) as ScheduleRow[]
+    return rows.map(row => this.rowToSchedule(row))
+  }
+
+  /**
+   * Remove a schedule (owner only). Messages it already sent are kept.
+   */
+  async removeSchedule(scheduleId: string, owner: ParticipantId): Promise<void> {
+    const row = this.selectSchedule.get(scheduleId) as ScheduleRow | undefined
+    if (!row) {
+      throw new ValidationError(`Schedule not found: ${scheduleId}`)
+    }
+
+    if (row.owner !== owner) {
+      throw new ValidationError('Access denied: only the owner can remove this schedule')
+    }
+
+    this.deleteSchedule.run(scheduleId)
+  }
+
+  /**
+   * Send the messages of every schedule whose next occurrence has passed.
+   * Each occurrence is claimed before sending, so concurrent servers or a restart never send
+   * it twice; occurrences missed while nothing was running collapse into a single message.
+   * An occurrence that fails to send is logged and not retried.
+   */
+  async runDueSchedules(now: Date = new Date()): Promise<CoordinationMessage[]> {
+    const due = this.selectDueSchedules.all(now.toISOString()) as ScheduleRow[]
+    const sent: CoordinationMessage[] = []
+
+    for (const row of due) {
+      const nextRunAt = nextCronOccurrence(row.cron, now)
+      const claimed = this.claimRun.run(
+        row.next_run_at,
+        nextRunAt.toISOString(),
+        row.id,
+        row.next_run_at
+      )
+      if (claimed.changes === 0) {
+        continue
+      }
+
+      // A failing schedule skips this occurrence without holding up the others
+      try {
+        const template = JSON.parse(row.template) as ScheduleTemplate
+        const message = await this.messageManager.createMessage(
+          {
+            ...template,
+            tags: [...(template.tags ?? []), `schedule:${row.id}`],
+          },
+          row.owner
+        )
+        sent.push(message)
+      } catch (error) {
+        // eslint-disable-next-line no-console
+        console.warn(`Failed to run schedule ${row.id}:`, error)
+      }
+    }
+
+    return sent
+  }
+
+  private rowToSchedule(row: ScheduleRow): Schedule {
+    return {
+      id: row.id,
+      owner: row.owner,
+      cron: row.cron,
+      template: JSON.parse(row.template),
+      created_at: new Date(row.created_at),
+      last_run_at: row.last_run_at ? new Date(row.last_run_at) : undefined,
+      next_run_at: new Date(row.next_run_at),
+    }
+  }
+
+  private generateScheduleId(): string {
+    const timestamp = Date.now().toString(36)
+    const nanoidAlphanumeric = customAlphabet('ABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789', 3)
+    return `SCHED-${timestamp}-${nanoidAlphanumeric()}`
+  }
+}
@@ -0,0 +1,212 @@
+import type { Statement } from 'better-sqlite3'
+
+import { CoordinationDatabase } from '../database/connection.js'
+import { MessageManager } from './message-manager.js'
+import { validateInput } from '../utils/validation.js'
+import {
+  CoordinationMessage,
+  CreateTaskInput,
+  ListTasksInput,
+  ParticipantId,
+  Task,
+  TaskRow,
+  UpdateTaskInput,
+  ValidationError,
+} from '../types/index.js'
+
+/**
+ * Tasks on top of coordination messages: a q or sync message gets an assignee, a due date and
+ * a state, while the conversation about it stays in its thread
+ */
+export class TaskManager {
+  private db: CoordinationDatabase
+  private messageManager: MessageManager
+
+  // Prepared statements
+  private insertTask: Statement
+  private selectTask: Statement
+  private updateTaskStmt: Statement
+  private selectTasks: Statement
+
+  constructor(db: CoordinationDatabase, messageManager: MessageManager) {
+    this.db = db
+    this.messageManager = messageManager
+    this.prepareStatements()
+  }
+
+  private prepareStatements(): void {
+    this.insertTask = this.db.prepare(`
+      INSERT INTO tasks (
+        message_id, thread_id, title, assignee, state, due_at, created_by, created_at, updated_at
+      ) VALUES (?, ?, ?, ?, 'todo', ?, ?, ?, ?)
+    `)
+
+    this.selectTask = this.db.prepare('SELECT * FROM tasks WHERE message_id = ?')
+
+    this.updateTaskStmt = this.db.prepare(`
+      UPDATE tasks SET
+        assignee = $assignee, state = $state, due_at = $due_at, note = $note,
+        updated_at = $updated_at, done_at = $done_at
+      WHERE message_id = $message_id
+    `)
+
+    // Tasks on messages the requester sent or received, once delivered. Soonest due first,
+    // undated last.
+    this.selectTasks = this.db.prepare(`
+      SELECT t.* FROM tasks t
+      JOIN messages m ON m.id = t.message_id
+      WHERE (m.from_participant = $requester
+          OR (EXISTS (SELECT 1 FROM json_each(m.to_participants) WHERE value = $requester)
+            AND (m.send_at IS NULL OR m.send_at <= $now)))
+        AND ($assignee IS NULL OR t.assignee = $assignee)
+        AND ($state IS NULL OR t.state IN (SELECT value FROM json_each($state)))
+        AND ($thread_id IS NULL OR t.thread_id = $thread_id)
+        AND ($overdue_only = 0 OR (t.state != 'done' AND t.due_at < $now))
+      ORDER BY t.due_at IS NULL, t.due_at ASC, t.created_at ASC
+      LIMIT $limit
+    `)
+  }
+
+  /**
+   * Promote a q or sync message the participant can see to a task
+   */
+  async createTask(input: CreateTaskInput, creator: ParticipantId): Promise<Task> {
+    const validated = validateInput(CreateTaskInput, input, 'create task')
+
+    const message = await this.getVisibleMessage(validated.message_id, creator)
+    if (message.type !== 'q' && message.type !== 'sync') {
+      throw new ValidationError('Only q and sync messages can become tasks', {
+        type: message.type,
+      })
+    }
+    if (message.status === 'cancelled') {
+      throw new ValidationError(`Message was cancelled: ${message.id}`)
+    }
+    if (this.selectTask.get(message.id)) {
+      throw new ValidationError(`Message is already a task: ${message.id}`)
+    }
+
+    const assignee = validated.assignee ?? creator
+    this.checkAssignee(message, assignee)
+
+    const now = new Date()
+    this.insertTask.run(
+      message.id,
+      message.thread_id,
+      validated.title ?? message.subject,
+      assignee,
+      validated.due_at?.toISOString() ?? null,
+      creator,
+      now.toISOString(),
+      now.toISOString()
+    )
+
+    return this.rowToTask(this.selectTask.get(message.id) as TaskRow, now)
+  }
+
+  /**
+   * Move a task along, reassign it or change its due date. Anyone on its message can; marking
+   * it done resolves the message.
+   */
+  async updateTask(input: UpdateTaskInput, participant: ParticipantId): Promise<Task> {
+    const validated = validateInput(UpdateTaskInput, input, 'update task')
+
+    const message = await this.getVisibleMessage(validated.message_id, participant)
+    const row = this.selectTask.get(message.id) as TaskRow | undefined
+    if (!row) {
+      throw new ValidationError(`Message is not a task: ${message.id}`)
+    }
+
+    const assignee = validated.assignee ?? (row.assignee as ParticipantId)
+    this.checkAssignee(message, assignee)
+
+    const now = new Date()
+    const state = validated.state ?? row.state
+    let doneAt = row.done_at
+    if (state !== 'done') {
+      doneAt = null
+    } else if (row.state !== 'done') {
+      doneAt = now.toISOString()
+    }
+
+    let dueAt = row.due_at
+    if (validated.due_at !== undefined) {
+      dueAt = validated.due_at?.toISOString() ?? null
+    }
+
+    this.updateTaskStmt.run({
+      message_id: message.id,
+      assignee,
+      state,
+      due_at: dueAt,
+      note: validated.note ?? row.note,
+      updated_at: now.toISOString(),
+      done_at: doneAt,
+    })
+
+    if (state === 'done' && ['pending', 'read', 'responded'].includes(message.status)) {
+      await this.messageManager.resolveMessage(message.id, participant, 'complete')
+    }
+
+    return this.rowToTask(this.selectTask.get(message.id) as TaskRow, now)
+  }
+
+  /**
+   * Tasks on messages the participant sent or received, soonest due first
+   */
+  async listTasks(input: ListTasksInput, requestingParticipant: ParticipantId): Promise<Task[]> {
+    const validated = validateInput(ListTasksInput, input, 'list tasks')
+    const now = new Date()
+
+    const rows = this.selectTasks.all({
+      requester: requestingParticipant,
+      assignee: validated.assignee ?? null,
+      state: validated.state ? JSON.stringify(validated.state) : null,
+      thread_id: validated.thread_id ?? null,
+      overdue_only: validated.overdue_only ? 1 : 0,
+      now: now.toISOString(),
+      limit: validated.limit ?? 50,
+    }) as TaskRow[]
+
+    return rows.map(row => this.rowToTask(row, now))
+  }
+
+  private async getVisibleMessage(
+    messageId: string,
+    participant: ParticipantId
+  ): Promise<CoordinationMessage> {
+    const message = await this.messageManager.getMessageById(messageId, participant, 'index')
+    if (!message) {
+      throw new ValidationError(`Message not found: ${messageId}`)
+    }
+    return message
+  }
+
+  // Whoever owns the task has to be able to see it and resolve its message
+  private checkAssignee(message: CoordinationMessage, assignee: ParticipantId): void {
+    if (message.from !== assignee && !message.to.includes(assignee)) {
+      throw new ValidationError(
+        `Assignee must be the sender or a recipient of the message: ${assignee}`
+      )
+    }
+  }
+
+  private rowToTask(row: TaskRow, now: Date): Task {
+    const dueAt = row.due_at ? new Date(row.due_at) : undefined
+
+    return {
+      message_id: row.message_id,
+      thread_id: row.thread_id,
+      title: row.title,
+      assignee: row.assignee as ParticipantId,
+      state: row.state,
+      due_at: dueAt,
+      note: row.note ?? undefined,
+      created_by: row.created_by as ParticipantId,
+      created_at: new Date(row.created_at),
+      updated_at: new Date(row.updated_at),
+      done_at: row.done_at ? new Date(row.done_at) : undefined,
+      overdue: row.state !== 'done' && dueAt !== undefined && dueAt < now,
+    }
+  }
+}
@@ -8,6 +8,42 @@ import { DatabaseError } from '../types/index.js'
 const __filename = fileURLToPath(import.meta.url)
 const __dirname = path.dirname(__filename)
 
+const typeCheck = (types: string[]) => `CHECK (type IN (${types.map(t => `'${t}'`).join(', ')}))`
+
+const MESSAGE_TYPES = ['arch', 'contract', 'sync', 'update', 'q', 'emergency', 'broadcast']
+const MESSAGE_TYPES_CHECK = typeCheck(MESSAGE_TYPES)
+const MESSAGE_TYPES_WITH_HANDOFF_CHECK = typeCheck([...MESSAGE_TYPES, 'handoff'])
+
+/**
+ * Recreate the messages table from a rewritten CREATE statement, for changes ALTER TABLE can't
+ * make such as a CHECK constraint. Rows keep their rowid, which the full-text index refers to,
+ * and the table's indexes and triggers are created again.
+ */
+function rebuildMessagesTable(db: Database.Database, rewrite: (sql: string) => string): void {
+  const schema = db.prepare(`
+    SELECT type, sql FROM sqlite_master
+    WHERE tbl_name = 'messages' AND type IN ('table', 'index', 'trigger') AND sql IS NOT NULL
+  `)
+  const objects = schema.all() as { type: string; sql: string }[]
+  const table = objects.find(object => object.type === 'table')
+  if (!table) {
+    throw new DatabaseError('Cannot rebuild the messages table: it does not exist')
+  }
+  const dependents = objects.filter(object => object.type !== 'table')
+  const columns = (db.pragma('table_info(messages)') as { name: string }[])
+    .map(column => column.name)
+    .join(', ')
+
+  // SQLite quotes the name once a table has been renamed
+  db.exec(rewrite(table.sql).replace(/^CREATE TABLE "?messages"?/, 'CREATE TABLE messages_rebuilt'))
+  db.exec(`INSERT INTO messages_rebuilt (rowid, ${columns}) SELECT rowid, ${columns} FROM messages`)
+  db.exec('DROP TABLE messages')
+  db.exec('ALTER TABLE messages_rebuilt RENAME TO messages')
+  for (const dependent of dependents) {
+    db.exec(dependent.sql)
+  }
+}
+
 export class DatabaseMigrator {
   private db: Database.Database
   private migrationsPath: string
@@ -157,6 +193,508 @@ export class DatabaseMigrator {
       `,
     })
 
+    migrations.push({
+      version: 3,
+      up: `
+        -- Backfill conversations from existing messages; new threads are kept
+        -- current by ConversationManager from here on
+        INSERT OR IGNORE INTO conversations (
+          thread_id, participants, topic, tags, created_at, last_activity, status, message_count
+        )
+        SELECT
+          m.thread_id,
+          (
+            SELECT json_group_array(participant) FROM (
+              SELECT from_participant AS participant FROM messages WHERE thread_id = m.thread_id
+              UNION
+              SELECT recipient.value FROM messages, json_each(messages.to_participants) recipient
+              WHERE messages.thread_id = m.thread_id
+            )
+          ),
+          (SELECT subject FROM messages WHERE thread_id = m.thread_id ORDER BY created_at ASC, rowid ASC LIMIT 1),
+          (SELECT tags FROM messages WHERE thread_id = m.thread_id ORDER BY created_at ASC, rowid ASC LIMIT 1),
+          MIN(m.created_at),
+          MAX(m.updated_at),
+          CASE
+            WHEN SUM(m.status IN ('pending', 'read', 'responded')) > 0 THEN 'active'
+            WHEN SUM(m.status = 'archived') = COUNT(*) THEN 'archived'
+            ELSE 'resolved'
+          END,
+          COUNT(*)
+        FROM messages m
+        GROUP BY m.thread_id;
+      `,
+      down: `
+        -- Backfilled rows are indistinguishable from live ones; keep them
+        SELECT 1;
+      `,
+    })
+
+    migrations.push({
+      version: 4,
+      up: `
+        -- Per-recipient delivery state, so one recipient responding no longer
+        -- changes what the other recipients see
+        CREATE TABLE IF NOT EXISTS message_recipients (
+          message_id TEXT NOT NULL,
+          participant_id TEXT NOT NULL,
+          status TEXT NOT NULL CHECK (status IN ('delivered', 'read', 'responded', 'resolved')) DEFAULT 'delivered',
+          delivered_at TEXT NOT NULL,
+          read_at TEXT,
+          responded_at TEXT,
+          resolved_at TEXT,
+          PRIMARY KEY (message_id, participant_id),
+          FOREIGN KEY (message_id) REFERENCES messages(id) ON DELETE CASCADE
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_message_recipients_participant ON message_recipients(participant_id, status);
+
+        -- Backfill from the shared message status; the best we know for existing messages
+        INSERT OR IGNORE INTO message_recipients (
+          message_id, participant_id, status, delivered_at, read_at, responded_at, resolved_at
+        )
+        SELECT
+          m.id,
+          recipient.value,
+          CASE m.status
+            WHEN 'read' THEN 'read'
+            WHEN 'responded' THEN 'responded'
+            WHEN 'resolved' THEN 'resolved'
+            ELSE 'delivered'
+          END,
+          m.created_at,
+          CASE WHEN m.status IN ('read', 'responded', 'resolved') THEN m.updated_at END,
+          CASE WHEN m.status = 'responded' THEN m.updated_at END,
+          CASE WHEN m.status = 'resolved' THEN COALESCE(m.resolved_at, m.updated_at) END
+        FROM messages m, json_each(m.to_participants) recipient;
+      `,
+      down: `
+        DROP INDEX IF EXISTS idx_message_recipients_participant;
+        DROP TABLE IF EXISTS message_recipients;
+      `,
+    })
+
+    migrations.push({
+      version: 5,
+      up: `
+        -- Record when and why a sender cancelled a message
+        ALTER TABLE messages ADD COLUMN cancelled_at TEXT;
+        ALTER TABLE messages ADD COLUMN cancellation_reason TEXT;
+      `,
+      down: `
+        -- SQLite doesn't support DROP COLUMN directly
+        -- This is a no-op for safety
+        SELECT 1;
+      `,
+    })
+
+    migrations.push({
+      version: 6,
+      up: `
+        -- Revision history for edited messages
+        ALTER TABLE messages ADD COLUMN revision INTEGER NOT NULL DEFAULT 1;
+        ALTER TABLE messages ADD COLUMN edited_at TEXT;
+
+        CREATE TABLE IF NOT EXISTS message_revisions (
+          message_id TEXT NOT NULL,
+          revision INTEGER NOT NULL,
+          subject TEXT NOT NULL,
+          content_ref TEXT NOT NULL,
+          priority TEXT NOT NULL CHECK (priority IN ('CRITICAL', 'H', 'M', 'L')),
+          tags TEXT NOT NULL DEFAULT '[]',
+          edited_by TEXT NOT NULL,
+          edited_at TEXT NOT NULL,
+          PRIMARY KEY (message_id, revision),
+          FOREIGN KEY (message_id) REFERENCES messages(id) ON DELETE CASCADE
+        );
+      `,
+      down: `
+        -- The revision/edited_at columns stay (SQLite can't DROP COLUMN safely)
+        DROP TABLE IF EXISTS message_revisions;
+      `,
+    })
+
+    migrations.push({
+      version: 7,
+      up: `
+        -- Scheduled delivery: messages stay hidden from recipients until send_at
+        ALTER TABLE messages ADD COLUMN send_at TEXT;
+        CREATE INDEX IF NOT EXISTS idx_messages_send_at ON messages(send_at);
+      `,
+      down: `
+        DROP INDEX IF EXISTS idx_messages_send_at;
+      `,
+    })
+
+    migrations.push({
+      version: 8,
+      up: `
+        -- Recurring messages created from a template on a cron expression
+        CREATE TABLE IF NOT EXISTS schedules (
+          id TEXT PRIMARY KEY,
+          owner TEXT NOT NULL,
+          cron TEXT NOT NULL,
+          template TEXT NOT NULL,
+          created_at TEXT NOT NULL,
+          last_run_at TEXT,
+          next_run_at TEXT NOT NULL
+        );
+        CREATE INDEX IF NOT EXISTS idx_schedules_next_run_at ON schedules(next_run_at);
+      `,
+      down: `
+        DROP INDEX IF EXISTS idx_schedules_next_run_at;
+        DROP TABLE IF EXISTS schedules;
+      `,
+    })
+
+    migrations.push({
+      version: 9,
+      up: `
+        -- Explicit reply chain, backfilled from the response_to:<id> tags
+        ALTER TABLE messages ADD COLUMN in_reply_to TEXT;
+        UPDATE messages SET in_reply_to = (
+          SELECT substr(value, 13) FROM json_each(messages.tags)
+          WHERE value LIKE 'response_to:%'
+          LIMIT 1
+        );
+        CREATE INDEX IF NOT EXISTS idx_messages_in_reply_to ON messages(in_reply_to);
+      `,
+      down: `
+        DROP INDEX IF EXISTS idx_messages_in_reply_to;
+      `,
+    })
+
+    migrations.push({
+      version: 10,
+      up: `
+        -- Provenance of forwarded messages
+        ALTER TABLE messages ADD COLUMN forwarded_from TEXT;
+        CREATE INDEX IF NOT EXISTS idx_messages_forwarded_from ON messages(forwarded_from);
+      `,
+      down: `
+        DROP INDEX IF EXISTS idx_messages_forwarded_from;
+      `,
+    })
+
+    migrations.push({
+      version: 11,
+      up: `
+        -- Named recipient groups, and what a message was addressed to before expansion
+        CREATE TABLE IF NOT EXISTS participant_groups (
+          name TEXT PRIMARY KEY,
+          members TEXT NOT NULL DEFAULT '[]',
+          description TEXT,
+          created_by TEXT NOT NULL,
+          created_at TEXT NOT NULL,
+          updated_at TEXT NOT NULL
+        );
+        ALTER TABLE messages ADD COLUMN addressed_to TEXT;
+      `,
+      down: `
+        DROP TABLE IF EXISTS participant_groups;
+      `,
+    })
+
+    migrations.push({
+      version: 12,
+      up: `
+        -- Capability routing: who a route_to message was assigned to, and when
+        ALTER TABLE messages ADD COLUMN route_to TEXT;
+        ALTER TABLE messages ADD COLUMN routing_strategy TEXT;
+        ALTER TABLE messages ADD COLUMN routed_to TEXT;
+        ALTER TABLE messages ADD COLUMN routed_at TEXT;
+        ALTER TABLE messages ADD COLUMN reassign_after_minutes INTEGER;
+        ALTER TABLE messages ADD COLUMN routing_history TEXT;
+        CREATE INDEX IF NOT EXISTS idx_messages_route_to ON messages(route_to);
+      `,
+      down: `
+        DROP INDEX IF EXISTS idx_messages_route_to;
+      `,
+    })
+
+    migrations.push({
+      version: 13,
+      up: `
+        -- File attachments; the bytes live under attachments/ keyed by sha256
+        CREATE TABLE IF NOT EXISTS attachments (
+          id TEXT PRIMARY KEY,
+          message_id TEXT NOT NULL,
+          filename TEXT NOT NULL,
+          mime_type TEXT NOT NULL,
+          size INTEGER NOT NULL,
+          sha256 TEXT NOT NULL,
+          created_at TEXT NOT NULL,
+          FOREIGN KEY (message_id) REFERENCES messages(id) ON DELETE CASCADE
+        );
+        CREATE INDEX IF NOT EXISTS idx_attachments_message_id ON attachments(message_id);
+        CREATE INDEX IF NOT EXISTS idx_attachments_sha256 ON attachments(sha256);
+      `,
+      down: `
+        DROP INDEX IF EXISTS idx_attachments_sha256;
+        DROP INDEX IF EXISTS idx_attachments_message_id;
+        DROP TABLE IF EXISTS attachments;
+      `,
+    })
+
+    migrations.push({
+      version: 14,
+      up: `
+        -- Ordered log of changes for participants that poll, filled by triggers so every
+        -- writer is covered. participants holds who may see the change.
+        CREATE TABLE IF NOT EXISTS changes (
+          seq INTEGER PRIMARY KEY AUTOINCREMENT,
+          kind TEXT NOT NULL,
+          message_id TEXT,
+          thread_id TEXT NOT NULL,
+          status TEXT,
+          participants TEXT NOT NULL,
+          created_at TEXT NOT NULL
+        );
+
+        -- Last sequence each participant has fetched
+        CREATE TABLE IF NOT EXISTS change_cursors (
+          participant_id TEXT PRIMARY KEY,
+          last_seq INTEGER NOT NULL,
+          updated_at TEXT NOT NULL
+        );
+
+        CREATE TRIGGER IF NOT EXISTS changes_message_insert AFTER INSERT ON messages BEGIN
+          INSERT INTO changes (kind, message_id, thread_id, status, participants, created_at)
+          VALUES ('message_created', new.id, new.thread_id, new.status,
+            CASE WHEN new.send_at IS NULL
+              THEN (SELECT json_group_array(value) FROM (
+                SELECT new.from_participant AS value UNION SELECT value FROM json_each(new.to_participants)))
+              ELSE json_array(new.from_participant) END,
+            strftime('%Y-%m-%dT%H:%M:%fZ', 'now'));
+        END;
+
+        -- Scheduled messages reach their recipients when send_at is cleared
+        CREATE TRIGGER IF NOT EXISTS changes_message_released AFTER UPDATE OF send_at ON messages
+        WHEN old.send_at IS NOT NULL AND new.send_at IS NULL BEGIN
+          INSERT INTO changes (kind, message_id, thread_id, status, participants, created_at)
+          VALUES ('message_created', new.id, new.thread_id, new.status, new.to_participants,
+            strftime('%Y-%m-%dT%H:%M:%fZ', 'now'));
+        END;
+
+        CREATE TRIGGER IF NOT EXISTS changes_message_status AFTER UPDATE OF status ON messages
+        WHEN old.status IS NOT new.status BEGIN
+          INSERT INTO changes (kind, message_id, thread_id, status, participants, created_at)
+          VALUES ('message_status_changed', new.id, new.thread_id, new.status,
+            CASE WHEN new.send_at IS NULL
+              THEN (SELECT json_group_array(value) FROM (
+                SELECT new.from_participant AS value UNION SELECT value FROM json_each(new.to_participants)))
+              ELSE json_array(new.from_participant) END,
+            strftime('%Y-%m-%dT%H:%M:%fZ', 'now'));
+        END;
+
+        CREATE TRIGGER IF NOT EXISTS changes_message_edited AFTER UPDATE OF revision ON messages
+        WHEN new.revision > old.revision BEGIN
+          INSERT INTO changes (kind, message_id, thread_id, status, participants, created_at)
+          VALUES ('message_edited', new.id, new.thread_id, new.status,
+            CASE WHEN new.send_at IS NULL
+              THEN (SELECT json_group_array(value) FROM (
+                SELECT new.from_participant AS value UNION SELECT value FROM json_each(new.to_participants)))
+              ELSE json_array(new.from_participant) END,
+            strftime('%Y-%m-%dT%H:%M:%fZ', 'now'));
+        END;
+
+        -- Participants added later, e.g. by reassignment, see the message as new
+        CREATE TRIGGER IF NOT EXISTS changes_message_recipients AFTER UPDATE OF to_participants ON messages
+        WHEN new.send_at IS NULL AND EXISTS (
+          SELECT 1 FROM json_each(new.to_participants)
+          WHERE value NOT IN (SELECT value FROM json_each(old.to_participants))
+        ) BEGIN
+          INSERT INTO changes (kind, message_id, thread_id, status, participants, created_at)
+          VALUES ('message_created', new.id, new.thread_id, new.status,
+            (SELECT json_group_array(value) FROM json_each(new.to_participants)
+              WHERE value NOT IN (SELECT value FROM json_each(old.to_participants))),
+            strftime('%Y-%m-%dT%H:%M:%fZ', 'now'));
+        END;
+
+        CREATE TRIGGER IF NOT EXISTS changes_thread_status AFTER UPDATE OF status ON conversations
+        WHEN old.status IS NOT new.status BEGIN
+          INSERT INTO changes (kind, message_id, thread_id, status, participants, created_at)
+          VALUES ('thread_status_changed', NULL, new.thread_id, new.status, new.participants,
+            strftime('%Y-%m-%dT%H:%M:%fZ', 'now'));
+        END;
+      `,
+      down: `
+        DROP TRIGGER IF EXISTS changes_thread_status;
+        DROP TRIGGER IF EXISTS changes_message_recipients;
+        DROP TRIGGER IF EXISTS changes_message_edited;
+        DROP TRIGGER IF EXISTS changes_message_status;
+        DROP TRIGGER IF EXISTS changes_message_released;
+        DROP TRIGGER IF EXISTS changes_message_insert;
+        DROP TABLE IF EXISTS change_cursors;
+        DROP TABLE IF EXISTS changes;
+      `,
+    })
+
+    migrations.push({
+      version: 15,
+      up: `
+        -- Escalation rules applied to each message, so that each rule fires once
+        CREATE TABLE IF NOT EXISTS message_escalations (
+          message_id TEXT NOT NULL,
+          rule TEXT NOT NULL,
+          escalated_at TEXT NOT NULL,
+          PRIMARY KEY (message_id, rule),
+          FOREIGN KEY (message_id) REFERENCES messages(id) ON DELETE CASCADE
+        );
+      `,
+      down: `
+        DROP TABLE IF EXISTS message_escalations;
+      `,
+    })
+
+    migrations.push({
+      version: 16,
+      up: `
+        -- Per-thread override of the configured expiry policies
+        ALTER TABLE conversations ADD COLUMN expiry_policy TEXT;
+      `,
+      down: `
+        -- SQLite doesn't support DROP COLUMN directly
+        -- This is a no-op for safety
+        SELECT 1;
+      `,
+    })
+
+    migrations.push({
+      version: 17,
+      up: `
+        -- Each participant's own inbox triage, kept apart from the shared message status
+        CREATE TABLE IF NOT EXISTS message_triage (
+          message_id TEXT NOT NULL,
+          participant_id TEXT NOT NULL,
+          snoozed_until TEXT,
+          pinned INTEGER NOT NULL DEFAULT 0,
+          starred INTEGER NOT NULL DEFAULT 0,
+          done_at TEXT,
+          updated_at TEXT NOT NULL,
+          PRIMARY KEY (message_id, participant_id),
+          FOREIGN KEY (message_id) REFERENCES messages(id) ON DELETE CASCADE
+        );
+      `,
+      down: `
+        DROP TABLE IF EXISTS message_triage;
+      `,
+    })
+
+    migrations.push({
+      version: 18,
+      up: `
+        -- arch and contract messages sent as proposals, decided by their voters
+        CREATE TABLE IF NOT EXISTS proposals (
+          message_id TEXT PRIMARY KEY,
+          thread_id TEXT NOT NULL,
+          quorum TEXT NOT NULL CHECK (quorum IN ('all', 'majority', 'approvers')),
+          voters TEXT NOT NULL,
+          decision TEXT CHECK (decision IN ('accepted', 'rejected')),
+          decided_at TEXT,
+          created_at TEXT NOT NULL,
+          FOREIGN KEY (message_id) REFERENCES messages(id) ON DELETE CASCADE
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_proposals_thread_id ON proposals(thread_id);
+
+        -- Latest vote of each participant; the response recording it stays in the thread
+        CREATE TABLE IF NOT EXISTS proposal_votes (
+          message_id TEXT NOT NULL,
+          participant_id TEXT NOT NULL,
+          vote TEXT NOT NULL CHECK (vote IN ('approve', 'reject', 'abstain')),
+          rationale TEXT NOT NULL,
+          response_id TEXT NOT NULL,
+          voted_at TEXT NOT NULL,
+          PRIMARY KEY (message_id, participant_id),
+          FOREIGN KEY (message_id) REFERENCES proposals(message_id) ON DELETE CASCADE
+        );
+
+        -- Decision of the thread's latest decided proposal
+        ALTER TABLE conversations ADD COLUMN decision TEXT;
+      `,
+      down: `
+        DROP TABLE IF EXISTS proposal_votes;
+        DROP TABLE IF EXISTS proposals;
+      `,
+    })
+
+    migrations.push({
+      version: 19,
+      up: `
+        -- q and sync messages promoted to tasks with an owner and a state
+        CREATE TABLE IF NOT EXISTS tasks (
+          message_id TEXT PRIMARY KEY,
+          thread_id TEXT NOT NULL,
+          title TEXT NOT NULL,
+          assignee TEXT NOT NULL,
+          state TEXT NOT NULL CHECK (state IN ('todo', 'in_progress', 'blocked', 'done')) DEFAULT 'todo',
+          due_at TEXT,
+          note TEXT,
+          created_by TEXT NOT NULL,
+          created_at TEXT NOT NULL,
+          updated_at TEXT NOT NULL,
+          done_at TEXT,
+          FOREIGN KEY (message_id) REFERENCES messages(id) ON DELETE CASCADE
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_tasks_assignee_state ON tasks(assignee, state);
+        CREATE INDEX IF NOT EXISTS idx_tasks_thread_id ON tasks(thread_id);
+      `,
+      down: `
+        DROP TABLE IF EXISTS tasks;
+      `,
+    })
+
+    migrations.push({
+      version: 20,
+      up: db => {
+        // Structured state handed from one session to the next
+        db.exec(`
+          CREATE TABLE IF NOT EXISTS handoffs (
+            message_id TEXT PRIMARY KEY,
+            goal TEXT NOT NULL,
+            branch TEXT,
+            files_touched TEXT NOT NULL DEFAULT '[]',
+            commands_run TEXT NOT NULL DEFAULT '[]',
+            open_questions TEXT NOT NULL DEFAULT '[]',
+            next_steps TEXT NOT NULL DEFAULT '[]',
+            accepted_by TEXT,
+            accepted_at TEXT,
+            FOREIGN KEY (message_id) REFERENCES messages(id) ON DELETE CASCADE
+          );
+
+          CREATE INDEX IF NOT EXISTS idx_handoffs_accepted_by ON handoffs(accepted_by);
+        `)
+
+        rebuildMessagesTable(db, sql =>
+          sql.replace(MESSAGE_TYPES_CHECK, MESSAGE_TYPES_WITH_HANDOFF_CHECK)
+        )
+      },
+      down: db => {
+        db.exec(`
+          DROP TABLE IF EXISTS handoffs;
+          UPDATE messages SET type = 'sync' WHERE type = 'handoff';
+        `)
+
+        rebuildMessagesTable(db, sql =>
+          sql.replace(MESSAGE_TYPES_WITH_HANDOFF_CHECK, MESSAGE_TYPES_CHECK)
+        )
+      },
+    })
+
+    migrations.push({
+      version: 21,
+      up: `
+        -- Whether routing added its assignee, or picked someone the sender addressed anyway.
+        -- Earlier routed messages are taken as added, as they were treated until now.
+        ALTER TABLE messages ADD COLUMN routed_added INTEGER NOT NULL DEFAULT 1;
+      `,
+      down: `
+        -- The routed_added column stays (SQLite can't DROP COLUMN safely)
+      `,
+    })
+
     // Load additional migrations from files
     const files = fs
       .readdirSync(this.migrationsPath)
@@ -208,8 +746,16 @@ export class DatabaseMigrator {
 
       const migrations = this.getMigrations()
 
-      // Use better-sqlite3-migrations
-      migrate(this.db, migrations)
+      // Rebuilding a table drops it, which would delete the rows referencing it. Foreign keys
+      // can only be switched off outside the transaction each migration runs in.
+      const foreignKeys = this.db.pragma('foreign_keys', { simple: true })
+      this.db.pragma('foreign_keys = OFF')
+      try {
+        // Use better-sqlite3-migrations
+        migrate(this.db, migrations)
+      } finally {
+        this.db.pragma(`foreign_keys = ${foreignKeys}`)
+      }
     } catch (error: any) {
       throw new DatabaseError(`Migration failed: ${error.message}`, { error: error.message })
     }
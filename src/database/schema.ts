@@ -1,7 +1,7 @@
 import { DatabaseMigrator } from './migrator.js'
 import type { Database } from 'better-sqlite3'
 
-export const SCHEMA_VERSION = 2
+export const SCHEMA_VERSION = 21
 
 export const CREATE_MESSAGES_TABLE = `
   CREATE TABLE IF NOT EXISTS messages (
@@ -9,7 +9,7 @@ export const CREATE_MESSAGES_TABLE = `
     thread_id TEXT NOT NULL,
     from_participant TEXT NOT NULL,
     to_participants TEXT NOT NULL, -- JSON array
-    type TEXT NOT NULL CHECK (type IN ('arch', 'contract', 'sync', 'update', 'q', 'emergency', 'broadcast')),
+    type TEXT NOT NULL CHECK (type IN ('arch', 'contract', 'sync', 'update', 'q', 'emergency', 'broadcast', 'handoff')),
     priority TEXT NOT NULL CHECK (priority IN ('CRITICAL', 'H', 'M', 'L')),
     status TEXT NOT NULL CHECK (status IN ('pending', 'read', 'responded', 'resolved', 'archived', 'cancelled')) DEFAULT 'pending',
     
@@ -30,6 +30,23 @@ export const CREATE_MESSAGES_TABLE = `
     resolution_status TEXT CHECK (resolution_status IN ('partial', 'complete', 'requires_followup', 'blocked')),
     resolved_at TEXT, -- ISO date string
     resolved_by TEXT,
+
+    cancelled_at TEXT, -- ISO date string
+    cancellation_reason TEXT,
+
+    revision INTEGER NOT NULL DEFAULT 1, -- Incremented on every edit
+    edited_at TEXT, -- ISO date string
+    send_at TEXT, -- ISO date string; hidden from recipients until then, cleared once due
+    in_reply_to TEXT, -- ID of the message this one answers
+    forwarded_from TEXT, -- ID of the message this one is a forwarded copy of
+    addressed_to TEXT, -- JSON array of recipient expressions (@all, cap:, group:) before expansion
+    route_to TEXT, -- Capability the message was routed by
+    routing_strategy TEXT, -- least_loaded or round_robin
+    routed_to TEXT, -- Current assignee picked by routing
+    routed_at TEXT, -- ISO date string of the current assignment
+    routed_added INTEGER NOT NULL DEFAULT 1, -- Whether routing added the assignee to the recipients
+    reassign_after_minutes INTEGER, -- Re-route when the assignee hasn't responded by then
+    routing_history TEXT, -- JSON array of earlier assignees
     
     FOREIGN KEY (resolved_by) REFERENCES participants(id)
   )
@@ -45,7 +62,9 @@ export const CREATE_CONVERSATIONS_TABLE = `
     last_activity TEXT NOT NULL, -- ISO date string
     status TEXT NOT NULL CHECK (status IN ('active', 'resolved', 'archived')) DEFAULT 'active',
     resolution_summary TEXT,
-    message_count INTEGER NOT NULL DEFAULT 0
+    message_count INTEGER NOT NULL DEFAULT 0,
+    expiry_policy TEXT, -- JSON object overriding the configured expiry policies
+    decision TEXT -- 'accepted' or 'rejected', from the latest decided proposal
   )
 `
 
@@ -68,6 +87,182 @@ export const CREATE_METADATA_TABLE = `
   )
 `
 
+export const CREATE_MESSAGE_RECIPIENTS_TABLE = `
+  CREATE TABLE IF NOT EXISTS message_recipients (
+    message_id TEXT NOT NULL,
+    participant_id TEXT NOT NULL,
+    status TEXT NOT NULL CHECK (status IN ('delivered', 'read', 'responded', 'resolved')) DEFAULT 'delivered',
+    delivered_at TEXT NOT NULL, -- ISO date string
+    read_at TEXT, -- ISO date string
+    responded_at TEXT, -- ISO date string
+    resolved_at TEXT, -- ISO date string
+
+    PRIMARY KEY (message_id, participant_id),
+    FOREIGN KEY (message_id) REFERENCES messages(id) ON DELETE CASCADE
+  )
+`
+
+export const CREATE_MESSAGE_REVISIONS_TABLE = `
+  CREATE TABLE IF NOT EXISTS message_revisions (
+    message_id TEXT NOT NULL,
+    revision INTEGER NOT NULL,
+    subject TEXT NOT NULL,
+    content_ref TEXT NOT NULL, -- Content store blob: content/<first 2 hex chars>/<sha256>
+    priority TEXT NOT NULL CHECK (priority IN ('CRITICAL', 'H', 'M', 'L')),
+    tags TEXT NOT NULL DEFAULT '[]', -- JSON array
+    edited_by TEXT NOT NULL,
+    edited_at TEXT NOT NULL, -- ISO date string
+
+    PRIMARY KEY (message_id, revision),
+    FOREIGN KEY (message_id) REFERENCES messages(id) ON DELETE CASCADE
+  )
+`
+
+export const CREATE_SCHEDULES_TABLE = `
+  CREATE TABLE IF NOT EXISTS schedules (
+    id TEXT PRIMARY KEY,
+    owner TEXT NOT NULL, -- Participant the generated messages are sent from
+    cron TEXT NOT NULL, -- Five-field cron expression, local time
+    template TEXT NOT NULL, -- JSON SendMessageInput
+    created_at TEXT NOT NULL, -- ISO date string
+    last_run_at TEXT, -- ISO date string of the last claimed occurrence
+    next_run_at TEXT NOT NULL -- ISO date string
+  )
+`
+
+export const CREATE_PARTICIPANT_GROUPS_TABLE = `
+  CREATE TABLE IF NOT EXISTS participant_groups (
+    name TEXT PRIMARY KEY, -- Addressed as group:<name>
+    members TEXT NOT NULL DEFAULT '[]', -- JSON array of participant IDs
+    description TEXT,
+    created_by TEXT NOT NULL,
+    created_at TEXT NOT NULL, -- ISO date string
+    updated_at TEXT NOT NULL -- ISO date string
+  )
+`
+
+export const CREATE_ATTACHMENTS_TABLE = `
+  CREATE TABLE IF NOT EXISTS attachments (
+    id TEXT PRIMARY KEY,
+    message_id TEXT NOT NULL,
+    filename TEXT NOT NULL,
+    mime_type TEXT NOT NULL,
+    size INTEGER NOT NULL, -- Bytes
+    sha256 TEXT NOT NULL, -- Content stored at attachments/<first 2 hex chars>/<sha256>
+    created_at TEXT NOT NULL, -- ISO date string
+
+    FOREIGN KEY (message_id) REFERENCES messages(id) ON DELETE CASCADE
+  )
+`
+
+export const CREATE_CHANGES_TABLE = `
+  CREATE TABLE IF NOT EXISTS changes (
+    seq INTEGER PRIMARY KEY AUTOINCREMENT, -- Only ever increases
+    kind TEXT NOT NULL, -- message_created, message_status_changed, message_edited, thread_status_changed
+    message_id TEXT, -- NULL for thread changes
+    thread_id TEXT NOT NULL,
+    status TEXT, -- Message or thread status after the change
+    participants TEXT NOT NULL, -- JSON array of participants who may see the change
+    created_at TEXT NOT NULL -- ISO date string
+  )
+`
+
+export const CREATE_CHANGE_CURSORS_TABLE = `
+  CREATE TABLE IF NOT EXISTS change_cursors (
+    participant_id TEXT PRIMARY KEY,
+    last_seq INTEGER NOT NULL, -- Highest seq handed to the participant
+    updated_at TEXT NOT NULL -- ISO date string
+  )
+`
+
+export const CREATE_MESSAGE_ESCALATIONS_TABLE = `
+  CREATE TABLE IF NOT EXISTS message_escalations (
+    message_id TEXT NOT NULL,
+    rule TEXT NOT NULL, -- Key of the escalation rule: its priority, type and after_hours
+    escalated_at TEXT NOT NULL, -- ISO date string
+
+    PRIMARY KEY (message_id, rule),
+    FOREIGN KEY (message_id) REFERENCES messages(id) ON DELETE CASCADE
+  )
+`
+
+export const CREATE_MESSAGE_TRIAGE_TABLE = `
+  CREATE TABLE IF NOT EXISTS message_triage (
+    message_id TEXT NOT NULL,
+    participant_id TEXT NOT NULL, -- Whose triage this is; nobody else sees it
+    snoozed_until TEXT, -- ISO date string, hidden from their inbox until then
+    pinned INTEGER NOT NULL DEFAULT 0,
+    starred INTEGER NOT NULL DEFAULT 0,
+    done_at TEXT, -- ISO date string, hidden from their inbox once done for them
+    updated_at TEXT NOT NULL, -- ISO date string
+
+    PRIMARY KEY (message_id, participant_id),
+    FOREIGN KEY (message_id) REFERENCES messages(id) ON DELETE CASCADE
+  )
+`
+
+export const CREATE_PROPOSALS_TABLE = `
+  CREATE TABLE IF NOT EXISTS proposals (
+    message_id TEXT PRIMARY KEY, -- The arch or contract message being voted on
+    thread_id TEXT NOT NULL,
+    quorum TEXT NOT NULL CHECK (quorum IN ('all', 'majority', 'approvers')),
+    voters TEXT NOT NULL, -- JSON array of the participants whose votes count
+    decision TEXT CHECK (decision IN ('accepted', 'rejected')), -- NULL until the quorum is met
+    decided_at TEXT, -- ISO date string
+    created_at TEXT NOT NULL, -- ISO date string
+
+    FOREIGN KEY (message_id) REFERENCES messages(id) ON DELETE CASCADE
+  )
+`
+
+export const CREATE_PROPOSAL_VOTES_TABLE = `
+  CREATE TABLE IF NOT EXISTS proposal_votes (
+    message_id TEXT NOT NULL,
+    participant_id TEXT NOT NULL,
+    vote TEXT NOT NULL CHECK (vote IN ('approve', 'reject', 'abstain')),
+    rationale TEXT NOT NULL,
+    response_id TEXT NOT NULL, -- Response recording the vote in the thread
+    voted_at TEXT NOT NULL, -- ISO date string
+
+    PRIMARY KEY (message_id, participant_id), -- Voting again replaces the earlier vote
+    FOREIGN KEY (message_id) REFERENCES proposals(message_id) ON DELETE CASCADE
+  )
+`
+
+export const CREATE_TASKS_TABLE = `
+  CREATE TABLE IF NOT EXISTS tasks (
+    message_id TEXT PRIMARY KEY, -- The q or sync message promoted to a task
+    thread_id TEXT NOT NULL,
+    title TEXT NOT NULL, -- The message subject unless given
+    assignee TEXT NOT NULL, -- Who owns it: the sender or a recipient of the message
+    state TEXT NOT NULL CHECK (state IN ('todo', 'in_progress', 'blocked', 'done')) DEFAULT 'todo',
+    due_at TEXT, -- ISO date string
+    note TEXT, -- Latest status note, e.g. what it is blocked on
+    created_by TEXT NOT NULL,
+    created_at TEXT NOT NULL, -- ISO date string
+    updated_at TEXT NOT NULL, -- ISO date string
+    done_at TEXT, -- ISO date string
+
+    FOREIGN KEY (message_id) REFERENCES messages(id) ON DELETE CASCADE
+  )
+`
+
+export const CREATE_HANDOFFS_TABLE = `
+  CREATE TABLE IF NOT EXISTS handoffs (
+    message_id TEXT PRIMARY KEY, -- The handoff message
+    goal TEXT NOT NULL, -- What the work is for
+    branch TEXT,
+    files_touched TEXT NOT NULL DEFAULT '[]', -- JSON array of paths
+    commands_run TEXT NOT NULL DEFAULT '[]', -- JSON array
+    open_questions TEXT NOT NULL DEFAULT '[]', -- JSON array
+    next_steps TEXT NOT NULL DEFAULT '[]', -- JSON array
+    accepted_by TEXT, -- The session that picked the work up
+    accepted_at TEXT, -- ISO date string
+
+    FOREIGN KEY (message_id) REFERENCES messages(id) ON DELETE CASCADE
+  )
+`
+
 // Indexes for performance
 export const CREATE_INDEXES = [
   'CREATE INDEX IF NOT EXISTS idx_messages_thread_id ON messages(thread_id)',
@@ -78,6 +273,10 @@ export const CREATE_INDEXES = [
   'CREATE INDEX IF NOT EXISTS idx_messages_created_at ON messages(created_at)',
   'CREATE INDEX IF NOT EXISTS idx_messages_expires_at ON messages(expires_at)',
   'CREATE INDEX IF NOT EXISTS idx_messages_tags ON messages(tags)', // For JSON search
+  'CREATE INDEX IF NOT EXISTS idx_messages_send_at ON messages(send_at)',
+  'CREATE INDEX IF NOT EXISTS idx_messages_in_reply_to ON messages(in_reply_to)',
+  'CREATE INDEX IF NOT EXISTS idx_messages_forwarded_from ON messages(forwarded_from)',
+  'CREATE INDEX IF NOT EXISTS idx_messages_route_to ON messages(route_to)',
 
   'CREATE INDEX IF NOT EXISTS idx_conversations_status ON conversations(status)',
   'CREATE INDEX IF NOT EXISTS idx_conversations_last_activity ON conversations(last_activity)',
@@ -85,6 +284,13 @@ export const CREATE_INDEXES = [
 
   'CREATE INDEX IF NOT EXISTS idx_participants_status ON participants(status)',
   'CREATE INDEX IF NOT EXISTS idx_participants_last_seen ON participants(last_seen)',
+
+  'CREATE INDEX IF NOT EXISTS idx_message_recipients_participant ON message_recipients(participant_id, status)',
+
+  'CREATE INDEX IF NOT EXISTS idx_schedules_next_run_at ON schedules(next_run_at)',
+
+  'CREATE INDEX IF NOT EXISTS idx_attachments_message_id ON attachments(message_id)',
+  'CREATE INDEX IF NOT EXISTS idx_attachments_sha256 ON attachments(sha256)',
 ]
 
 // Virtual tables for full-text search
@@ -112,6 +318,68 @@ export const CREATE_FTS_TABLES = [
   END`,
 ]
 
+// Triggers recording every change in the changes table. Scheduled messages are only visible
+// to their sender until send_at is cleared.
+export const CREATE_CHANGE_TRIGGERS = [
+  `CREATE TRIGGER IF NOT EXISTS changes_message_insert AFTER INSERT ON messages BEGIN
+    INSERT INTO changes (kind, message_id, thread_id, status, participants, created_at)
+    VALUES ('message_created', new.id, new.thread_id, new.status,
+      CASE WHEN new.send_at IS NULL
+      THEN (SELECT json_group_array(value) FROM (
+        SELECT new.from_participant AS value UNION SELECT value FROM json_each(new.to_participants)))
+      ELSE json_array(new.from_participant) END,
+      strftime('%Y-%m-%dT%H:%M:%fZ', 'now'));
+  END`,
+
+  `CREATE TRIGGER IF NOT EXISTS changes_message_released AFTER UPDATE OF send_at ON messages
+  WHEN old.send_at IS NOT NULL AND new.send_at IS NULL BEGIN
+    INSERT INTO changes (kind, message_id, thread_id, status, participants, created_at)
+    VALUES ('message_created', new.id, new.thread_id, new.status, new.to_participants,
+      strftime('%Y-%m-%dT%H:%M:%fZ', 'now'));
+  END`,
+
+  `CREATE TRIGGER IF NOT EXISTS changes_message_status AFTER UPDATE OF status ON messages
+  WHEN old.status IS NOT new.status BEGIN
+    INSERT INTO changes (kind, message_id, thread_id, status, participants, created_at)
+    VALUES ('message_status_changed', new.id, new.thread_id, new.status,
+      CASE WHEN new.send_at IS NULL
+      THEN (SELECT json_group_array(value) FROM (
+        SELECT new.from_participant AS value UNION SELECT value FROM json_each(new.to_participants)))
+      ELSE json_array(new.from_participant) END,
+      strftime('%Y-%m-%dT%H:%M:%fZ', 'now'));
+  END`,
+
+  `CREATE TRIGGER IF NOT EXISTS changes_message_edited AFTER UPDATE OF revision ON messages
+  WHEN new.revision > old.revision BEGIN
+    INSERT INTO changes (kind, message_id, thread_id, status, participants, created_at)
+    VALUES ('message_edited', new.id, new.thread_id, new.status,
+      CASE WHEN new.send_at IS NULL
+      THEN (SELECT json_group_array(value) FROM (
+        SELECT new.from_participant AS value UNION SELECT value FROM json_each(new.to_participants)))
+      ELSE json_array(new.from_participant) END,
+      strftime('%Y-%m-%dT%H:%M:%fZ', 'now'));
+  END`,
+
+  `CREATE TRIGGER IF NOT EXISTS changes_message_recipients AFTER UPDATE OF to_participants ON messages
+  WHEN new.send_at IS NULL AND EXISTS (
+    SELECT 1 FROM json_each(new.to_participants)
+    WHERE value NOT IN (SELECT value FROM json_each(old.to_participants))
+  ) BEGIN
+    INSERT INTO changes (kind, message_id, thread_id, status, participants, created_at)
+    VALUES ('message_created', new.id, new.thread_id, new.status,
+      (SELECT json_group_array(value) FROM json_each(new.to_participants)
+        WHERE value NOT IN (SELECT value FROM json_each(old.to_participants))),
+      strftime('%Y-%m-%dT%H:%M:%fZ', 'now'));
+  END`,
+
+  `CREATE TRIGGER IF NOT EXISTS changes_thread_status AFTER UPDATE OF status ON conversations
+  WHEN old.status IS NOT new.status BEGIN
+    INSERT INTO changes (kind, message_id, thread_id, status, participants, created_at)
+    VALUES ('thread_status_changed', NULL, new.thread_id, new.status, new.participants,
+      strftime('%Y-%m-%dT%H:%M:%fZ', 'now'));
+  END`,
+]
+
 /**
  * Initialize database schema
  * @deprecated Use DatabaseMigrator instead
@@ -2,6 +2,7 @@ import { Server } from '@modelcontextprotocol/sdk/server/index.js'
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js'
 import {
   CallToolRequestSchema,
+  CallToolResult,
   ErrorCode,
   ListToolsRequestSchema,
   McpError,
@@ -9,17 +10,50 @@ import {
 
 import { CoordinationDatabase } from '../database/connection.js'
 import { MessageManager } from '../core/message-manager.js'
+import { ConversationManager } from '../core/conversation-manager.js'
 import { ParticipantRegistry } from '../core/participant-registry.js'
 import { IndexingEngine } from '../core/indexing-engine.js'
 import { CompactionEngine } from '../core/compaction-engine.js'
+import { ScheduleManager } from '../core/schedule-manager.js'
+import { TaskManager } from '../core/task-manager.js'
+import { ChangeFeed } from '../core/change-feed.js'
+import { renderHandoffBrief } from '../core/handoff-store.js'
+import { isTextMimeType, resolveAttachmentPath } from '../core/attachment-store.js'
 import { validateInput } from '../utils/validation.js'
+import { diffLines } from '../utils/diff.js'
+import { buildThreadTree } from '../utils/thread-tree.js'
 import {
   SendMessageInput,
   GetMessagesInput,
   RespondMessageInput,
+  MarkReadInput,
+  SnoozeMessageInput,
+  TriageMessageInput,
+  VoteInput,
+  HandoffInput,
+  AcceptHandoffInput,
+  Handoff,
+  CreateTaskInput,
+  UpdateTaskInput,
+  ListTasksInput,
+  Task,
+  CancelMessageInput,
+  EditMessageInput,
+  GetRevisionsInput,
+  GetDependencyGraphInput,
+  ForwardMessageInput,
+  GetAttachmentInput,
+  Attachment,
+  DependencyNode,
   SearchMessagesInput,
   CompactThreadInput,
   CloseThreadInput,
+  ListThreadsInput,
+  GetThreadInput,
+  SetThreadExpiryInput,
+  GetChangesInput,
+  MessageRecipient,
+  Proposal,
   CoordinationConfig,
   CoordinationError,
   DatabaseError,
@@ -30,9 +64,13 @@ export class CoordinationMCPServer {
   private server: Server
   private db: CoordinationDatabase
   private messageManager: MessageManager
+  private conversationManager: ConversationManager
   private participantRegistry: ParticipantRegistry
   private indexingEngine: IndexingEngine
   private compactionEngine: CompactionEngine
+  private scheduleManager: ScheduleManager
+  private taskManager: TaskManager
+  private changeFeed: ChangeFeed
   private config: CoordinationConfig
 
   constructor(config: CoordinationConfig) {
@@ -51,10 +89,19 @@ export class CoordinationMCPServer {
 
     // Initialize database and core components
     this.db = new CoordinationDatabase(config.data_directory)
-    this.messageManager = new MessageManager(this.db, config.data_directory)
+    this.messageManager = new MessageManager(
+      this.db,
+      config.data_directory,
+      config.expiry_policies,
+      config.adr_directory
+    )
+    this.conversationManager = new ConversationManager(this.db)
     this.participantRegistry = new ParticipantRegistry(this.db, config.data_directory)
     this.indexingEngine = new IndexingEngine(this.db)
     this.compactionEngine = new CompactionEngine(this.db, config.data_directory)
+    this.scheduleManager = new ScheduleManager(this.db, this.messageManager)
+    this.taskManager = new TaskManager(this.db, this.messageManager)
+    this.changeFeed = new ChangeFeed(this.db)
 
     this.setupToolHandlers()
     this.setupErrorHandling()
@@ -72,12 +119,26 @@ export class CoordinationMCPServer {
             properties: {
               to: {
                 type: 'array',
-                items: { type: 'string', pattern: '^@[a-zA-Z][a-zA-Z0-9_-]*$' },
-                description: 'Target participant IDs (e.g., ["@mobile", "@backend"])',
+                items: {
+                  type: 'string',
+                  pattern:
+                    '^(@[a-zA-Z][a-zA-Z0-9_-]*|cap:[a-zA-Z0-9_.-]+|group:[a-zA-Z][a-zA-Z0-9_-]*)$',
+                },
+                description:
+                  'Recipients: participant IDs, @all, cap:<capability> or group:<name> (e.g., ["@mobile", "cap:database"])',
               },
               type: {
                 type: 'string',
-                enum: ['arch', 'contract', 'sync', 'update', 'q', 'emergency', 'broadcast'],
+                enum: [
+                  'arch',
+                  'contract',
+                  'sync',
+                  'update',
+                  'q',
+                  'emergency',
+                  'broadcast',
+                  'handoff',
+                ],
                 description: 'Message type',
               },
               priority: {
@@ -101,8 +162,99 @@ export class CoordinationMCPServer {
               },
               expires_in_hours: {
                 type: 'number',
-                default: 168,
-                description: 'Hours until message expires',
+                description:
+                  'Hours until message expires (default: from the expiry policies, else 168)',
+              },
+              send_at: {
+                type: 'string',
+                format: 'date-time',
+                description:
+                  'Schedule delivery for a future time (ISO 8601). Recipients cannot see the message until then',
+              },
+              depends_on: {
+                type: 'array',
+                items: { type: 'string' },
+                description:
+                  'IDs of messages this one waits on. It shows as blocked until they are resolved',
+              },
+              route_to: {
+                type: 'string',
+                pattern: '^[a-zA-Z0-9_.-]+$',
+                description:
+                  'Capability to route by: one active participant with it is picked as a recipient',
+              },
+              routing: {
+                type: 'string',
+                enum: ['least_loaded', 'round_robin'],
+                default: 'least_loaded',
+                description:
+                  'How route_to picks: fewest open requests awaiting a response, or taking turns',
+              },
+              reassign_after_minutes: {
+                type: 'number',
+                description:
+                  'Re-route to another participant with the capability if the pick has not responded in time',
+              },
+              attachments: {
+                type: 'array',
+                maxItems: 10,
+                items: {
+                  type: 'object',
+                  properties: {
+                    path: {
+                      type: 'string',
+                      description: 'File to attach, relative to the project root',
+                    },
+                    filename: {
+                      type: 'string',
+                      description: 'File name, required with content (defaults to the base name)',
+                    },
+                    content: {
+                      type: 'string',
+                      contentEncoding: 'base64',
+                      description: 'Base64 file content, instead of path',
+                    },
+                    mime_type: {
+                      type: 'string',
+                      description: 'MIME type, guessed from the file name when left out',
+                    },
+                  },
+                },
+                description:
+                  'Files to attach (logs, schemas, patches, screenshots), up to 10 MB each',
+              },
+              proposal: {
+                type: 'object',
+                properties: {
+                  quorum: {
+                    type: 'string',
+                    enum: ['all', 'majority', 'approvers'],
+                    default: 'majority',
+                    description:
+                      'all: every recipient votes and nobody rejects; majority: more than half approve; approvers: every named approver approves',
+                  },
+                  approvers: {
+                    type: 'array',
+                    items: { type: 'string' },
+                    description:
+                      'Participants whose votes decide, required by the approvers quorum',
+                  },
+                },
+                description:
+                  'Send an arch or contract message as a proposal recipients vote on with ccp_vote',
+              },
+              handoff: {
+                type: 'object',
+                properties: {
+                  goal: { type: 'string' },
+                  branch: { type: 'string' },
+                  files_touched: { type: 'array', items: { type: 'string' } },
+                  commands_run: { type: 'array', items: { type: 'string' } },
+                  open_questions: { type: 'array', items: { type: 'string' } },
+                  next_steps: { type: 'array', items: { type: 'string' } },
+                },
+                required: ['goal'],
+                description: 'Required for handoff messages; see ccp_handoff',
               },
               tags: {
                 type: 'array',
@@ -144,7 +296,7 @@ export class CoordinationMCPServer {
                 description: 'SuperClaude suggestions for recipient',
               },
             },
-            required: ['to', 'type', 'priority', 'subject', 'content'],
+            required: ['type', 'priority', 'subject', 'content'],
           },
         },
 
@@ -167,11 +319,29 @@ export class CoordinationMCPServer {
                 },
                 description: 'Filter by message status',
               },
+              recipient_status: {
+                type: 'array',
+                items: {
+                  type: 'string',
+                  enum: ['delivered', 'read', 'responded', 'resolved'],
+                },
+                description:
+                  'Filter by your own delivery state as a recipient (e.g. ["delivered"] for messages you have not answered)',
+              },
               type: {
                 type: 'array',
                 items: {
                   type: 'string',
-                  enum: ['arch', 'contract', 'sync', 'update', 'q', 'emergency', 'broadcast'],
+                  enum: [
+                    'arch',
+                    'contract',
+                    'sync',
+                    'update',
+                    'q',
+                    'emergency',
+                    'broadcast',
+                    'handoff',
+                  ],
                 },
                 description: 'Filter by message type',
               },
@@ -194,11 +364,16 @@ export class CoordinationMCPServer {
                 maximum: 100,
                 description: 'Maximum number of messages to return',
               },
+              cursor: {
+                type: 'string',
+                description: 'next_cursor from a previous call, to get the following page',
+              },
               detail_level: {
                 type: 'string',
                 enum: ['index', 'summary', 'full'],
                 default: 'summary',
-                description: 'Amount of detail to include',
+                description:
+                  'Amount of detail to include. "full" marks the returned messages as read for you',
               },
               active_only: {
                 type: 'boolean',
@@ -206,6 +381,12 @@ export class CoordinationMCPServer {
                 description:
                   'Only show active messages (pending, read, responded). Set to false to see all messages including resolved/archived/cancelled',
               },
+              triage: {
+                type: 'array',
+                items: { type: 'string', enum: ['pinned', 'starred', 'snoozed', 'done'] },
+                description:
+                  'Only messages you triaged so. Your snoozed and done messages are otherwise left out of active listings',
+              },
             },
           },
         },
@@ -229,417 +410,1575 @@ export class CoordinationMCPServer {
                 enum: ['partial', 'complete', 'requires_followup', 'blocked'],
                 description: 'Resolution status if applicable',
               },
+              reply_all: {
+                type: 'boolean',
+                default: false,
+                description: 'Address every thread participant instead of only the sender',
+              },
+              to: {
+                type: 'array',
+                items: { type: 'string', pattern: '^@[a-zA-Z][a-zA-Z0-9_-]*$' },
+                description: 'Recipients to use instead of the default (the sender)',
+              },
+              cc: {
+                type: 'array',
+                items: { type: 'string', pattern: '^@[a-zA-Z][a-zA-Z0-9_-]*$' },
+                description:
+                  'Additional recipients, e.g. to bring a new participant into the thread',
+              },
             },
             required: ['message_id', 'content'],
           },
         },
 
         {
-          name: 'ccp_search_messages',
-          description: 'Search messages using full-text search',
+          name: 'ccp_list_scheduled',
+          description: 'List messages you have scheduled that have not been sent yet',
+          inputSchema: {
+            type: 'object',
+            properties: {},
+          },
+        },
+
+        {
+          name: 'ccp_get_changes',
+          description:
+            'Get what changed since your last call: new messages, status changes, edits and thread closes',
           inputSchema: {
             type: 'object',
             properties: {
-              query: {
-                type: 'string',
-                description: 'Search query',
-              },
-              semantic: {
-                type: 'boolean',
-                default: true,
-                description: 'Use semantic/full-text search',
-              },
-              tags: {
-                type: 'array',
-                items: { type: 'string' },
-                description: 'Filter by tags',
-              },
-              date_range: {
-                type: 'object',
-                properties: {
-                  from: { type: 'string', format: 'date-time' },
-                  to: { type: 'string', format: 'date-time' },
-                },
-                description: 'Date range filter',
-              },
-              participants: {
-                type: 'array',
-                items: { type: 'string', pattern: '^@[a-zA-Z][a-zA-Z0-9_-]*$' },
-                description: 'Filter by participants',
+              since_seq: {
+                type: 'number',
+                minimum: 0,
+                description:
+                  'Return changes after this sequence number (defaults to the high_water_mark of your last call)',
               },
               limit: {
                 type: 'number',
-                default: 10,
-                maximum: 50,
-                description: 'Maximum results',
+                default: 100,
+                maximum: 500,
+                description: 'Maximum number of changes to return',
               },
             },
-            required: ['query'],
           },
         },
 
         {
-          name: 'ccp_compact_thread',
-          description: 'Compact a conversation thread to optimize token usage',
+          name: 'ccp_edit_message',
+          description:
+            'Amend the subject, content, priority or tags of an unresolved message you sent',
           inputSchema: {
             type: 'object',
             properties: {
-              thread_id: {
+              message_id: {
                 type: 'string',
-                description: 'Thread ID to compact',
+                description: 'ID of the message to edit',
               },
-              strategy: {
+              subject: {
                 type: 'string',
-                enum: ['summarize', 'consolidate', 'archive'],
-                default: 'summarize',
-                description: 'Compaction strategy',
+                maxLength: 200,
+                description: 'New subject',
               },
-              preserve_decisions: {
-                type: 'boolean',
-                default: true,
-                description: 'Preserve decision messages',
+              content: {
+                type: 'string',
+                description: 'New content (replaces the current content)',
               },
-              preserve_critical: {
-                type: 'boolean',
-                default: true,
-                description: 'Preserve critical priority messages',
+              priority: {
+                type: 'string',
+                enum: ['CRITICAL', 'H', 'M', 'L'],
+                description: 'New priority',
+              },
+              tags: {
+                type: 'array',
+                items: { type: 'string' },
+                description: 'New tags (replaces the current tags)',
               },
             },
-            required: ['thread_id'],
+            required: ['message_id'],
           },
         },
 
         {
-          name: 'ccp_close_thread',
-          description: 'Close an entire thread by marking all messages as resolved',
+          name: 'ccp_get_revisions',
+          description: 'Show the revision history of an edited message with diffs between versions',
           inputSchema: {
             type: 'object',
             properties: {
-              thread_id: {
+              message_id: {
                 type: 'string',
-                description: 'Thread ID to close (format: message_id + "-thread", e.g., "CONTRACT-abc123-XYZ-thread"). Note: Use thread ID, not message ID.',
+                description: 'ID of the message',
               },
-              resolution_status: {
+            },
+            required: ['message_id'],
+          },
+        },
+
+        {
+          name: 'ccp_forward_message',
+          description:
+            'Forward a message, with its full content and suggested approach, into a new thread for other participants',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              message_id: {
                 type: 'string',
-                enum: ['partial', 'complete', 'requires_followup', 'blocked'],
-                default: 'complete',
-                description: 'Resolution status for all messages',
+                description: 'ID of the message to forward',
               },
-              final_summary: {
+              to: {
+                type: 'array',
+                items: {
+                  type: 'string',
+                  pattern:
+                    '^(@[a-zA-Z][a-zA-Z0-9_-]*|cap:[a-zA-Z0-9_.-]+|group:[a-zA-Z][a-zA-Z0-9_-]*)$',
+                },
+                description:
+                  'Recipients to forward to: participant IDs, @all, cap:<capability> or group:<name>',
+              },
+              note: {
                 type: 'string',
-                description: 'Optional final summary message for the thread',
+                maxLength: 2000,
+                description: 'Optional note shown above the forwarded content',
               },
             },
-            required: ['thread_id'],
+            required: ['message_id', 'to'],
           },
         },
 
         {
-          name: 'ccp_archive_resolved',
-          description: 'Archive resolved messages automatically',
+          name: 'ccp_get_attachment',
+          description: 'Get a file attached to a message you sent or received',
           inputSchema: {
             type: 'object',
             properties: {
-              older_than_days: {
-                type: 'number',
-                default: 30,
-                description: 'Archive messages older than N days',
-              },
-              preserve_critical: {
-                type: 'boolean',
-                default: true,
-                description: 'Preserve critical messages',
-              },
-              create_summary: {
-                type: 'boolean',
-                default: true,
-                description: 'Create summary before archiving',
+              attachment_id: {
+                type: 'string',
+                description: 'ID of the attachment (listed with the message)',
               },
             },
+            required: ['attachment_id'],
           },
         },
 
         {
-          name: 'ccp_get_stats',
-          description: 'Get coordination system statistics',
+          name: 'ccp_get_dependency_graph',
+          description:
+            'Show the messages a message depends on (upstream) and the messages waiting on it (downstream)',
           inputSchema: {
             type: 'object',
             properties: {
-              participant: {
+              message_id: {
                 type: 'string',
-                pattern: '^@[a-zA-Z][a-zA-Z0-9_-]*$',
-                description: 'Get stats for specific participant',
+                description: 'ID of the message',
               },
-              timeframe_days: {
+              max_depth: {
                 type: 'number',
-                default: 7,
-                description: 'Timeframe for statistics',
+                default: 10,
+                description: 'How many dependency hops to follow in each direction (max 20)',
               },
             },
+            required: ['message_id'],
           },
         },
 
         {
-          name: 'ccp_register_participant',
-          description: 'Register a new Claude participant',
+          name: 'ccp_cancel_message',
+          description:
+            'Cancel a message you sent that nobody has responded to yet, notifying its recipients',
           inputSchema: {
             type: 'object',
             properties: {
-              participant_id: {
+              message_id: {
                 type: 'string',
-                pattern: '^@[a-zA-Z][a-zA-Z0-9_-]*$',
-                description: 'Participant ID (e.g., @backend)',
-              },
-              capabilities: {
-                type: 'array',
-                items: { type: 'string' },
-                description: 'Participant capabilities',
+                description: 'ID of the message to cancel',
               },
-              default_priority: {
+              reason: {
                 type: 'string',
-                enum: ['CRITICAL', 'H', 'M', 'L'],
-                default: 'M',
-                description: 'Default message priority',
+                maxLength: 500,
+                description: 'Why the message is no longer needed',
               },
             },
-            required: ['participant_id', 'capabilities'],
+            required: ['message_id', 'reason'],
           },
         },
 
         {
-          name: 'ccp_whoami',
-          description: 'Get current participant identity and configuration',
+          name: 'ccp_mark_read',
+          description: 'Mark messages as read so their senders can see you have seen them',
           inputSchema: {
             type: 'object',
-            properties: {},
+            properties: {
+              message_ids: {
+                type: 'array',
+                items: { type: 'string' },
+                description: 'IDs of messages to mark as read',
+              },
+            },
+            required: ['message_ids'],
           },
         },
 
         {
-          name: 'ccp_help',
-          description: 'Get help and usage information for CCP tools',
+          name: 'ccp_snooze_message',
+          description:
+            'Hide a message from your own inbox until a later time. Other participants are not affected.',
           inputSchema: {
             type: 'object',
             properties: {
-              command: {
+              message_id: {
                 type: 'string',
-                description: 'Specific command to get help for (optional)',
+                description: 'ID of the message to snooze',
+              },
+              until: {
+                type: ['string', 'null'],
+                description: 'When it comes back (ISO 8601), or null to wake it now',
               },
             },
+            required: ['message_id', 'until'],
           },
         },
 
         {
-          name: 'ccp_get_stats',
-          description: 'Get coordination system statistics and analytics',
+          name: 'ccp_triage_message',
+          description:
+            'Pin, star or mark a message done for yourself only, without changing its shared status',
           inputSchema: {
             type: 'object',
             properties: {
-              timeframe_days: {
-                type: 'number',
-                default: 7,
-                description: 'Number of days to analyze (default: 7)',
+              message_id: {
+                type: 'string',
+                description: 'ID of the message to triage',
               },
-              include_participants: {
+              pinned: {
                 type: 'boolean',
-                default: false,
-                description: 'Include per-participant statistics',
+                description: 'Pin or unpin it',
+              },
+              starred: {
+                type: 'boolean',
+                description: 'Star or unstar it',
+              },
+              done: {
+                type: 'boolean',
+                description: 'Done for you: hidden from your inbox. false brings it back',
               },
             },
+            required: ['message_id'],
           },
         },
 
         {
-          name: 'ccp_setup_guide',
-          description: 'Get setup and configuration guide for Claude Coordination Protocol',
+          name: 'ccp_vote',
+          description:
+            'Approve, reject or abstain on a proposal with a rationale; the thread is decided once the quorum is met',
           inputSchema: {
             type: 'object',
             properties: {
-              topic: {
+              message_id: {
                 type: 'string',
-                enum: ['quickstart', 'mcp_config', 'participants', 'messaging', 'troubleshooting'],
-                description: 'Specific setup topic',
+                description: 'ID of the proposal',
+              },
+              vote: {
+                type: 'string',
+                enum: ['approve', 'reject', 'abstain'],
+                description: 'Your vote. Voting again replaces it until the proposal is decided',
+              },
+              rationale: {
+                type: 'string',
+                description: 'Why, posted to the thread with the vote',
               },
             },
+            required: ['message_id', 'vote', 'rationale'],
           },
         },
-      ],
-    }))
-
-    // Handle tool calls
-    this.server.setRequestHandler(CallToolRequestSchema, async request => {
-      try {
-        const { name, arguments: args } = request.params
-
-        // Update last seen for current participant
-        await this.participantRegistry.updateLastSeen(this.config.participant_id)
+
+        {
+          name: 'ccp_handoff',
+          description:
+            'Hand your work over to another session with its goal, branch, files, commands, open questions and next steps',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              to: {
+                type: 'array',
+                items: {
+                  type: 'string',
+                  pattern:
+                    '^(@[a-zA-Z][a-zA-Z0-9_-]*|cap:[a-zA-Z0-9_.-]+|group:[a-zA-Z][a-zA-Z0-9_-]*)$',
+                },
+                description:
+                  'Who picks the work up: participant IDs, cap:<capability> or group:<name>',
+              },
+              goal: {
+                type: 'string',
+                description: 'What the work is for and where it stands',
+              },
+              branch: {
+                type: 'string',
+                description: 'Branch the work is on',
+              },
+              files_touched: {
+                type: 'array',
+                items: { type: 'string' },
+                description: 'Paths of the files you changed or were reading',
+              },
+              commands_run: {
+                type: 'array',
+                items: { type: 'string' },
+                description: 'Commands that matter for carrying on, e.g. how you built and tested',
+              },
+              open_questions: {
+                type: 'array',
+                items: { type: 'string' },
+                description: 'What is still undecided or unknown',
+              },
+              next_steps: {
+                type: 'array',
+                items: { type: 'string' },
+                description: 'What to do next, in order',
+              },
+              notes: {
+                type: 'string',
+                description: 'Anything the other fields do not cover',
+              },
+              priority: {
+                type: 'string',
+                enum: ['CRITICAL', 'H', 'M', 'L'],
+                default: 'H',
+                description: 'Priority level',
+              },
+            },
+            required: ['to', 'goal'],
+          },
+        },
+
+        {
+          name: 'ccp_accept_handoff',
+          description:
+            'Take over the work of a handoff sent to you and get a compact brief of its state',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              message_id: {
+                type: 'string',
+                description: 'ID of the handoff message',
+              },
+            },
+            required: ['message_id'],
+          },
+        },
+
+        {
+          name: 'ccp_create_task',
+          description:
+            'Turn a q or sync message into a task with an assignee and due date, tracked on the task board',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              message_id: {
+                type: 'string',
+                description: 'ID of the q or sync message',
+              },
+              assignee: {
+                type: 'string',
+                pattern: '^@[a-zA-Z][a-zA-Z0-9_-]*$',
+                description: 'Who owns it: the sender or a recipient. Defaults to you',
+              },
+              due_at: {
+                type: 'string',
+                format: 'date-time',
+                description: 'When it is due',
+              },
+              title: {
+                type: 'string',
+                description: 'Title on the board. Defaults to the message subject',
+              },
+            },
+            required: ['message_id'],
+          },
+        },
+
+        {
+          name: 'ccp_update_task',
+          description:
+            'Change the state, assignee, due date or note of a task; done resolves its message',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              message_id: {
+                type: 'string',
+                description: 'ID of the task message',
+              },
+              state: {
+                type: 'string',
+                enum: ['todo', 'in_progress', 'blocked', 'done'],
+                description: 'New state',
+              },
+              assignee: {
+                type: 'string',
+                pattern: '^@[a-zA-Z][a-zA-Z0-9_-]*$',
+                description: 'New owner: the sender or a recipient of the message',
+              },
+              due_at: {
+                type: ['string', 'null'],
+                format: 'date-time',
+                description: 'New due date, or null to clear it',
+              },
+              note: {
+                type: 'string',
+                description: 'Short status note, e.g. what it is blocked on',
+              },
+            },
+            required: ['message_id'],
+          },
+        },
+
+        {
+          name: 'ccp_list_tasks',
+          description: 'List tasks on messages you sent or received, soonest due first',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              assignee: {
+                type: 'string',
+                pattern: '^@[a-zA-Z][a-zA-Z0-9_-]*$',
+                description: 'Only tasks owned by this participant',
+              },
+              state: {
+                type: 'array',
+                items: { type: 'string', enum: ['todo', 'in_progress', 'blocked', 'done'] },
+                description: 'Only tasks in these states',
+              },
+              thread_id: {
+                type: 'string',
+                description: 'Only tasks in this thread',
+              },
+              overdue_only: {
+                type: 'boolean',
+                description: 'Only open tasks past their due date',
+              },
+              limit: {
+                type: 'number',
+                minimum: 1,
+                maximum: 200,
+                default: 50,
+                description: 'Maximum number of tasks',
+              },
+            },
+          },
+        },
+
+        {
+          name: 'ccp_search_messages',
+          description: 'Search messages using full-text search',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              query: {
+                type: 'string',
+                description: 'Search query',
+              },
+              semantic: {
+                type: 'boolean',
+                default: true,
+                description: 'Use semantic/full-text search',
+              },
+              tags: {
+                type: 'array',
+                items: { type: 'string' },
+                description: 'Filter by tags',
+              },
+              date_range: {
+                type: 'object',
+                properties: {
+                  from: { type: 'string', format: 'date-time' },
+                  to: { type: 'string', format: 'date-time' },
+                },
+                description: 'Date range filter',
+              },
+              participants: {
+                type: 'array',
+                items: { type: 'string', pattern: '^@[a-zA-Z][a-zA-Z0-9_-]*$' },
+                description: 'Filter by participants',
+              },
+              limit: {
+                type: 'number',
+                default: 10,
+                maximum: 50,
+                description: 'Maximum results',
+              },
+              cursor: {
+                type: 'string',
+                description: 'next_cursor from a previous search, to get the following page',
+              },
+            },
+            required: ['query'],
+          },
+        },
+
+        {
+          name: 'ccp_compact_thread',
+          description: 'Compact a conversation thread to optimize token usage',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              thread_id: {
+                type: 'string',
+                description: 'Thread ID to compact',
+              },
+              strategy: {
+                type: 'string',
+                enum: ['summarize', 'consolidate', 'archive'],
+                default: 'summarize',
+                description: 'Compaction strategy',
+              },
+              preserve_decisions: {
+                type: 'boolean',
+                default: true,
+                description: 'Preserve decision messages',
+              },
+              preserve_critical: {
+                type: 'boolean',
+                default: true,
+                description: 'Preserve critical priority messages',
+              },
+            },
+            required: ['thread_id'],
+          },
+        },
+
+        {
+          name: 'ccp_close_thread',
+          description: 'Close an entire thread by marking all messages as resolved',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              thread_id: {
+                type: 'string',
+                description: 'Thread ID to close (format: message_id + "-thread", e.g., "CONTRACT-abc123-XYZ-thread"). Note: Use thread ID, not message ID.',
+              },
+              resolution_status: {
+                type: 'string',
+                enum: ['partial', 'complete', 'requires_followup', 'blocked'],
+                default: 'complete',
+                description: 'Resolution status for all messages',
+              },
+              final_summary: {
+                type: 'string',
+                description:
+                  'Optional final summary message for the thread. For arch threads it is the decision of the ADR written on close',
+              },
+            },
+            required: ['thread_id'],
+          },
+        },
+
+        {
+          name: 'ccp_list_threads',
+          description: 'List conversation threads you participate in, most recently active first',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              participant: {
+                type: 'string',
+                pattern: '^@[a-zA-Z][a-zA-Z0-9_-]*$',
+                description: 'Only threads that also include this participant',
+              },
+              status: {
+                type: 'array',
+                items: { type: 'string', enum: ['active', 'resolved', 'archived'] },
+                description: 'Filter by thread status',
+              },
+              since_hours: {
+                type: 'number',
+                description: 'Only threads active in the last N hours',
+              },
+              limit: {
+                type: 'number',
+                default: 20,
+                maximum: 100,
+                description: 'Maximum number of threads to return',
+              },
+            },
+          },
+        },
+
+        {
+          name: 'ccp_get_thread',
+          description:
+            'Get a thread overview with all of its messages as a reply tree, replies nested under what they answer',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              thread_id: {
+                type: 'string',
+                description: 'Thread ID (a message ID from the thread is also accepted)',
+              },
+              detail_level: {
+                type: 'string',
+                enum: ['index', 'summary', 'full'],
+                default: 'summary',
+                description: 'Amount of detail to include for each message',
+              },
+            },
+            required: ['thread_id'],
+          },
+        },
+
+        {
+          name: 'ccp_set_thread_expiry',
+          description:
+            'Override the configured expiry policies for a thread. Pass neither expires_in_hours nor keep_alive_while_active to clear the override.',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              thread_id: {
+                type: 'string',
+                description: 'Thread ID (a message ID from the thread is also accepted)',
+              },
+              expires_in_hours: {
+                type: ['number', 'null'],
+                description:
+                  'Hours after sending that messages in the thread expire, null for never. Re-dates its open messages.',
+              },
+              keep_alive_while_active: {
+                type: 'boolean',
+                description: 'Do not archive expired messages while the thread is active',
+              },
+            },
+            required: ['thread_id'],
+          },
+        },
+
+        {
+          name: 'ccp_archive_resolved',
+          description: 'Archive resolved messages automatically',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              older_than_days: {
+                type: 'number',
+                default: 30,
+                description: 'Archive messages older than N days',
+              },
+              preserve_critical: {
+                type: 'boolean',
+                default: true,
+                description: 'Preserve critical messages',
+              },
+              create_summary: {
+                type: 'boolean',
+                default: true,
+                description: 'Create summary before archiving',
+              },
+            },
+          },
+        },
+
+        {
+          name: 'ccp_get_stats',
+          description: 'Get coordination system statistics',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              participant: {
+                type: 'string',
+                pattern: '^@[a-zA-Z][a-zA-Z0-9_-]*$',
+                description: 'Get stats for specific participant',
+              },
+              timeframe_days: {
+                type: 'number',
+                default: 7,
+                description: 'Timeframe for statistics',
+              },
+            },
+          },
+        },
+
+        {
+          name: 'ccp_register_participant',
+          description: 'Register a new Claude participant',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              participant_id: {
+                type: 'string',
+                pattern: '^@[a-zA-Z][a-zA-Z0-9_-]*$',
+                description: 'Participant ID (e.g., @backend)',
+              },
+              capabilities: {
+                type: 'array',
+                items: { type: 'string' },
+                description: 'Participant capabilities',
+              },
+              default_priority: {
+                type: 'string',
+                enum: ['CRITICAL', 'H', 'M', 'L'],
+                default: 'M',
+                description: 'Default message priority',
+              },
+            },
+            required: ['participant_id', 'capabilities'],
+          },
+        },
+
+        {
+          name: 'ccp_whoami',
+          description: 'Get current participant identity and configuration',
+          inputSchema: {
+            type: 'object',
+            properties: {},
+          },
+        },
+
+        {
+          name: 'ccp_help',
+          description: 'Get help and usage information for CCP tools',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              command: {
+                type: 'string',
+                description: 'Specific command to get help for (optional)',
+              },
+            },
+          },
+        },
+
+        {
+          name: 'ccp_get_stats',
+          description: 'Get coordination system statistics and analytics',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              timeframe_days: {
+                type: 'number',
+                default: 7,
+                description: 'Number of days to analyze (default: 7)',
+              },
+              include_participants: {
+                type: 'boolean',
+                default: false,
+                description: 'Include per-participant statistics',
+              },
+            },
+          },
+        },
+
+        {
+          name: 'ccp_setup_guide',
+          description: 'Get setup and configuration guide for Claude Coordination Protocol',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              topic: {
+                type: 'string',
+                enum: ['quickstart', 'mcp_config', 'participants', 'messaging', 'troubleshooting'],
+                description: 'Specific setup topic',
+              },
+            },
+          },
+        },
+      ],
+    }))
+
+    // Handle tool calls
+    this.server.setRequestHandler(CallToolRequestSchema, async request => {
+      try {
+        const { name, arguments: args } = request.params
+
+        // Update last seen for current participant
+        await this.participantRegistry.updateLastSeen(this.config.participant_id)
 
         switch (name) {
           case 'ccp_send_message':
             return await this.handleSendMessage(args)
 
-          case 'ccp_get_messages':
-            return await this.handleGetMessages(args)
+          case 'ccp_get_messages':
+            return await this.handleGetMessages(args)
+
+          case 'ccp_respond_message':
+            return await this.handleRespondMessage(args)
+
+          case 'ccp_list_scheduled':
+            return await this.handleListScheduled()
+
+          case 'ccp_get_changes':
+            return await this.handleGetChanges(args)
+
+          case 'ccp_edit_message':
+            return await this.handleEditMessage(args)
+
+          case 'ccp_get_revisions':
+            return await this.handleGetRevisions(args)
+
+          case 'ccp_forward_message':
+            return await this.handleForwardMessage(args)
+
+          case 'ccp_get_attachment':
+            return await this.handleGetAttachment(args)
+
+          case 'ccp_get_dependency_graph':
+            return await this.handleGetDependencyGraph(args)
+
+          case 'ccp_cancel_message':
+            return await this.handleCancelMessage(args)
+
+          case 'ccp_mark_read':
+            return await this.handleMarkRead(args)
+
+          case 'ccp_snooze_message':
+            return await this.handleSnoozeMessage(args)
+
+          case 'ccp_triage_message':
+            return await this.handleTriageMessage(args)
+
+          case 'ccp_vote':
+            return await this.handleVote(args)
+
+          case 'ccp_handoff':
+            return await this.handleHandoff(args)
+
+          case 'ccp_accept_handoff':
+            return await this.handleAcceptHandoff(args)
+
+          case 'ccp_create_task':
+            return await this.handleCreateTask(args)
+
+          case 'ccp_update_task':
+            return await this.handleUpdateTask(args)
+
+          case 'ccp_list_tasks':
+            return await this.handleListTasks(args)
+
+          case 'ccp_search_messages':
+            return await this.handleSearchMessages(args)
+
+          case 'ccp_compact_thread':
+            return await this.handleCompactThread(args)
+
+          case 'ccp_close_thread':
+            return await this.handleCloseThread(args)
+
+          case 'ccp_list_threads':
+            return await this.handleListThreads(args)
+
+          case 'ccp_get_thread':
+            return await this.handleGetThread(args)
+
+          case 'ccp_set_thread_expiry':
+            return await this.handleSetThreadExpiry(args)
+
+          case 'ccp_archive_resolved':
+            return await this.handleArchiveResolved(args)
+
+          case 'ccp_get_stats':
+            return await this.handleGetStats(args)
+
+          case 'ccp_register_participant':
+            return await this.handleRegisterParticipant(args)
+
+          case 'ccp_whoami':
+            return await this.handleWhoami()
+
+          case 'ccp_help':
+            return await this.handleHelp(args)
+
+          case 'ccp_setup_guide':
+            return await this.handleSetupGuide(args)
+
+          default:
+            throw new McpError(ErrorCode.MethodNotFound, `Unknown tool: ${name}`)
+        }
+      } catch (error) {
+        return this.handleToolError(error)
+      }
+    })
+  }
+
+  private async handleSendMessage(args: unknown): Promise<any> {
+    const rawInput = validateInput(SendMessageInput, args, 'send_message')
+    const input = {
+      ...rawInput,
+      response_required: rawInput.response_required ?? true,
+    }
+
+    // Validate permissions
+    const canSend = await this.participantRegistry.canSendMessage(
+      this.config.participant_id,
+      input.to
+    )
+
+    if (!canSend) {
+      throw new PermissionError('Cannot send message to specified participants')
+    }
+
+    // MCP clients can only attach files from inside the project
+    if (input.attachments) {
+      input.attachments = await Promise.all(
+        input.attachments.map(async attachment =>
+          attachment.path
+            ? { ...attachment, path: await resolveAttachmentPath(attachment.path, process.cwd()) }
+            : attachment
+        )
+      )
+    }
+
+    const message = await this.messageManager.createMessage(input, this.config.participant_id)
+
+    // Index the message
+    await this.indexingEngine.indexMessage(message)
+
+    const routed = message.routing
+      ? `\n**Routed:** ${message.routing.capability} → ${message.routing.assigned_to} (${message.routing.strategy})`
+      : ''
+    const attached = message.attachments
+      ? `\n**Attachments:** ${message.attachments.map(a => `${a.filename} [${a.id}]`).join(', ')}`
+      : ''
+    const proposal = message.proposal
+      ? `\n**Proposal:** ${message.proposal.quorum} quorum of ${message.proposal.voters.join(', ')}`
+      : ''
+
+    if (message.send_at) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `⏰ Message scheduled!\n\n**ID:** ${message.id}\n**To:** ${message.to.join(', ')}${routed}\n**Subject:** ${message.subject}${attached}\n**Send at:** ${message.send_at.toLocaleString()}\n\nCancel it before then with \`ccp_cancel_message\`.`,
+          },
+        ],
+      }
+    }
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `✅ Message sent successfully!\n\n**ID:** ${message.id}\n**Thread:** ${message.thread_id}\n**To:** ${message.to.join(', ')}${routed}\n**Subject:** ${message.subject}${attached}${proposal}\n**Priority:** ${message.priority}\n**Status:** ${message.status}`,
+        },
+      ],
+    }
+  }
+
+  private async handleGetMessages(args: unknown): Promise<any> {
+    const rawInput = validateInput(GetMessagesInput, args, 'get_messages')
+    const input: GetMessagesInput = {
+      ...rawInput,
+      limit: rawInput.limit ?? 20,
+      detail_level: rawInput.detail_level ?? 'full',
+      active_only: rawInput.active_only !== false,
+      // Don't override status filter - let the database query handle active_only filtering
+    }
+
+    const page = await this.messageManager.getMessagesPage(input, this.config.participant_id)
+    const messages = page.messages
+
+    // Fetching full content counts as reading the message
+    if (input.detail_level === 'full') {
+      const unread = messages.filter(msg => msg.recipient_status === 'delivered')
+      if (unread.length > 0) {
+        await this.messageManager.markRead(
+          { message_ids: unread.map(msg => msg.id) },
+          this.config.participant_id
+        )
+        for (const msg of unread) {
+          msg.recipient_status = 'read'
+        }
+      }
+    }
+
+    if (messages.length === 0) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: '📭 No messages found matching the criteria.',
+          },
+        ],
+      }
+    }
 
-          case 'ccp_respond_message':
-            return await this.handleRespondMessage(args)
+    const formatAttachments = (attachments: Attachment[]) =>
+      `📎 ${attachments.map(a => `${a.filename} (${a.size} bytes) [${a.id}]`).join(', ')}`
 
-          case 'ccp_search_messages':
-            return await this.handleSearchMessages(args)
+    const formatReadReceipts = (recipients: MessageRecipient[]) => {
+      const read = recipients.filter(r => r.read_at)
+      const unread = recipients.filter(r => !r.read_at)
+      const parts = []
+      if (read.length > 0) {
+        parts.push(
+          `Read by: ${read.map(r => `${r.participant} (${r.read_at?.toLocaleString()})`).join(', ')}`
+        )
+      }
+      if (unread.length > 0) {
+        parts.push(`Unread: ${unread.map(r => r.participant).join(', ')}`)
+      }
+      return parts.join(' | ')
+    }
+
+    const formatProposal = (proposal: Proposal) => {
+      const votes =
+        proposal.votes.map(v => `${v.participant} ${v.vote}`).join(', ') || 'no votes yet'
+      const state = proposal.decision ? proposal.decision.toUpperCase() : 'open'
+      return `🗳️ Proposal (${proposal.quorum} of ${proposal.voters.join(', ')}): ${state} - ${votes}`
+    }
+
+    const formatHandoff = (handoff: Handoff) => {
+      const accepted = handoff.accepted_by
+        ? `accepted by ${handoff.accepted_by}`
+        : 'not accepted yet'
+      return `🤝 Handoff: ${handoff.goal} (${accepted})`
+    }
+
+    const formatMessage = (msg: any) => {
+      // While a message is open, recipients see their own state rather than the shared one
+      const isOpen = ['pending', 'read', 'responded'].includes(msg.status)
+      const effectiveStatus =
+        isOpen && msg.recipient_status
+          ? msg.recipient_status === 'delivered'
+            ? 'pending'
+            : msg.recipient_status
+          : msg.status
+      const status =
+        effectiveStatus === 'pending'
+          ? '⏳'
+          : effectiveStatus === 'read'
+            ? '👁️'
+            : effectiveStatus === 'responded'
+              ? '💬'
+              : effectiveStatus === 'resolved'
+                ? '✅'
+                : '📁'
+
+      const priority =
+        msg.priority === 'CRITICAL'
+          ? '🚨'
+          : msg.priority === 'H'
+            ? '🔴'
+            : msg.priority === 'M'
+              ? '🟡'
+              : '🟢'
+
+      let content = ''
+      if (input.detail_level === 'index') {
+        // Just the subject line
+        content = ''
+      } else if (input.detail_level === 'summary') {
+        // Show truncated summary
+        content = `   ${msg.summary.substring(0, 150)}${msg.summary.length > 150 ? '...' : ''}\n`
+      } else {
+        // detail_level === 'full' - show full content (use content field, fallback to summary)
+        const fullContent = msg.content_error
+          ? `⚠️ ${msg.content_error}`
+          : msg.content || msg.summary
+        content = `   ${fullContent}\n`
+      }
+
+      const edited = msg.revision > 1 ? ` ✏️ (edited, rev ${msg.revision})` : ''
+      const scheduled = msg.send_at ? ` ⏰ (scheduled for ${msg.send_at.toLocaleString()})` : ''
+      const blocked = msg.blocked ? ` ⛔ (blocked by ${msg.blocked_by.join(', ')})` : ''
+      const forwarded = msg.forwarded_from ? ` ↪️ (forwarded from ${msg.forwarded_from})` : ''
+      const addressedTo = msg.addressed_to ? ` (as ${msg.addressed_to.join(', ')})` : ''
+      const routed = msg.routing ? ` (routed by ${msg.routing.capability})` : ''
+      // Only the requester's own triage
+      const triage = [
+        msg.triage?.pinned ? ' 📌' : '',
+        msg.triage?.starred ? ' ⭐' : '',
+        msg.triage?.snoozed_until > new Date()
+          ? ` 💤 (snoozed until ${msg.triage.snoozed_until.toLocaleString()})`
+          : '',
+        msg.triage?.done_at ? ' ☑️ (done for you)' : '',
+      ].join('')
+
+      return (
+        `${status} ${priority} **${msg.id}** - ${msg.subject}${triage}${edited}${scheduled}${blocked}${forwarded}\n` +
+        `   From: ${msg.from} → To: ${msg.to.join(', ')}${addressedTo}${routed}\n` +
+        `   Thread: ${msg.thread_id} | Type: ${msg.type} | Created: ${msg.created_at.toLocaleDateString()}\n` +
+        (msg.recipient_status ? `   Your status: ${msg.recipient_status}\n` : '') +
+        (msg.recipients ? `   ${formatReadReceipts(msg.recipients)}\n` : '') +
+        (msg.cancellation_reason ? `   Cancelled: ${msg.cancellation_reason}\n` : '') +
+        (msg.attachments ? `   ${formatAttachments(msg.attachments)}\n` : '') +
+        (msg.proposal ? `   ${formatProposal(msg.proposal)}\n` : '') +
+        (msg.handoff ? `   ${formatHandoff(msg.handoff)}\n` : '') +
+        content
+      )
+    }
+
+    const messageList = messages.map(formatMessage).join('\n')
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text:
+            `📨 **${messages.length} Messages Found**\n\n${messageList}` +
+            (page.next_cursor ? `\n\n**next_cursor:** ${page.next_cursor}` : ''),
+        },
+      ],
+    }
+  }
+
+  private async handleRespondMessage(args: unknown): Promise<any> {
+    const input = validateInput(RespondMessageInput, args, 'respond_message')
+
+    // Participants brought in explicitly must be reachable, as for ccp_send_message
+    const addedRecipients = [...(input.to ?? []), ...(input.cc ?? [])]
+    if (addedRecipients.length > 0) {
+      const canSend = await this.participantRegistry.canSendMessage(
+        this.config.participant_id,
+        addedRecipients
+      )
+      if (!canSend) {
+        throw new PermissionError('Cannot send message to specified participants')
+      }
+    }
+
+    const response = await this.messageManager.respondToMessage(input, this.config.participant_id)
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `✅ Response sent successfully!\n\n**Response ID:** ${response.id}\n**Original Message:** ${input.message_id}\n**To:** ${response.to.join(', ')}\n**Status:** ${input.resolution_status || 'responded'}`,
+        },
+      ],
+    }
+  }
+
+  private async handleListScheduled(): Promise<CallToolResult> {
+    const messages = await this.messageManager.listScheduledMessages(this.config.participant_id)
+
+    if (messages.length === 0) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: '⏰ No scheduled messages waiting to be sent.',
+          },
+        ],
+      }
+    }
+
+    const list = messages
+      .map(
+        msg =>
+          `⏰ **${msg.id}** - ${msg.subject}\n` +
+          `   To: ${msg.to.join(', ')} | Send at: ${msg.send_at?.toLocaleString()}`
+      )
+      .join('\n\n')
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `⏰ **${messages.length} Scheduled Messages**\n\n${list}\n\nUse \`ccp_cancel_message\` to cancel one before it is sent.`,
+        },
+      ],
+    }
+  }
+
+  private async handleGetChanges(args: unknown): Promise<CallToolResult> {
+    const input = validateInput(GetChangesInput, args ?? {}, 'get_changes')
+
+    const result = await this.changeFeed.getChanges(input, this.config.participant_id)
+
+    if (result.changes.length === 0) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `🔄 No changes. High-water mark: ${result.high_water_mark}`,
+          },
+        ],
+      }
+    }
+
+    const icons: Record<string, string> = {
+      message_created: '📨',
+      message_status_changed: '🔁',
+      message_edited: '✏️',
+      thread_status_changed: '🧵',
+    }
+
+    const list = result.changes
+      .map(
+        change =>
+          `${icons[change.kind]} #${change.seq} ${change.kind}: ` +
+          (change.message_id ? `${change.message_id} in ` : '') +
+          `thread ${change.thread_id}` +
+          (change.status ? ` → ${change.status}` : '')
+      )
+      .join('\n')
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text:
+            `🔄 **${result.changes.length} Changes**\n\n${list}\n\n` +
+            `**High-water mark:** ${result.high_water_mark}` +
+            (result.has_more ? '\nMore changes are waiting; call again to continue.' : ''),
+        },
+      ],
+    }
+  }
+
+  private async handleEditMessage(args: unknown): Promise<CallToolResult> {
+    const input = validateInput(EditMessageInput, args, 'edit_message')
+
+    const message = await this.messageManager.editMessage(input, this.config.participant_id)
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `✏️ Message edited\n\n**Message ID:** ${message.id}\n**Revision:** ${message.revision}\n**Subject:** ${message.subject}\n\nUse \`ccp_get_revisions\` to see what changed.`,
+        },
+      ],
+    }
+  }
+
+  private async handleGetRevisions(args: unknown): Promise<CallToolResult> {
+    const input = validateInput(GetRevisionsInput, args, 'get_revisions')
+
+    const revisions = await this.messageManager.getRevisions(input, this.config.participant_id)
+
+    if (revisions.length === 1) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `📝 Message ${input.message_id} has not been edited.`,
+          },
+        ],
+      }
+    }
+
+    // Describe each revision by how it differs from the one before it
+    const sections = revisions.slice(1).map((revision, index) => {
+      const previous = revisions[index]
+      const changes: string[] = []
+      if (revision.subject !== previous.subject) {
+        changes.push(`Subject: "${previous.subject}" → "${revision.subject}"`)
+      }
+      if (revision.priority !== previous.priority) {
+        changes.push(`Priority: ${previous.priority} → ${revision.priority}`)
+      }
+      if (JSON.stringify(revision.tags) !== JSON.stringify(previous.tags)) {
+        changes.push(`Tags: [${previous.tags.join(', ')}] → [${revision.tags.join(', ')}]`)
+      }
+      if (revision.content !== previous.content) {
+        changes.push(
+          'Content:\n```diff\n' + diffLines(previous.content, revision.content) + '\n```'
+        )
+      }
+
+      return (
+        `**Revision ${previous.revision} → ${revision.revision}** by ${revision.edited_by} (${revision.edited_at.toLocaleString()})\n` +
+        (changes.length > 0 ? changes.join('\n') : 'No changes')
+      )
+    })
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `📝 **Revision history for ${input.message_id}** (${revisions.length} versions)\n\n${sections.join('\n\n')}`,
+        },
+      ],
+    }
+  }
+
+  private async handleForwardMessage(args: unknown): Promise<CallToolResult> {
+    const input = validateInput(ForwardMessageInput, args, 'forward_message')
+
+    const canSend = await this.participantRegistry.canSendMessage(
+      this.config.participant_id,
+      input.to
+    )
+    if (!canSend) {
+      throw new PermissionError('Cannot send message to specified participants')
+    }
+
+    const message = await this.messageManager.forwardMessage(input, this.config.participant_id)
+
+    await this.indexingEngine.indexMessage(message)
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `↪️ Message forwarded!\n\n**ID:** ${message.id}\n**Thread:** ${message.thread_id}\n**To:** ${message.to.join(', ')}\n**Forwarded from:** ${input.message_id}`,
+        },
+      ],
+    }
+  }
+
+  private async handleGetAttachment(args: unknown): Promise<CallToolResult> {
+    const input = validateInput(GetAttachmentInput, args, 'get_attachment')
+
+    const { attachment, content } = await this.messageManager.getAttachment(
+      input,
+      this.config.participant_id
+    )
+
+    const header =
+      `📎 **${attachment.filename}** (${attachment.mime_type}, ${attachment.size} bytes)\n` +
+      `Message: ${attachment.message_id} | sha256: ${attachment.sha256}`
+
+    if (attachment.mime_type.startsWith('image/') && !isTextMimeType(attachment.mime_type)) {
+      return {
+        content: [
+          { type: 'text', text: header },
+          { type: 'image', data: content.toString('base64'), mimeType: attachment.mime_type },
+        ],
+      }
+    }
+
+    const body = isTextMimeType(attachment.mime_type)
+      ? '```\n' + content.toString('utf-8') + '\n```'
+      : `Base64 content:\n${content.toString('base64')}`
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `${header}\n\n${body}`,
+        },
+      ],
+    }
+  }
+
+  private async handleGetDependencyGraph(args: unknown): Promise<CallToolResult> {
+    const input = validateInput(GetDependencyGraphInput, args, 'get_dependency_graph')
+
+    const graph = await this.messageManager.getDependencyGraph(input, this.config.participant_id)
+
+    const formatNode = (node: DependencyNode) =>
+      `${'  '.repeat(node.depth)}• **${node.id}** [${node.status}] ${node.subject} (${node.from})` +
+      (node.blocked ? ' ⛔ blocked' : '')
+
+    const section = (title: string, nodes: DependencyNode[]) =>
+      `**${title}:**\n` + (nodes.length > 0 ? nodes.map(formatNode).join('\n') : 'None')
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text:
+            `🔗 **Dependency graph for ${graph.message.id}** - ${graph.message.subject}\n` +
+            `Status: ${graph.message.status}${graph.message.blocked ? ' ⛔ blocked' : ''}\n\n` +
+            section('Depends on (upstream)', graph.upstream) +
+            '\n\n' +
+            section('Waiting on it (downstream)', graph.downstream),
+        },
+      ],
+    }
+  }
+
+  private async handleCancelMessage(args: unknown): Promise<CallToolResult> {
+    const input = validateInput(CancelMessageInput, args, 'cancel_message')
+
+    const message = await this.messageManager.cancelMessage(input, this.config.participant_id)
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `🚫 Message cancelled\n\n**Message ID:** ${message.id}\n**Reason:** ${input.reason}\n**Notified:** ${message.to.join(', ')}`,
+        },
+      ],
+    }
+  }
+
+  private async handleMarkRead(args: unknown): Promise<CallToolResult> {
+    const input = validateInput(MarkReadInput, args, 'mark_read')
+
+    const markedCount = await this.messageManager.markRead(input, this.config.participant_id)
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `👁️ Marked ${markedCount} of ${input.message_ids.length} message(s) as read`,
+        },
+      ],
+    }
+  }
 
-          case 'ccp_compact_thread':
-            return await this.handleCompactThread(args)
+  private async handleSnoozeMessage(args: unknown): Promise<CallToolResult> {
+    const input = validateInput(SnoozeMessageInput, args, 'snooze_message')
 
-          case 'ccp_close_thread':
-            return await this.handleCloseThread(args)
+    const triage = await this.messageManager.snoozeMessage(input, this.config.participant_id)
 
-          case 'ccp_archive_resolved':
-            return await this.handleArchiveResolved(args)
+    return {
+      content: [
+        {
+          type: 'text',
+          text: triage.snoozed_until
+            ? `💤 Snoozed ${input.message_id} until ${triage.snoozed_until.toLocaleString()}`
+            : `⏰ ${input.message_id} is back in your inbox`,
+        },
+      ],
+    }
+  }
 
-          case 'ccp_get_stats':
-            return await this.handleGetStats(args)
+  private async handleTriageMessage(args: unknown): Promise<CallToolResult> {
+    const input = validateInput(TriageMessageInput, args, 'triage_message')
 
-          case 'ccp_register_participant':
-            return await this.handleRegisterParticipant(args)
+    const triage = await this.messageManager.triageMessage(input, this.config.participant_id)
 
-          case 'ccp_whoami':
-            return await this.handleWhoami()
+    return {
+      content: [
+        {
+          type: 'text',
+          text:
+            '🗂️ **Triage Updated**\n\n' +
+            `**Message ID:** ${input.message_id}\n` +
+            `**Pinned:** ${triage.pinned ? 'yes' : 'no'}\n` +
+            `**Starred:** ${triage.starred ? 'yes' : 'no'}\n` +
+            `**Done:** ${triage.done_at ? `yes (${triage.done_at.toLocaleString()})` : 'no'}` +
+            (triage.snoozed_until
+              ? `\n**Snoozed Until:** ${triage.snoozed_until.toLocaleString()}`
+              : ''),
+        },
+      ],
+    }
+  }
 
-          case 'ccp_help':
-            return await this.handleHelp(args)
+  private async handleVote(args: unknown): Promise<CallToolResult> {
+    const input = validateInput(VoteInput, args, 'vote')
 
-          case 'ccp_setup_guide':
-            return await this.handleSetupGuide(args)
+    const proposal = await this.messageManager.vote(input, this.config.participant_id)
+    const count = (choice: string) => proposal.votes.filter(v => v.vote === choice).length
+    const waiting = proposal.voters.filter(
+      voter => !proposal.votes.some(v => v.participant === voter)
+    )
 
-          default:
-            throw new McpError(ErrorCode.MethodNotFound, `Unknown tool: ${name}`)
-        }
-      } catch (error) {
-        return this.handleToolError(error)
-      }
-    })
+    return {
+      content: [
+        {
+          type: 'text',
+          text:
+            '🗳️ **Vote Recorded**\n\n' +
+            `**Proposal:** ${proposal.message_id}\n` +
+            `**Your Vote:** ${input.vote}\n` +
+            `**Quorum:** ${proposal.quorum} of ${proposal.voters.join(', ')}\n` +
+            `**Tally:** ${count('approve')} approve, ${count('reject')} reject, ${count('abstain')} abstain\n` +
+            (proposal.decision
+              ? `**Decision:** ${proposal.decision} 🎉`
+              : `**Waiting On:** ${waiting.join(', ')}`),
+        },
+      ],
+    }
   }
 
-  private async handleSendMessage(args: unknown): Promise<any> {
-    const rawInput = validateInput(SendMessageInput, args, 'send_message')
-    const input = {
-      ...rawInput,
-      response_required: rawInput.response_required ?? true,
-      expires_in_hours: rawInput.expires_in_hours ?? 168,
-    }
+  private async handleHandoff(args: unknown): Promise<CallToolResult> {
+    const input = validateInput(HandoffInput, args, 'handoff')
 
-    // Validate permissions
     const canSend = await this.participantRegistry.canSendMessage(
       this.config.participant_id,
       input.to
     )
-
     if (!canSend) {
       throw new PermissionError('Cannot send message to specified participants')
     }
 
-    const message = await this.messageManager.createMessage(input, this.config.participant_id)
-
-    // Index the message
+    const message = await this.messageManager.sendHandoff(input, this.config.participant_id)
     await this.indexingEngine.indexMessage(message)
 
     return {
       content: [
         {
           type: 'text',
-          text: `✅ Message sent successfully!\n\n**ID:** ${message.id}\n**Thread:** ${message.thread_id}\n**To:** ${message.to.join(', ')}\n**Subject:** ${message.subject}\n**Priority:** ${message.priority}\n**Status:** ${message.status}`,
+          text:
+            '🤝 **Handoff Sent**\n\n' +
+            `**ID:** ${message.id}\n` +
+            `**To:** ${message.to.join(', ')}\n` +
+            `**Goal:** ${input.goal}\n\n` +
+            'The session picking it up gets the full state with `ccp_accept_handoff`.',
         },
       ],
     }
   }
 
-  private async handleGetMessages(args: unknown): Promise<any> {
-    const rawInput = validateInput(GetMessagesInput, args, 'get_messages')
-    const input: GetMessagesInput = {
-      ...rawInput,
-      limit: rawInput.limit ?? 20,
-      detail_level: rawInput.detail_level ?? 'full',
-      active_only: rawInput.active_only !== false,
-      // Don't override status filter - let the database query handle active_only filtering
-    }
+  private async handleAcceptHandoff(args: unknown): Promise<CallToolResult> {
+    const input = validateInput(AcceptHandoffInput, args, 'accept_handoff')
 
-    const messages = await this.messageManager.getMessages(input, this.config.participant_id)
+    const message = await this.messageManager.acceptHandoff(input, this.config.participant_id)
 
-    if (messages.length === 0) {
-      return {
-        content: [
-          {
-            type: 'text',
-            text: '📭 No messages found matching the criteria.',
-          },
-        ],
-      }
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `🤝 **Handoff Accepted**\n\n${renderHandoffBrief(message)}`,
+        },
+      ],
     }
+  }
 
-    const formatMessage = (msg: any) => {
-      const status =
-        msg.status === 'pending'
-          ? '⏳'
-          : msg.status === 'read'
-            ? '👁️'
-            : msg.status === 'responded'
-              ? '💬'
-              : msg.status === 'resolved'
-                ? '✅'
-                : '📁'
+  private formatTask(task: Task): string {
+    return (
+      `**${task.message_id}** [${task.state}] ${task.title}\n` +
+      `Assignee: ${task.assignee}` +
+      (task.due_at ? ` | Due: ${task.due_at.toISOString()}` : '') +
+      (task.overdue ? ' ⚠️ overdue' : '') +
+      `\nThread: ${task.thread_id}` +
+      (task.note ? `\nNote: ${task.note}` : '')
+    )
+  }
 
-      const priority =
-        msg.priority === 'CRITICAL'
-          ? '🚨'
-          : msg.priority === 'H'
-            ? '🔴'
-            : msg.priority === 'M'
-              ? '🟡'
-              : '🟢'
+  private async handleCreateTask(args: unknown): Promise<CallToolResult> {
+    const input = validateInput(CreateTaskInput, args, 'create_task')
 
-      let content = ''
-      if (input.detail_level === 'index') {
-        // Just the subject line
-        content = ''
-      } else if (input.detail_level === 'summary') {
-        // Show truncated summary
-        content = `   ${msg.summary.substring(0, 150)}${msg.summary.length > 150 ? '...' : ''}\n`
-      } else {
-        // detail_level === 'full' - show full content (use content field, fallback to summary)
-        const fullContent = msg.content || msg.summary
-        content = `   ${fullContent}\n`
-      }
+    const task = await this.taskManager.createTask(input, this.config.participant_id)
 
-      return (
-        `${status} ${priority} **${msg.id}** - ${msg.subject}\n` +
-        `   From: ${msg.from} → To: ${msg.to.join(', ')}\n` +
-        `   Thread: ${msg.thread_id} | Type: ${msg.type} | Created: ${msg.created_at.toLocaleDateString()}\n` +
-        content
-      )
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `✅ **Task Created**\n\n${this.formatTask(task)}`,
+        },
+      ],
     }
+  }
 
-    const messageList = messages.map(formatMessage).join('\n')
+  private async handleUpdateTask(args: unknown): Promise<CallToolResult> {
+    const input = validateInput(UpdateTaskInput, args, 'update_task')
+
+    const task = await this.taskManager.updateTask(input, this.config.participant_id)
 
     return {
       content: [
         {
           type: 'text',
-          text: `📨 **${messages.length} Messages Found**\n\n${messageList}`,
+          text:
+            `✅ **Task Updated**\n\n${this.formatTask(task)}` +
+            (task.state === 'done' ? '\n\nIts message is resolved.' : ''),
         },
       ],
     }
   }
 
-  private async handleRespondMessage(args: unknown): Promise<any> {
-    const input = validateInput(RespondMessageInput, args, 'respond_message')
+  private async handleListTasks(args: unknown): Promise<CallToolResult> {
+    const input = validateInput(ListTasksInput, args, 'list_tasks')
 
-    const response = await this.messageManager.respondToMessage(input, this.config.participant_id)
+    const tasks = await this.taskManager.listTasks(input, this.config.participant_id)
+
+    if (tasks.length === 0) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: '📋 No tasks found',
+          },
+        ],
+      }
+    }
 
     return {
       content: [
         {
           type: 'text',
-          text: `✅ Response sent successfully!\n\n**Response ID:** ${response.id}\n**Original Message:** ${input.message_id}\n**Status:** ${input.resolution_status || 'responded'}`,
+          text: `📋 **${tasks.length} Tasks**\n\n${tasks.map(task => this.formatTask(task)).join('\n\n')}`,
         },
       ],
     }
@@ -653,7 +1992,8 @@ export class CoordinationMCPServer {
       semantic: rawInput.semantic ?? true,
     }
 
-    const results = await this.indexingEngine.searchMessages(input, this.config.participant_id)
+    const page = await this.indexingEngine.searchMessagesPage(input, this.config.participant_id)
+    const results = page.results
 
     if (results.length === 0) {
       return {
@@ -689,7 +2029,9 @@ export class CoordinationMCPServer {
       content: [
         {
           type: 'text',
-          text: `🔍 **${results.length} Search Results for "${input.query}"**\n\n${resultList}`,
+          text:
+            `🔍 **${results.length} Search Results for "${input.query}"**\n\n${resultList}` +
+            (page.next_cursor ? `\n\n**next_cursor:** ${page.next_cursor}` : ''),
         },
       ],
     }
@@ -744,14 +2086,159 @@ export class CoordinationMCPServer {
     }
   }
 
+  private async handleListThreads(args: unknown): Promise<CallToolResult> {
+    const input = validateInput(ListThreadsInput, args ?? {}, 'list_threads')
+
+    const threads = await this.conversationManager.listThreads(input, this.config.participant_id)
+
+    if (threads.length === 0) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: '📭 No threads found matching the criteria.',
+          },
+        ],
+      }
+    }
+
+    const threadList = threads
+      .map(thread => {
+        const status =
+          thread.status === 'active' ? '🟢' : thread.status === 'resolved' ? '✅' : '📁'
+
+        return (
+          `${status} **${thread.thread_id}** - ${thread.topic}\n` +
+          `   Participants: ${thread.participants.join(', ')}\n` +
+          `   Messages: ${thread.message_count} | Last activity: ${thread.last_activity.toLocaleString()}\n`
+        )
+      })
+      .join('\n')
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `🧵 **${threads.length} Threads Found**\n\n${threadList}`,
+        },
+      ],
+    }
+  }
+
+  private async handleGetThread(args: unknown): Promise<CallToolResult> {
+    const input = validateInput(GetThreadInput, args, 'get_thread')
+    const detailLevel = input.detail_level ?? 'summary'
+
+    const { conversation, messages, forwards } = await this.messageManager.getThread(
+      input,
+      this.config.participant_id
+    )
+
+    // Replies are nested under the message they answer
+    const messageList = buildThreadTree(messages)
+      .map(({ message: msg, depth }) => {
+        const indent = '    '.repeat(depth)
+        let content = ''
+        if (detailLevel === 'summary') {
+          content = `${indent}   ${msg.summary.substring(0, 150)}${msg.summary.length > 150 ? '...' : ''}\n`
+        } else if (detailLevel === 'full') {
+          const fullContent = msg.content_error
+            ? `⚠️ ${msg.content_error}`
+            : msg.content || msg.summary
+          content = `${indent}   ${fullContent.split('\n').join(`\n${indent}   `)}\n`
+        }
+
+        return (
+          `${indent}${depth > 0 ? '↳' : '•'} **${msg.id}** [${msg.status}] ${msg.subject}\n` +
+          `${indent}   ${msg.from} → ${msg.to.join(', ')} | ${msg.created_at.toLocaleString()}\n` +
+          content
+        )
+      })
+      .join('\n')
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text:
+            `🧵 **${conversation.topic}**\n\n` +
+            `**Thread ID:** ${conversation.thread_id}\n` +
+            `**Status:** ${conversation.status}\n` +
+            `${conversation.decision ? `**Decision:** ${conversation.decision}\n` : ''}` +
+            `**Participants:** ${conversation.participants.join(', ')}\n` +
+            `**Messages:** ${conversation.message_count}\n` +
+            `**Last Activity:** ${conversation.last_activity.toLocaleString()}\n` +
+            `${conversation.resolution_summary ? `**Resolution:** ${conversation.resolution_summary}\n` : ''}` +
+            `\n${messageList}` +
+            (forwards.length > 0
+              ? '\n\n**Forwarded:**\n' +
+                forwards
+                  .map(
+                    f =>
+                      `↪️ ${f.original_id} → **${f.message_id}** by ${f.forwarded_by} to ${f.to.join(', ')} (${f.forwarded_at.toLocaleString()})`
+                  )
+                  .join('\n')
+              : ''),
+        },
+      ],
+    }
+  }
+
+  private async handleSetThreadExpiry(args: unknown): Promise<CallToolResult> {
+    const input = validateInput(SetThreadExpiryInput, args, 'set_thread_expiry')
+
+    const conversation = await this.messageManager.setThreadExpiry(
+      input,
+      this.config.participant_id
+    )
+    const policy = conversation.expiry_policy
+    if (!policy) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text:
+              '⏳ **Thread Expiry Cleared**\n\n' +
+              `**Thread ID:** ${conversation.thread_id}\n` +
+              'Its messages follow the configured expiry policies again.',
+          },
+        ],
+      }
+    }
+
+    let text = `⏳ **Thread Expiry Set**\n\n**Thread ID:** ${conversation.thread_id}\n`
+    if (policy.expires_in_hours !== undefined) {
+      const expires =
+        policy.expires_in_hours === null ? 'never' : `${policy.expires_in_hours}h after sending`
+      text += `**Expires:** ${expires}\n`
+    }
+    if (policy.keep_alive_while_active !== undefined) {
+      text += `**Keep Alive While Active:** ${policy.keep_alive_while_active ? 'yes' : 'no'}\n`
+    }
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text,
+        },
+      ],
+    }
+  }
+
   private async handleArchiveResolved(_args: unknown): Promise<any> {
+    const escalations = await this.messageManager.escalateOverdueMessages(
+      this.config.escalation_rules
+    )
     const archivedCount = await this.messageManager.archiveExpiredMessages()
 
     return {
       content: [
         {
           type: 'text',
-          text: `📁 **Archive Complete**\n\n**Messages Archived:** ${archivedCount}`,
+          text:
+            `📁 **Archive Complete**\n\n**Messages Archived:** ${archivedCount}\n` +
+            `**Messages Escalated:** ${escalations.length}`,
         },
       ],
     }
@@ -835,14 +2322,29 @@ export class CoordinationMCPServer {
           '📤 **Send Message**\n\n' +
           'Send a coordination message to other Claude participants.\n\n' +
           '**Required Parameters:**\n' +
-          '• `to`: Array of participant IDs (e.g., ["@mobile", "@backend"])\n' +
-          '• `type`: Message type (arch, contract, sync, update, q, emergency, broadcast)\n' +
+          '• `to`: Array of recipients (e.g., ["@mobile", "@backend"]). Besides participant IDs,\n' +
+          '  `@all` addresses every active participant, `cap:<capability>` everyone with that\n' +
+          '  capability and `group:<name>` a named group. They are expanded when sending.\n' +
+          '  May be left out when `route_to` is given.\n' +
+          '• `type`: Message type (arch, contract, sync, update, q, emergency, broadcast, handoff)\n' +
           '• `priority`: Priority level (CRITICAL, H, M, L)\n' +
           '• `subject`: Brief subject line (max 200 chars)\n' +
           '• `content`: Message body\n\n' +
           '**Optional Parameters:**\n' +
           '• `response_required`: Whether response is needed (default: true)\n' +
-          '• `expires_in_hours`: Hours until expiry (default: 168)\n' +
+          '• `expires_in_hours`: Hours until expiry (default: from the expiry policies, else 168)\n' +
+          '• `send_at`: ISO date-time to deliver the message later instead of now\n' +
+          '• `depends_on`: IDs of messages this one waits on; it shows as blocked until they are resolved\n' +
+          '• `route_to`: Capability; one active participant with it is picked as a recipient\n' +
+          '• `routing`: `least_loaded` (default, fewest open requests awaiting a response) or `round_robin`\n' +
+          '• `reassign_after_minutes`: Re-route to someone else with the capability if the pick\n' +
+          '  has not responded by then\n' +
+          '• `attachments`: Files to attach, each `{ path }` in the project or `{ filename, content }` with base64\n' +
+          '  content, plus an optional `mime_type`; up to 10 files of 10 MB each\n' +
+          '• `proposal`: arch and contract only. `{ quorum, approvers }` turns the message into a\n' +
+          '  proposal recipients vote on with `ccp_vote`; quorum is `all`, `majority` (default) or\n' +
+          '  `approvers`, which needs the `approvers` list\n' +
+          '• `handoff`: Required for handoff messages; the fields of `ccp_handoff`\n' +
           '• `tags`: Array of tags for categorization\n' +
           '• `suggested_approach`: SuperClaude suggestions for recipient',
 
@@ -852,12 +2354,187 @@ export class CoordinationMCPServer {
           '**Optional Parameters:**\n' +
           '• `participant`: Filter by participant (defaults to you)\n' +
           '• `status`: Array of statuses to filter\n' +
+          '• `recipient_status`: Array of your own recipient states (delivered, read, responded, resolved)\n' +
           '• `type`: Array of message types to filter\n' +
           '• `priority`: Array of priorities to filter\n' +
           '• `since_hours`: Only messages from last N hours\n' +
           '• `thread_id`: Filter by specific thread\n' +
           '• `limit`: Max messages to return (default: 20, max: 100)\n' +
-          '• `detail_level`: Level of detail (index, summary, full) - defaults to full',
+          '• `cursor`: `next_cursor` from the previous page\n' +
+          '• `detail_level`: Level of detail (index, summary, full) - defaults to full\n' +
+          '• `triage`: Only messages you marked (pinned, starred, snoozed, done)\n\n' +
+          'Messages you snoozed or marked done are left out of active listings unless asked for\n' +
+          'with `triage`. Fetching at the `full` level marks messages as read. For messages you sent, the full\n' +
+          'level also lists which recipients have read them and when.\n\n' +
+          'Messages come highest priority first, then newest first. When there are more, the\n' +
+          'output ends with a `next_cursor`; pass it as `cursor` with the same filters.',
+
+        ccp_list_scheduled:
+          '⏰ **List Scheduled Messages**\n\n' +
+          'Show messages you sent with `send_at` that are still waiting for their time.\n' +
+          'Cancel one with `ccp_cancel_message`; recipients are not notified since they never saw it.',
+
+        ccp_get_changes:
+          '🔄 **Get Changes**\n\n' +
+          'Incremental sync for agents that poll: returns what changed on messages and threads you\n' +
+          'can see, oldest first, and a `high_water_mark`. Your last high-water mark is saved, so\n' +
+          'calling without parameters at the start of a session returns only what changed since.\n\n' +
+          '**Optional Parameters:**\n' +
+          '• `since_seq`: Start after this sequence number instead of your saved one\n' +
+          '• `limit`: Max changes to return (default: 100, max: 500)\n\n' +
+          '**Change kinds:** message_created (also when a scheduled or reassigned message reaches\n' +
+          'you), message_status_changed, message_edited, thread_status_changed',
+
+        ccp_edit_message:
+          '✏️ **Edit Message**\n\n' +
+          'Amend a message you sent instead of sending a correction. Only the sender can edit,\n' +
+          'and only while the message is unresolved. Every version is kept.\n\n' +
+          '**Required Parameters:**\n' +
+          '• `message_id`: ID of the message to edit\n\n' +
+          '**Optional Parameters (at least one):**\n' +
+          '• `subject`: New subject\n' +
+          '• `content`: New content\n' +
+          '• `priority`: New priority (CRITICAL, H, M, L)\n' +
+          '• `tags`: New tags',
+
+        ccp_get_revisions:
+          '📝 **Get Revisions**\n\n' +
+          'Show how an edited message changed, with a line diff of its content.\n\n' +
+          '**Required Parameters:**\n' +
+          '• `message_id`: ID of the message',
+
+        ccp_forward_message:
+          '↪️ **Forward Message**\n\n' +
+          'Copy a message you sent or received into a new thread for other participants,\n' +
+          'e.g. a question that landed with the wrong agent. The copy keeps the full content\n' +
+          'and suggested approach, links back to the original, and the original thread lists it.\n\n' +
+          '**Required Parameters:**\n' +
+          '• `message_id`: ID of the message to forward\n' +
+          '• `to`: Participants to forward it to\n\n' +
+          '**Optional Parameters:**\n' +
+          '• `note`: Note shown above the forwarded content\n\n' +
+          'Attachments are forwarded along with the message.',
+
+        ccp_get_attachment:
+          '📎 **Get Attachment**\n\n' +
+          'Get a file attached to a message you sent or received. Text files (logs, JSON,\n' +
+          'patches) are shown as text, images as images and anything else as base64.\n' +
+          'The content is checked against its sha256 before it is returned.\n\n' +
+          '**Required Parameters:**\n' +
+          '• `attachment_id`: ID of the attachment, as listed with the message',
+
+        ccp_get_dependency_graph:
+          '🔗 **Get Dependency Graph**\n\n' +
+          'Show what a message waits on and what waits on it, transitively.\n' +
+          'Resolving a message notifies the participants of messages it unblocks.\n\n' +
+          '**Required Parameters:**\n' +
+          '• `message_id`: ID of the message\n\n' +
+          '**Optional Parameters:**\n' +
+          '• `max_depth`: Dependency hops to follow in each direction (default: 10)',
+
+        ccp_cancel_message:
+          '🚫 **Cancel Message**\n\n' +
+          'Retract a message you sent, e.g. a question you answered yourself.\n' +
+          'Only the sender can cancel, and only before any recipient has responded.\n' +
+          'Recipients are notified with an update message.\n\n' +
+          '**Required Parameters:**\n' +
+          '• `message_id`: ID of the message to cancel\n' +
+          '• `reason`: Why the message is no longer needed',
+
+        ccp_mark_read:
+          '👁️ **Mark Messages Read**\n\n' +
+          'Mark messages as read without fetching their full content.\n\n' +
+          '**Required Parameters:**\n' +
+          '• `message_ids`: Array of message IDs you received',
+
+        ccp_snooze_message:
+          '💤 **Snooze Message**\n\n' +
+          'Hide a message from your own inbox until a later time. The sender and other\n' +
+          'recipients are not affected.\n\n' +
+          '**Required Parameters:**\n' +
+          '• `message_id`: ID of the message\n' +
+          '• `until`: When it comes back (ISO 8601), or null to wake it now',
+
+        ccp_triage_message:
+          '🗂️ **Triage Message**\n\n' +
+          'Pin, star or mark a message done for yourself. Done messages leave your inbox without\n' +
+          'resolving them for anyone else. Only the fields you pass change.\n\n' +
+          '**Required Parameters:**\n' +
+          '• `message_id`: ID of the message\n\n' +
+          '**Optional Parameters:**\n' +
+          '• `pinned`: Pin or unpin\n' +
+          '• `starred`: Star or unstar\n' +
+          '• `done`: Mark done for you, or false to bring it back',
+
+        ccp_vote:
+          '🗳️ **Vote on a Proposal**\n\n' +
+          'Approve, reject or abstain on an arch or contract proposal. The vote and rationale are\n' +
+          'posted to the thread, so every sign-off stays on record. You can vote again to change\n' +
+          'your mind until the quorum is met; then the proposal and its thread are accepted or\n' +
+          'rejected for good. A thread with an undecided proposal cannot be closed as complete.\n\n' +
+          '**Required Parameters:**\n' +
+          '• `message_id`: ID of the proposal\n' +
+          '• `vote`: approve, reject or abstain\n' +
+          '• `rationale`: Why',
+
+        ccp_handoff:
+          '🤝 **Hand Work Over**\n\n' +
+          'Send a handoff when another session has to carry on your work, e.g. before you run out\n' +
+          'of context. Its state goes in structured fields instead of free-form content, so none\n' +
+          'of it is lost on the way.\n\n' +
+          '**Required Parameters:**\n' +
+          '• `to`: Who picks the work up\n' +
+          '• `goal`: What the work is for and where it stands\n\n' +
+          '**Optional Parameters:**\n' +
+          '• `branch`: Branch the work is on\n' +
+          '• `files_touched`: Files you changed or were reading\n' +
+          '• `commands_run`: Commands that matter, e.g. how you built and tested\n' +
+          '• `open_questions`: What is still undecided\n' +
+          '• `next_steps`: What to do next, in order\n' +
+          '• `notes`: Anything else, stored as the message content\n' +
+          '• `priority`: Priority level (default: H)',
+
+        ccp_accept_handoff:
+          '🤝 **Accept Handoff**\n\n' +
+          'Take over the work of a handoff sent to you. Returns a compact brief: goal, branch,\n' +
+          'next steps, open questions, files, commands and notes. The first recipient to accept\n' +
+          'takes the work over and the handoff is resolved; accepting it again returns the brief\n' +
+          'again.\n\n' +
+          '**Required Parameters:**\n' +
+          '• `message_id`: ID of the handoff message',
+
+        ccp_create_task:
+          '📋 **Create Task**\n\n' +
+          'Turn a q or sync message into a task. The conversation stays in its thread; the task adds\n' +
+          'an owner, a due date and a state (todo, in_progress, blocked, done) for the board.\n\n' +
+          '**Required Parameters:**\n' +
+          '• `message_id`: ID of the q or sync message\n\n' +
+          '**Optional Parameters:**\n' +
+          '• `assignee`: Sender or recipient who owns it (defaults to you)\n' +
+          '• `due_at`: When it is due (ISO date-time)\n' +
+          '• `title`: Title on the board (defaults to the subject)',
+
+        ccp_update_task:
+          '📋 **Update Task**\n\n' +
+          'Move a task along, reassign it, change its due date or leave a note. Anyone on its\n' +
+          'message can. Marking it done resolves the message as complete.\n\n' +
+          '**Required Parameters:**\n' +
+          '• `message_id`: ID of the task message\n\n' +
+          '**Optional Parameters (at least one):**\n' +
+          '• `state`: todo, in_progress, blocked or done\n' +
+          '• `assignee`: New owner\n' +
+          '• `due_at`: New due date, or null to clear it\n' +
+          '• `note`: Short status note',
+
+        ccp_list_tasks:
+          '📋 **List Tasks**\n\n' +
+          'List tasks on messages you sent or received, soonest due first.\n\n' +
+          '**Optional Parameters:**\n' +
+          '• `assignee`: Only tasks owned by this participant\n' +
+          '• `state`: Only tasks in these states\n' +
+          '• `thread_id`: Only tasks in this thread\n' +
+          '• `overdue_only`: Only open tasks past their due date\n' +
+          '• `limit`: Maximum number of tasks (default 50)',
 
         ccp_respond_message:
           '💬 **Respond to Message**\n\n' +
@@ -866,7 +2543,10 @@ export class CoordinationMCPServer {
           '• `message_id`: ID of message to respond to\n' +
           '• `content`: Your response content\n\n' +
           '**Optional Parameters:**\n' +
-          '• `resolution_status`: Status (partial, complete, requires_followup, blocked)',
+          '• `resolution_status`: Status (partial, complete, requires_followup, blocked)\n' +
+          '• `reply_all`: Address every thread participant instead of only the sender\n' +
+          '• `to`: Recipients to use instead of the sender\n' +
+          '• `cc`: Additional recipients, e.g. to bring someone new into the thread',
 
         ccp_search_messages:
           '🔍 **Search Messages**\n\n' +
@@ -878,7 +2558,10 @@ export class CoordinationMCPServer {
           '• `tags`: Filter by tags\n' +
           '• `date_range`: Filter by date range\n' +
           '• `participants`: Filter by participants\n' +
-          '• `limit`: Max results (default: 10, max: 50)',
+          '• `limit`: Max results (default: 10, max: 50)\n' +
+          '• `cursor`: `next_cursor` from the previous page\n\n' +
+          'Results come highest priority first, then newest first. When there are more, the\n' +
+          'output ends with a `next_cursor`; pass it as `cursor` with the same query.',
 
         ccp_compact_thread:
           '🗜️ **Compact Thread**\n\n' +
@@ -892,16 +2575,48 @@ export class CoordinationMCPServer {
 
         ccp_close_thread:
           '🔒 **Close Thread**\n\n' +
-          'Close an entire thread by marking all messages as resolved.\n\n' +
+          'Close an entire thread by marking all messages as resolved. A thread with a proposal\n' +
+          'that has no decision yet can only be closed as partial, requires_followup or blocked.\n' +
+          'Closing an arch thread with a final summary writes it as an architecture decision\n' +
+          'record in the ADR directory (docs/adr by default).\n\n' +
           '**Required Parameters:**\n' +
           '• `thread_id`: Thread ID to close (format: message_id + "-thread", e.g., "CONTRACT-abc123-XYZ-thread")\n\n' +
           '**Optional Parameters:**\n' +
           '• `resolution_status`: Resolution status (complete, partial, requires_followup, blocked)\n' +
           '• `final_summary`: Optional final summary message',
 
+        ccp_list_threads:
+          '🧵 **List Threads**\n\n' +
+          'List conversation threads you participate in, most recently active first.\n\n' +
+          '**Optional Parameters:**\n' +
+          '• `participant`: Only threads that also include this participant\n' +
+          '• `status`: Array of thread statuses (active, resolved, archived)\n' +
+          '• `since_hours`: Only threads active in the last N hours\n' +
+          '• `limit`: Max threads to return (default: 20, max: 100)',
+
+        ccp_get_thread:
+          '🧵 **Get Thread**\n\n' +
+          'Get a thread overview (topic, participants, status) with all of its messages.\n' +
+          'Replies are indented under the message they answer.\n\n' +
+          '**Required Parameters:**\n' +
+          '• `thread_id`: Thread ID (a message ID from the thread is also accepted)\n\n' +
+          '**Optional Parameters:**\n' +
+          '• `detail_level`: Level of detail per message (index, summary, full) - defaults to summary',
+
+        ccp_set_thread_expiry:
+          '⏳ **Set Thread Expiry**\n\n' +
+          'Override the configured expiry policies for one thread. Without expires_in_hours or\n' +
+          'keep_alive_while_active, the override is cleared.\n\n' +
+          '**Required Parameters:**\n' +
+          '• `thread_id`: Thread ID (a message ID from the thread is also accepted)\n\n' +
+          '**Optional Parameters:**\n' +
+          '• `expires_in_hours`: Hours after sending that messages in the thread expire, null for never\n' +
+          '• `keep_alive_while_active`: Do not archive expired messages while the thread is active',
+
         ccp_archive_resolved:
           '📁 **Archive Resolved**\n\n' +
-          'Archive resolved messages automatically.\n\n' +
+          'Archive resolved messages automatically. Escalation rules from the config are applied\n' +
+          'to unanswered messages first.\n\n' +
           '**Optional Parameters:**\n' +
           '• `older_than_days`: Archive messages older than N days (default: 30)\n' +
           '• `preserve_critical`: Keep critical messages (default: true)\n' +
@@ -949,7 +2664,27 @@ export class CoordinationMCPServer {
             '📤 `ccp_send_message` - Send coordination messages\n' +
             '📨 `ccp_get_messages` - Retrieve messages with filters\n' +
             '💬 `ccp_respond_message` - Respond to messages\n' +
+            '👁️ `ccp_mark_read` - Mark messages as read\n' +
+            '💤 `ccp_snooze_message` - Hide a message from your inbox until later\n' +
+            '🗂️ `ccp_triage_message` - Pin, star or mark a message done for yourself\n' +
+            '🗳️ `ccp_vote` - Vote on an arch or contract proposal\n' +
+            '🤝 `ccp_handoff` - Hand your work over to another session\n' +
+            '🤝 `ccp_accept_handoff` - Take over a handoff and get its brief\n' +
+            '📋 `ccp_create_task` - Turn a q or sync message into a task\n' +
+            '📋 `ccp_update_task` - Move a task along or reassign it\n' +
+            '📋 `ccp_list_tasks` - List tasks, soonest due first\n' +
+            '⏰ `ccp_list_scheduled` - List messages scheduled for later\n' +
+            '🔄 `ccp_get_changes` - Get what changed since your last call\n' +
+            '✏️ `ccp_edit_message` - Edit a message you sent\n' +
+            '📝 `ccp_get_revisions` - Show what changed in an edited message\n' +
+            '↪️ `ccp_forward_message` - Forward a message into a new thread\n' +
+            '📎 `ccp_get_attachment` - Get a file attached to a message\n' +
+            '🔗 `ccp_get_dependency_graph` - Show what a message waits on and what waits on it\n' +
+            '🚫 `ccp_cancel_message` - Cancel a message you sent\n' +
             '🔍 `ccp_search_messages` - Search message history\n' +
+            '🧵 `ccp_list_threads` - List your conversation threads\n' +
+            '🧵 `ccp_get_thread` - Show a thread with all its messages\n' +
+            '⏳ `ccp_set_thread_expiry` - Override how long a thread is kept\n' +
             '🗜️ `ccp_compact_thread` - Optimize thread token usage\n' +
             '📁 `ccp_archive_resolved` - Archive old messages\n' +
             '📊 `ccp_get_stats` - View system statistics\n' +
@@ -963,7 +2698,8 @@ export class CoordinationMCPServer {
             '• `update`: Status updates\n' +
             '• `q`: Questions needing answers\n' +
             '• `emergency`: Urgent issues\n' +
-            '• `broadcast`: Announcements to all\n\n' +
+            '• `broadcast`: Announcements to all\n' +
+            '• `handoff`: Work handed over to another session\n\n' +
             '**Priority Levels:**\n' +
             '• `CRITICAL`: Immediate action required\n' +
             '• `H`: High priority\n' +
@@ -1067,7 +2803,8 @@ export class CoordinationMCPServer {
         '• `update` - Progress reports, status changes\n' +
         '• `q` - Questions needing answers\n' +
         '• `emergency` - Blocking issues, critical bugs\n' +
-        '• `broadcast` - Team-wide announcements\n\n' +
+        '• `broadcast` - Team-wide announcements\n' +
+        '• `handoff` - Passing your work to another session, use `ccp_handoff`\n\n' +
         '**Priority Guidelines:**\n' +
         '• `CRITICAL` - Blocking work, production issues\n' +
         '• `H` - Important, needs attention soon\n' +
@@ -1374,5 +3111,31 @@ export class CoordinationMCPServer {
     await this.server.connect(transport)
     // eslint-disable-next-line no-console
     console.error('Claude Coordination Protocol MCP server running on stdio')
+
+    this.startScheduler()
+  }
+
+  /**
+   * Send due scheduled messages, re-route overdue routed messages and escalate unanswered
+   * ones now and then once a minute while the server runs
+   */
+  private startScheduler(): void {
+    // Each step runs even when the one before it failed
+    const step = async (task: () => Promise<unknown>) => {
+      try {
+        await task()
+      } catch (error) {
+        // eslint-disable-next-line no-console
+        console.error('[Scheduler Error]', error)
+      }
+    }
+    const runDue = async () => {
+      await step(() => this.scheduleManager.runDueSchedules())
+      await step(() => this.messageManager.reassignOverdueMessages())
+      await step(() => this.messageManager.escalateOverdueMessages(this.config.escalation_rules))
+    }
+
+    void runDue()
+    setInterval(runDue, 60 * 1000).unref()
   }
 }
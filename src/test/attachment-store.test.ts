@@ -0,0 +1,233 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { createHash } from 'crypto'
+import { CoordinationDatabase } from '../database/connection.js'
+import { MessageManager } from '../core/message-manager.js'
+import {
+  MAX_ATTACHMENT_BYTES,
+  guessMimeType,
+  resolveAttachmentPath,
+} from '../core/attachment-store.js'
+import { ParticipantRegistry } from '../core/participant-registry.js'
+import { createTestDataDir } from './setup.js'
+import type { SendMessageInput, ParticipantId } from '../types/index.js'
+import fs from 'fs'
+import path from 'path'
+
+describe('Message attachments', () => {
+  let db: CoordinationDatabase
+  let messageManager: MessageManager
+  let testDataDir: string
+  const backend: ParticipantId = '@backend'
+  const mobile: ParticipantId = '@mobile'
+  const web: ParticipantId = '@web'
+
+  const stackTrace = 'TypeError: Cannot read properties of undefined\n    at handler (api.ts:42)\n'
+  const baseInput: SendMessageInput = {
+    to: [mobile],
+    type: 'q',
+    priority: 'H',
+    subject: 'Crash on login',
+    content: 'Stack trace attached.',
+    response_required: true,
+    expires_in_hours: 24,
+  }
+
+  const countBlobs = () =>
+    fs
+      .readdirSync(path.join(testDataDir, 'attachments'), { recursive: true, withFileTypes: true })
+      .filter(entry => entry.isFile()).length
+
+  beforeEach(async () => {
+    testDataDir = createTestDataDir()
+    fs.mkdirSync(testDataDir, { recursive: true })
+
+    db = new CoordinationDatabase(testDataDir)
+    messageManager = new MessageManager(db, testDataDir)
+
+    const participantRegistry = new ParticipantRegistry(db, testDataDir)
+    for (const id of [backend, mobile, web]) {
+      await participantRegistry.registerParticipant({
+        id,
+        capabilities: [],
+        default_priority: 'M',
+      })
+    }
+  })
+
+  afterEach(() => {
+    if (db) {
+      db.close()
+    }
+    if (testDataDir && fs.existsSync(testDataDir)) {
+      fs.rmSync(testDataDir, { recursive: true, force: true })
+    }
+  })
+
+  it('should store inline and path attachments with size, MIME type and sha256', async () => {
+    const specPath = path.join(testDataDir, 'openapi.json')
+    fs.writeFileSync(specPath, '{"openapi":"3.1.0"}')
+
+    const message = await messageManager.createMessage(
+      {
+        ...baseInput,
+        attachments: [
+          { filename: 'crash.log', content: Buffer.from(stackTrace).toString('base64') },
+          { path: specPath },
+        ],
+      },
+      backend
+    )
+
+    expect(message.attachments).toHaveLength(2)
+    expect(message.attachments![0]).toMatchObject({
+      message_id: message.id,
+      filename: 'crash.log',
+      mime_type: 'text/plain',
+      size: Buffer.byteLength(stackTrace),
+      sha256: createHash('sha256').update(stackTrace).digest('hex'),
+    })
+    expect(message.attachments![1]).toMatchObject({
+      filename: 'openapi.json',
+      mime_type: 'application/json',
+    })
+
+    const received = await messageManager.getMessageById(message.id, mobile)
+    expect(received!.attachments!.map(a => a.id)).toEqual(message.attachments!.map(a => a.id))
+
+    const { attachment, content } = await messageManager.getAttachment(
+      { attachment_id: message.attachments![0].id },
+      mobile
+    )
+    expect(attachment.filename).toBe('crash.log')
+    expect(content.toString('utf-8')).toBe(stackTrace)
+  })
+
+  it('should keep identical content only once', async () => {
+    const attachments = [
+      { filename: 'crash.log', content: Buffer.from(stackTrace).toString('base64') },
+    ]
+    await messageManager.createMessage({ ...baseInput, attachments }, backend)
+    await messageManager.createMessage({ ...baseInput, to: [web], attachments }, backend)
+
+    expect(countBlobs()).toBe(1)
+  })
+
+  it('should reject invalid attachments without sending the message', async () => {
+    const tooLarge = Buffer.alloc(MAX_ATTACHMENT_BYTES + 1).toString('base64')
+
+    await expect(
+      messageManager.createMessage(
+        { ...baseInput, attachments: [{ filename: 'huge.bin', content: tooLarge }] },
+        backend
+      )
+    ).rejects.toThrow('Attachment too large: huge.bin')
+    await expect(
+      messageManager.createMessage(
+        { ...baseInput, attachments: [{ path: path.join(testDataDir, 'missing.log') }] },
+        backend
+      )
+    ).rejects.toThrow('Cannot read attachment')
+    await expect(
+      messageManager.createMessage({ ...baseInput, attachments: [{ content: 'aGk=' }] }, backend)
+    ).rejects.toThrow('Attachment needs either a path or a filename and base64 content')
+
+    expect(await messageManager.getMessages({ limit: 20 }, mobile)).toEqual([])
+  })
+
+  it('should only resolve attachment paths inside the project root', async () => {
+    const root = path.join(testDataDir, 'project')
+    fs.mkdirSync(path.join(root, 'docs'), { recursive: true })
+    fs.writeFileSync(path.join(root, 'docs', 'spec.md'), '# Spec')
+    fs.writeFileSync(path.join(testDataDir, 'secret.txt'), 'token')
+    fs.symlinkSync(path.join(testDataDir, 'secret.txt'), path.join(root, 'link.txt'))
+    const realRoot = fs.realpathSync(root)
+
+    expect(await resolveAttachmentPath('docs/spec.md', root)).toBe(
+      path.join(realRoot, 'docs', 'spec.md')
+    )
+    expect(await resolveAttachmentPath('docs/../docs/spec.md', root)).toBe(
+      path.join(realRoot, 'docs', 'spec.md')
+    )
+
+    for (const outside of ['../secret.txt', 'docs/../../secret.txt', '/etc/passwd', 'link.txt']) {
+      await expect(resolveAttachmentPath(outside, root)).rejects.toThrow(
+        `Attachment path is outside the project: ${outside}`
+      )
+    }
+    await expect(resolveAttachmentPath(path.join(root, 'docs', 'spec.md'), root)).rejects.toThrow(
+      'Attachment path is outside the project'
+    )
+  })
+
+  it('should only give attachments to participants who can see the message', async () => {
+    const message = await messageManager.createMessage(
+      {
+        ...baseInput,
+        attachments: [
+          { filename: 'crash.log', content: Buffer.from(stackTrace).toString('base64') },
+        ],
+      },
+      backend
+    )
+
+    await expect(
+      messageManager.getAttachment({ attachment_id: message.attachments![0].id }, web)
+    ).rejects.toThrow('Access denied')
+    await expect(
+      messageManager.getAttachment({ attachment_id: 'ATT-missing-0000' }, mobile)
+    ).rejects.toThrow('Attachment not found: ATT-missing-0000')
+  })
+
+  it('should detect content that no longer matches its sha256', async () => {
+    const message = await messageManager.createMessage(
+      {
+        ...baseInput,
+        attachments: [
+          { filename: 'crash.log', content: Buffer.from(stackTrace).toString('base64') },
+        ],
+      },
+      backend
+    )
+    const { sha256, id } = message.attachments![0]
+    fs.writeFileSync(path.join(testDataDir, 'attachments', sha256.substring(0, 2), sha256), 'oops')
+
+    await expect(messageManager.getAttachment({ attachment_id: id }, mobile)).rejects.toThrow(
+      `Attachment content is corrupted: ${id}`
+    )
+  })
+
+  it('should forward attachments without copying their content', async () => {
+    const message = await messageManager.createMessage(
+      {
+        ...baseInput,
+        attachments: [
+          { filename: 'crash.log', content: Buffer.from(stackTrace).toString('base64') },
+        ],
+      },
+      backend
+    )
+
+    const forwarded = await messageManager.forwardMessage(
+      { message_id: message.id, to: [web] },
+      mobile
+    )
+
+    expect(forwarded.attachments).toHaveLength(1)
+    expect(forwarded.attachments![0].id).not.toBe(message.attachments![0].id)
+    expect(forwarded.attachments![0].sha256).toBe(message.attachments![0].sha256)
+    expect(countBlobs()).toBe(1)
+
+    const { content } = await messageManager.getAttachment(
+      { attachment_id: forwarded.attachments![0].id },
+      web
+    )
+    expect(content.toString('utf-8')).toBe(stackTrace)
+  })
+
+  it('should guess MIME types from file names', () => {
+    expect(guessMimeType('fix.patch')).toBe('text/x-diff')
+    expect(guessMimeType('Screenshot.PNG')).toBe('image/png')
+    expect(guessMimeType('schema.yml')).toBe('application/yaml')
+    expect(guessMimeType('core.dump')).toBe('application/octet-stream')
+  })
+})
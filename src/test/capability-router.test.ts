@@ -0,0 +1,206 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { addMinutes } from 'date-fns'
+import { CoordinationDatabase } from '../database/connection.js'
+import { MessageManager } from '../core/message-manager.js'
+import { CapabilityRouter } from '../core/capability-router.js'
+import { ParticipantRegistry } from '../core/participant-registry.js'
+import { createTestDataDir } from './setup.js'
+import type { SendMessageInput, ParticipantId } from '../types/index.js'
+import fs from 'fs'
+
+describe('CapabilityRouter', () => {
+  let db: CoordinationDatabase
+  let participantRegistry: ParticipantRegistry
+  let router: CapabilityRouter
+  let messageManager: MessageManager
+  let testDataDir: string
+  const hub: ParticipantId = '@hub'
+  const dbaOne: ParticipantId = '@dba-one'
+  const dbaTwo: ParticipantId = '@dba-two'
+  const dbaThree: ParticipantId = '@dba-three'
+
+  const routedInput: SendMessageInput = {
+    to: [],
+    route_to: 'database',
+    type: 'q',
+    priority: 'M',
+    subject: 'Index review',
+    content: 'Can someone review the new indexes?',
+    response_required: true,
+    expires_in_hours: 24,
+  }
+
+  beforeEach(async () => {
+    testDataDir = createTestDataDir()
+    fs.mkdirSync(testDataDir, { recursive: true })
+
+    db = new CoordinationDatabase(testDataDir)
+    participantRegistry = new ParticipantRegistry(db, testDataDir)
+    router = new CapabilityRouter(db, participantRegistry)
+    messageManager = new MessageManager(db, testDataDir)
+
+    for (const [id, capabilities] of [
+      [hub, ['coordination', 'database']],
+      [dbaOne, ['database']],
+      [dbaTwo, ['database']],
+      [dbaThree, ['database']],
+    ] as const) {
+      await participantRegistry.registerParticipant({
+        id,
+        capabilities: [...capabilities],
+        default_priority: 'M',
+      })
+    }
+  })
+
+  afterEach(() => {
+    if (db) {
+      db.close()
+    }
+    if (testDataDir && fs.existsSync(testDataDir)) {
+      fs.rmSync(testDataDir, { recursive: true, force: true })
+    }
+  })
+
+  it('should pick the participant with the fewest open requests', async () => {
+    const direct = { ...routedInput, route_to: undefined }
+    await messageManager.createMessage({ ...direct, to: [dbaOne, dbaThree] }, hub)
+    await messageManager.createMessage({ ...direct, to: [dbaOne] }, hub)
+    // Nothing to answer, so it doesn't count towards @dba-two's load
+    await messageManager.createMessage({ ...direct, to: [dbaTwo], response_required: false }, hub)
+
+    const message = await messageManager.createMessage(routedInput, hub)
+
+    expect(message.to).toEqual([dbaTwo])
+    expect(message.routing).toMatchObject({
+      capability: 'database',
+      strategy: 'least_loaded',
+      assigned_to: dbaTwo,
+      previous: [],
+    })
+  })
+
+  it('should prefer the most recently seen participant on equal load', async () => {
+    db.prepare('UPDATE participants SET last_seen = ? WHERE id = ?').run(
+      new Date(Date.now() - 60 * 60 * 1000).toISOString(),
+      dbaOne
+    )
+    db.prepare('UPDATE participants SET last_seen = ? WHERE id = ?').run(
+      new Date(Date.now() - 30 * 60 * 1000).toISOString(),
+      dbaTwo
+    )
+
+    expect(await router.pickParticipant('database', 'least_loaded', [hub])).toBe(dbaThree)
+  })
+
+  it('should take turns with round robin', async () => {
+    const picks: ParticipantId[] = []
+    for (let i = 0; i < 4; i++) {
+      const message = await messageManager.createMessage(
+        { ...routedInput, routing: 'round_robin' },
+        hub
+      )
+      picks.push(message.routing!.assigned_to)
+    }
+
+    expect(picks).toEqual([dbaOne, dbaThree, dbaTwo, dbaOne])
+  })
+
+  it('should never route to the sender or inactive participants', async () => {
+    await participantRegistry.deactivateParticipant(dbaTwo, dbaTwo)
+    await participantRegistry.deactivateParticipant(dbaThree, dbaThree)
+
+    const message = await messageManager.createMessage(routedInput, dbaOne)
+    expect(message.to).toEqual([hub])
+
+    await expect(
+      messageManager.createMessage({ ...routedInput, route_to: 'coordination' }, hub)
+    ).rejects.toThrow('No active participant with capability: coordination')
+  })
+
+  it('should keep explicit recipients alongside the routed one', async () => {
+    const message = await messageManager.createMessage({ ...routedInput, to: ['@dba-three'] }, hub)
+
+    expect(message.to).toHaveLength(2)
+    expect(message.to[0]).toBe(dbaThree)
+    // Someone not already addressed is picked
+    expect(message.to[1]).toBe(message.routing!.assigned_to)
+    expect(message.routing!.assigned_to).not.toBe(dbaThree)
+  })
+
+  it('should reject reassign_after_minutes without route_to', async () => {
+    await expect(
+      messageManager.createMessage(
+        { ...routedInput, to: [dbaOne], route_to: undefined, reassign_after_minutes: 30 },
+        hub
+      )
+    ).rejects.toThrow('reassign_after_minutes requires route_to')
+  })
+
+  describe('reassignOverdueMessages', () => {
+    it('should re-route to someone not yet tried once the assignee is overdue', async () => {
+      const message = await messageManager.createMessage(
+        { ...routedInput, routing: 'round_robin', reassign_after_minutes: 30 },
+        hub
+      )
+      expect(message.routing!.assigned_to).toBe(dbaOne)
+
+      expect(await messageManager.reassignOverdueMessages(addMinutes(new Date(), 10))).toEqual([])
+
+      const firstDeadline = addMinutes(new Date(), 31)
+      const [reassigned] = await messageManager.reassignOverdueMessages(firstDeadline)
+      expect(reassigned.to).toEqual([dbaThree])
+      expect(reassigned.routing).toMatchObject({ assigned_to: dbaThree, previous: [dbaOne] })
+
+      // The previous assignee no longer has it in their inbox
+      expect(await messageManager.getMessages({ limit: 20 }, dbaOne)).toEqual([])
+      const inbox = await messageManager.getMessages({ limit: 20 }, dbaThree)
+      expect(inbox.map(m => m.id)).toEqual([message.id])
+
+      const [again] = await messageManager.reassignOverdueMessages(addMinutes(firstDeadline, 31))
+      expect(again.routing).toMatchObject({ assigned_to: dbaTwo, previous: [dbaOne, dbaThree] })
+
+      // Everyone with the capability has had it, so it stays put
+      expect(await messageManager.reassignOverdueMessages(addMinutes(firstDeadline, 62))).toEqual(
+        []
+      )
+    })
+
+    it('should keep addressed recipients that routing picked as its assignee', async () => {
+      // Everyone with the capability is addressed, so routing picks one of them
+      const message = await messageManager.createMessage(
+        { ...routedInput, to: [dbaOne, dbaTwo, dbaThree], reassign_after_minutes: 30 },
+        hub
+      )
+      const first = message.routing!.assigned_to
+      expect(message.routing!.assigned_added).toBe(false)
+
+      const [reassigned] = await messageManager.reassignOverdueMessages(addMinutes(new Date(), 31))
+      expect(reassigned.routing).toMatchObject({ assigned_added: false, previous: [first] })
+      expect(reassigned.to).toEqual([dbaOne, dbaTwo, dbaThree])
+
+      // It was addressed to them, so it stays in their inbox
+      const inbox = await messageManager.getMessages({ limit: 20 }, first)
+      expect(inbox.map(m => m.id)).toEqual([message.id])
+    })
+
+    it('should leave messages alone once the assignee has responded', async () => {
+      const message = await messageManager.createMessage(
+        { ...routedInput, reassign_after_minutes: 30 },
+        hub
+      )
+      await messageManager.respondToMessage(
+        { message_id: message.id, content: 'On it' },
+        message.routing!.assigned_to
+      )
+
+      expect(await messageManager.reassignOverdueMessages(addMinutes(new Date(), 60))).toEqual([])
+    })
+
+    it('should not re-route messages sent without reassign_after_minutes', async () => {
+      await messageManager.createMessage(routedInput, hub)
+
+      expect(await messageManager.reassignOverdueMessages(addMinutes(new Date(), 600))).toEqual([])
+    })
+  })
+})
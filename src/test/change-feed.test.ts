@@ -0,0 +1,165 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { CoordinationDatabase } from '../database/connection.js'
+import { MessageManager } from '../core/message-manager.js'
+import { ChangeFeed } from '../core/change-feed.js'
+import { ParticipantRegistry } from '../core/participant-registry.js'
+import { createTestDataDir } from './setup.js'
+import { SendMessageInput, ParticipantId } from '../types/index.js'
+import fs from 'fs'
+
+describe('ChangeFeed', () => {
+  let db: CoordinationDatabase
+  let messageManager: MessageManager
+  let changeFeed: ChangeFeed
+  let testDataDir: string
+  const backend: ParticipantId = '@backend'
+  const mobile: ParticipantId = '@mobile'
+  const web: ParticipantId = '@web'
+
+  const baseInput: SendMessageInput = {
+    to: [mobile],
+    type: 'q',
+    priority: 'H',
+    subject: 'Pagination',
+    content: 'Cursor or offset?',
+    response_required: true,
+    expires_in_hours: 24,
+  }
+
+  const kinds = async (participant: ParticipantId) =>
+    (await changeFeed.getChanges({}, participant)).changes.map(c => [c.kind, c.message_id])
+
+  beforeEach(async () => {
+    testDataDir = createTestDataDir()
+    fs.mkdirSync(testDataDir, { recursive: true })
+
+    db = new CoordinationDatabase(testDataDir)
+    messageManager = new MessageManager(db, testDataDir)
+    changeFeed = new ChangeFeed(db)
+
+    const participantRegistry = new ParticipantRegistry(db, testDataDir)
+    for (const id of [backend, mobile, web]) {
+      await participantRegistry.registerParticipant({
+        id,
+        capabilities: id === backend ? [] : ['ios'],
+        default_priority: 'M',
+      })
+    }
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+    if (db) {
+      db.close()
+    }
+    if (testDataDir && fs.existsSync(testDataDir)) {
+      fs.rmSync(testDataDir, { recursive: true, force: true })
+    }
+  })
+
+  it('should only return changes once, and only to participants who can see them', async () => {
+    const message = await messageManager.createMessage(baseInput, backend)
+
+    const first = await changeFeed.getChanges({}, mobile)
+    expect(first.changes).toEqual([
+      expect.objectContaining({
+        kind: 'message_created',
+        message_id: message.id,
+        thread_id: message.thread_id,
+        status: 'pending',
+      }),
+    ])
+    expect(first.high_water_mark).toBe(first.changes[0].seq)
+    expect(first.has_more).toBe(false)
+
+    expect(await kinds(mobile)).toEqual([])
+    expect(await kinds(web)).toEqual([])
+    expect(await kinds(backend)).toEqual([['message_created', message.id]])
+  })
+
+  it('should record status changes, edits and thread closes', async () => {
+    const message = await messageManager.createMessage(baseInput, backend)
+    await changeFeed.getChanges({}, backend)
+
+    await messageManager.editMessage(
+      { message_id: message.id, content: 'Cursor, please.' },
+      backend
+    )
+    await messageManager.markRead({ message_ids: [message.id] }, mobile)
+    await messageManager.closeThread({ thread_id: message.thread_id }, backend)
+
+    const { changes } = await changeFeed.getChanges({}, backend)
+    expect(changes.map(c => [c.kind, c.status])).toEqual([
+      ['message_edited', 'pending'],
+      ['message_status_changed', 'read'],
+      ['message_status_changed', 'resolved'],
+      ['thread_status_changed', 'resolved'],
+    ])
+    expect(changes[3].message_id).toBeUndefined()
+
+    // Sequence numbers only ever increase
+    const seqs = changes.map(c => c.seq)
+    expect(seqs).toEqual([...seqs].sort((a, b) => a - b))
+  })
+
+  it('should keep the high-water mark across sessions', async () => {
+    await messageManager.createMessage(baseInput, backend)
+    const { high_water_mark } = await changeFeed.getChanges({}, mobile)
+
+    db.close()
+    db = new CoordinationDatabase(testDataDir)
+    messageManager = new MessageManager(db, testDataDir)
+    changeFeed = new ChangeFeed(db)
+
+    expect(await changeFeed.getLastSeq(mobile)).toBe(high_water_mark)
+    const later = await messageManager.createMessage({ ...baseInput, subject: 'Later' }, backend)
+    expect(await kinds(mobile)).toEqual([['message_created', later.id]])
+
+    // An explicit since_seq replays from there
+    const replay = await changeFeed.getChanges({ since_seq: 0 }, mobile)
+    expect(replay.changes).toHaveLength(2)
+  })
+
+  it('should page through changes with has_more', async () => {
+    for (let i = 0; i < 5; i++) {
+      await messageManager.createMessage({ ...baseInput, subject: `Question ${i}` }, backend)
+    }
+
+    const first = await changeFeed.getChanges({ limit: 3 }, mobile)
+    expect(first.changes).toHaveLength(3)
+    expect(first.has_more).toBe(true)
+
+    const second = await changeFeed.getChanges({ limit: 3 }, mobile)
+    expect(second.changes).toHaveLength(2)
+    expect(second.has_more).toBe(false)
+    expect(second.changes[0].seq).toBeGreaterThan(first.high_water_mark)
+  })
+
+  it('should tell recipients about scheduled messages only once they are sent', async () => {
+    const sendAt = new Date(Date.now() + 60 * 60 * 1000)
+    const message = await messageManager.createMessage({ ...baseInput, send_at: sendAt }, backend)
+
+    expect(await kinds(mobile)).toEqual([])
+    expect(await kinds(backend)).toEqual([['message_created', message.id]])
+
+    vi.useFakeTimers({ toFake: ['Date'] })
+    vi.setSystemTime(new Date(sendAt.getTime() + 1000))
+
+    expect(await kinds(mobile)).toEqual([['message_created', message.id]])
+    expect(await kinds(backend)).toEqual([])
+  })
+
+  it('should tell a participant when a routed message is reassigned to them', async () => {
+    const message = await messageManager.createMessage(
+      { ...baseInput, to: [], route_to: 'ios', reassign_after_minutes: 10 },
+      backend
+    )
+    const assignee = message.routing!.assigned_to
+    const other = assignee === mobile ? web : mobile
+    expect(await kinds(assignee)).toEqual([['message_created', message.id]])
+    expect(await kinds(other)).toEqual([])
+
+    await messageManager.reassignOverdueMessages(new Date(Date.now() + 11 * 60 * 1000))
+    expect(await kinds(other)).toEqual([['message_created', message.id]])
+  })
+})
@@ -0,0 +1,164 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { CoordinationDatabase } from '../database/connection.js'
+import { MessageManager } from '../core/message-manager.js'
+import { ContentCollector } from '../core/content-collector.js'
+import { ParticipantRegistry } from '../core/participant-registry.js'
+import { createTestDataDir } from './setup.js'
+import type { SendMessageInput, ParticipantId } from '../types/index.js'
+import fs from 'fs'
+import path from 'path'
+
+describe('ContentCollector', () => {
+  let db: CoordinationDatabase
+  let messageManager: MessageManager
+  let collector: ContentCollector
+  let testDataDir: string
+  const backend: ParticipantId = '@backend'
+  const mobile: ParticipantId = '@mobile'
+
+  // Past the grace period for files written during the test
+  const later = () => new Date(Date.now() + 2 * 60 * 60 * 1000)
+
+  const baseInput: SendMessageInput = {
+    to: [mobile],
+    type: 'contract',
+    priority: 'M',
+    subject: 'Pagination',
+    content: 'The new pagination contract. '.repeat(60),
+    response_required: true,
+    expires_in_hours: 24,
+  }
+
+  const writeFile = (relativePath: string, content: string) => {
+    fs.mkdirSync(path.join(testDataDir, path.dirname(relativePath)), { recursive: true })
+    fs.writeFileSync(path.join(testDataDir, relativePath), content)
+  }
+
+  const exists = (relativePath: string) => fs.existsSync(path.join(testDataDir, relativePath))
+
+  beforeEach(async () => {
+    testDataDir = createTestDataDir()
+    fs.mkdirSync(testDataDir, { recursive: true })
+
+    db = new CoordinationDatabase(testDataDir)
+    messageManager = new MessageManager(db, testDataDir)
+    collector = new ContentCollector(db, testDataDir)
+
+    const participantRegistry = new ParticipantRegistry(db, testDataDir)
+    for (const id of [backend, mobile]) {
+      await participantRegistry.registerParticipant({
+        id,
+        capabilities: [],
+        default_priority: 'M',
+      })
+    }
+  })
+
+  afterEach(() => {
+    if (db) {
+      db.close()
+    }
+    if (testDataDir && fs.existsSync(testDataDir)) {
+      fs.rmSync(testDataDir, { recursive: true, force: true })
+    }
+  })
+
+  it('should only report orphans on a dry run, then delete them', async () => {
+    const message = await messageManager.createMessage(baseInput, backend)
+    const orphan = path.join('messages', 'active', 'thread-gone', 'SYNC-gone-ABC.md')
+    writeFile(orphan, 'x'.repeat(2048))
+
+    const preview = await collector.collect({ dryRun: true, now: later() })
+    expect(preview.dry_run).toBe(true)
+    expect(preview.orphans).toEqual([{ path: orphan, size: 2048 }])
+    expect(preview.reclaimed_bytes).toBe(2048)
+    expect(exists(orphan)).toBe(true)
+
+    const result = await collector.collect({ now: later() })
+    expect(result.orphans).toEqual(preview.orphans)
+    expect(exists(orphan)).toBe(false)
+
+    // Referenced content stays readable
+    expect(exists(message.content_ref!)).toBe(true)
+    const received = await messageManager.getMessageById(message.id, mobile)
+    expect(received!.content).toBe(baseInput.content)
+  })
+
+  it('should leave recently written files alone', async () => {
+    writeFile(path.join('content', 'ab', 'in-flight.tmp'), 'being written')
+
+    const result = await collector.collect()
+    expect(result.orphans).toEqual([])
+    expect(exists(path.join('content', 'ab', 'in-flight.tmp'))).toBe(true)
+  })
+
+  it('should repair references to files moved into the archive', async () => {
+    const message = await messageManager.createMessage(baseInput, backend)
+    const legacyRef = path.join('messages', 'active', message.thread_id, `${message.id}.md`)
+    const archived = path.join('messages', 'archive', '2024', '06', `${message.id}.md`)
+    writeFile(archived, 'Written by an older version')
+    db.prepare('UPDATE messages SET content_ref = ? WHERE id = ?').run(legacyRef, message.id)
+
+    const preview = await collector.collect({ dryRun: true, now: later() })
+    expect(preview.repaired).toEqual([
+      { message_id: message.id, revision: undefined, from: legacyRef, to: archived },
+    ])
+
+    const result = await collector.collect({ now: later() })
+    expect(result.repaired).toHaveLength(1)
+    // The archived file is in use, the unused store blob is not
+    expect(result.orphans.map(orphan => orphan.path)).toEqual([message.content_ref])
+    expect(exists(archived)).toBe(true)
+
+    const repaired = db.prepare('SELECT content_ref FROM messages WHERE id = ?').get(message.id)
+    expect(repaired).toEqual({ content_ref: archived })
+    expect((await collector.collect({ now: later() })).repaired).toEqual([])
+  })
+
+  it('should move orphans into quarantine when asked', async () => {
+    const orphan = path.join('content', 'ab', 'ab'.repeat(32))
+    writeFile(orphan, 'stale')
+
+    const now = later()
+    const result = await collector.collect({ quarantine: true, now })
+    expect(result.quarantine_dir).toBe(
+      path.join('quarantine', now.toISOString().replace(/[:.]/g, '-'))
+    )
+    expect(exists(orphan)).toBe(false)
+    expect(fs.readFileSync(path.join(testDataDir, result.quarantine_dir!, orphan), 'utf-8')).toBe(
+      'stale'
+    )
+  })
+
+  it('should collect content and attachments left behind by a purge', async () => {
+    const message = await messageManager.createMessage(
+      {
+        ...baseInput,
+        attachments: [{ filename: 'spec.txt', content: Buffer.from('spec').toString('base64') }],
+      },
+      backend
+    )
+    const attachment = message.attachments![0]
+    const blobPath = path.join('attachments', attachment.sha256.substring(0, 2), attachment.sha256)
+
+    expect((await collector.collect({ now: later() })).orphans).toEqual([])
+
+    // Purging deletes rows and leaves their files
+    db.prepare('DELETE FROM messages').run()
+
+    const result = await collector.collect({ now: later() })
+    expect(result.orphans.map(orphan => orphan.path).sort()).toEqual(
+      [message.content_ref!, blobPath].sort()
+    )
+    expect(result.reclaimed_bytes).toBe(baseInput.content.length + 'spec'.length)
+    expect(result.missing).toEqual([])
+  })
+
+  it('should report references whose files are gone', async () => {
+    const message = await messageManager.createMessage(baseInput, backend)
+    fs.unlinkSync(path.join(testDataDir, message.content_ref!))
+
+    const result = await collector.collect({ now: later() })
+    expect(result.missing).toEqual([message.content_ref])
+  })
+})
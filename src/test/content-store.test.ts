@@ -0,0 +1,196 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { CoordinationDatabase } from '../database/connection.js'
+import { MessageManager } from '../core/message-manager.js'
+import { ContentStore } from '../core/content-store.js'
+import { ParticipantRegistry } from '../core/participant-registry.js'
+import { createTestDataDir } from './setup.js'
+import { ContentIntegrityError, SendMessageInput, ParticipantId } from '../types/index.js'
+import fs from 'fs'
+import path from 'path'
+
+describe('ContentStore', () => {
+  let db: CoordinationDatabase
+  let contentStore: ContentStore
+  let messageManager: MessageManager
+  let testDataDir: string
+  const backend: ParticipantId = '@backend'
+  const mobile: ParticipantId = '@mobile'
+
+  const longContent = 'The new pagination contract. '.repeat(60)
+  const baseInput: SendMessageInput = {
+    to: [mobile],
+    type: 'contract',
+    priority: 'M',
+    subject: 'Pagination',
+    content: longContent,
+    response_required: true,
+    expires_in_hours: 24,
+  }
+
+  beforeEach(async () => {
+    testDataDir = createTestDataDir()
+    fs.mkdirSync(testDataDir, { recursive: true })
+
+    db = new CoordinationDatabase(testDataDir)
+    contentStore = new ContentStore(testDataDir)
+    messageManager = new MessageManager(db, testDataDir)
+
+    const participantRegistry = new ParticipantRegistry(db, testDataDir)
+    for (const id of [backend, mobile]) {
+      await participantRegistry.registerParticipant({
+        id,
+        capabilities: [],
+        default_priority: 'M',
+      })
+    }
+  })
+
+  afterEach(() => {
+    if (db) {
+      db.close()
+    }
+    if (testDataDir && fs.existsSync(testDataDir)) {
+      fs.rmSync(testDataDir, { recursive: true, force: true })
+    }
+  })
+
+  it('should key content by its hash and share identical content', async () => {
+    const first = await messageManager.createMessage(baseInput, backend)
+    const second = await messageManager.createMessage({ ...baseInput, subject: 'Again' }, backend)
+
+    expect(first.content_ref).toMatch(/^content\/[0-9a-f]{2}\/[0-9a-f]{64}$/)
+    expect(second.content_ref).toBe(first.content_ref)
+
+    const received = await messageManager.getMessageById(second.id, mobile)
+    expect(received!.content).toBe(longContent)
+  })
+
+  it('should rewrite a corrupted blob when the same content is stored again', async () => {
+    const message = await messageManager.createMessage(baseInput, backend)
+    const blobPath = path.join(testDataDir, message.content_ref!)
+    fs.writeFileSync(blobPath, longContent.substring(0, 100))
+
+    expect(await contentStore.put(longContent)).toBe(message.content_ref)
+    expect(fs.readFileSync(blobPath, 'utf-8')).toBe(longContent)
+    expect(await contentStore.get(message.content_ref!)).toBe(longContent)
+  })
+
+  it('should raise ContentIntegrityError for missing or corrupted content', async () => {
+    const message = await messageManager.createMessage(baseInput, backend)
+    const blobPath = path.join(testDataDir, message.content_ref!)
+
+    fs.writeFileSync(blobPath, longContent.replace('pagination', 'PAGINATION'))
+    await expect(messageManager.getMessageById(message.id, mobile)).rejects.toThrow(
+      `Content is corrupted: ${message.content_ref}`
+    )
+
+    fs.unlinkSync(blobPath)
+    await expect(messageManager.getMessageById(message.id, mobile)).rejects.toThrow(
+      ContentIntegrityError
+    )
+
+    // Lower detail levels don't read the content
+    const summary = await messageManager.getMessageById(message.id, mobile, 'summary')
+    expect(summary!.summary).toBe(longContent.substring(0, 500) + '...')
+  })
+
+  it('should list the rest of a page when one message has lost its content', async () => {
+    const broken = await messageManager.createMessage(baseInput, backend)
+    const intact = await messageManager.createMessage(
+      { ...baseInput, subject: 'Cursor format', content: 'Opaque base64 cursors.' },
+      backend
+    )
+    fs.unlinkSync(path.join(testDataDir, broken.content_ref!))
+
+    const inbox = await messageManager.getMessages({ limit: 20, detail_level: 'full' }, mobile)
+    const byId = new Map(inbox.map(message => [message.id, message]))
+    expect(byId.get(intact.id)).toMatchObject({ content: 'Opaque base64 cursors.' })
+    expect(byId.get(intact.id)!.content_error).toBeUndefined()
+    expect(byId.get(broken.id)!.content).toBeUndefined()
+    expect(byId.get(broken.id)!.content_error).toBe(`Content missing: ${broken.content_ref}`)
+
+    const thread = await messageManager.getThread(
+      { thread_id: broken.thread_id, detail_level: 'full' },
+      mobile
+    )
+    expect(thread.messages[0].content_error).toBe(`Content missing: ${broken.content_ref}`)
+  })
+
+  it('should still take responses and votes on a message that lost its content', async () => {
+    const message = await messageManager.createMessage(
+      { ...baseInput, proposal: { quorum: 'all' } },
+      backend
+    )
+    fs.unlinkSync(path.join(testDataDir, message.content_ref!))
+
+    const response = await messageManager.respondToMessage(
+      { message_id: message.id, content: 'Can you resend the spec?' },
+      mobile
+    )
+    expect(response.in_reply_to).toBe(message.id)
+
+    const proposal = await messageManager.vote(
+      { message_id: message.id, vote: 'approve', rationale: 'Cursors are fine' },
+      mobile
+    )
+    expect(proposal.decision).toBe('accepted')
+  })
+
+  it('should keep content readable after messages are archived', async () => {
+    // Contracts are kept alive while their thread is active
+    const message = await messageManager.createMessage({ ...baseInput, type: 'sync' }, backend)
+    db.prepare('UPDATE messages SET expires_at = ? WHERE id = ?').run(
+      new Date(Date.now() - 1000).toISOString(),
+      message.id
+    )
+
+    expect(await messageManager.archiveExpiredMessages()).toBe(1)
+
+    const archived = await messageManager.getMessageById(message.id, mobile)
+    expect(archived!.status).toBe('archived')
+    expect(archived!.content).toBe(longContent)
+  })
+
+  it('should read per-message files written before the store, also once archived', async () => {
+    const activeRef = path.join('messages', 'active', 'thread-1', 'SYNC-old-ABC.md')
+    fs.mkdirSync(path.join(testDataDir, path.dirname(activeRef)), { recursive: true })
+    fs.writeFileSync(path.join(testDataDir, activeRef), 'Written by an older version')
+    expect(await contentStore.get(activeRef)).toBe('Written by an older version')
+
+    // Archiving used to move the file without updating the ref
+    const archivedRef = path.join('messages', 'active', 'thread-1', 'SYNC-older-ABC.md')
+    const archiveDir = path.join(testDataDir, 'messages', 'archive', '2024', '06')
+    fs.mkdirSync(archiveDir, { recursive: true })
+    fs.writeFileSync(path.join(archiveDir, 'SYNC-older-ABC.md'), 'Moved to the archive')
+    expect(await contentStore.get(archivedRef)).toBe('Moved to the archive')
+
+    await expect(contentStore.get('messages/active/thread-1/missing.md')).rejects.toThrow(
+      'Content missing: messages/active/thread-1/missing.md'
+    )
+  })
+
+  it('should verify and migrate stored content', async () => {
+    const message = await messageManager.createMessage(baseInput, backend)
+    const broken = await messageManager.createMessage(
+      { ...baseInput, content: 'Lost content. '.repeat(100) },
+      backend
+    )
+    fs.unlinkSync(path.join(testDataDir, broken.content_ref!))
+
+    // Point a message at a file in the old layout
+    const legacyRef = path.join('messages', 'active', message.thread_id, `${message.id}.md`)
+    fs.mkdirSync(path.join(testDataDir, path.dirname(legacyRef)), { recursive: true })
+    fs.writeFileSync(path.join(testDataDir, legacyRef), longContent)
+    db.prepare('UPDATE messages SET content_ref = ? WHERE id = ?').run(legacyRef, message.id)
+
+    const problems = await messageManager.verifyContent()
+    expect(problems).toEqual([
+      expect.objectContaining({ message_id: broken.id, content_ref: broken.content_ref }),
+    ])
+
+    expect(await messageManager.migrateLegacyContent()).toBe(1)
+    const migrated = await messageManager.getMessageById(message.id, backend)
+    expect(contentStore.isBlobRef(migrated!.content_ref!)).toBe(true)
+    expect(migrated!.content).toBe(longContent)
+  })
+})
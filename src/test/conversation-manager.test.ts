@@ -0,0 +1,157 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { CoordinationDatabase } from '../database/connection.js'
+import { MessageManager } from '../core/message-manager.js'
+import { ConversationManager } from '../core/conversation-manager.js'
+import { ParticipantRegistry } from '../core/participant-registry.js'
+import { createTestDataDir } from './setup.js'
+import type { SendMessageInput, ParticipantId } from '../types/index.js'
+import fs from 'fs'
+
+describe('ConversationManager', () => {
+  let db: CoordinationDatabase
+  let messageManager: MessageManager
+  let conversationManager: ConversationManager
+  let testDataDir: string
+  const backend: ParticipantId = '@backend'
+  const mobile: ParticipantId = '@mobile'
+  const outsider: ParticipantId = '@outsider'
+
+  const baseInput: SendMessageInput = {
+    to: [mobile],
+    type: 'contract',
+    priority: 'M',
+    subject: 'API contract',
+    content: 'Please review the new endpoint',
+    response_required: true,
+    expires_in_hours: 24,
+    tags: ['api'],
+  }
+
+  beforeEach(async () => {
+    testDataDir = createTestDataDir()
+    fs.mkdirSync(testDataDir, { recursive: true })
+
+    db = new CoordinationDatabase(testDataDir)
+    messageManager = new MessageManager(db, testDataDir)
+    conversationManager = new ConversationManager(db)
+
+    const participantRegistry = new ParticipantRegistry(db, testDataDir)
+    for (const id of [backend, mobile, outsider]) {
+      await participantRegistry.registerParticipant({
+        id,
+        capabilities: ['test'],
+        default_priority: 'M',
+      })
+    }
+  })
+
+  afterEach(() => {
+    if (db) {
+      db.close()
+    }
+    if (testDataDir && fs.existsSync(testDataDir)) {
+      fs.rmSync(testDataDir, { recursive: true, force: true })
+    }
+  })
+
+  it('should create a conversation when a thread is started', async () => {
+    const message = await messageManager.createMessage(baseInput, backend)
+
+    const conversation = conversationManager.getConversation(message.thread_id)
+    expect(conversation).not.toBeNull()
+    expect(conversation!.topic).toBe('API contract')
+    expect(conversation!.tags).toEqual(['api'])
+    expect(conversation!.participants.sort()).toEqual([backend, mobile].sort())
+    expect(conversation!.status).toBe('active')
+    expect(conversation!.message_count).toBe(1)
+  })
+
+  it('should update message count and activity on responses', async () => {
+    const message = await messageManager.createMessage(baseInput, backend)
+    await messageManager.respondToMessage({ message_id: message.id, content: 'Looks good' }, mobile)
+
+    const conversation = conversationManager.getConversation(message.thread_id)
+    expect(conversation!.message_count).toBe(2)
+    expect(conversation!.topic).toBe('API contract')
+  })
+
+  it('should mark the conversation resolved when the thread is closed', async () => {
+    const message = await messageManager.createMessage(baseInput, backend)
+    await messageManager.closeThread(
+      { thread_id: message.thread_id, resolution_status: 'complete', final_summary: 'Agreed' },
+      backend
+    )
+
+    const conversation = conversationManager.getConversation(message.thread_id)
+    expect(conversation!.status).toBe('resolved')
+    expect(conversation!.resolution_summary).toBe('Agreed')
+  })
+
+  it('should only list threads the requester participates in', async () => {
+    await messageManager.createMessage(baseInput, backend)
+    await messageManager.createMessage(
+      { ...baseInput, to: [outsider], subject: 'Private thread' },
+      backend
+    )
+
+    const mobileThreads = await conversationManager.listThreads({ limit: 20 }, mobile)
+    expect(mobileThreads).toHaveLength(1)
+    expect(mobileThreads[0].topic).toBe('API contract')
+
+    const backendThreads = await conversationManager.listThreads({ limit: 20 }, backend)
+    expect(backendThreads).toHaveLength(2)
+
+    // Filtering by another participant does not reveal threads the requester is not in
+    const filtered = await conversationManager.listThreads(
+      { participant: outsider, limit: 20 },
+      mobile
+    )
+    expect(filtered).toHaveLength(0)
+  })
+
+  it('should filter threads by status', async () => {
+    const first = await messageManager.createMessage(baseInput, backend)
+    await messageManager.createMessage({ ...baseInput, subject: 'Second thread' }, backend)
+    await messageManager.closeThread({ thread_id: first.thread_id }, backend)
+
+    const active = await conversationManager.listThreads({ status: ['active'], limit: 20 }, backend)
+    expect(active.map(t => t.topic)).toEqual(['Second thread'])
+
+    const resolved = await conversationManager.listThreads(
+      { status: ['resolved'], limit: 20 },
+      backend
+    )
+    expect(resolved.map(t => t.thread_id)).toEqual([first.thread_id])
+  })
+
+  describe('MessageManager.getThread', () => {
+    it('should return the conversation and its messages in order', async () => {
+      const message = await messageManager.createMessage(baseInput, backend)
+      await messageManager.respondToMessage(
+        { message_id: message.id, content: 'Looks good' },
+        mobile
+      )
+
+      // A message ID resolves to its thread
+      const { conversation, messages } = await messageManager.getThread(
+        { thread_id: message.id, detail_level: 'summary' },
+        mobile
+      )
+
+      expect(conversation.thread_id).toBe(message.thread_id)
+      expect(messages).toHaveLength(2)
+      expect(messages[0].id).toBe(message.id)
+    })
+
+    it('should deny access to non-participants', async () => {
+      const message = await messageManager.createMessage(baseInput, backend)
+
+      await expect(
+        messageManager.getThread(
+          { thread_id: message.thread_id, detail_level: 'summary' },
+          outsider
+        )
+      ).rejects.toThrow('Access denied')
+    })
+  })
+})
@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest'
+import { nextCronOccurrence, parseCron } from '../utils/cron.js'
+import { ValidationError } from '../types/index.js'
+
+describe('cron', () => {
+  // Local times, so the expectations hold in any timezone
+  const at = (month: number, day: number, hour = 0, minute = 0) =>
+    new Date(2025, month - 1, day, hour, minute)
+
+  it('should parse lists, ranges and steps', () => {
+    const schedule = parseCron('0,30 9-11 */10 1-12/6 1-5')
+
+    expect([...schedule.minutes]).toEqual([0, 30])
+    expect([...schedule.hours]).toEqual([9, 10, 11])
+    expect([...schedule.daysOfMonth]).toEqual([1, 11, 21, 31])
+    expect([...schedule.months]).toEqual([1, 7])
+    expect([...schedule.daysOfWeek]).toEqual([1, 2, 3, 4, 5])
+  })
+
+  it('should reject malformed expressions', () => {
+    expect(() => parseCron('* * * *')).toThrow(ValidationError)
+    expect(() => parseCron('60 * * * *')).toThrow(ValidationError)
+    expect(() => parseCron('* * * * mon')).toThrow(ValidationError)
+    expect(() => parseCron('*/0 * * * *')).toThrow(ValidationError)
+  })
+
+  it('should find the next weekly occurrence', () => {
+    // 2025-01-01 is a Wednesday; the next Monday 09:00 is the 6th
+    expect(nextCronOccurrence('0 9 * * 1', at(1, 1, 12))).toEqual(at(1, 6, 9))
+    // Strictly after: a matching time moves on to the following week
+    expect(nextCronOccurrence('0 9 * * 1', at(1, 6, 9))).toEqual(at(1, 13, 9))
+  })
+
+  it('should support macros and Sunday as 7', () => {
+    expect(nextCronOccurrence('@daily', at(3, 10, 8, 15))).toEqual(at(3, 11))
+    expect(nextCronOccurrence('0 0 * * 7', at(1, 1))).toEqual(at(1, 5))
+  })
+
+  it('should match either day field when both are restricted', () => {
+    // The 15th or any Monday, whichever comes first
+    expect(nextCronOccurrence('0 12 15 * 1', at(1, 7))).toEqual(at(1, 13, 12))
+    expect(nextCronOccurrence('0 12 15 * 1', at(1, 13, 13))).toEqual(at(1, 15, 12))
+  })
+
+  it('should treat a stepped * day field as unrestricted', () => {
+    // Mondays that fall on odd days, not every Monday and every odd day
+    expect(nextCronOccurrence('0 9 */2 * 1', at(1, 1))).toEqual(at(1, 13, 9))
+    expect(nextCronOccurrence('0 9 */2 * 1', at(1, 13, 10))).toEqual(at(1, 27, 9))
+  })
+
+  it('should skip to months that have the requested day', () => {
+    expect(nextCronOccurrence('0 0 31 * *', at(2, 1))).toEqual(at(3, 31))
+  })
+})
@@ -33,7 +33,7 @@ describe('DatabaseMigrator', () => {
     it('should return correct version after migration', async () => {
       await migrator.migrate()
       const version = migrator.getCurrentVersion()
-      expect(version).toBe(2) // Current schema version
+      expect(version).toBe(21) // Current schema version
     })
   })
 
@@ -73,7 +73,7 @@ describe('DatabaseMigrator', () => {
       // First migration
       await migrator.migrate()
       const version1 = migrator.getCurrentVersion()
-      expect(version1).toBe(2)
+      expect(version1).toBe(21)
       
       // Check that suggested_approach column exists (from migration 2)
       const columns = db.pragma('table_info(messages)') as any[]
@@ -86,9 +86,9 @@ describe('DatabaseMigrator', () => {
       await migrator.migrate()
       await migrator.migrate()
       
-      // Should still be at version 2
+      // Should still be at the latest version
       const version = migrator.getCurrentVersion()
-      expect(version).toBe(2)
+      expect(version).toBe(21)
     })
   })
 
@@ -128,8 +128,8 @@ describe('DatabaseMigrator', () => {
       const upContent = fs.readFileSync(upPath, 'utf-8')
       const downContent = fs.readFileSync(downPath, 'utf-8')
       
-      expect(upContent).toContain('Migration 3: test-migration')
-      expect(downContent).toContain('Rollback for migration 3: test-migration')
+      expect(upContent).toContain('Migration 22: test-migration')
+      expect(downContent).toContain('Rollback for migration 22: test-migration')
       
       // Clean up
       fs.unlinkSync(upPath)
@@ -140,8 +140,8 @@ describe('DatabaseMigrator', () => {
       const migration1 = migrator.createMigration('first')
       const migration2 = migrator.createMigration('second')
       
-      expect(migration1.upPath).toContain('003-up-first')
-      expect(migration2.upPath).toContain('004-up-second')
+      expect(migration1.upPath).toContain('022-up-first')
+      expect(migration2.upPath).toContain('023-up-second')
       
       // Clean up
       fs.unlinkSync(migration1.upPath)
@@ -163,7 +163,7 @@ describe('DatabaseMigrator', () => {
       
       // Apply migration
       await migrator.migrate()
-      expect(migrator.getCurrentVersion()).toBe(2)
+      expect(migrator.getCurrentVersion()).toBe(21)
     })
   })
 })
\ No newline at end of file
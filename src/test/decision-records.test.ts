@@ -0,0 +1,187 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import path from 'path'
+import { CoordinationDatabase } from '../database/connection.js'
+import { MessageManager } from '../core/message-manager.js'
+import { ParticipantRegistry } from '../core/participant-registry.js'
+import { AdrStore, slugify } from '../core/adr-store.js'
+import { createTestDataDir } from './setup.js'
+import { ParticipantId, SendMessageInput } from '../types/index.js'
+import fs from 'fs'
+
+describe('Architecture decision records', () => {
+  let db: CoordinationDatabase
+  let messageManager: MessageManager
+  let testDataDir: string
+  let adrDir: string
+  const backend: ParticipantId = '@backend'
+  const mobile: ParticipantId = '@mobile'
+
+  const archInput: SendMessageInput = {
+    to: [mobile],
+    type: 'arch',
+    priority: 'H',
+    subject: 'Use Postgres for the event store',
+    content: 'SQLite locks up under concurrent writers once we pass 50 agents.',
+    response_required: true,
+  }
+
+  const readRecord = (file: string) => fs.readFileSync(path.join(adrDir, file), 'utf-8')
+
+  beforeEach(async () => {
+    testDataDir = createTestDataDir()
+    fs.mkdirSync(testDataDir, { recursive: true })
+    adrDir = path.join(testDataDir, 'docs', 'adr')
+
+    db = new CoordinationDatabase(testDataDir)
+    messageManager = new MessageManager(db, testDataDir, undefined, adrDir)
+
+    const participantRegistry = new ParticipantRegistry(db, testDataDir)
+    for (const id of [backend, mobile]) {
+      await participantRegistry.registerParticipant({ id, capabilities: [], default_priority: 'M' })
+    }
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+    if (db) {
+      db.close()
+    }
+    if (testDataDir && fs.existsSync(testDataDir)) {
+      fs.rmSync(testDataDir, { recursive: true, force: true })
+    }
+  })
+
+  it('should write a record when an arch thread is closed with a final summary', async () => {
+    const message = await messageManager.createMessage(archInput, backend)
+    const response = await messageManager.respondToMessage(
+      { message_id: message.id, content: 'Agreed, with a connection pool per agent host' },
+      mobile
+    )
+
+    await messageManager.closeThread(
+      { thread_id: message.thread_id, final_summary: 'Move the event store to Postgres 16.' },
+      backend
+    )
+
+    const [record] = await new AdrStore(adrDir).listRecords()
+    expect(record).toMatchObject({
+      number: 1,
+      title: 'Use Postgres for the event store',
+      status: 'Accepted',
+      thread_id: message.thread_id,
+    })
+    expect(path.basename(record.path)).toBe('0001-use-postgres-for-the-event-store.md')
+
+    const markdown = readRecord('0001-use-postgres-for-the-event-store.md')
+    expect(markdown).toContain('## Context\n\nSQLite locks up under concurrent writers')
+    expect(markdown).toContain('## Decision\n\nMove the event store to Postgres 16.')
+    expect(markdown).toContain('- Closed as `complete` by @backend.')
+    expect(markdown).toContain('## Participants\n\n- @backend\n- @mobile')
+    expect(markdown).toContain(`\`${message.id}\``)
+    expect(markdown).toContain(`\`${response.id}\``)
+  })
+
+  it('should number records sequentially and keep the number on export', async () => {
+    fs.mkdirSync(adrDir, { recursive: true })
+    fs.writeFileSync(path.join(adrDir, '0001-record-decisions.md'), '# 1. Record decisions\n')
+
+    const first = await messageManager.createMessage(archInput, backend)
+    await messageManager.closeThread(
+      { thread_id: first.thread_id, final_summary: 'Postgres it is.' },
+      backend
+    )
+    const second = await messageManager.createMessage(
+      { ...archInput, subject: 'Drop the REST gateway' },
+      backend
+    )
+    await messageManager.closeThread(
+      { thread_id: second.thread_id, final_summary: 'Clients talk gRPC directly.' },
+      mobile
+    )
+
+    const records = await new AdrStore(adrDir).listRecords()
+    expect(records.map(record => [record.number, record.thread_id])).toEqual([
+      [1, undefined],
+      [2, first.thread_id],
+      [3, second.thread_id],
+    ])
+
+    // Exporting again rewrites the same file, and accepts a message ID
+    const again = await messageManager.exportDecisionRecord(first.id, mobile)
+    expect(again.number).toBe(2)
+    expect(fs.readdirSync(adrDir)).toHaveLength(3)
+  })
+
+  it('should only write records for closed arch threads with a final summary', async () => {
+    const sync = await messageManager.createMessage({ ...archInput, type: 'sync' }, backend)
+    await messageManager.closeThread(
+      { thread_id: sync.thread_id, final_summary: 'Synced.' },
+      backend
+    )
+    const arch = await messageManager.createMessage(archInput, backend)
+
+    expect(fs.existsSync(adrDir)).toBe(false)
+    await expect(messageManager.exportDecisionRecord(sync.thread_id, backend)).rejects.toThrow(
+      'Only arch threads have decision records'
+    )
+    await expect(messageManager.exportDecisionRecord(arch.thread_id, backend)).rejects.toThrow(
+      'Thread has no decision yet'
+    )
+
+    await messageManager.closeThread({ thread_id: arch.thread_id }, backend)
+    expect(fs.existsSync(adrDir)).toBe(false)
+  })
+
+  it('should give every way of closing a thread its own record status', async () => {
+    const statuses = [
+      ['complete', 'Accepted'],
+      ['partial', 'Partially accepted'],
+      ['requires_followup', 'Accepted, follow-up required'],
+      ['blocked', 'Blocked'],
+    ] as const
+
+    for (const [resolution_status] of statuses) {
+      const message = await messageManager.createMessage(
+        { ...archInput, subject: `Closed as ${resolution_status}` },
+        backend
+      )
+      await messageManager.closeThread(
+        { thread_id: message.thread_id, resolution_status, final_summary: 'Postgres it is.' },
+        backend
+      )
+    }
+
+    const records = await new AdrStore(adrDir).listRecords()
+    expect(records.map(record => record.status)).toEqual(statuses.map(([, status]) => status))
+  })
+
+  it('should close the thread even when its record cannot be written', async () => {
+    // A file where the ADR directory should be
+    fs.mkdirSync(path.dirname(adrDir), { recursive: true })
+    fs.writeFileSync(adrDir, '')
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {})
+
+    const message = await messageManager.createMessage(archInput, backend)
+    const closedCount = await messageManager.closeThread(
+      { thread_id: message.thread_id, final_summary: 'Move the event store to Postgres 16.' },
+      backend
+    )
+
+    expect(closedCount).toBe(1)
+    expect(warn).toHaveBeenCalledWith(
+      expect.stringContaining(
+        `Failed to write the decision record for thread ${message.thread_id}`
+      ),
+      expect.any(Error)
+    )
+    const closed = await messageManager.getMessageById(message.id, backend)
+    expect(closed!.status).toBe('resolved')
+    const summaries = await messageManager.getMessages({ limit: 20 }, mobile)
+    expect(summaries.map(m => m.subject)).toContain(`Thread Closed: ${message.thread_id}`)
+  })
+
+  it('should slugify titles for file names', () => {
+    expect(slugify('Use gRPC (v2) for Mobile → Backend!')).toBe('use-grpc-v2-for-mobile-backend')
+    expect(slugify('???')).toBe('decision')
+  })
+})
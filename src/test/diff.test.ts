@@ -0,0 +1,18 @@
+import { describe, it, expect } from 'vitest'
+import { diffLines } from '../utils/diff.js'
+
+describe('diffLines', () => {
+  it('should mark unchanged, removed and added lines', () => {
+    const diff = diffLines('one\ntwo\nthree', 'one\n2\nthree\nfour')
+
+    expect(diff.split('\n')).toEqual(['  one', '- two', '+ 2', '  three', '+ four'])
+  })
+
+  it('should return only context lines for identical texts', () => {
+    expect(diffLines('same\ntext', 'same\ntext')).toBe('  same\n  text')
+  })
+
+  it('should handle empty input', () => {
+    expect(diffLines('', 'added')).toBe('- \n+ added')
+  })
+})
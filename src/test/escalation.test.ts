@@ -0,0 +1,171 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { addHours, addMinutes } from 'date-fns'
+import { CoordinationDatabase } from '../database/connection.js'
+import { MessageManager } from '../core/message-manager.js'
+import { ParticipantRegistry } from '../core/participant-registry.js'
+import { createTestDataDir } from './setup.js'
+import {
+  CoordinationConfig,
+  EscalationRule,
+  ParticipantId,
+  SendMessageInput,
+} from '../types/index.js'
+import fs from 'fs'
+
+describe('MessageManager escalation', () => {
+  let db: CoordinationDatabase
+  let messageManager: MessageManager
+  let participantRegistry: ParticipantRegistry
+  let testDataDir: string
+  const backend: ParticipantId = '@backend'
+  const mobile: ParticipantId = '@mobile'
+  const lead: ParticipantId = '@lead'
+
+  // The example rules from the README
+  const exampleRules: EscalationRule[] = [
+    { priority: 'CRITICAL', after_hours: 1, escalate_to: ['cap:admin'] },
+    { priority: 'H', after_hours: 24, bump_to: 'CRITICAL' },
+  ]
+
+  const baseInput: SendMessageInput = {
+    to: [mobile],
+    type: 'q',
+    priority: 'CRITICAL',
+    subject: 'Login outage',
+    content: 'Tokens are rejected since the deploy, can you check?',
+    response_required: true,
+    expires_in_hours: 240,
+  }
+
+  beforeEach(async () => {
+    testDataDir = createTestDataDir()
+    fs.mkdirSync(testDataDir, { recursive: true })
+
+    db = new CoordinationDatabase(testDataDir)
+    messageManager = new MessageManager(db, testDataDir)
+    participantRegistry = new ParticipantRegistry(db, testDataDir)
+
+    for (const id of [backend, mobile, lead]) {
+      await participantRegistry.registerParticipant({
+        id,
+        capabilities: id === lead ? ['admin'] : [],
+        default_priority: 'M',
+      })
+    }
+  })
+
+  afterEach(() => {
+    if (db) {
+      db.close()
+    }
+    if (testDataDir && fs.existsSync(testDataDir)) {
+      fs.rmSync(testDataDir, { recursive: true, force: true })
+    }
+  })
+
+  it('should escalate unanswered CRITICAL messages to admins and log it in the thread', async () => {
+    const message = await messageManager.createMessage(baseInput, backend)
+
+    expect(
+      await messageManager.escalateOverdueMessages(exampleRules, addMinutes(new Date(), 30))
+    ).toEqual([])
+
+    const [escalation] = await messageManager.escalateOverdueMessages(
+      exampleRules,
+      addMinutes(new Date(), 61)
+    )
+    expect(escalation).toMatchObject({
+      message_id: message.id,
+      added_recipients: [lead],
+      bumped_to: undefined,
+    })
+
+    const inbox = await messageManager.getMessages({ limit: 20 }, lead)
+    expect(inbox.map(m => m.id)).toContain(message.id)
+
+    const thread = await messageManager.getThread({ thread_id: message.thread_id }, backend)
+    const notice = thread.messages.find(m => m.id === escalation.notice_id)!
+    expect(notice).toMatchObject({
+      from: '@system',
+      in_reply_to: message.id,
+      subject: 'Escalated: Login outage',
+      response_required: false,
+    })
+    expect(notice.summary).toContain(`escalated to ${lead}`)
+    expect(notice.to).toEqual(expect.arrayContaining([backend, mobile, lead]))
+  })
+
+  it('should bump unanswered H messages to CRITICAL, then escalate them after their own wait', async () => {
+    const message = await messageManager.createMessage({ ...baseInput, priority: 'H' }, backend)
+
+    expect(
+      await messageManager.escalateOverdueMessages(exampleRules, addHours(new Date(), 23))
+    ).toEqual([])
+
+    const bumpedAt = addHours(new Date(), 25)
+    const [bump] = await messageManager.escalateOverdueMessages(exampleRules, bumpedAt)
+    expect(bump).toMatchObject({ bumped_from: 'H', bumped_to: 'CRITICAL', added_recipients: [] })
+    expect((await messageManager.getMessageById(message.id, backend))!.priority).toBe('CRITICAL')
+
+    // The CRITICAL rule waits its hour from the bump, not from when the message was sent
+    expect(
+      await messageManager.escalateOverdueMessages(exampleRules, addMinutes(bumpedAt, 30))
+    ).toEqual([])
+
+    const [escalation] = await messageManager.escalateOverdueMessages(
+      exampleRules,
+      addMinutes(bumpedAt, 61)
+    )
+    expect(escalation.added_recipients).toEqual([lead])
+  })
+
+  it('should apply each rule only once', async () => {
+    await messageManager.createMessage(baseInput, backend)
+
+    const later = addHours(new Date(), 2)
+    expect(await messageManager.escalateOverdueMessages(exampleRules, later)).toHaveLength(1)
+    expect(await messageManager.escalateOverdueMessages(exampleRules, addHours(later, 48))).toEqual(
+      []
+    )
+  })
+
+  it('should leave answered messages and messages without a response required alone', async () => {
+    const answered = await messageManager.createMessage(baseInput, backend)
+    await messageManager.respondToMessage(
+      { message_id: answered.id, content: 'Rolling back now' },
+      mobile
+    )
+    await messageManager.createMessage({ ...baseInput, response_required: false }, backend)
+
+    expect(
+      await messageManager.escalateOverdueMessages(exampleRules, addHours(new Date(), 48))
+    ).toEqual([])
+  })
+
+  it('should not escalate anything unless the config has rules', () => {
+    expect(CoordinationConfig.parse({ participant_id: backend }).escalation_rules).toEqual([])
+  })
+
+  it('should match rules on type and skip rules with nothing to do', async () => {
+    const rules: EscalationRule[] = [
+      { type: 'update', after_hours: 1, bump_to: 'CRITICAL' },
+      { type: 'q', after_hours: 2, escalate_to: ['cap:on-call'] },
+      { type: 'q', after_hours: 4, bump_to: 'CRITICAL' },
+    ]
+    const message = await messageManager.createMessage({ ...baseInput, priority: 'M' }, backend)
+
+    // The first rule is for another type, nobody is on call yet and the bump waits 4h
+    expect(await messageManager.escalateOverdueMessages(rules, addHours(new Date(), 3))).toEqual([])
+
+    await participantRegistry.registerParticipant({
+      id: '@pager' as ParticipantId,
+      capabilities: ['on-call'],
+      default_priority: 'M',
+    })
+    const [escalation] = await messageManager.escalateOverdueMessages(
+      rules,
+      addHours(new Date(), 3)
+    )
+    expect(escalation).toMatchObject({ message_id: message.id, added_recipients: ['@pager'] })
+  })
+})
@@ -0,0 +1,188 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { differenceInMinutes, subHours } from 'date-fns'
+import { CoordinationDatabase } from '../database/connection.js'
+import { MessageManager } from '../core/message-manager.js'
+import { ParticipantRegistry } from '../core/participant-registry.js'
+import { createTestDataDir } from './setup.js'
+import {
+  CoordinationConfig,
+  CoordinationMessage,
+  ExpiryPolicy,
+  ParticipantId,
+  SendMessageInput,
+} from '../types/index.js'
+import fs from 'fs'
+
+describe('MessageManager expiry policies', () => {
+  let db: CoordinationDatabase
+  let messageManager: MessageManager
+  let testDataDir: string
+  const backend: ParticipantId = '@backend'
+  const mobile: ParticipantId = '@mobile'
+  const outsider: ParticipantId = '@outsider'
+
+  // The example policies from the README
+  const examplePolicies: ExpiryPolicy[] = [
+    { type: 'arch', expires_in_hours: null },
+    { type: 'contract', expires_in_hours: 168, keep_alive_while_active: true },
+    { type: 'update', expires_in_hours: 48 },
+    { type: 'emergency', expires_in_hours: 6 },
+  ]
+
+  const baseInput: SendMessageInput = {
+    to: [mobile],
+    type: 'sync',
+    priority: 'M',
+    subject: 'Pagination contract',
+    content: 'Cursor or offset?',
+    response_required: true,
+  }
+
+  const hoursToExpiry = (message: CoordinationMessage) =>
+    message.expires_at
+      ? Math.round(differenceInMinutes(message.expires_at, message.created_at) / 60)
+      : null
+
+  const backdate = (messageId: string, hours: number) => {
+    const created = subHours(new Date(), hours)
+    db.prepare('UPDATE messages SET created_at = ?, expires_at = ? WHERE id = ?').run(
+      created.toISOString(),
+      new Date(Date.now() - 1000).toISOString(),
+      messageId
+    )
+  }
+
+  beforeEach(async () => {
+    testDataDir = createTestDataDir()
+    fs.mkdirSync(testDataDir, { recursive: true })
+
+    db = new CoordinationDatabase(testDataDir)
+    messageManager = new MessageManager(db, testDataDir, examplePolicies)
+
+    const participantRegistry = new ParticipantRegistry(db, testDataDir)
+    for (const id of [backend, mobile, outsider]) {
+      await participantRegistry.registerParticipant({ id, capabilities: [], default_priority: 'M' })
+    }
+  })
+
+  afterEach(() => {
+    if (db) {
+      db.close()
+    }
+    if (testDataDir && fs.existsSync(testDataDir)) {
+      fs.rmSync(testDataDir, { recursive: true, force: true })
+    }
+  })
+
+  it('should date messages by the first policy matching their type and priority', async () => {
+    const arch = await messageManager.createMessage({ ...baseInput, type: 'arch' }, backend)
+    const update = await messageManager.createMessage({ ...baseInput, type: 'update' }, backend)
+    const emergency = await messageManager.createMessage(
+      { ...baseInput, type: 'emergency', priority: 'CRITICAL' },
+      backend
+    )
+    const sync = await messageManager.createMessage(baseInput, backend)
+    const explicit = await messageManager.createMessage(
+      { ...baseInput, type: 'arch', expires_in_hours: 12 },
+      backend
+    )
+
+    expect(hoursToExpiry(arch)).toBeNull()
+    expect(hoursToExpiry(update)).toBe(48)
+    expect(hoursToExpiry(emergency)).toBe(6)
+    expect(hoursToExpiry(sync)).toBe(168)
+    expect(hoursToExpiry(explicit)).toBe(12)
+
+    // Responses follow the same policies instead of always getting a week
+    const response = await messageManager.respondToMessage(
+      { message_id: update.id, content: 'Shipped' },
+      mobile
+    )
+    expect(hoursToExpiry(response)).toBe(48)
+
+    const custom = new MessageManager(db, testDataDir, [{ priority: 'L', expires_in_hours: 2 }])
+    const low = await custom.createMessage({ ...baseInput, priority: 'L' }, backend)
+    expect(hoursToExpiry(low)).toBe(2)
+  })
+
+  it('should give every message a week unless policies are configured', async () => {
+    expect(CoordinationConfig.parse({ participant_id: backend }).expiry_policies).toEqual([])
+
+    const unconfigured = new MessageManager(db, testDataDir)
+    for (const type of ['arch', 'contract', 'update', 'emergency', 'sync'] as const) {
+      const message = await unconfigured.createMessage({ ...baseInput, type }, backend)
+      expect(hoursToExpiry(message)).toBe(168)
+    }
+  })
+
+  it('should keep expired contract messages while their thread is active', async () => {
+    const contract = await messageManager.createMessage({ ...baseInput, type: 'contract' }, backend)
+    const sync = await messageManager.createMessage(baseInput, backend)
+    backdate(contract.id, 200)
+    backdate(sync.id, 200)
+
+    expect(await messageManager.archiveExpiredMessages()).toBe(1)
+    expect((await messageManager.getMessageById(contract.id, backend))!.status).toBe('pending')
+    expect((await messageManager.getMessageById(sync.id, backend))!.status).toBe('archived')
+
+    // Once the thread stops being active, the contract expires like anything else
+    db.prepare('UPDATE conversations SET status = ? WHERE thread_id = ?').run(
+      'resolved',
+      contract.thread_id
+    )
+    expect(await messageManager.archiveExpiredMessages()).toBe(1)
+    expect((await messageManager.getMessageById(contract.id, backend))!.status).toBe('archived')
+  })
+
+  it('should let thread participants override the policies for a thread', async () => {
+    const message = await messageManager.createMessage({ ...baseInput, type: 'update' }, backend)
+
+    const conversation = await messageManager.setThreadExpiry(
+      { thread_id: message.id, expires_in_hours: null },
+      mobile
+    )
+    expect(conversation.expiry_policy).toEqual({ expires_in_hours: null })
+    expect(hoursToExpiry((await messageManager.getMessageById(message.id, backend))!)).toBeNull()
+
+    const response = await messageManager.respondToMessage(
+      { message_id: message.id, content: 'Still negotiating' },
+      mobile
+    )
+    expect(hoursToExpiry(response)).toBeNull()
+
+    await messageManager.setThreadExpiry(
+      { thread_id: message.thread_id, expires_in_hours: 72 },
+      backend
+    )
+    expect(hoursToExpiry((await messageManager.getMessageById(message.id, backend))!)).toBe(72)
+
+    await expect(
+      messageManager.setThreadExpiry(
+        { thread_id: message.thread_id, keep_alive_while_active: true },
+        outsider
+      )
+    ).rejects.toThrow('Access denied')
+
+    const cleared = await messageManager.setThreadExpiry({ thread_id: message.thread_id }, backend)
+    expect(cleared.expiry_policy).toBeUndefined()
+  })
+
+  it('should let a thread override keep-alive either way', async () => {
+    const contract = await messageManager.createMessage({ ...baseInput, type: 'contract' }, backend)
+    const sync = await messageManager.createMessage(baseInput, backend)
+    await messageManager.setThreadExpiry(
+      { thread_id: contract.thread_id, keep_alive_while_active: false },
+      backend
+    )
+    await messageManager.setThreadExpiry(
+      { thread_id: sync.thread_id, keep_alive_while_active: true },
+      backend
+    )
+    backdate(contract.id, 200)
+    backdate(sync.id, 200)
+
+    expect(await messageManager.archiveExpiredMessages()).toBe(1)
+    expect((await messageManager.getMessageById(contract.id, backend))!.status).toBe('archived')
+    expect((await messageManager.getMessageById(sync.id, backend))!.status).toBe('pending')
+  })
+})
@@ -0,0 +1,145 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { CoordinationDatabase } from '../database/connection.js'
+import { MessageManager } from '../core/message-manager.js'
+import { GroupRegistry } from '../core/group-registry.js'
+import { ParticipantRegistry } from '../core/participant-registry.js'
+import { createTestDataDir } from './setup.js'
+import type { SendMessageInput, ParticipantId } from '../types/index.js'
+import fs from 'fs'
+
+describe('GroupRegistry', () => {
+  let db: CoordinationDatabase
+  let participantRegistry: ParticipantRegistry
+  let groupRegistry: GroupRegistry
+  let messageManager: MessageManager
+  let testDataDir: string
+  const backend: ParticipantId = '@backend'
+  const mobile: ParticipantId = '@mobile'
+  const web: ParticipantId = '@web'
+  const dba: ParticipantId = '@dba'
+
+  const baseInput: SendMessageInput = {
+    to: [],
+    type: 'contract',
+    priority: 'M',
+    subject: 'Pagination',
+    content: 'Cursor or offset?',
+    response_required: true,
+    expires_in_hours: 24,
+  }
+
+  beforeEach(async () => {
+    testDataDir = createTestDataDir()
+    fs.mkdirSync(testDataDir, { recursive: true })
+
+    db = new CoordinationDatabase(testDataDir)
+    participantRegistry = new ParticipantRegistry(db, testDataDir)
+    groupRegistry = new GroupRegistry(db, participantRegistry)
+    messageManager = new MessageManager(db, testDataDir)
+
+    for (const [id, capabilities] of [
+      [backend, ['api', 'database']],
+      [mobile, ['ios']],
+      [web, ['react']],
+      [dba, ['database']],
+    ] as const) {
+      await participantRegistry.registerParticipant({
+        id,
+        capabilities: [...capabilities],
+        default_priority: 'M',
+      })
+    }
+  })
+
+  afterEach(() => {
+    if (db) {
+      db.close()
+    }
+    if (testDataDir && fs.existsSync(testDataDir)) {
+      fs.rmSync(testDataDir, { recursive: true, force: true })
+    }
+  })
+
+  it('should create, list and remove groups', async () => {
+    const group = await groupRegistry.createGroup(
+      { name: 'contracts', members: [backend, mobile, web, mobile] },
+      backend
+    )
+    expect(group.members).toEqual([backend, mobile, web])
+
+    await expect(
+      groupRegistry.createGroup({ name: 'contracts', members: [web] }, backend)
+    ).rejects.toThrow('Group already exists')
+    await expect(
+      groupRegistry.createGroup({ name: 'ghosts', members: ['@nobody'] }, backend)
+    ).rejects.toThrow('Participant not found: @nobody')
+
+    expect((await groupRegistry.listGroups()).map(g => g.name)).toEqual(['contracts'])
+
+    await expect(groupRegistry.removeGroup('contracts', web)).rejects.toThrow('Access denied')
+    await groupRegistry.removeGroup('contracts', backend)
+    expect(await groupRegistry.listGroups()).toEqual([])
+  })
+
+  it('should expand @all, capabilities and groups without the sender', async () => {
+    await groupRegistry.createGroup({ name: 'clients', members: [mobile, web] }, backend)
+
+    expect(await groupRegistry.expandRecipients(['@all'], backend)).toEqual([dba, mobile, web])
+    expect(await groupRegistry.expandRecipients(['cap:database'], backend)).toEqual([dba])
+    expect(await groupRegistry.expandRecipients(['group:clients', web, '@dba'], backend)).toEqual([
+      mobile,
+      web,
+      dba,
+    ])
+    await expect(groupRegistry.expandRecipients(['group:missing'], backend)).rejects.toThrow(
+      'Group not found: missing'
+    )
+  })
+
+  it('should leave inactive members out of group expansion', async () => {
+    await groupRegistry.createGroup({ name: 'clients', members: [mobile, web] }, backend)
+    await participantRegistry.deactivateParticipant(web, web)
+
+    expect(await groupRegistry.expandRecipients(['group:clients'], backend)).toEqual([mobile])
+  })
+
+  it('should record the expansion on the message', async () => {
+    await groupRegistry.createGroup({ name: 'clients', members: [mobile, web] }, backend)
+
+    const message = await messageManager.createMessage(
+      { ...baseInput, to: ['group:clients', 'cap:database'] },
+      backend
+    )
+    expect(message.to).toEqual([mobile, web, dba])
+    expect(message.addressed_to).toEqual(['group:clients', 'cap:database'])
+
+    // Changing the group afterwards doesn't rewrite who received the message
+    await groupRegistry.removeGroup('clients', backend)
+    const stored = await messageManager.getMessageById(message.id, web)
+    expect(stored!.to).toEqual([mobile, web, dba])
+    expect(stored!.addressed_to).toEqual(['group:clients', 'cap:database'])
+
+    const inbox = await messageManager.getMessages({ limit: 20 }, dba)
+    expect(inbox.map(m => m.id)).toEqual([message.id])
+  })
+
+  it('should not record addressed_to for plain participants', async () => {
+    const message = await messageManager.createMessage({ ...baseInput, to: [mobile] }, backend)
+
+    expect(message.to).toEqual([mobile])
+    expect(message.addressed_to).toBeUndefined()
+  })
+
+  it('should reject expressions that expand to nobody', async () => {
+    await expect(
+      messageManager.createMessage({ ...baseInput, to: ['cap:nonexistent'] }, backend)
+    ).rejects.toThrow('Recipients expand to no participants')
+  })
+
+  it('should let canSendMessage accept group expressions', async () => {
+    expect(
+      await participantRegistry.canSendMessage(backend, ['@all', 'cap:database', mobile])
+    ).toBe(true)
+    expect(await participantRegistry.canSendMessage(backend, ['@nobody'])).toBe(false)
+  })
+})
@@ -0,0 +1,158 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { CoordinationDatabase } from '../database/connection.js'
+import { MessageManager } from '../core/message-manager.js'
+import { ParticipantRegistry } from '../core/participant-registry.js'
+import { renderHandoffBrief } from '../core/handoff-store.js'
+import { createTestDataDir } from './setup.js'
+import { HandoffInput, ParticipantId } from '../types/index.js'
+import fs from 'fs'
+
+describe('Handoffs', () => {
+  let db: CoordinationDatabase
+  let messageManager: MessageManager
+  let testDataDir: string
+  const backend: ParticipantId = '@backend'
+  const backendNext: ParticipantId = '@backend-next'
+  const reviewer: ParticipantId = '@reviewer'
+  const outsider: ParticipantId = '@outsider'
+
+  const handoffInput: HandoffInput = {
+    to: [backendNext, reviewer],
+    priority: 'H',
+    goal: 'Move token refresh to the auth service',
+    branch: 'feature/token-refresh',
+    files_touched: ['src/auth/refresh.ts', 'src/auth/refresh.test.ts'],
+    commands_run: ['npm run test -- refresh', 'npm run typecheck'],
+    open_questions: ['Should refresh tokens rotate on every use?'],
+    next_steps: ['Wire the endpoint into the router', 'Update the client SDK'],
+    notes: 'The staging certs expire on Friday.',
+  }
+
+  beforeEach(async () => {
+    testDataDir = createTestDataDir()
+    fs.mkdirSync(testDataDir, { recursive: true })
+
+    db = new CoordinationDatabase(testDataDir)
+    messageManager = new MessageManager(db, testDataDir)
+
+    const participantRegistry = new ParticipantRegistry(db, testDataDir)
+    for (const id of [backend, backendNext, reviewer, outsider]) {
+      await participantRegistry.registerParticipant({ id, capabilities: [], default_priority: 'M' })
+    }
+  })
+
+  afterEach(() => {
+    if (db) {
+      db.close()
+    }
+    if (testDataDir && fs.existsSync(testDataDir)) {
+      fs.rmSync(testDataDir, { recursive: true, force: true })
+    }
+  })
+
+  it('should send a handoff message with its state in structured fields', async () => {
+    const message = await messageManager.sendHandoff(handoffInput, backend)
+
+    expect(message.id).toMatch(/^HANDOFF-/)
+    expect(message).toMatchObject({
+      type: 'handoff',
+      subject: 'Handoff: Move token refresh to the auth service',
+      to: [backendNext, reviewer],
+    })
+
+    const stored = (await messageManager.getMessageById(message.id, backendNext, 'full'))!
+    expect(stored.content).toBe('The staging certs expire on Friday.')
+    expect(stored.handoff).toMatchObject({
+      goal: 'Move token refresh to the auth service',
+      branch: 'feature/token-refresh',
+      files_touched: ['src/auth/refresh.ts', 'src/auth/refresh.test.ts'],
+      commands_run: ['npm run test -- refresh', 'npm run typecheck'],
+      open_questions: ['Should refresh tokens rotate on every use?'],
+      next_steps: ['Wire the endpoint into the router', 'Update the client SDK'],
+    })
+    expect(stored.handoff!.accepted_by).toBeUndefined()
+  })
+
+  it('should let the first recipient take the work over', async () => {
+    const message = await messageManager.sendHandoff(handoffInput, backend)
+
+    const accepted = await messageManager.acceptHandoff({ message_id: message.id }, backendNext)
+    expect(accepted.handoff!.accepted_by).toBe(backendNext)
+    expect(accepted.handoff!.accepted_at).toBeInstanceOf(Date)
+    expect(accepted).toMatchObject({ status: 'resolved', resolved_by: backendNext })
+
+    // Accepting again after another context reset returns the same state
+    const again = await messageManager.acceptHandoff({ message_id: message.id }, backendNext)
+    expect(again.handoff).toEqual(accepted.handoff)
+
+    await expect(
+      messageManager.acceptHandoff({ message_id: message.id }, reviewer)
+    ).rejects.toThrow('Handoff already accepted by @backend-next')
+  })
+
+  it('should render a compact brief for the session picking the work up', async () => {
+    const message = await messageManager.sendHandoff(handoffInput, backend)
+    const accepted = await messageManager.acceptHandoff({ message_id: message.id }, reviewer)
+
+    const brief = renderHandoffBrief(accepted)
+    expect(brief).toContain(`Handoff ${message.id} from @backend`)
+    expect(brief).toContain('Goal: Move token refresh to the auth service')
+    expect(brief).toContain('Branch: feature/token-refresh')
+    expect(brief).toContain(
+      'Next steps:\n- Wire the endpoint into the router\n- Update the client SDK'
+    )
+    expect(brief).toContain('Commands run:\n$ npm run test -- refresh\n$ npm run typecheck')
+    expect(brief).toContain('Notes:\nThe staging certs expire on Friday.')
+
+    // Empty sections and notes that only repeat the goal are left out
+    const bare = await messageManager.sendHandoff(
+      { to: [reviewer], goal: 'Finish the migration', priority: 'M' },
+      backend
+    )
+    const bareBrief = renderHandoffBrief(
+      await messageManager.acceptHandoff({ message_id: bare.id }, reviewer)
+    )
+    expect(bareBrief).not.toContain('Branch:')
+    expect(bareBrief).not.toContain('Open questions:')
+    expect(bareBrief).not.toContain('Notes:')
+  })
+
+  it('should validate handoff messages and who can accept them', async () => {
+    await expect(
+      messageManager.createMessage(
+        { to: [reviewer], type: 'handoff', priority: 'H', subject: 'Over to you', content: '...' },
+        backend
+      )
+    ).rejects.toThrow('Handoff messages need handoff details')
+    await expect(
+      messageManager.createMessage(
+        {
+          to: [reviewer],
+          type: 'sync',
+          priority: 'H',
+          subject: 'Over to you',
+          content: '...',
+          handoff: { goal: 'Finish it' },
+        },
+        backend
+      )
+    ).rejects.toThrow('Only handoff messages can carry handoff details')
+
+    const message = await messageManager.sendHandoff(handoffInput, backend)
+    await expect(messageManager.acceptHandoff({ message_id: message.id }, backend)).rejects.toThrow(
+      'Access denied: only recipients can accept a handoff'
+    )
+    await expect(
+      messageManager.acceptHandoff({ message_id: message.id }, outsider)
+    ).rejects.toThrow('Access denied')
+
+    const sync = await messageManager.createMessage(
+      { to: [reviewer], type: 'sync', priority: 'M', subject: 'Sync', content: '...' },
+      backend
+    )
+    await expect(messageManager.acceptHandoff({ message_id: sync.id }, reviewer)).rejects.toThrow(
+      'Message is not a handoff'
+    )
+    expect(() => renderHandoffBrief(sync)).toThrow(`Message is not a handoff: ${sync.id}`)
+  })
+})
@@ -0,0 +1,142 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { addHours } from 'date-fns'
+import { CoordinationDatabase } from '../database/connection.js'
+import { MessageManager } from '../core/message-manager.js'
+import { ParticipantRegistry } from '../core/participant-registry.js'
+import { createTestDataDir } from './setup.js'
+import { ParticipantId, SendMessageInput, TriageFilter } from '../types/index.js'
+import fs from 'fs'
+
+describe('MessageManager inbox triage', () => {
+  let db: CoordinationDatabase
+  let messageManager: MessageManager
+  let testDataDir: string
+  const backend: ParticipantId = '@backend'
+  const mobile: ParticipantId = '@mobile'
+  const web: ParticipantId = '@web'
+  const outsider: ParticipantId = '@outsider'
+
+  const baseInput: SendMessageInput = {
+    to: [mobile, web],
+    type: 'q',
+    priority: 'M',
+    subject: 'Release freeze',
+    content: 'Can you hold merges until Friday?',
+    response_required: true,
+  }
+
+  const inbox = async (participant: ParticipantId, triage?: TriageFilter[]) =>
+    (await messageManager.getMessages({ limit: 20, triage }, participant)).map(m => m.id)
+
+  beforeEach(async () => {
+    testDataDir = createTestDataDir()
+    fs.mkdirSync(testDataDir, { recursive: true })
+
+    db = new CoordinationDatabase(testDataDir)
+    messageManager = new MessageManager(db, testDataDir)
+
+    const participantRegistry = new ParticipantRegistry(db, testDataDir)
+    for (const id of [backend, mobile, web, outsider]) {
+      await participantRegistry.registerParticipant({ id, capabilities: [], default_priority: 'M' })
+    }
+  })
+
+  afterEach(() => {
+    if (db) {
+      db.close()
+    }
+    if (testDataDir && fs.existsSync(testDataDir)) {
+      fs.rmSync(testDataDir, { recursive: true, force: true })
+    }
+  })
+
+  it('should hide snoozed messages from the snoozer only, until they wake up', async () => {
+    const message = await messageManager.createMessage(baseInput, backend)
+
+    const triage = await messageManager.snoozeMessage(
+      { message_id: message.id, until: addHours(new Date(), 2) },
+      mobile
+    )
+    expect(triage.snoozed_until).toBeInstanceOf(Date)
+
+    expect(await inbox(mobile)).toEqual([])
+    expect(await inbox(mobile, ['snoozed'])).toEqual([message.id])
+    expect(await inbox(web)).toEqual([message.id])
+    expect(await inbox(backend)).toEqual([message.id])
+    expect((await messageManager.getMessageById(message.id, backend))!.status).toBe('pending')
+
+    // Once the snooze time passes the message is back
+    db.prepare('UPDATE message_triage SET snoozed_until = ?').run(
+      new Date(Date.now() - 1000).toISOString()
+    )
+    expect(await inbox(mobile)).toEqual([message.id])
+
+    await messageManager.snoozeMessage(
+      { message_id: message.id, until: addHours(new Date(), 2) },
+      mobile
+    )
+    await messageManager.snoozeMessage({ message_id: message.id, until: null }, mobile)
+    expect(await inbox(mobile)).toEqual([message.id])
+  })
+
+  it('should let a recipient clear a message from their inbox without resolving it', async () => {
+    const message = await messageManager.createMessage(baseInput, backend)
+
+    await messageManager.triageMessage({ message_id: message.id, done: true }, mobile)
+
+    expect(await inbox(mobile)).toEqual([])
+    expect(await inbox(mobile, ['done'])).toEqual([message.id])
+    expect(await inbox(web)).toEqual([message.id])
+    const [seenByWeb] = await messageManager.getMessages({ limit: 20 }, web)
+    expect(seenByWeb.status).toBe('pending')
+    expect(seenByWeb.triage).toBeUndefined()
+
+    // Listings that include settled messages still show it
+    const all = await messageManager.getMessages({ limit: 20, active_only: false }, mobile)
+    expect(all.map(m => m.id)).toEqual([message.id])
+
+    await messageManager.triageMessage({ message_id: message.id, done: false }, mobile)
+    expect(await inbox(mobile)).toEqual([message.id])
+  })
+
+  it('should keep pins and stars per participant and only change what is passed', async () => {
+    const pinned = await messageManager.createMessage(baseInput, backend)
+    const other = await messageManager.createMessage({ ...baseInput, subject: 'Other' }, backend)
+
+    await messageManager.triageMessage({ message_id: pinned.id, pinned: true }, mobile)
+    const triage = await messageManager.triageMessage(
+      { message_id: pinned.id, starred: true },
+      mobile
+    )
+    expect(triage).toMatchObject({ pinned: true, starred: true })
+
+    expect(await inbox(mobile, ['pinned'])).toEqual([pinned.id])
+    expect(await inbox(mobile, ['starred'])).toEqual([pinned.id])
+    expect(await inbox(web, ['pinned'])).toEqual([])
+
+    const listed = await messageManager.getMessages({ limit: 20 }, mobile)
+    expect(listed.find(m => m.id === pinned.id)!.triage).toMatchObject({
+      pinned: true,
+      starred: true,
+    })
+    expect(listed.find(m => m.id === other.id)!.triage).toBeUndefined()
+
+    // The sender can triage too
+    await messageManager.triageMessage({ message_id: other.id, starred: true }, backend)
+    expect(await inbox(backend, ['starred'])).toEqual([other.id])
+  })
+
+  it('should only triage messages the participant can see', async () => {
+    const message = await messageManager.createMessage(baseInput, backend)
+
+    await expect(
+      messageManager.triageMessage({ message_id: message.id, pinned: true }, outsider)
+    ).rejects.toThrow('Access denied')
+    await expect(
+      messageManager.snoozeMessage(
+        { message_id: message.id, until: new Date(Date.now() - 1000) },
+        mobile
+      )
+    ).rejects.toThrow('Snooze time must be in the future')
+  })
+})
@@ -5,7 +5,7 @@ import os from 'os'
 import { CoordinationDatabase } from '../database/connection.js'
 import { MessageManager } from '../core/message-manager.js'
 import { ParticipantRegistry } from '../core/participant-registry.js'
-import { ParticipantId, SendMessageInput, GetMessagesInput } from '../types/index.js'
+import { ParticipantId, SendMessageInput, GetMessagesInput, ContentIntegrityError } from '../types/index.js'
 
 describe('Message Content Handling', () => {
   let tempDir: string
@@ -404,7 +404,7 @@ Backend Team
     expect(message.summary).toBe(shortContent)
   })
 
-  it('should handle content file read errors gracefully', async () => {
+  it('should report missing content instead of falling back to the summary', async () => {
     // Create a message with long content
     const longContent = 'x'.repeat(1500) // Force content_ref creation
     
@@ -421,25 +421,33 @@ Backend Team
     const sentMessage = await messageManager.createMessage(input, testParticipant)
     expect(sentMessage.content_ref).toBeTruthy()
     
-    // Delete the content file to simulate read error
+    // Delete the content blob to simulate a read error
     const contentPath = path.join(tempDir, sentMessage.content_ref!)
     fs.unlinkSync(contentPath)
     
-    // Try to retrieve with full detail
-    const messages = await messageManager.getMessages({
+    // Retrieving the full content reports the error on the message
+    const [broken] = await messageManager.getMessages({
       thread_id: sentMessage.thread_id,
       limit: 1,
       detail_level: 'full',
       active_only: false
     }, testParticipant)
+    expect(broken.content).toBeUndefined()
+    expect(broken.content_error).toBe(`Content missing: ${sentMessage.content_ref}`)
+    await expect(messageManager.getMessageById(sentMessage.id, testParticipant)).rejects.toThrow(
+      ContentIntegrityError
+    )
     
-    expect(messages).toHaveLength(1)
-    const message = messages[0]
+    // The summary level doesn't need the content
+    const messages = await messageManager.getMessages({
+      thread_id: sentMessage.thread_id,
+      limit: 1,
+      detail_level: 'summary',
+      active_only: false
+    }, testParticipant)
     
-    // Should fallback to summary when content file is missing
-    expect(message.content).toBeDefined()
-    expect(message.content).toBe(message.summary)
-    expect(message.content).toContain('xxx') // Should have truncated x's
+    expect(messages).toHaveLength(1)
+    expect(messages[0].content).toBeUndefined()
   })
 
   it('should respect active_only filter for closed threads', async () => {
@@ -1,4 +1,4 @@
-import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
 import { CoordinationDatabase } from '../database/connection.js'
 import { MessageManager } from '../core/message-manager.js'
 import { ParticipantRegistry } from '../core/participant-registry.js'
@@ -452,6 +452,564 @@ describe('MessageManager', () => {
         )
       ).rejects.toThrow('Access denied')
     })
+
+    it('should record the reply chain, including replies to replies', async () => {
+      const reply = await messageManager.respondToMessage(
+        { message_id: originalMessageId, content: 'Which version?' },
+        targetParticipant
+      )
+      const replyToReply = await messageManager.respondToMessage(
+        { message_id: reply.id, content: 'v2' },
+        testParticipant
+      )
+
+      expect(reply.in_reply_to).toBe(originalMessageId)
+      expect(replyToReply.in_reply_to).toBe(reply.id)
+      expect(replyToReply.subject).toBe('Re: Original message')
+      expect(replyToReply.to).toEqual([targetParticipant])
+
+      const { messages } = await messageManager.getThread(
+        { thread_id: originalMessageId, detail_level: 'index' },
+        testParticipant
+      )
+      expect(messages.map(m => [m.id, m.in_reply_to])).toEqual([
+        [originalMessageId, undefined],
+        [reply.id, originalMessageId],
+        [replyToReply.id, reply.id],
+      ])
+    })
+  })
+
+  describe('response recipients', () => {
+    const web: ParticipantId = '@web'
+    const security: ParticipantId = '@security'
+    let contractId: string
+
+    beforeEach(async () => {
+      const message = await messageManager.createMessage(
+        {
+          to: [targetParticipant, web],
+          type: 'contract',
+          priority: 'H',
+          subject: 'Pagination contract',
+          content: 'Cursor or offset pagination?',
+          response_required: true,
+          expires_in_hours: 24,
+        },
+        testParticipant
+      )
+      contractId = message.id
+    })
+
+    it('should reply to the sender only by default', async () => {
+      const response = await messageManager.respondToMessage(
+        { message_id: contractId, content: 'Cursor' },
+        targetParticipant
+      )
+
+      expect(response.to).toEqual([testParticipant])
+    })
+
+    it('should address every thread participant with reply_all', async () => {
+      const response = await messageManager.respondToMessage(
+        { message_id: contractId, content: 'Cursor', reply_all: true },
+        targetParticipant
+      )
+
+      expect(response.to).toEqual([testParticipant, web])
+      const webInbox = await messageManager.getMessages({ limit: 20 }, web)
+      expect(webInbox.map(m => m.id)).toContain(response.id)
+    })
+
+    it('should let cc bring a new participant into the thread', async () => {
+      const response = await messageManager.respondToMessage(
+        { message_id: contractId, content: 'Security should weigh in', cc: [security] },
+        targetParticipant
+      )
+      expect(response.to).toEqual([testParticipant, security])
+
+      // Once in the thread, the new participant can respond too
+      const followUp = await messageManager.respondToMessage(
+        { message_id: contractId, content: 'Cursor, signed', reply_all: true },
+        security
+      )
+      expect(followUp.to).toEqual([testParticipant, targetParticipant, web])
+    })
+
+    it('should replace the recipients with to', async () => {
+      const response = await messageManager.respondToMessage(
+        { message_id: contractId, content: 'Side note for web', to: [web] },
+        targetParticipant
+      )
+
+      expect(response.to).toEqual([web])
+    })
+
+    it('should reject a response with no recipients besides the responder', async () => {
+      await expect(
+        messageManager.respondToMessage(
+          { message_id: contractId, content: 'Note to self' },
+          testParticipant
+        )
+      ).rejects.toThrow('Response has no recipients')
+    })
+  })
+
+  describe('forwardMessage', () => {
+    const web: ParticipantId = '@web'
+
+    it('should copy the message into a new thread with a link back', async () => {
+      const longContent = 'Which cache headers should the CDN honour?\n'.repeat(40)
+      const question = await messageManager.createMessage(
+        {
+          to: [targetParticipant],
+          type: 'q',
+          priority: 'H',
+          subject: 'CDN caching',
+          content: longContent,
+          response_required: true,
+          expires_in_hours: 24,
+          tags: ['cdn'],
+          suggested_approach: { analysis_focus: ['caching'] },
+        },
+        testParticipant
+      )
+
+      const forwarded = await messageManager.forwardMessage(
+        { message_id: question.id, to: [web], note: 'This one is yours' },
+        targetParticipant
+      )
+
+      expect(forwarded.thread_id).not.toBe(question.thread_id)
+      expect(forwarded.forwarded_from).toBe(question.id)
+      expect(forwarded.from).toBe(targetParticipant)
+      expect(forwarded.to).toEqual([web])
+      expect(forwarded.type).toBe('q')
+      expect(forwarded.subject).toBe('Fwd: CDN caching')
+      expect(forwarded.tags).toEqual(['cdn'])
+      expect(forwarded.suggested_approach).toEqual({ analysis_focus: ['caching'] })
+
+      const copy = await messageManager.getMessageById(forwarded.id, web, 'full')
+      expect(copy!.forwarded_from).toBe(question.id)
+      expect(copy!.content).toBe(`This one is yours\n\n---\n\n${longContent}`)
+
+      // The original thread lists where its message went
+      const { forwards } = await messageManager.getThread(
+        { thread_id: question.thread_id, detail_level: 'index' },
+        testParticipant
+      )
+      expect(forwards).toEqual([
+        expect.objectContaining({
+          original_id: question.id,
+          message_id: forwarded.id,
+          thread_id: forwarded.thread_id,
+          forwarded_by: targetParticipant,
+          to: [web],
+        }),
+      ])
+    })
+
+    it('should only forward messages the participant can see', async () => {
+      const message = await messageManager.createMessage(
+        {
+          to: [targetParticipant],
+          type: 'q',
+          priority: 'M',
+          subject: 'Private question',
+          content: 'Not for web',
+          response_required: true,
+          expires_in_hours: 24,
+        },
+        testParticipant
+      )
+
+      await expect(
+        messageManager.forwardMessage({ message_id: message.id, to: [web] }, web)
+      ).rejects.toThrow('Access denied')
+    })
+  })
+
+  describe('per-recipient state', () => {
+    const secondTarget: ParticipantId = '@web'
+    let messageId: string
+
+    beforeEach(async () => {
+      const message = await messageManager.createMessage(
+        {
+          to: [targetParticipant, secondTarget],
+          type: 'q',
+          priority: 'M',
+          subject: 'Question for both',
+          content: 'Which version should we target?',
+          response_required: true,
+          expires_in_hours: 24,
+        },
+        testParticipant
+      )
+      messageId = message.id
+    })
+
+    it('should start every recipient as delivered', async () => {
+      const messages = await messageManager.getMessages(
+        { limit: 20, detail_level: 'index' },
+        secondTarget
+      )
+
+      expect(messages).toHaveLength(1)
+      expect(messages[0].recipient_status).toBe('delivered')
+    })
+
+    it('should keep the message open for recipients who have not responded', async () => {
+      await messageManager.respondToMessage(
+        { message_id: messageId, content: 'Version 2' },
+        targetParticipant
+      )
+
+      const threadMessages = await messageManager.getMessages(
+        { thread_id: `${messageId}-thread`, limit: 20, detail_level: 'index' },
+        targetParticipant
+      )
+      const forResponder = threadMessages.find(m => m.id === messageId)
+      expect(forResponder!.recipient_status).toBe('responded')
+
+      const waiting = await messageManager.getMessages(
+        { recipient_status: ['delivered'], limit: 20, detail_level: 'index' },
+        secondTarget
+      )
+      expect(waiting.map(m => m.id)).toEqual([messageId])
+      expect(waiting[0].status).toBe('pending')
+
+      const answered = await messageManager.getMessages(
+        { recipient_status: ['delivered'], limit: 20, detail_level: 'index' },
+        targetParticipant
+      )
+      expect(answered).toHaveLength(0)
+    })
+
+    it('should mark the message responded once every recipient has responded', async () => {
+      await messageManager.respondToMessage(
+        { message_id: messageId, content: 'Version 2' },
+        targetParticipant
+      )
+      await messageManager.respondToMessage(
+        { message_id: messageId, content: 'Version 3' },
+        secondTarget
+      )
+
+      const message = await messageManager.getMessageById(messageId, testParticipant)
+      expect(message!.status).toBe('responded')
+    })
+
+    it('should resolve every recipient when the message is resolved', async () => {
+      await messageManager.resolveMessage(messageId, testParticipant)
+
+      const messages = await messageManager.getMessages(
+        { recipient_status: ['resolved'], limit: 20, detail_level: 'index', active_only: false },
+        secondTarget
+      )
+      expect(messages.map(m => m.id)).toEqual([messageId])
+    })
+  })
+
+  describe('markRead', () => {
+    const secondTarget: ParticipantId = '@web'
+    let messageId: string
+
+    beforeEach(async () => {
+      const message = await messageManager.createMessage(
+        {
+          to: [targetParticipant, secondTarget],
+          type: 'sync',
+          priority: 'M',
+          subject: 'Status check',
+          content: 'Where are we on the rollout?',
+          response_required: true,
+          expires_in_hours: 24,
+        },
+        testParticipant
+      )
+      messageId = message.id
+    })
+
+    it('should record who has read a message and when', async () => {
+      const marked = await messageManager.markRead({ message_ids: [messageId] }, targetParticipant)
+      expect(marked).toBe(1)
+
+      const receipts = await messageManager.getReadReceipts(messageId, testParticipant)
+      const byParticipant = Object.fromEntries(receipts.map(r => [r.participant, r]))
+      expect(byParticipant[targetParticipant].status).toBe('read')
+      expect(byParticipant[targetParticipant].read_at).toBeInstanceOf(Date)
+      expect(byParticipant[secondTarget].status).toBe('delivered')
+      expect(byParticipant[secondTarget].read_at).toBeUndefined()
+
+      // Still pending while another recipient has not read it
+      const message = await messageManager.getMessageById(messageId, testParticipant)
+      expect(message!.status).toBe('pending')
+      expect(message!.recipients).toHaveLength(2)
+    })
+
+    it('should mark the message read once every recipient has read it', async () => {
+      await messageManager.markRead({ message_ids: [messageId] }, targetParticipant)
+      await messageManager.markRead({ message_ids: [messageId] }, secondTarget)
+
+      const message = await messageManager.getMessageById(messageId, testParticipant)
+      expect(message!.status).toBe('read')
+    })
+
+    it('should not count messages that were already read or answered', async () => {
+      await messageManager.respondToMessage(
+        { message_id: messageId, content: 'Halfway there' },
+        targetParticipant
+      )
+
+      const marked = await messageManager.markRead({ message_ids: [messageId] }, targetParticipant)
+      expect(marked).toBe(0)
+
+      const receipts = await messageManager.getReadReceipts(messageId, testParticipant)
+      expect(receipts.find(r => r.participant === targetParticipant)!.status).toBe('responded')
+    })
+
+    it('should only allow recipients to mark a message read', async () => {
+      await expect(
+        messageManager.markRead({ message_ids: [messageId] }, testParticipant)
+      ).rejects.toThrow('Access denied')
+    })
+
+    it('should only show read receipts to the sender', async () => {
+      await expect(messageManager.getReadReceipts(messageId, targetParticipant)).rejects.toThrow(
+        'Access denied'
+      )
+
+      const [received] = await messageManager.getMessages(
+        { limit: 20, detail_level: 'full' },
+        targetParticipant
+      )
+      expect(received.recipients).toBeUndefined()
+    })
+  })
+
+  describe('cancelMessage', () => {
+    let messageId: string
+
+    beforeEach(async () => {
+      const message = await messageManager.createMessage(
+        {
+          to: [targetParticipant],
+          type: 'q',
+          priority: 'H',
+          subject: 'Which port does the API use?',
+          content: 'Need the port for local testing',
+          response_required: true,
+          expires_in_hours: 24,
+        },
+        testParticipant
+      )
+      messageId = message.id
+    })
+
+    it('should cancel the message and notify recipients', async () => {
+      const cancelled = await messageManager.cancelMessage(
+        { message_id: messageId, reason: 'Found it in the README' },
+        testParticipant
+      )
+      expect(cancelled.status).toBe('cancelled')
+
+      const stored = await messageManager.getMessageById(messageId, targetParticipant)
+      expect(stored!.status).toBe('cancelled')
+      expect(stored!.cancellation_reason).toBe('Found it in the README')
+      expect(stored!.cancelled_at).toBeInstanceOf(Date)
+
+      // The cancelled request drops out of the inbox, replaced by the notice
+      const inbox = await messageManager.getMessages({ limit: 20 }, targetParticipant)
+      expect(inbox).toHaveLength(1)
+      expect(inbox[0].type).toBe('update')
+      expect(inbox[0].tags).toContain(`cancels:${messageId}`)
+    })
+
+    it('should only allow the sender to cancel', async () => {
+      await expect(
+        messageManager.cancelMessage(
+          { message_id: messageId, reason: 'Not mine to cancel' },
+          targetParticipant
+        )
+      ).rejects.toThrow('only the sender')
+    })
+
+    it('should not cancel a message that has been responded to', async () => {
+      await messageManager.respondToMessage(
+        { message_id: messageId, content: 'Port 3000' },
+        targetParticipant
+      )
+
+      await expect(
+        messageManager.cancelMessage({ message_id: messageId, reason: 'Too late' }, testParticipant)
+      ).rejects.toThrow('already been responded to')
+    })
+  })
+
+  describe('editMessage', () => {
+    let messageId: string
+
+    beforeEach(async () => {
+      const message = await messageManager.createMessage(
+        {
+          to: [targetParticipant],
+          type: 'contract',
+          priority: 'M',
+          subject: 'User endpoint contract',
+          content: 'GET /users returns id and name',
+          response_required: true,
+          expires_in_hours: 24,
+          tags: ['api'],
+        },
+        testParticipant
+      )
+      messageId = message.id
+    })
+
+    it('should update the message and record both versions', async () => {
+      const edited = await messageManager.editMessage(
+        { message_id: messageId, content: 'GET /users returns id, name and email', priority: 'H' },
+        testParticipant
+      )
+
+      expect(edited.revision).toBe(2)
+      expect(edited.edited_at).toBeInstanceOf(Date)
+      expect(edited.priority).toBe('H')
+      expect(edited.subject).toBe('User endpoint contract')
+      expect(edited.content).toBe('GET /users returns id, name and email')
+
+      const revisions = await messageManager.getRevisions(
+        { message_id: messageId },
+        targetParticipant
+      )
+      expect(revisions.map(r => r.revision)).toEqual([1, 2])
+      expect(revisions[0].content).toBe('GET /users returns id and name')
+      expect(revisions[0].priority).toBe('M')
+      expect(revisions[1].content).toBe('GET /users returns id, name and email')
+      expect(revisions[1].edited_by).toBe(testParticipant)
+    })
+
+    it('should keep every revision in the content store', async () => {
+      const longContent = 'x'.repeat(1500)
+      const edited = await messageManager.editMessage(
+        { message_id: messageId, content: longContent },
+        testParticipant
+      )
+
+      expect(edited.content_ref).toMatch(/^content\/[0-9a-f]{2}\/[0-9a-f]{64}$/)
+      expect(edited.content).toBe(longContent)
+
+      const revisions = await messageManager.getRevisions(
+        { message_id: messageId },
+        testParticipant
+      )
+      expect(revisions.map(r => r.content)).toEqual(['GET /users returns id and name', longContent])
+    })
+
+    it('should return a single revision for messages that were never edited', async () => {
+      const revisions = await messageManager.getRevisions(
+        { message_id: messageId },
+        testParticipant
+      )
+      expect(revisions).toHaveLength(1)
+      expect(revisions[0].revision).toBe(1)
+    })
+
+    it('should only allow the sender to edit unresolved messages', async () => {
+      await expect(
+        messageManager.editMessage({ message_id: messageId, subject: 'Hijack' }, targetParticipant)
+      ).rejects.toThrow('only the sender')
+
+      await messageManager.resolveMessage(messageId, testParticipant)
+      await expect(
+        messageManager.editMessage({ message_id: messageId, subject: 'Too late' }, testParticipant)
+      ).rejects.toThrow('Cannot edit a resolved message')
+    })
+
+    it('should require at least one field to change', async () => {
+      await expect(
+        messageManager.editMessage({ message_id: messageId }, testParticipant)
+      ).rejects.toThrow('At least one of')
+    })
+  })
+
+  describe('scheduled messages', () => {
+    const sendAt = new Date(Date.now() + 60 * 60 * 1000)
+    let messageId: string
+
+    beforeEach(async () => {
+      const message = await messageManager.createMessage(
+        {
+          to: [targetParticipant],
+          type: 'sync',
+          priority: 'M',
+          subject: 'Start the client update',
+          content: 'The migration has landed',
+          response_required: true,
+          expires_in_hours: 24,
+          send_at: sendAt,
+        },
+        testParticipant
+      )
+      messageId = message.id
+    })
+
+    afterEach(() => {
+      vi.useRealTimers()
+    })
+
+    it('should hide the message from recipients until send_at', async () => {
+      const inbox = await messageManager.getMessages({ limit: 20 }, targetParticipant)
+      expect(inbox).toHaveLength(0)
+      expect(await messageManager.getMessageById(messageId, targetParticipant)).toBeNull()
+
+      // The sender still sees it
+      const scheduled = await messageManager.listScheduledMessages(testParticipant)
+      expect(scheduled.map(m => m.id)).toEqual([messageId])
+      expect(scheduled[0].send_at).toEqual(sendAt)
+    })
+
+    it('should deliver the message once send_at has passed', async () => {
+      vi.useFakeTimers({ toFake: ['Date'] })
+      vi.setSystemTime(new Date(sendAt.getTime() + 1000))
+
+      const inbox = await messageManager.getMessages({ limit: 20 }, targetParticipant)
+      expect(inbox.map(m => m.id)).toEqual([messageId])
+      expect(inbox[0].created_at).toEqual(sendAt)
+      expect(await messageManager.listScheduledMessages(testParticipant)).toHaveLength(0)
+    })
+
+    it('should reject send_at in the past', async () => {
+      await expect(
+        messageManager.createMessage(
+          {
+            to: [targetParticipant],
+            type: 'sync',
+            priority: 'M',
+            subject: 'Too late',
+            content: 'Already happened',
+            response_required: true,
+            expires_in_hours: 24,
+            send_at: new Date(Date.now() - 1000),
+          },
+          testParticipant
+        )
+      ).rejects.toThrow('send_at must be in the future')
+    })
+
+    it('should cancel without notifying recipients who never saw it', async () => {
+      await messageManager.cancelMessage(
+        { message_id: messageId, reason: 'Migration postponed' },
+        testParticipant
+      )
+
+      vi.useFakeTimers({ toFake: ['Date'] })
+      vi.setSystemTime(new Date(sendAt.getTime() + 1000))
+
+      const inbox = await messageManager.getMessages({ limit: 20 }, targetParticipant)
+      expect(inbox).toHaveLength(0)
+    })
   })
 
   describe('resolveMessage', () => {
@@ -561,4 +1119,117 @@ describe('MessageManager', () => {
       expect(resolvedMessage!.status).toBe('resolved')
     })
   })
+
+  describe('dependencies', () => {
+    const baseInput: SendMessageInput = {
+      to: [targetParticipant],
+      type: 'contract',
+      priority: 'M',
+      subject: 'Auth endpoints',
+      content: 'Publish the new auth endpoints',
+      response_required: true,
+      expires_in_hours: 24,
+    }
+
+    it('should be blocked while a dependency is unresolved', async () => {
+      const api = await messageManager.createMessage(baseInput, testParticipant)
+      const client = await messageManager.createMessage(
+        { ...baseInput, subject: 'Login screen', depends_on: [api.id] },
+        testParticipant
+      )
+
+      expect(client.dependencies).toEqual([api.id])
+      expect(client.blocked).toBe(true)
+      expect(client.blocked_by).toEqual([api.id])
+
+      await messageManager.resolveMessage(api.id, targetParticipant)
+
+      const unblocked = await messageManager.getMessageById(client.id, testParticipant)
+      expect(unblocked!.blocked).toBe(false)
+      expect(unblocked!.blocked_by).toEqual([])
+    })
+
+    it('should merge depends_on with depends: tags and reject unknown dependencies', async () => {
+      const first = await messageManager.createMessage(baseInput, testParticipant)
+      const second = await messageManager.createMessage(baseInput, testParticipant)
+
+      const dependent = await messageManager.createMessage(
+        { ...baseInput, depends_on: [first.id], tags: [`depends:${second.id}`, 'auth'] },
+        testParticipant
+      )
+      expect(dependent.dependencies).toEqual([first.id, second.id])
+      expect(dependent.tags).toEqual(['auth'])
+
+      await expect(
+        messageManager.createMessage(
+          { ...baseInput, depends_on: ['CONTRACT-missing'] },
+          testParticipant
+        )
+      ).rejects.toThrow('Dependency not found: CONTRACT-missing')
+    })
+
+    it('should notify dependents once their last dependency is resolved', async () => {
+      const api = await messageManager.createMessage(baseInput, testParticipant)
+      const schema = await messageManager.createMessage(baseInput, testParticipant)
+      const client = await messageManager.createMessage(
+        { ...baseInput, subject: 'Login screen', depends_on: [api.id, schema.id] },
+        testParticipant
+      )
+
+      const unblockedNotices = async () =>
+        (await messageManager.getMessages({ limit: 50 }, testParticipant)).filter(m =>
+          m.tags.includes(`unblocks:${client.id}`)
+        )
+
+      await messageManager.resolveMessage(api.id, targetParticipant)
+      expect(await unblockedNotices()).toHaveLength(0)
+
+      await messageManager.resolveMessage(schema.id, targetParticipant)
+      const notices = await unblockedNotices()
+      expect(notices).toHaveLength(1)
+      expect(notices[0].from).toBe(targetParticipant)
+      expect(notices[0].to).toEqual([testParticipant])
+      expect(notices[0].subject).toBe('Unblocked: Login screen')
+    })
+
+    it('should return the upstream and downstream chain', async () => {
+      const root = await messageManager.createMessage(baseInput, testParticipant)
+      const middle = await messageManager.createMessage(
+        { ...baseInput, depends_on: [root.id] },
+        testParticipant
+      )
+      const leaf = await messageManager.createMessage(
+        { ...baseInput, depends_on: [middle.id] },
+        testParticipant
+      )
+
+      const graph = await messageManager.getDependencyGraph(
+        { message_id: middle.id, max_depth: 10 },
+        targetParticipant
+      )
+      expect(graph.message).toMatchObject({ id: middle.id, depth: 0, blocked: true })
+      expect(graph.upstream).toEqual([
+        expect.objectContaining({ id: root.id, depth: 1, blocked: false }),
+      ])
+      expect(graph.downstream).toEqual([
+        expect.objectContaining({ id: leaf.id, depth: 1, blocked: true }),
+      ])
+
+      const fromRoot = await messageManager.getDependencyGraph(
+        { message_id: root.id, max_depth: 10 },
+        targetParticipant
+      )
+      expect(fromRoot.upstream).toEqual([])
+      expect(fromRoot.downstream.map(node => [node.id, node.depth])).toEqual([
+        [middle.id, 1],
+        [leaf.id, 2],
+      ])
+
+      const shallow = await messageManager.getDependencyGraph(
+        { message_id: root.id, max_depth: 1 },
+        targetParticipant
+      )
+      expect(shallow.downstream.map(node => node.id)).toEqual([middle.id])
+    })
+  })
 })
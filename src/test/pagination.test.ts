@@ -0,0 +1,180 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { CoordinationDatabase } from '../database/connection.js'
+import { MessageManager } from '../core/message-manager.js'
+import { IndexingEngine } from '../core/indexing-engine.js'
+import { ParticipantRegistry } from '../core/participant-registry.js'
+import { createTestDataDir } from './setup.js'
+import { encodeCursor } from '../utils/pagination.js'
+import { ValidationError, SendMessageInput, ParticipantId, Priority } from '../types/index.js'
+import fs from 'fs'
+
+describe('Cursor pagination', () => {
+  let db: CoordinationDatabase
+  let messageManager: MessageManager
+  let indexingEngine: IndexingEngine
+  let testDataDir: string
+  const backend: ParticipantId = '@backend'
+  const mobile: ParticipantId = '@mobile'
+
+  const send = (subject: string, priority: Priority = 'M') =>
+    messageManager.createMessage(
+      {
+        to: [mobile],
+        type: 'update',
+        priority,
+        subject,
+        content: `Release notes for ${subject}`,
+        response_required: false,
+        expires_in_hours: 24,
+      } as SendMessageInput,
+      backend
+    )
+
+  const listAll = async (limit: number) => {
+    const ids: string[] = []
+    let cursor: string | undefined
+    do {
+      const page = await messageManager.getMessagesPage(
+        { limit, cursor, detail_level: 'index' },
+        mobile
+      )
+      expect(page.messages.length).toBeLessThanOrEqual(limit)
+      ids.push(...page.messages.map(m => m.id))
+      cursor = page.next_cursor
+    } while (cursor)
+    return ids
+  }
+
+  beforeEach(async () => {
+    testDataDir = createTestDataDir()
+    fs.mkdirSync(testDataDir, { recursive: true })
+
+    db = new CoordinationDatabase(testDataDir)
+    messageManager = new MessageManager(db, testDataDir)
+    indexingEngine = new IndexingEngine(db)
+
+    const participantRegistry = new ParticipantRegistry(db, testDataDir)
+    for (const id of [backend, mobile]) {
+      await participantRegistry.registerParticipant({
+        id,
+        capabilities: [],
+        default_priority: 'M',
+      })
+    }
+  })
+
+  afterEach(() => {
+    if (db) {
+      db.close()
+    }
+    if (testDataDir && fs.existsSync(testDataDir)) {
+      fs.rmSync(testDataDir, { recursive: true, force: true })
+    }
+  })
+
+  it('should reach every message a page at a time in priority order', async () => {
+    const priorities: Priority[] = ['L', 'M', 'CRITICAL', 'H', 'M', 'L', 'H']
+    for (const [i, priority] of priorities.entries()) {
+      await send(`Release ${i}`, priority)
+    }
+
+    const firstPage = await messageManager.getMessages(
+      { limit: 100, detail_level: 'index' },
+      mobile
+    )
+    const paged = await listAll(3)
+
+    expect(paged).toHaveLength(priorities.length)
+    expect(new Set(paged).size).toBe(priorities.length)
+    expect(paged).toEqual(firstPage.map(m => m.id))
+    expect(firstPage.map(m => m.priority)).toEqual(['CRITICAL', 'H', 'H', 'M', 'M', 'L', 'L'])
+  })
+
+  it('should not end with an empty page when the last page is full', async () => {
+    for (let i = 0; i < 4; i++) {
+      await send(`Release ${i}`)
+    }
+
+    const first = await messageManager.getMessagesPage({ limit: 2, detail_level: 'index' }, mobile)
+    const second = await messageManager.getMessagesPage(
+      { limit: 2, cursor: first.next_cursor, detail_level: 'index' },
+      mobile
+    )
+
+    expect(first.next_cursor).toBeDefined()
+    expect(second.messages).toHaveLength(2)
+    expect(second.next_cursor).toBeUndefined()
+  })
+
+  it('should neither repeat nor skip messages when new ones arrive between pages', async () => {
+    const existing = []
+    for (let i = 0; i < 5; i++) {
+      existing.push(await send(`Release ${i}`))
+    }
+
+    const first = await messageManager.getMessagesPage({ limit: 2, detail_level: 'index' }, mobile)
+
+    // Sort before the cursor, whatever their priority
+    await send('Hotfix', 'CRITICAL')
+    await send('Another release')
+
+    const seen = first.messages.map(m => m.id)
+    let cursor = first.next_cursor
+    while (cursor) {
+      const page = await messageManager.getMessagesPage(
+        { limit: 2, cursor, detail_level: 'index' },
+        mobile
+      )
+      seen.push(...page.messages.map(m => m.id))
+      cursor = page.next_cursor
+    }
+
+    expect(seen.sort()).toEqual(existing.map(m => m.id).sort())
+  })
+
+  it('should page search results', async () => {
+    for (let i = 0; i < 5; i++) {
+      await send(`Deployment ${i}`, i % 2 === 0 ? 'H' : 'L')
+    }
+    await send('Unrelated')
+
+    for (const semantic of [true, false]) {
+      const ids: string[] = []
+      let cursor: string | undefined
+      do {
+        const page = await indexingEngine.searchMessagesPage(
+          { query: 'Deployment', semantic, limit: 2, cursor },
+          mobile
+        )
+        ids.push(...page.results.map(r => r.message.id))
+        cursor = page.next_cursor
+      } while (cursor)
+
+      expect(new Set(ids).size).toBe(5)
+    }
+  })
+
+  it('should reject cursors it did not issue', async () => {
+    await expect(
+      messageManager.getMessagesPage(
+        { limit: 2, cursor: 'not-a-cursor', detail_level: 'index' },
+        mobile
+      )
+    ).rejects.toThrow(ValidationError)
+
+    const forged = Buffer.from(JSON.stringify({ rank: 1 })).toString('base64url')
+    await expect(
+      indexingEngine.searchMessagesPage(
+        { query: 'x', semantic: true, limit: 2, cursor: forged },
+        mobile
+      )
+    ).rejects.toThrow('Invalid cursor')
+
+    const valid = encodeCursor({ rank: 3, created_at: new Date().toISOString(), id: 'UPDATE-x' })
+    const page = await messageManager.getMessagesPage(
+      { limit: 2, cursor: valid, detail_level: 'index' },
+      mobile
+    )
+    expect(page.messages).toEqual([])
+  })
+})
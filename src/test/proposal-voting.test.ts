@@ -0,0 +1,154 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { CoordinationDatabase } from '../database/connection.js'
+import { MessageManager } from '../core/message-manager.js'
+import { ParticipantRegistry } from '../core/participant-registry.js'
+import { decideProposal } from '../core/proposal-store.js'
+import { createTestDataDir } from './setup.js'
+import { ParticipantId, SendMessageInput } from '../types/index.js'
+import fs from 'fs'
+
+describe('MessageManager proposal voting', () => {
+  let db: CoordinationDatabase
+  let messageManager: MessageManager
+  let testDataDir: string
+  const backend: ParticipantId = '@backend'
+  const mobile: ParticipantId = '@mobile'
+  const web: ParticipantId = '@web'
+  const lead: ParticipantId = '@lead'
+
+  const baseInput: SendMessageInput = {
+    to: [mobile, web, lead],
+    type: 'arch',
+    priority: 'H',
+    subject: 'Move sessions to JWT',
+    content: 'Stateless tokens, 15 minute expiry, refresh through /auth/refresh.',
+    response_required: true,
+    proposal: { quorum: 'majority' },
+  }
+
+  beforeEach(async () => {
+    testDataDir = createTestDataDir()
+    fs.mkdirSync(testDataDir, { recursive: true })
+
+    db = new CoordinationDatabase(testDataDir)
+    messageManager = new MessageManager(db, testDataDir)
+
+    const participantRegistry = new ParticipantRegistry(db, testDataDir)
+    for (const id of [backend, mobile, web, lead]) {
+      await participantRegistry.registerParticipant({ id, capabilities: [], default_priority: 'M' })
+    }
+  })
+
+  afterEach(() => {
+    if (db) {
+      db.close()
+    }
+    if (testDataDir && fs.existsSync(testDataDir)) {
+      fs.rmSync(testDataDir, { recursive: true, force: true })
+    }
+  })
+
+  it('should accept a proposal once a majority approves and log every vote', async () => {
+    const proposal = await messageManager.createMessage(baseInput, backend)
+    expect(proposal.proposal).toMatchObject({ quorum: 'majority', voters: [mobile, web, lead] })
+
+    const afterFirst = await messageManager.vote(
+      { message_id: proposal.id, vote: 'approve', rationale: 'Fits the mobile refresh flow' },
+      mobile
+    )
+    expect(afterFirst.decision).toBeUndefined()
+
+    const decided = await messageManager.vote(
+      { message_id: proposal.id, vote: 'approve', rationale: 'LGTM, rotation covered' },
+      web
+    )
+    expect(decided.decision).toBe('accepted')
+    expect(decided.votes.map(vote => vote.participant)).toEqual([mobile, web])
+
+    const thread = await messageManager.getThread({ thread_id: proposal.thread_id }, backend)
+    expect(thread.conversation.decision).toBe('accepted')
+    const [vote] = thread.messages.filter(m => m.id === decided.votes[0].response_id)
+    expect(vote).toMatchObject({ from: mobile, in_reply_to: proposal.id })
+    expect(vote.summary).toContain('Vote: approve')
+    const notice = thread.messages.find(m => m.tags.includes('proposal-decision'))!
+    expect(notice).toMatchObject({
+      from: '@system',
+      subject: 'Proposal accepted: Move sessions to JWT',
+    })
+    expect(notice.summary).toContain('2 approve, 0 reject, 0 abstain')
+
+    // The decision is final
+    await expect(
+      messageManager.vote({ message_id: proposal.id, vote: 'reject', rationale: 'Too late' }, lead)
+    ).rejects.toThrow('Proposal already accepted')
+  })
+
+  it('should only count the named approvers and add them as recipients', async () => {
+    const proposal = await messageManager.createMessage(
+      { ...baseInput, to: [mobile], proposal: { quorum: 'approvers', approvers: [lead] } },
+      backend
+    )
+    expect(proposal.to).toEqual([mobile, lead])
+
+    const advisory = await messageManager.vote(
+      { message_id: proposal.id, vote: 'reject', rationale: 'Prefer opaque tokens' },
+      mobile
+    )
+    expect(advisory.decision).toBeUndefined()
+
+    const decided = await messageManager.vote(
+      { message_id: proposal.id, vote: 'reject', rationale: 'Revocation story is missing' },
+      lead
+    )
+    expect(decided.decision).toBe('rejected')
+  })
+
+  it('should refuse to close a proposal thread as complete without a decision', async () => {
+    const proposal = await messageManager.createMessage(
+      { ...baseInput, type: 'contract', proposal: { quorum: 'all' } },
+      backend
+    )
+
+    await expect(
+      messageManager.closeThread({ thread_id: proposal.thread_id }, backend)
+    ).rejects.toThrow(`Proposal ${proposal.id} has no decision yet`)
+    expect(
+      await messageManager.closeThread(
+        { thread_id: proposal.thread_id, resolution_status: 'requires_followup' },
+        backend
+      )
+    ).toBe(1)
+  })
+
+  it('should validate proposals and who can vote on them', async () => {
+    await expect(
+      messageManager.createMessage({ ...baseInput, type: 'q' }, backend)
+    ).rejects.toThrow('Only arch and contract messages can be sent as proposals')
+    await expect(
+      messageManager.createMessage({ ...baseInput, proposal: { quorum: 'approvers' } }, backend)
+    ).rejects.toThrow('requires approvers')
+
+    const proposal = await messageManager.createMessage(baseInput, backend)
+    await expect(
+      messageManager.vote({ message_id: proposal.id, vote: 'approve', rationale: 'Mine' }, backend)
+    ).rejects.toThrow('Access denied')
+
+    const plain = await messageManager.createMessage({ ...baseInput, proposal: undefined }, backend)
+    await expect(
+      messageManager.vote({ message_id: plain.id, vote: 'approve', rationale: 'LGTM' }, mobile)
+    ).rejects.toThrow('Message is not a proposal')
+  })
+
+  it('should decide quorums from the votes cast so far', () => {
+    const voters = [mobile, web, lead]
+    const votes = (...choices: Array<'approve' | 'reject' | 'abstain'>) =>
+      choices.map((vote, i) => ({ participant: voters[i], vote }))
+
+    expect(decideProposal('majority', voters, votes('approve', 'abstain'))).toBeUndefined()
+    expect(decideProposal('majority', voters, votes('reject', 'abstain'))).toBe('rejected')
+    expect(decideProposal('all', voters, votes('approve', 'approve'))).toBeUndefined()
+    expect(decideProposal('all', voters, votes('approve', 'abstain', 'approve'))).toBe('accepted')
+    expect(decideProposal('all', voters, votes('approve', 'reject'))).toBe('rejected')
+    expect(decideProposal('all', voters, votes('abstain', 'abstain', 'abstain'))).toBe('rejected')
+  })
+})
@@ -0,0 +1,172 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { CoordinationDatabase } from '../database/connection.js'
+import { MessageManager } from '../core/message-manager.js'
+import { ScheduleManager } from '../core/schedule-manager.js'
+import { ParticipantRegistry } from '../core/participant-registry.js'
+import { createTestDataDir } from './setup.js'
+import { ValidationError, CreateScheduleInput, ParticipantId } from '../types/index.js'
+import fs from 'fs'
+
+describe('ScheduleManager', () => {
+  let db: CoordinationDatabase
+  let messageManager: MessageManager
+  let scheduleManager: ScheduleManager
+  let testDataDir: string
+  const lead: ParticipantId = '@lead'
+  const backend: ParticipantId = '@backend'
+  const mobile: ParticipantId = '@mobile'
+
+  const weeklySync: CreateScheduleInput = {
+    cron: '0 9 * * 1',
+    to: [backend, mobile],
+    type: 'sync',
+    priority: 'M',
+    subject: 'Weekly sync',
+    content: 'Please post your status for this week',
+    response_required: true,
+    expires_in_hours: 24,
+    tags: ['weekly'],
+  }
+
+  beforeEach(async () => {
+    testDataDir = createTestDataDir()
+    fs.mkdirSync(testDataDir, { recursive: true })
+
+    db = new CoordinationDatabase(testDataDir)
+    messageManager = new MessageManager(db, testDataDir)
+    scheduleManager = new ScheduleManager(db, messageManager)
+
+    const participantRegistry = new ParticipantRegistry(db, testDataDir)
+    for (const id of [lead, backend, mobile]) {
+      await participantRegistry.registerParticipant({
+        id,
+        capabilities: ['test'],
+        default_priority: 'M',
+      })
+    }
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+    if (db) {
+      db.close()
+    }
+    if (testDataDir && fs.existsSync(testDataDir)) {
+      fs.rmSync(testDataDir, { recursive: true, force: true })
+    }
+  })
+
+  it('should create a schedule with its next run time', async () => {
+    const schedule = await scheduleManager.createSchedule(weeklySync, lead)
+
+    expect(schedule.id).toMatch(/^SCHED-/)
+    expect(schedule.owner).toBe(lead)
+    expect(schedule.template.subject).toBe('Weekly sync')
+    expect(schedule.next_run_at.getDay()).toBe(1)
+    expect(schedule.next_run_at.getHours()).toBe(9)
+    expect(schedule.next_run_at.getTime()).toBeGreaterThan(Date.now())
+
+    const schedules = await scheduleManager.listSchedules(lead)
+    expect(schedules).toHaveLength(1)
+    expect(schedules[0].next_run_at).toEqual(schedule.next_run_at)
+    expect(await scheduleManager.listSchedules(backend)).toHaveLength(0)
+  })
+
+  it('should reject invalid cron expressions', async () => {
+    await expect(
+      scheduleManager.createSchedule({ ...weeklySync, cron: '0 25 * * 1' }, lead)
+    ).rejects.toThrow(ValidationError)
+  })
+
+  it('should send nothing before the next run time', async () => {
+    await scheduleManager.createSchedule(weeklySync, lead)
+
+    expect(await scheduleManager.runDueSchedules()).toHaveLength(0)
+  })
+
+  it('should send each occurrence exactly once', async () => {
+    const schedule = await scheduleManager.createSchedule(weeklySync, lead)
+    const due = new Date(schedule.next_run_at.getTime() + 1000)
+
+    const sent = await scheduleManager.runDueSchedules(due)
+    expect(sent).toHaveLength(1)
+    expect(sent[0].from).toBe(lead)
+    expect(sent[0].to).toEqual([backend, mobile])
+    expect(sent[0].tags).toEqual(['weekly', `schedule:${schedule.id}`])
+
+    // A second pass, e.g. after a restart, finds nothing left to send
+    expect(await scheduleManager.runDueSchedules(due)).toHaveLength(0)
+
+    const [updated] = await scheduleManager.listSchedules(lead)
+    expect(updated.last_run_at).toEqual(schedule.next_run_at)
+    expect(updated.next_run_at.getTime() - schedule.next_run_at.getTime()).toBeGreaterThan(
+      6 * 24 * 60 * 60 * 1000
+    )
+
+    const inbox = await messageManager.getMessages({ limit: 20 }, backend)
+    expect(inbox.map(m => m.id)).toEqual([sent[0].id])
+  })
+
+  it('should not double-send when two servers run concurrently', async () => {
+    const schedule = await scheduleManager.createSchedule(weeklySync, lead)
+    const due = new Date(schedule.next_run_at.getTime() + 1000)
+    const otherServer = new ScheduleManager(db, new MessageManager(db, testDataDir))
+
+    const results = await Promise.all([
+      scheduleManager.runDueSchedules(due),
+      otherServer.runDueSchedules(due),
+    ])
+
+    expect(results.flat()).toHaveLength(1)
+  })
+
+  it('should collapse missed occurrences into a single message', async () => {
+    const schedule = await scheduleManager.createSchedule(weeklySync, lead)
+    const threeWeeksLate = new Date(schedule.next_run_at.getTime() + 21 * 24 * 60 * 60 * 1000)
+
+    expect(await scheduleManager.runDueSchedules(threeWeeksLate)).toHaveLength(1)
+
+    const [updated] = await scheduleManager.listSchedules(lead)
+    expect(updated.next_run_at.getTime()).toBeGreaterThan(threeWeeksLate.getTime())
+  })
+
+  it('should keep sending other schedules when one fails', async () => {
+    const failing = await scheduleManager.createSchedule(weeklySync, lead)
+    const working = await scheduleManager.createSchedule(
+      { ...weeklySync, subject: 'Release check' },
+      lead
+    )
+    const due = new Date(failing.next_run_at.getTime() + 1000)
+
+    const createMessage = messageManager.createMessage.bind(messageManager)
+    vi.spyOn(messageManager, 'createMessage').mockImplementation((input, sender) =>
+      input.subject === 'Weekly sync'
+        ? Promise.reject(new Error('Database is locked'))
+        : createMessage(input, sender)
+    )
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {})
+
+    const sent = await scheduleManager.runDueSchedules(due)
+    expect(sent.map(m => m.subject)).toEqual(['Release check'])
+    expect(warn).toHaveBeenCalledWith(`Failed to run schedule ${failing.id}:`, expect.any(Error))
+
+    // The failed occurrence is not retried on the next pass
+    expect(await scheduleManager.runDueSchedules(due)).toHaveLength(0)
+    const schedules = await scheduleManager.listSchedules(lead)
+    expect(schedules.find(s => s.id === working.id)!.last_run_at).toEqual(working.next_run_at)
+  })
+
+  it('should only let the owner remove a schedule', async () => {
+    const schedule = await scheduleManager.createSchedule(weeklySync, lead)
+
+    await expect(scheduleManager.removeSchedule(schedule.id, backend)).rejects.toThrow(
+      'only the owner'
+    )
+
+    await scheduleManager.removeSchedule(schedule.id, lead)
+    expect(await scheduleManager.listSchedules(lead)).toHaveLength(0)
+    await expect(scheduleManager.removeSchedule(schedule.id, lead)).rejects.toThrow(
+      'Schedule not found'
+    )
+  })
+})
@@ -0,0 +1,158 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { addDays, subDays } from 'date-fns'
+import { CoordinationDatabase } from '../database/connection.js'
+import { MessageManager } from '../core/message-manager.js'
+import { ParticipantRegistry } from '../core/participant-registry.js'
+import { TaskManager } from '../core/task-manager.js'
+import { createTestDataDir } from './setup.js'
+import { ParticipantId, SendMessageInput } from '../types/index.js'
+import fs from 'fs'
+
+describe('TaskManager', () => {
+  let db: CoordinationDatabase
+  let messageManager: MessageManager
+  let taskManager: TaskManager
+  let testDataDir: string
+  const backend: ParticipantId = '@backend'
+  const mobile: ParticipantId = '@mobile'
+  const web: ParticipantId = '@web'
+  const outsider: ParticipantId = '@outsider'
+
+  const requestInput: SendMessageInput = {
+    to: [mobile, web],
+    type: 'q',
+    priority: 'M',
+    subject: 'Add the refresh endpoint to the client',
+    content: 'POST /auth/refresh is live on staging.',
+    response_required: true,
+  }
+
+  beforeEach(async () => {
+    testDataDir = createTestDataDir()
+    fs.mkdirSync(testDataDir, { recursive: true })
+
+    db = new CoordinationDatabase(testDataDir)
+    messageManager = new MessageManager(db, testDataDir)
+    taskManager = new TaskManager(db, messageManager)
+
+    const participantRegistry = new ParticipantRegistry(db, testDataDir)
+    for (const id of [backend, mobile, web, outsider]) {
+      await participantRegistry.registerParticipant({ id, capabilities: [], default_priority: 'M' })
+    }
+  })
+
+  afterEach(() => {
+    if (db) {
+      db.close()
+    }
+    if (testDataDir && fs.existsSync(testDataDir)) {
+      fs.rmSync(testDataDir, { recursive: true, force: true })
+    }
+  })
+
+  it('should promote a message to a task linked to its thread', async () => {
+    const message = await messageManager.createMessage(requestInput, backend)
+    const due = addDays(new Date(), 2)
+
+    const task = await taskManager.createTask(
+      { message_id: message.id, assignee: mobile, due_at: due },
+      backend
+    )
+
+    expect(task).toMatchObject({
+      message_id: message.id,
+      thread_id: message.thread_id,
+      title: 'Add the refresh endpoint to the client',
+      assignee: mobile,
+      state: 'todo',
+      created_by: backend,
+      overdue: false,
+    })
+    expect(task.due_at).toEqual(due)
+
+    // Recipients can take a task themselves
+    const other = await messageManager.createMessage({ ...requestInput, type: 'sync' }, backend)
+    const taken = await taskManager.createTask({ message_id: other.id, title: 'Sync docs' }, web)
+    expect(taken).toMatchObject({ assignee: web, title: 'Sync docs' })
+  })
+
+  it('should move tasks through their states and resolve the message when done', async () => {
+    const message = await messageManager.createMessage(requestInput, backend)
+    await taskManager.createTask({ message_id: message.id, assignee: mobile }, backend)
+
+    const blocked = await taskManager.updateTask(
+      { message_id: message.id, state: 'blocked', note: 'Waiting on the staging certs' },
+      mobile
+    )
+    expect(blocked).toMatchObject({ state: 'blocked', note: 'Waiting on the staging certs' })
+    expect((await messageManager.getMessageById(message.id, backend))!.status).toBe('pending')
+
+    const done = await taskManager.updateTask({ message_id: message.id, state: 'done' }, mobile)
+    expect(done.state).toBe('done')
+    expect(done.done_at).toBeInstanceOf(Date)
+    expect(done.note).toBe('Waiting on the staging certs')
+
+    const resolved = (await messageManager.getMessageById(message.id, backend))!
+    expect(resolved).toMatchObject({ status: 'resolved', resolved_by: mobile })
+
+    const reopened = await taskManager.updateTask(
+      { message_id: message.id, state: 'in_progress' },
+      backend
+    )
+    expect(reopened.done_at).toBeUndefined()
+  })
+
+  it('should list the tasks a participant can see, soonest due first', async () => {
+    const later = await messageManager.createMessage(requestInput, backend)
+    const sooner = await messageManager.createMessage({ ...requestInput, to: [web] }, backend)
+    const late = await messageManager.createMessage({ ...requestInput, to: [web] }, backend)
+    await taskManager.createTask(
+      { message_id: later.id, assignee: mobile, due_at: addDays(new Date(), 3) },
+      backend
+    )
+    await taskManager.createTask(
+      { message_id: sooner.id, assignee: web, due_at: addDays(new Date(), 1) },
+      backend
+    )
+    await taskManager.createTask(
+      { message_id: late.id, assignee: web, due_at: subDays(new Date(), 1) },
+      backend
+    )
+
+    const ids = async (participant: ParticipantId, input = {}) =>
+      (await taskManager.listTasks(input, participant)).map(task => task.message_id)
+
+    expect(await ids(backend)).toEqual([late.id, sooner.id, later.id])
+    expect(await ids(mobile)).toEqual([later.id])
+    expect(await ids(outsider)).toEqual([])
+    expect(await ids(backend, { assignee: web })).toEqual([late.id, sooner.id])
+    expect(await ids(backend, { overdue_only: true })).toEqual([late.id])
+
+    await taskManager.updateTask({ message_id: late.id, state: 'done' }, web)
+    expect(await ids(backend, { state: ['todo'] })).toEqual([sooner.id, later.id])
+    expect(await ids(backend, { overdue_only: true })).toEqual([])
+  })
+
+  it('should validate what becomes a task and who owns it', async () => {
+    const message = await messageManager.createMessage(requestInput, backend)
+    const arch = await messageManager.createMessage({ ...requestInput, type: 'arch' }, backend)
+
+    await expect(taskManager.createTask({ message_id: arch.id }, backend)).rejects.toThrow(
+      'Only q and sync messages can become tasks'
+    )
+    await expect(
+      taskManager.createTask({ message_id: message.id, assignee: outsider }, backend)
+    ).rejects.toThrow('Assignee must be the sender or a recipient')
+    await expect(taskManager.createTask({ message_id: message.id }, outsider)).rejects.toThrow(
+      'Access denied'
+    )
+
+    await taskManager.createTask({ message_id: message.id }, backend)
+    await expect(taskManager.createTask({ message_id: message.id }, mobile)).rejects.toThrow(
+      'Message is already a task'
+    )
+    await expect(
+      taskManager.updateTask({ message_id: arch.id, state: 'done' }, backend)
+    ).rejects.toThrow('Message is not a task')
+  })
+})
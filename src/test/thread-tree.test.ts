@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest'
+import { buildThreadTree } from '../utils/thread-tree.js'
+import type { CoordinationMessage } from '../types/index.js'
+
+describe('buildThreadTree', () => {
+  const message = (id: string, inReplyTo?: string): CoordinationMessage => ({
+    id,
+    thread_id: 'ARCH-1-thread',
+    from: '@backend',
+    to: ['@mobile'],
+    type: 'arch',
+    priority: 'M',
+    status: 'pending',
+    subject: id,
+    summary: id,
+    created_at: new Date(),
+    updated_at: new Date(),
+    in_reply_to: inReplyTo,
+    response_required: true,
+    dependencies: [],
+    tags: [],
+  })
+
+  it('should nest replies under the message they answer', () => {
+    const tree = buildThreadTree([
+      message('root'),
+      message('a', 'root'),
+      message('b', 'root'),
+      message('a1', 'a'),
+      message('a1x', 'a1'),
+    ])
+
+    expect(tree.map(({ message, depth }) => [message.id, depth])).toEqual([
+      ['root', 0],
+      ['a', 1],
+      ['a1', 2],
+      ['a1x', 3],
+      ['b', 1],
+    ])
+  })
+
+  it('should treat replies to missing messages as roots', () => {
+    const tree = buildThreadTree([message('orphan', 'compacted'), message('reply', 'orphan')])
+
+    expect(tree.map(({ message, depth }) => [message.id, depth])).toEqual([
+      ['orphan', 0],
+      ['reply', 1],
+    ])
+  })
+})
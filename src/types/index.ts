@@ -9,6 +9,7 @@ export const MessageType = z.enum([
   'q',
   'emergency',
   'broadcast',
+  'handoff',
 ])
 export const Priority = z.enum(['CRITICAL', 'H', 'M', 'L'])
 export const MessageStatus = z.enum([
@@ -20,11 +21,15 @@ export const MessageStatus = z.enum([
   'cancelled',
 ])
 export const ResolutionStatus = z.enum(['partial', 'complete', 'requires_followup', 'blocked'])
+export const RecipientStatus = z.enum(['delivered', 'read', 'responded', 'resolved'])
+export const RoutingStrategy = z.enum(['least_loaded', 'round_robin'])
 
 export type MessageType = z.infer<typeof MessageType>
 export type Priority = z.infer<typeof Priority>
 export type MessageStatus = z.infer<typeof MessageStatus>
 export type ResolutionStatus = z.infer<typeof ResolutionStatus>
+export type RecipientStatus = z.infer<typeof RecipientStatus>
+export type RoutingStrategy = z.infer<typeof RoutingStrategy>
 
 // Participant schema
 export const ParticipantId = z.string().regex(/^@[a-zA-Z][a-zA-Z0-9_-]*$/, {
@@ -43,6 +48,144 @@ export const Participant = z.object({
 export type ParticipantId = z.infer<typeof ParticipantId>
 export type Participant = z.infer<typeof Participant>
 
+// Who a message can be addressed to: a participant, @all, cap:<capability> or group:<name>.
+// Everything but plain participants is expanded when the message is created.
+export const RecipientExpression = z
+  .string()
+  .regex(/^(@[a-zA-Z][a-zA-Z0-9_-]*|cap:[a-zA-Z0-9_.-]+|group:[a-zA-Z][a-zA-Z0-9_-]*)$/, {
+    message: 'Recipient must be a participant ID (@name), @all, cap:<capability> or group:<name>',
+  })
+
+export type RecipientExpression = z.infer<typeof RecipientExpression>
+
+// Named group of participants, addressed as group:<name>
+export const ParticipantGroup = z.object({
+  name: z.string().regex(/^[a-zA-Z][a-zA-Z0-9_-]*$/, {
+    message: 'Group name must start with a letter followed by alphanumeric characters',
+  }),
+  members: z.array(ParticipantId).min(1),
+  description: z.string().max(500).optional(),
+  created_by: ParticipantId,
+  created_at: z.date(),
+  updated_at: z.date(),
+})
+
+export type ParticipantGroup = z.infer<typeof ParticipantGroup>
+
+// How a message sent with route_to was assigned to a participant with the capability
+export const MessageRouting = z.object({
+  capability: z.string(),
+  strategy: RoutingStrategy,
+  assigned_to: ParticipantId,
+  assigned_at: z.date(),
+  assigned_added: z.boolean(), // Routing added the assignee; false when they were addressed anyway
+  reassign_after_minutes: z.number().optional(),
+  previous: z.array(ParticipantId).default([]), // Earlier assignees that didn't respond in time
+})
+
+export type MessageRouting = z.infer<typeof MessageRouting>
+
+// File attached to a message. The bytes are kept once per sha256 in the attachment store.
+export const Attachment = z.object({
+  id: z.string(),
+  message_id: z.string(),
+  filename: z.string(),
+  mime_type: z.string(),
+  size: z.number(), // Bytes
+  sha256: z.string(),
+  created_at: z.date(),
+})
+
+export type Attachment = z.infer<typeof Attachment>
+
+// Proposal mode for arch and contract messages. all: every voter votes and nobody rejects;
+// majority: more than half of the voters approve; approvers: like all, for the named approvers.
+export const Quorum = z.enum(['all', 'majority', 'approvers'])
+export const VoteChoice = z.enum(['approve', 'reject', 'abstain'])
+export const ProposalDecision = z.enum(['accepted', 'rejected'])
+
+export const ProposalOptions = z
+  .object({
+    quorum: Quorum.default('majority'),
+    approvers: z.array(ParticipantId).min(1).optional(), // Added as recipients
+  })
+  .refine(options => options.quorum !== 'approvers' || options.approvers, {
+    message: 'Quorum "approvers" requires approvers',
+  })
+
+export const ProposalVote = z.object({
+  participant: ParticipantId,
+  vote: VoteChoice,
+  rationale: z.string(),
+  response_id: z.string(), // Response recording the vote in the thread
+  voted_at: z.date(),
+})
+
+export const Proposal = z.object({
+  message_id: z.string(),
+  thread_id: z.string(),
+  quorum: Quorum,
+  voters: z.array(ParticipantId), // Whose votes count towards the quorum
+  votes: z.array(ProposalVote), // Latest vote of each participant
+  decision: ProposalDecision.optional(), // Set once the quorum is met, then final
+  decided_at: z.date().optional(),
+  created_at: z.date(),
+})
+
+export type Quorum = z.infer<typeof Quorum>
+export type VoteChoice = z.infer<typeof VoteChoice>
+export type ProposalDecision = z.infer<typeof ProposalDecision>
+export type ProposalOptions = z.infer<typeof ProposalOptions>
+export type ProposalVote = z.infer<typeof ProposalVote>
+export type Proposal = z.infer<typeof Proposal>
+
+// Work state a session hands to the one picking the work up, kept out of free-form content so
+// none of it gets lost
+export const HandoffDetails = z.object({
+  goal: z.string().min(1).max(500),
+  branch: z.string().max(200).optional(),
+  files_touched: z.array(z.string().max(500)).max(200).default([]),
+  commands_run: z.array(z.string().max(1000)).max(100).default([]),
+  open_questions: z.array(z.string().max(1000)).max(50).default([]),
+  next_steps: z.array(z.string().max(1000)).max(50).default([]),
+})
+
+export const Handoff = HandoffDetails.extend({
+  message_id: z.string(),
+  accepted_by: ParticipantId.optional(), // The recipient who picked the work up
+  accepted_at: z.date().optional(),
+})
+
+export type HandoffDetails = z.infer<typeof HandoffDetails>
+export type Handoff = z.infer<typeof Handoff>
+
+// Per-recipient delivery state (read receipts)
+export const MessageRecipient = z.object({
+  participant: ParticipantId,
+  status: RecipientStatus,
+  delivered_at: z.date(),
+  read_at: z.date().optional(),
+  responded_at: z.date().optional(),
+  resolved_at: z.date().optional(),
+})
+
+export type MessageRecipient = z.infer<typeof MessageRecipient>
+
+// A participant's own inbox triage of a message. Other participants never see it, and it
+// leaves the shared status alone.
+export const MessageTriage = z.object({
+  snoozed_until: z.date().optional(), // Hidden from their inbox until then
+  pinned: z.boolean(),
+  starred: z.boolean(),
+  done_at: z.date().optional(), // Done for them: hidden from their inbox
+})
+
+export type MessageTriage = z.infer<typeof MessageTriage>
+
+export const TriageFilter = z.enum(['pinned', 'starred', 'snoozed', 'done'])
+
+export type TriageFilter = z.infer<typeof TriageFilter>
+
 // Message schema
 export const CoordinationMessage = z.object({
   id: z.string(),
@@ -58,11 +201,20 @@ export const CoordinationMessage = z.object({
   summary: z.string().max(500),
   content: z.string().optional(), // Full content when detail_level is 'full'
   content_ref: z.string().optional(),
+  content_error: z.string().optional(), // Why content listed at 'full' could not be loaded
 
   // Metadata
   created_at: z.date(),
   updated_at: z.date(),
   expires_at: z.date().optional(),
+  send_at: z.date().optional(), // Scheduled delivery time, until it has passed
+  in_reply_to: z.string().optional(), // Parent message when this is a reply
+  forwarded_from: z.string().optional(), // Original message when this is a forwarded copy
+  addressed_to: z.array(RecipientExpression).optional(), // Recipients as written, when `to` was expanded
+  routing: MessageRouting.optional(), // Set when the message was routed by capability
+  attachments: z.array(Attachment).optional(),
+  proposal: Proposal.optional(), // Set when the message was sent as a proposal
+  handoff: Handoff.optional(), // Set on handoff messages
   response_required: z.boolean().default(true),
   dependencies: z.array(z.string()).default([]),
 
@@ -85,10 +237,51 @@ export const CoordinationMessage = z.object({
   resolution_status: ResolutionStatus.optional(),
   resolved_at: z.date().optional(),
   resolved_by: ParticipantId.optional(),
+
+  // Cancellation by the sender
+  cancelled_at: z.date().optional(),
+  cancellation_reason: z.string().optional(),
+
+  // Editing by the sender
+  revision: z.number().optional(),
+  edited_at: z.date().optional(),
+
+  // Derived from dependencies: blocked while any of them is still unresolved
+  blocked: z.boolean().optional(),
+  blocked_by: z.array(z.string()).optional(),
+
+  // Delivery state of the requesting participant when they are a recipient
+  recipient_status: RecipientStatus.optional(),
+  // Read receipts, included for the sender at the 'full' detail level
+  recipients: z.array(MessageRecipient).optional(),
+  // The requesting participant's own triage, in message listings
+  triage: MessageTriage.optional(),
 })
 
 export type CoordinationMessage = z.infer<typeof CoordinationMessage>
 
+// A stored version of an edited message
+export const MessageRevision = z.object({
+  message_id: z.string(),
+  revision: z.number(),
+  subject: z.string(),
+  content: z.string(),
+  priority: Priority,
+  tags: z.array(z.string()),
+  edited_by: ParticipantId,
+  edited_at: z.date(),
+})
+
+export type MessageRevision = z.infer<typeof MessageRevision>
+
+// Per-thread override of the expiry policies; fields left out fall back to them
+export const ThreadExpiryPolicy = z.object({
+  expires_in_hours: z.number().positive().nullable().optional(),
+  keep_alive_while_active: z.boolean().optional(),
+})
+
+export type ThreadExpiryPolicy = z.infer<typeof ThreadExpiryPolicy>
+
 // Conversation/Thread schema
 export const Conversation = z.object({
   thread_id: z.string(),
@@ -100,10 +293,68 @@ export const Conversation = z.object({
   status: z.enum(['active', 'resolved', 'archived']).default('active'),
   resolution_summary: z.string().optional(),
   message_count: z.number().default(0),
+  expiry_policy: ThreadExpiryPolicy.optional(),
+  decision: ProposalDecision.optional(), // Of the thread's latest decided proposal
 })
 
 export type Conversation = z.infer<typeof Conversation>
 
+// Entry in the change feed. message_created also covers a message reaching a participant later,
+// when its send_at passes or it is reassigned to them.
+export const ChangeKind = z.enum([
+  'message_created',
+  'message_status_changed',
+  'message_edited',
+  'thread_status_changed',
+])
+
+export const Change = z.object({
+  seq: z.number().int(),
+  kind: ChangeKind,
+  message_id: z.string().optional(), // Absent for thread changes
+  thread_id: z.string(),
+  status: z.string().optional(), // Message or thread status after the change
+  created_at: z.date(),
+})
+
+export type ChangeKind = z.infer<typeof ChangeKind>
+export type Change = z.infer<typeof Change>
+
+// Escalation of a message still waiting for a response, matched on priority and/or type.
+// after_hours counts from when the message was sent or last escalated; each rule fires once.
+// There are no rules unless the config defines some.
+export const EscalationRule = z
+  .object({
+    priority: Priority.optional(),
+    type: MessageType.optional(),
+    after_hours: z.number().positive(),
+    escalate_to: z.array(RecipientExpression).min(1).optional(), // Added as recipients
+    bump_to: Priority.optional(),
+  })
+  .refine(rule => rule.escalate_to || rule.bump_to, {
+    message: 'Escalation rule needs escalate_to or bump_to',
+  })
+
+export type EscalationRule = z.infer<typeof EscalationRule>
+
+// How long messages live before they are archived. The first policy matching a message's type
+// and/or priority applies; expires_in_hours null means never. With keep_alive_while_active,
+// expired messages aren't archived while their thread is still active.
+export const ExpiryPolicy = z.object({
+  type: MessageType.optional(),
+  priority: Priority.optional(),
+  expires_in_hours: z.number().positive().nullable(),
+  keep_alive_while_active: z.boolean().optional(),
+})
+
+export type ExpiryPolicy = z.infer<typeof ExpiryPolicy>
+
+// For messages no policy matches, and every message unless the config defines policies
+export const DEFAULT_EXPIRY_HOURS = 168
+
+// Where closed arch threads are written as architecture decision records
+export const DEFAULT_ADR_DIRECTORY = 'docs/adr'
+
 // Configuration schema
 export const CoordinationConfig = z.object({
   participant_id: ParticipantId,
@@ -123,19 +374,42 @@ export const CoordinationConfig = z.object({
       priority_threshold: 'M' as Priority,
       batch_notifications: true,
     }),
+  escalation_rules: z.array(EscalationRule).default([]),
+  expiry_policies: z.array(ExpiryPolicy).default([]),
+  adr_directory: z.string().default(DEFAULT_ADR_DIRECTORY),
 })
 
 export type CoordinationConfig = z.infer<typeof CoordinationConfig>
 
 // MCP Tool input schemas
+
+// An attachment is either read from a local path or given inline as base64
+export const AttachmentInput = z.object({
+  path: z.string().optional(),
+  filename: z.string().min(1).max(255).optional(), // Defaults to the path's base name
+  content: z.string().optional(), // Base64
+  mime_type: z.string().optional(), // Guessed from the file name when left out
+})
+
 export const SendMessageInput = z.object({
-  to: z.array(ParticipantId),
+  to: z.array(RecipientExpression).default([]),
   type: MessageType,
   priority: Priority,
   subject: z.string().min(1).max(200),
   content: z.string(),
   response_required: z.boolean().default(true),
-  expires_in_hours: z.number().positive().default(168),
+  expires_in_hours: z.number().positive().optional(), // Overrides the expiry policies
+  send_at: z.coerce.date().optional(), // Deliver later instead of immediately
+  depends_on: z.array(z.string()).max(50).optional(), // Message IDs this one waits on
+  route_to: z
+    .string()
+    .regex(/^[a-zA-Z0-9_.-]+$/)
+    .optional(), // Capability: one participant having it is picked as an extra recipient
+  routing: RoutingStrategy.optional(), // How route_to picks, least_loaded by default
+  reassign_after_minutes: z.number().int().positive().optional(), // Re-route when unanswered
+  attachments: z.array(AttachmentInput).max(10).optional(),
+  proposal: ProposalOptions.optional(), // arch and contract only: recipients vote on it
+  handoff: HandoffDetails.optional(), // Required for handoff messages, and only allowed there
   tags: z.array(z.string()).optional(),
   suggested_approach: z
     .object({
@@ -154,16 +428,104 @@ export const GetMessagesInput = z.object({
   type: z.array(MessageType).optional(),
   priority: z.array(Priority).optional(),
   since_hours: z.number().positive().optional(),
+  recipient_status: z.array(RecipientStatus).optional(),
   thread_id: z.string().optional(),
   limit: z.number().positive().max(100).default(20),
+  cursor: z.string().optional(), // next_cursor from the previous page
   detail_level: z.enum(['index', 'summary', 'full']).default('full'),
   active_only: z.boolean().default(true).optional(),
+  // Only messages the requester triaged so. Snoozed and done messages are otherwise left out
+  // of active listings.
+  triage: z.array(TriageFilter).optional(),
 })
 
 export const RespondMessageInput = z.object({
   message_id: z.string(),
   content: z.string(),
   resolution_status: ResolutionStatus.optional(),
+  reply_all: z.boolean().optional(), // Address every thread participant, not just the sender
+  to: z.array(ParticipantId).min(1).optional(), // Replaces the default recipients
+  cc: z.array(ParticipantId).optional(), // Added to the recipients
+})
+
+export const CancelMessageInput = z.object({
+  message_id: z.string(),
+  reason: z.string().min(1).max(500),
+})
+
+export const EditMessageInput = z
+  .object({
+    message_id: z.string(),
+    subject: z.string().min(1).max(200).optional(),
+    content: z.string().optional(),
+    priority: Priority.optional(),
+    tags: z.array(z.string()).optional(),
+  })
+  .refine(
+    input =>
+      input.subject !== undefined ||
+      input.content !== undefined ||
+      input.priority !== undefined ||
+      input.tags !== undefined,
+    { message: 'At least one of subject, content, priority or tags must be provided' }
+  )
+
+export const GetRevisionsInput = z.object({
+  message_id: z.string(),
+})
+
+export const ForwardMessageInput = z.object({
+  message_id: z.string(),
+  to: z.array(RecipientExpression).min(1),
+  note: z.string().max(2000).optional(), // Shown above the forwarded content
+})
+
+export const GetAttachmentInput = z.object({
+  attachment_id: z.string(),
+})
+
+export const CreateGroupInput = ParticipantGroup.pick({
+  name: true,
+  members: true,
+  description: true,
+})
+
+export const GetDependencyGraphInput = z.object({
+  message_id: z.string(),
+  max_depth: z.number().int().positive().max(20).default(10),
+})
+
+export const MarkReadInput = z.object({
+  message_ids: z.array(z.string()).min(1).max(100),
+})
+
+export const SnoozeMessageInput = z.object({
+  message_id: z.string(),
+  until: z.coerce.date().nullable(), // null wakes the message now
+})
+
+// Fields left out keep their current value
+export const TriageMessageInput = z.object({
+  message_id: z.string(),
+  pinned: z.boolean().optional(),
+  starred: z.boolean().optional(),
+  done: z.boolean().optional(), // Done for the requester only
+})
+
+export const VoteInput = z.object({
+  message_id: z.string(),
+  vote: VoteChoice,
+  rationale: z.string().min(1).max(2000),
+})
+
+export const HandoffInput = HandoffDetails.extend({
+  to: z.array(RecipientExpression).min(1),
+  priority: Priority.default('H'),
+  notes: z.string().max(10000).optional(), // Anything the fields don't cover
+})
+
+export const AcceptHandoffInput = z.object({
+  message_id: z.string(),
 })
 
 export const SearchMessagesInput = z.object({
@@ -178,6 +540,7 @@ export const SearchMessagesInput = z.object({
     .optional(),
   participants: z.array(ParticipantId).optional(),
   limit: z.number().positive().max(50).default(10),
+  cursor: z.string().optional(), // next_cursor from the previous page
 })
 
 export const CompactThreadInput = z.object({
@@ -193,12 +556,129 @@ export const CloseThreadInput = z.object({
   final_summary: z.string().optional(),
 })
 
+// Without expires_in_hours or keep_alive_while_active, the thread's override is cleared
+export const SetThreadExpiryInput = ThreadExpiryPolicy.extend({
+  thread_id: z.string(),
+})
+
+export const ListThreadsInput = z.object({
+  participant: ParticipantId.optional(),
+  status: z.array(z.enum(['active', 'resolved', 'archived'])).optional(),
+  since_hours: z.number().positive().optional(),
+  limit: z.number().positive().max(100).default(20),
+})
+
+export const GetThreadInput = z.object({
+  thread_id: z.string(),
+  detail_level: z.enum(['index', 'summary', 'full']).default('summary'),
+})
+
+export const GetChangesInput = z.object({
+  since_seq: z.number().int().min(0).optional(), // Defaults to the last sequence you fetched
+  limit: z.number().positive().max(500).default(100),
+})
+
+// Template for messages created by a schedule; delivery time comes from the cron expression
+export const ScheduleTemplate = SendMessageInput.omit({ send_at: true })
+
+export const CreateScheduleInput = ScheduleTemplate.extend({
+  cron: z.string().min(1),
+})
+
+// Recurring message schedule
+export const Schedule = z.object({
+  id: z.string(),
+  owner: ParticipantId,
+  cron: z.string(),
+  template: ScheduleTemplate,
+  created_at: z.date(),
+  last_run_at: z.date().optional(),
+  next_run_at: z.date(),
+})
+
+// A q or sync message promoted to a task, so it is clear who owns the request and how far along
+// it is. Identified by its message ID.
+export const TaskState = z.enum(['todo', 'in_progress', 'blocked', 'done'])
+
+export const Task = z.object({
+  message_id: z.string(),
+  thread_id: z.string(),
+  title: z.string(),
+  assignee: ParticipantId,
+  state: TaskState,
+  due_at: z.date().optional(),
+  note: z.string().optional(), // Latest status note, e.g. what it is blocked on
+  created_by: ParticipantId,
+  created_at: z.date(),
+  updated_at: z.date(),
+  done_at: z.date().optional(),
+  overdue: z.boolean(), // Past due_at and not done
+})
+
+export const CreateTaskInput = z.object({
+  message_id: z.string(),
+  assignee: ParticipantId.optional(), // The sender or a recipient; defaults to you
+  due_at: z.coerce.date().optional(),
+  title: z.string().min(1).max(200).optional(), // Defaults to the message subject
+})
+
+export const UpdateTaskInput = z
+  .object({
+    message_id: z.string(),
+    state: TaskState.optional(), // done resolves the message
+    assignee: ParticipantId.optional(),
+    due_at: z.coerce.date().nullable().optional(), // null clears it
+    note: z.string().max(500).optional(),
+  })
+  .refine(
+    input =>
+      input.state !== undefined ||
+      input.assignee !== undefined ||
+      input.due_at !== undefined ||
+      input.note !== undefined,
+    { message: 'At least one of state, assignee, due_at or note must be provided' }
+  )
+
+export const ListTasksInput = z.object({
+  assignee: ParticipantId.optional(),
+  state: z.array(TaskState).optional(),
+  thread_id: z.string().optional(),
+  overdue_only: z.boolean().optional(),
+  limit: z.number().positive().max(200).default(50),
+})
+
 export type SendMessageInput = z.infer<typeof SendMessageInput>
 export type GetMessagesInput = z.infer<typeof GetMessagesInput>
 export type RespondMessageInput = z.infer<typeof RespondMessageInput>
+export type MarkReadInput = z.infer<typeof MarkReadInput>
+export type SnoozeMessageInput = z.infer<typeof SnoozeMessageInput>
+export type TriageMessageInput = z.infer<typeof TriageMessageInput>
+export type VoteInput = z.infer<typeof VoteInput>
+export type HandoffInput = z.infer<typeof HandoffInput>
+export type AcceptHandoffInput = z.infer<typeof AcceptHandoffInput>
+export type CancelMessageInput = z.infer<typeof CancelMessageInput>
+export type EditMessageInput = z.infer<typeof EditMessageInput>
+export type GetRevisionsInput = z.infer<typeof GetRevisionsInput>
+export type GetDependencyGraphInput = z.infer<typeof GetDependencyGraphInput>
+export type ForwardMessageInput = z.infer<typeof ForwardMessageInput>
+export type AttachmentInput = z.infer<typeof AttachmentInput>
+export type GetAttachmentInput = z.infer<typeof GetAttachmentInput>
+export type CreateGroupInput = z.infer<typeof CreateGroupInput>
 export type SearchMessagesInput = z.infer<typeof SearchMessagesInput>
 export type CompactThreadInput = z.infer<typeof CompactThreadInput>
 export type CloseThreadInput = z.infer<typeof CloseThreadInput>
+export type SetThreadExpiryInput = z.infer<typeof SetThreadExpiryInput>
+export type ListThreadsInput = z.infer<typeof ListThreadsInput>
+export type GetThreadInput = z.infer<typeof GetThreadInput>
+export type GetChangesInput = z.infer<typeof GetChangesInput>
+export type ScheduleTemplate = z.infer<typeof ScheduleTemplate>
+export type CreateScheduleInput = z.infer<typeof CreateScheduleInput>
+export type Schedule = z.infer<typeof Schedule>
+export type TaskState = z.infer<typeof TaskState>
+export type Task = z.infer<typeof Task>
+export type CreateTaskInput = z.infer<typeof CreateTaskInput>
+export type UpdateTaskInput = z.infer<typeof UpdateTaskInput>
+export type ListTasksInput = z.infer<typeof ListTasksInput>
 
 // Database row types (snake_case for SQLite)
 export interface MessageRow {
@@ -215,6 +695,17 @@ export interface MessageRow {
   created_at: string // ISO date
   updated_at: string // ISO date
   expires_at?: string // ISO date
+  send_at?: string // ISO date
+  in_reply_to?: string
+  forwarded_from?: string
+  addressed_to?: string // JSON array
+  route_to?: string
+  routing_strategy?: RoutingStrategy
+  routed_to?: string
+  routed_at?: string // ISO date
+  routed_added?: number // SQLite boolean (0/1)
+  reassign_after_minutes?: number
+  routing_history?: string // JSON array
   response_required: number // SQLite boolean (0/1)
   dependencies: string // JSON array
   tags: string // JSON array
@@ -223,6 +714,138 @@ export interface MessageRow {
   resolution_status?: ResolutionStatus
   resolved_at?: string // ISO date
   resolved_by?: string
+  cancelled_at?: string // ISO date
+  cancellation_reason?: string
+  revision: number
+  edited_at?: string // ISO date
+  recipient_status?: RecipientStatus // Joined from message_recipients for the requester
+  // Joined from message_triage for the requester in listings
+  snoozed_until?: string | null
+  pinned?: number | null
+  starred?: number | null
+  done_at?: string | null
+}
+
+export interface MessageTriageRow {
+  message_id: string
+  participant_id: string
+  snoozed_until: string | null // ISO date
+  pinned: number
+  starred: number
+  done_at: string | null // ISO date
+  updated_at: string // ISO date
+}
+
+export interface MessageRecipientRow {
+  message_id: string
+  participant_id: string
+  status: RecipientStatus
+  delivered_at: string // ISO date
+  read_at?: string // ISO date
+  responded_at?: string // ISO date
+  resolved_at?: string // ISO date
+}
+
+export interface MessageRevisionRow {
+  message_id: string
+  revision: number
+  subject: string
+  content_ref: string
+  priority: Priority
+  tags: string // JSON array
+  edited_by: string
+  edited_at: string // ISO date
+}
+
+export interface ParticipantGroupRow {
+  name: string
+  members: string // JSON array
+  description?: string
+  created_by: string
+  created_at: string // ISO date
+  updated_at: string // ISO date
+}
+
+export interface AttachmentRow {
+  id: string
+  message_id: string
+  filename: string
+  mime_type: string
+  size: number
+  sha256: string
+  created_at: string // ISO date
+}
+
+export interface ChangeRow {
+  seq: number
+  kind: string
+  message_id: string | null
+  thread_id: string
+  status: string | null
+  participants: string // JSON array
+  created_at: string
+}
+
+// A content ref of a message or one of its revisions
+export interface ContentRefRow {
+  message_id: string
+  revision: number | null // Null for the message's current content
+  content_ref: string
+}
+
+export interface ProposalRow {
+  message_id: string
+  thread_id: string
+  quorum: Quorum
+  voters: string // JSON array
+  decision: ProposalDecision | null
+  decided_at: string | null // ISO date
+  created_at: string // ISO date
+}
+
+export interface ProposalVoteRow {
+  message_id: string
+  participant_id: string
+  vote: VoteChoice
+  rationale: string
+  response_id: string
+  voted_at: string // ISO date
+}
+
+export interface HandoffRow {
+  message_id: string
+  goal: string
+  branch: string | null
+  files_touched: string // JSON array
+  commands_run: string // JSON array
+  open_questions: string // JSON array
+  next_steps: string // JSON array
+  accepted_by: string | null
+  accepted_at: string | null // ISO date
+}
+
+export interface ScheduleRow {
+  id: string
+  owner: string
+  cron: string
+  template: string // JSON ScheduleTemplate
+  created_at: string // ISO date
+  last_run_at?: string // ISO date
+  next_run_at: string // ISO date
+}
+
+export interface TaskRow {
+  message_id: string
+  thread_id: string
+  title: string
+  assignee: string
+  state: TaskState
+  due_at: string | null // ISO date
+  note: string | null
+  created_by: string
+  created_at: string // ISO date
+  updated_at: string // ISO date
+  done_at: string | null // ISO date
 }
 
 export interface ConversationRow {
@@ -235,6 +858,8 @@ export interface ConversationRow {
   status: 'active' | 'resolved' | 'archived'
   resolution_summary?: string
   message_count: number
+  expiry_policy?: string | null // JSON object
+  decision?: ProposalDecision | null
 }
 
 export interface ParticipantRow {
@@ -279,19 +904,50 @@ export class PermissionError extends CoordinationError {
   }
 }
 
+// Stored content that is missing or no longer matches its hash
+export class ContentIntegrityError extends CoordinationError {
+  constructor(message: string, details?: Record<string, unknown>) {
+    super(message, 'CONTENT_INTEGRITY_ERROR', details)
+    this.name = 'ContentIntegrityError'
+  }
+}
+
 // Utility types
 export interface MessageFilters {
   participant?: ParticipantId
   status?: MessageStatus[]
   type?: MessageType[]
   priority?: Priority[]
+  recipient_status?: RecipientStatus[]
   since?: Date
   thread_id?: string
 }
 
+// Position in a message listing: priority rank (1 = CRITICAL), created_at and id of the last row
+export interface MessageCursor {
+  rank: number
+  created_at: string
+  id: string
+}
+
 export interface PaginationOptions {
   limit: number
-  offset: number
+  after?: MessageCursor
+}
+
+// An architecture decision record, usually written from a closed arch thread
+export interface DecisionRecord {
+  number: number // Sequential, also the file name prefix
+  title: string
+  status: string // Accepted, or Rejected when the thread's proposal was rejected
+  date?: Date
+  thread_id?: string // Absent for records written by hand
+  path: string
+}
+
+export interface MessagePage {
+  messages: CoordinationMessage[]
+  next_cursor?: string // Absent on the last page
 }
 
 export interface SearchResult {
@@ -300,6 +956,68 @@ export interface SearchResult {
   match_context: string
 }
 
+export interface SearchPage {
+  results: SearchResult[]
+  next_cursor?: string // Absent on the last page
+}
+
+export interface ChangeSet {
+  changes: Change[]
+  high_water_mark: number // Pass as since_seq to continue after these changes
+  has_more: boolean
+}
+
+// What an escalation rule did to a message
+export interface Escalation {
+  message_id: string
+  rule: EscalationRule
+  bumped_from?: Priority
+  bumped_to?: Priority
+  added_recipients: ParticipantId[]
+  notice_id: string // System message logged in the thread
+  escalated_at: Date
+}
+
+// A copy of one of a thread's messages that was forwarded into another thread
+export interface MessageForward {
+  original_id: string
+  message_id: string
+  thread_id: string
+  forwarded_by: ParticipantId
+  to: ParticipantId[]
+  forwarded_at: Date
+}
+
+export interface ThreadDetails {
+  conversation: Conversation
+  messages: CoordinationMessage[]
+  forwards: MessageForward[]
+}
+
+export interface DependencyNode {
+  id: string
+  subject: string
+  from: ParticipantId
+  status: MessageStatus
+  depth: number // Hops from the message the graph was requested for
+  depends_on: string[]
+  blocked: boolean
+}
+
+export interface DependencyGraph {
+  message: DependencyNode
+  upstream: DependencyNode[] // What the message waits on, transitively
+  downstream: DependencyNode[] // What waits on the message, transitively
+}
+
+// Stored content of a message (or one of its revisions) that can't be read back intact
+export interface ContentProblem {
+  message_id: string
+  revision?: number
+  content_ref: string
+  error: string
+}
+
 export interface CompactionResult {
   original_count: number
   compacted_count: number
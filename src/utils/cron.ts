@@ -0,0 +1,166 @@
+import { ValidationError } from '../types/index.js'
+
+/**
+ * Parsed five-field cron expression: minute hour day-of-month month day-of-week
+ */
+export interface CronSchedule {
+  minutes: Set<number>
+  hours: Set<number>
+  daysOfMonth: Set<number>
+  months: Set<number>
+  daysOfWeek: Set<number>
+  // Standard cron matches either day field when both are restricted
+  daysOfMonthRestricted: boolean
+  daysOfWeekRestricted: boolean
+}
+
+const MACROS: Record<string, string> = {
+  '@hourly': '0 * * * *',
+  '@daily': '0 0 * * *',
+  '@weekly': '0 0 * * 0',
+  '@monthly': '0 0 1 * *',
+}
+
+const FIELDS = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12 },
+  { name: 'day of week', min: 0, max: 7 },
+]
+
+/**
+ * Parse a cron expression. Supports `*`, lists, ranges, steps and the
+ * @hourly/@daily/@weekly/@monthly macros; day of week 7 is Sunday like 0.
+ */
+export function parseCron(expression: string): CronSchedule {
+  const normalized = MACROS[expression.trim()] ?? expression.trim()
+  const parts = normalized.split(/\s+/)
+  if (parts.length !== 5) {
+    throw new ValidationError(
+      `Invalid cron expression "${expression}": expected 5 fields (minute hour day month weekday)`
+    )
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = parts.map((part, index) =>
+    parseField(part, FIELDS[index], expression)
+  )
+
+  // Fold 7 onto Sunday
+  if (daysOfWeek.delete(7)) {
+    daysOfWeek.add(0)
+  }
+
+  return {
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    // As in standard cron, a field starting with * (including */n) doesn't restrict the day
+    daysOfMonthRestricted: !parts[2].startsWith('*'),
+    daysOfWeekRestricted: !parts[4].startsWith('*'),
+  }
+}
+
+/**
+ * Next time strictly after `after` (to the minute, local time) that matches the expression
+ */
+export function nextCronOccurrence(expression: string, after: Date): Date {
+  const schedule = parseCron(expression)
+
+  const date = new Date(after)
+  date.setSeconds(0, 0)
+  date.setMinutes(date.getMinutes() + 1)
+
+  // Every valid expression matches within a few years (Feb 29 being the rarest)
+  const limit = new Date(after)
+  limit.setFullYear(limit.getFullYear() + 5)
+
+  while (date < limit) {
+    if (!schedule.months.has(date.getMonth() + 1)) {
+      date.setMonth(date.getMonth() + 1, 1)
+      date.setHours(0, 0, 0, 0)
+      continue
+    }
+
+    if (!matchesDay(schedule, date)) {
+      date.setDate(date.getDate() + 1)
+      date.setHours(0, 0, 0, 0)
+      continue
+    }
+
+    if (!schedule.hours.has(date.getHours())) {
+      date.setHours(date.getHours() + 1, 0, 0, 0)
+      continue
+    }
+
+    if (!schedule.minutes.has(date.getMinutes())) {
+      date.setMinutes(date.getMinutes() + 1, 0, 0)
+      continue
+    }
+
+    return date
+  }
+
+  throw new ValidationError(`Cron expression never matches: ${expression}`)
+}
+
+function matchesDay(schedule: CronSchedule, date: Date): boolean {
+  const dayOfMonth = schedule.daysOfMonth.has(date.getDate())
+  const dayOfWeek = schedule.daysOfWeek.has(date.getDay())
+
+  if (schedule.daysOfMonthRestricted && schedule.daysOfWeekRestricted) {
+    return dayOfMonth || dayOfWeek
+  }
+  return dayOfMonth && dayOfWeek
+}
+
+function parseField(
+  field: string,
+  bounds: { name: string; min: number; max: number },
+  expression: string
+): Set<number> {
+  const values = new Set<number>()
+  const invalid = () =>
+    new ValidationError(`Invalid cron expression "${expression}": bad ${bounds.name} "${field}"`)
+
+  for (const item of field.split(',')) {
+    const [range, stepText] = item.split('/')
+    const step = stepText === undefined ? 1 : Number(stepText)
+    if (!Number.isInteger(step) || step < 1) {
+      throw invalid()
+    }
+
+    let start: number
+    let end: number
+    if (range === '*') {
+      start = bounds.min
+      end = bounds.max
+    } else if (range.includes('-')) {
+      const [from, to] = range.split('-')
+      start = Number(from)
+      end = Number(to)
+    } else {
+      start = Number(range)
+      // A single value with a step runs to the end of the range, as in "5/15"
+      end = stepText === undefined ? start : bounds.max
+    }
+
+    if (
+      !Number.isInteger(start) ||
+      !Number.isInteger(end) ||
+      start < bounds.min ||
+      end > bounds.max ||
+      start > end
+    ) {
+      throw invalid()
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value)
+    }
+  }
+
+  return values
+}
@@ -0,0 +1,43 @@
+/**
+ * Line-based diff between two texts
+ * Unchanged lines are prefixed with two spaces, removed lines with '- ' and added lines with '+ '
+ */
+export function diffLines(before: string, after: string): string {
+  const a = before.split('\n')
+  const b = after.split('\n')
+
+  // Longest common subsequence table, filled from the end
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () =>
+    new Array<number>(b.length + 1).fill(0)
+  )
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1])
+    }
+  }
+
+  const lines: string[] = []
+  let i = 0
+  let j = 0
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      lines.push(`  ${a[i]}`)
+      i++
+      j++
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      lines.push(`- ${a[i]}`)
+      i++
+    } else {
+      lines.push(`+ ${b[j]}`)
+      j++
+    }
+  }
+  while (i < a.length) {
+    lines.push(`- ${a[i++]}`)
+  }
+  while (j < b.length) {
+    lines.push(`+ ${b[j++]}`)
+  }
+
+  return lines.join('\n')
+}
@@ -0,0 +1,72 @@
+import { MessageCursor, ValidationError } from '../types/index.js'
+
+/**
+ * SQL ranking a priority column so that CRITICAL sorts first
+ */
+export function priorityRankSql(column: string): string {
+  return `CASE ${column} WHEN 'CRITICAL' THEN 1 WHEN 'H' THEN 2 WHEN 'M' THEN 3 WHEN 'L' THEN 4 END`
+}
+
+/**
+ * SQL condition keeping only rows after a cursor, for queries ordered by priority rank,
+ * then created_at and id descending. Takes the cursor as $after_rank, $after_created_at and
+ * $after_id, all NULL for the first page. Rows inserted after the cursor was issued sort
+ * before it within their priority, so later pages never repeat or skip a row.
+ */
+export function afterCursorSql(priority: string, createdAt: string, id: string): string {
+  const rank = priorityRankSql(priority)
+  return `($after_id IS NULL
+    OR ${rank} > $after_rank
+    OR (${rank} = $after_rank AND (${createdAt} < $after_created_at
+      OR (${createdAt} = $after_created_at AND ${id} < $after_id))))`
+}
+
+/**
+ * Named parameters for afterCursorSql
+ */
+export function cursorParams(cursor?: MessageCursor): {
+  after_rank: number | null
+  after_created_at: string | null
+  after_id: string | null
+} {
+  return {
+    after_rank: cursor?.rank ?? null,
+    after_created_at: cursor?.created_at ?? null,
+    after_id: cursor?.id ?? null,
+  }
+}
+
+/**
+ * The cursor pointing just past a message row
+ */
+export function cursorAfter(row: { priority: string; created_at: string; id: string }): string {
+  const rank = ['CRITICAL', 'H', 'M', 'L'].indexOf(row.priority) + 1
+  return encodeCursor({ rank, created_at: row.created_at, id: row.id })
+}
+
+/**
+ * Cursors are opaque to callers: base64url-encoded JSON
+ */
+export function encodeCursor(cursor: MessageCursor): string {
+  return Buffer.from(JSON.stringify([cursor.rank, cursor.created_at, cursor.id])).toString(
+    'base64url'
+  )
+}
+
+export function decodeCursor(cursor: string): MessageCursor {
+  try {
+    const [rank, createdAt, id] = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf-8'))
+    if (
+      Number.isInteger(rank) &&
+      typeof createdAt === 'string' &&
+      typeof id === 'string' &&
+      !isNaN(Date.parse(createdAt))
+    ) {
+      return { rank, created_at: createdAt, id }
+    }
+  } catch {
+    // Reported below
+  }
+
+  throw new ValidationError(`Invalid cursor: ${cursor}`)
+}
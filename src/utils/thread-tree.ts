@@ -0,0 +1,38 @@
+import type { CoordinationMessage } from '../types/index.js'
+
+export interface ThreadTreeEntry {
+  message: CoordinationMessage
+  depth: number // 0 for messages that don't reply to anything in the list
+}
+
+/**
+ * Order a thread's messages as a reply tree: every message is followed by its replies,
+ * keeping the input order among siblings. Replies whose parent is not in the list
+ * (e.g. hidden or compacted) are treated as roots.
+ */
+export function buildThreadTree(messages: CoordinationMessage[]): ThreadTreeEntry[] {
+  const ids = new Set(messages.map(message => message.id))
+  const roots: CoordinationMessage[] = []
+  const replies = new Map<string, CoordinationMessage[]>()
+
+  for (const message of messages) {
+    if (message.in_reply_to && ids.has(message.in_reply_to)) {
+      replies.set(message.in_reply_to, [...(replies.get(message.in_reply_to) ?? []), message])
+    } else {
+      roots.push(message)
+    }
+  }
+
+  const entries: ThreadTreeEntry[] = []
+  const visit = (message: CoordinationMessage, depth: number) => {
+    entries.push({ message, depth })
+    for (const reply of replies.get(message.id) ?? []) {
+      visit(reply, depth + 1)
+    }
+  }
+  for (const root of roots) {
+    visit(root, 0)
+  }
+
+  return entries
+}
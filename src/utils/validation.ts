@@ -59,6 +59,14 @@ export function validateParticipantId(id: string): void {
   }
 }
 
+/**
+ * Whether a recipient is a group expression (@all, cap:<capability> or group:<name>)
+ * rather than a single participant
+ */
+export function isGroupRecipient(recipient: string): boolean {
+  return recipient === '@all' || recipient.startsWith('cap:') || recipient.startsWith('group:')
+}
+
 /**
  * Validates message ID format (e.g., "CONTRACT-md4kl2p-ABC", "ARCH-lg8q9r-XYZ")
  */